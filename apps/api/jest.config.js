@@ -12,6 +12,10 @@ module.exports = {
     '!src/**/*.d.ts',
     '!src/index.ts',
   ],
+  // Tests run against the shared package's source, not its last build
+  moduleNameMapper: {
+    '^@coffee-brewster/brew-math$': '<rootDir>/../../packages/brew-math/src',
+  },
   setupFilesAfterEnv: ['<rootDir>/src/test/setup.ts'],
   setupFiles: ['<rootDir>/src/test/env.ts'],
 };
\ No newline at end of file
@@ -14,6 +14,12 @@ const METHOD_PRESETS = [
       grind: 'Medium-fine',
       tempC: 94,
       filter: 'V60 paper',
+      schedule: {
+        steps: [
+          { label: 'First pour', atSec: 45, share: 0.55 },
+          { label: 'Second pour', atSec: 105, share: 0.45 },
+        ],
+      },
       tips: [
         'Rinse filter to preheat and remove paper taste.',
         'Swirl after each pour to level the bed.',
@@ -32,6 +38,13 @@ const METHOD_PRESETS = [
       grind: 'Medium-coarse',
       tempC: 94,
       filter: 'Chemex paper',
+      schedule: {
+        steps: [
+          { label: 'First pour', atSec: 45, share: 0.4 },
+          { label: 'Second pour', atSec: 105, share: 0.3 },
+          { label: 'Third pour', atSec: 165, share: 0.3 },
+        ],
+      },
       tips: [
         'Use Chemex-specific filters for best results.',
         'Pour slowly to maintain proper extraction time.',
@@ -50,6 +63,9 @@ const METHOD_PRESETS = [
       grind: 'Medium',
       tempC: 85,
       filter: 'Paper or metal',
+      schedule: {
+        steps: [{ label: 'Fill & steep', atSec: 45, share: 1 }],
+      },
       tips: [
         'Lower temperature for paper filter, higher for metal.',
         'Steep for 1-2 minutes before pressing.',
@@ -68,6 +84,9 @@ const METHOD_PRESETS = [
       grind: 'Coarse',
       tempC: 95,
       filter: 'Metal mesh',
+      schedule: {
+        steps: [{ label: 'Fill', atSec: 0, share: 1 }],
+      },
       tips: [
         'Use coarse grind to avoid over-extraction.',
         'Steep for 4 minutes for optimal extraction.',
@@ -86,6 +105,9 @@ const METHOD_PRESETS = [
       grind: 'Fine-medium',
       tempC: 98,
       filter: 'Basket',
+      schedule: {
+        steps: [{ label: 'Assemble & heat', atSec: 0, share: 1 }],
+      },
       tips: [
         'Fill water chamber to just below safety valve.',
         'Use medium heat to avoid burning.',
@@ -93,20 +115,71 @@ const METHOD_PRESETS = [
       ],
     },
   },
+  {
+    key: 'cold_brew',
+    name: 'Cold Brew',
+    kind: 'COLD_BREW' as const,
+    defaultRatio: 10,
+    bloom: false,
+    pours: 0,
+    notes: 'Long, cold immersion brewed as a concentrate and diluted to taste',
+    presets: {
+      grind: 'Extra coarse',
+      tempC: 20,
+      filter: 'Paper or cloth',
+      coldBrew: { steepHours: 16, concentrateRatio: 5 },
+      schedule: {
+        steps: [{ label: 'Add water & start steep', atSec: 0, share: 1 }],
+      },
+      tips: [
+        'Steep at room temperature, or in the fridge and add a few hours.',
+        'Stir once after adding water so all grounds are wet.',
+        'Filter twice for a cleaner, less silty concentrate.',
+      ],
+    },
+  },
+  {
+    key: 'espresso',
+    name: 'Espresso',
+    kind: 'ESPRESSO' as const,
+    defaultRatio: 2,
+    bloom: false,
+    pours: 0,
+    notes: 'Pressure brewed shot, dialed in by dose, beverage weight and time',
+    presets: {
+      grind: 'Fine',
+      tempC: 93,
+      filter: 'Double basket',
+      espresso: {
+        shotTimeMinSec: 25,
+        shotTimeMaxSec: 32,
+        preinfusionSec: 5,
+        pressureBar: 9,
+      },
+      schedule: {
+        steps: [{ label: 'Pull shot', atSec: 0, share: 1 }],
+      },
+      tips: [
+        'Weigh the beverage out, not the volume; crema makes volume unreliable.',
+        'Shot running fast? Grind finer. Running slow? Grind coarser.',
+        'Change one variable at a time while dialing in.',
+      ],
+    },
+  },
 ];
 
 async function main() {
   console.log('Start seeding...');
 
-  // Clean existing data
-  await prisma.brewMethod.deleteMany();
-
-  // Seed brew methods
+  // Seed brew methods; existing rows keep their IDs so the sessions and
+  // recipes pointing at them survive a re-run
   for (const method of METHOD_PRESETS) {
-    await prisma.brewMethod.create({
-      data: method,
+    await prisma.brewMethod.upsert({
+      where: { key: method.key },
+      update: method,
+      create: method,
     });
-    console.log(`Created brew method: ${method.name}`);
+    console.log(`Seeded brew method: ${method.name}`);
   }
 
   console.log('Seeding finished.');
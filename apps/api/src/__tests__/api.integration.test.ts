@@ -1,6 +1,7 @@
 import request from 'supertest';
 import { app } from '../server';
 import { prisma } from '../lib/prisma';
+import { zipOf } from '../test/zip';
 
 describe('API Integration Tests', () => {
   let authToken: string;
@@ -10,6 +11,9 @@ describe('API Integration Tests', () => {
   beforeAll(async () => {
     // Clean up any existing test data
     await prisma.brewSession.deleteMany({});
+    await prisma.recipe.deleteMany({});
+    await prisma.grinder.deleteMany({});
+    await prisma.waterProfile.deleteMany({});
     await prisma.settings.deleteMany({});
     await prisma.user.deleteMany({});
     
@@ -28,7 +32,13 @@ describe('API Integration Tests', () => {
               grind: 'Medium-fine',
               tempC: 94,
               filter: 'V60 paper',
-              tips: ['Rinse filter', 'Swirl after each pour']
+              tips: ['Rinse filter', 'Swirl after each pour'],
+              schedule: {
+                steps: [
+                  { label: 'First pour', atSec: 45, share: 0.55 },
+                  { label: 'Second pour', atSec: 105, share: 0.45 },
+                ],
+              },
             }
           },
           {
@@ -42,6 +52,28 @@ describe('API Integration Tests', () => {
               tempC: 94,
               filter: 'Chemex paper'
             }
+          },
+          {
+            key: 'cold_brew',
+            name: 'Cold Brew',
+            kind: 'COLD_BREW',
+            defaultRatio: 10,
+            bloom: false,
+            pours: 0,
+            presets: {
+              coldBrew: { steepHours: 16, concentrateRatio: 5 },
+            }
+          },
+          {
+            key: 'espresso',
+            name: 'Espresso',
+            kind: 'ESPRESSO',
+            defaultRatio: 2,
+            bloom: false,
+            pours: 0,
+            presets: {
+              espresso: { shotTimeMinSec: 25, shotTimeMaxSec: 32 },
+            }
           }
         ]
       });
@@ -51,6 +83,9 @@ describe('API Integration Tests', () => {
   afterAll(async () => {
     // Clean up test data
     await prisma.brewSession.deleteMany({});
+    await prisma.recipe.deleteMany({});
+    await prisma.grinder.deleteMany({});
+    await prisma.waterProfile.deleteMany({});
     await prisma.settings.deleteMany({});
     await prisma.user.deleteMany({});
     await prisma.$disconnect();
@@ -164,6 +199,7 @@ describe('API Integration Tests', () => {
         tempUnit: 'C',
         recommend: true,
         cupSizeMl: 240,
+        altitudeM: 0,
       });
     });
 
@@ -176,6 +212,7 @@ describe('API Integration Tests', () => {
           tempUnit: 'F',
           recommend: false,
           cupSizeMl: 300,
+          altitudeM: 2400,
         })
         .expect(200);
 
@@ -185,6 +222,7 @@ describe('API Integration Tests', () => {
         tempUnit: 'F',
         recommend: false,
         cupSizeMl: 300,
+        altitudeM: 2400,
       });
     });
   });
@@ -231,6 +269,137 @@ describe('API Integration Tests', () => {
     });
   });
 
+  describe('Custom Methods Endpoints', () => {
+    let customMethodId: string;
+    let customMethodKey: string;
+
+    it('should create a custom method', async () => {
+      const response = await request(app)
+        .post('/api/methods')
+        .set('Cookie', `access_token=${authToken}`)
+        .send({
+          name: 'Kalita Wave',
+          defaultRatio: 16,
+          bloom: true,
+          pours: 3,
+          tempC: 93,
+          grind: 'Medium',
+        })
+        .expect(201);
+
+      expect(response.body.method).toMatchObject({
+        name: 'Kalita Wave',
+        isCustom: true,
+      });
+      expect(response.body.method.schedule.steps).toHaveLength(3);
+
+      customMethodId = response.body.method.id;
+      customMethodKey = response.body.method.key;
+    });
+
+    it('should list custom methods next to global ones', async () => {
+      const response = await request(app)
+        .get('/api/methods')
+        .set('Cookie', `access_token=${authToken}`)
+        .expect(200);
+
+      const keys = response.body.methods.map((m: any) => m.key);
+      expect(keys).toEqual(expect.arrayContaining(['v60', customMethodKey]));
+    });
+
+    it('should hide custom methods from anonymous users', async () => {
+      const response = await request(app).get('/api/methods').expect(200);
+
+      const keys = response.body.methods.map((m: any) => m.key);
+      expect(keys).not.toContain(customMethodKey);
+    });
+
+    it('should plan a brew with a custom method', async () => {
+      const response = await request(app)
+        .post('/api/reverse')
+        .set('Cookie', `access_token=${authToken}`)
+        .send({ methodKey: customMethodKey, cups: 1 })
+        .expect(200);
+
+      expect(response.body.recipe.pours).toHaveLength(4); // bloom + 3 pours
+    });
+
+    it('should update a custom method', async () => {
+      const response = await request(app)
+        .put(`/api/methods/${customMethodId}`)
+        .set('Cookie', `access_token=${authToken}`)
+        .send({ defaultRatio: 15, pours: 2 })
+        .expect(200);
+
+      expect(response.body.method.defaultRatio).toBe(15);
+      expect(response.body.method.schedule.steps).toHaveLength(2);
+    });
+
+    it('should reject pour shares that add up to more than the water', async () => {
+      await request(app)
+        .put(`/api/methods/${customMethodId}`)
+        .set('Cookie', `access_token=${authToken}`)
+        .send({
+          schedule: {
+            steps: [
+              { label: 'First pour', atSec: 45, share: 0.6 },
+              { label: 'Second pour', atSec: 105, share: 0.6 },
+              { label: 'Third pour', atSec: 165, share: 0.6 },
+            ],
+          },
+        })
+        .expect(400);
+    });
+
+    it('should not update global methods', async () => {
+      const v60 = await prisma.brewMethod.findUnique({ where: { key: 'v60' } });
+
+      await request(app)
+        .put(`/api/methods/${v60!.id}`)
+        .set('Cookie', `access_token=${authToken}`)
+        .send({ defaultRatio: 10 })
+        .expect(404);
+    });
+
+    it('should not delete a custom method with saved recipes', async () => {
+      const recipe = await request(app)
+        .post('/api/recipes')
+        .set('Cookie', `access_token=${authToken}`)
+        .send({
+          name: 'Kalita 1:15',
+          methodId: customMethodId,
+          ratio: 15,
+          coffeeGrams: 20,
+          waterMl: 340,
+          yieldMl: 300,
+          pours: [{ atSec: 0, volumeMl: 340, label: 'Fill' }],
+        })
+        .expect(201);
+
+      await request(app)
+        .delete(`/api/methods/${customMethodId}`)
+        .set('Cookie', `access_token=${authToken}`)
+        .expect(409);
+
+      await request(app)
+        .delete(`/api/recipes/${recipe.body.recipe.id}`)
+        .set('Cookie', `access_token=${authToken}`)
+        .expect(200);
+    });
+
+    it('should delete a custom method', async () => {
+      await request(app)
+        .delete(`/api/methods/${customMethodId}`)
+        .set('Cookie', `access_token=${authToken}`)
+        .expect(200);
+
+      await request(app)
+        .get(`/api/methods/${customMethodKey}`)
+        .set('Cookie', `access_token=${authToken}`)
+        .expect(404);
+    });
+  });
+
   describe('Reverse Brew Endpoints', () => {
     it('should calculate reverse brew recipe', async () => {
       const response = await request(app)
@@ -256,6 +425,14 @@ describe('API Integration Tests', () => {
           }),
         ]),
       });
+      expect(
+        response.body.recipe.pours.map((p: any) => p.label)
+      ).toEqual(['Bloom', 'First pour', 'Second pour']);
+
+      // Every pour has a window ending with the scale at its running total
+      const { pours, waterTotalMl } = response.body.recipe;
+      expect(pours[0].endSec).toBeGreaterThan(pours[0].atSec);
+      expect(pours[pours.length - 1].targetCumulativeMl).toBe(waterTotalMl);
     });
 
     it('should calculate with custom target yield', async () => {
@@ -272,6 +449,188 @@ describe('API Integration Tests', () => {
       expect(response.body.recipe.yieldTargetMl).toBe(400);
     });
 
+    it('should plan from a coffee dose', async () => {
+      const response = await request(app)
+        .post('/api/reverse')
+        .set('Cookie', `access_token=${authToken}`)
+        .send({
+          methodKey: 'v60',
+          coffeeGrams: 17,
+          ratio: 16,
+        })
+        .expect(200);
+
+      expect(response.body.recipe.coffeeGrams).toBe(17);
+      expect(response.body.recipe.yieldTargetMl).toBe(272);
+    });
+
+    it('should reject a dose together with a target yield', async () => {
+      await request(app)
+        .post('/api/reverse')
+        .set('Cookie', `access_token=${authToken}`)
+        .send({
+          methodKey: 'v60',
+          coffeeGrams: 17,
+          targetYieldMl: 300,
+        })
+        .expect(400);
+    });
+
+    it('should split brew and bypass water', async () => {
+      const response = await request(app)
+        .post('/api/reverse')
+        .set('Cookie', `access_token=${authToken}`)
+        .send({
+          methodKey: 'v60',
+          cups: 2,
+          targetYieldMl: 500,
+          bypassPercent: 20,
+        })
+        .expect(200);
+
+      const { brewWaterMl, bypassMl, waterTotalMl } = response.body.recipe;
+      expect(bypassMl).toBe(100);
+      expect(brewWaterMl + bypassMl).toBe(waterTotalMl);
+    });
+
+    it('should adjust the plan for roast level and bean age', async () => {
+      const response = await request(app)
+        .post('/api/reverse')
+        .set('Cookie', `access_token=${authToken}`)
+        .send({
+          methodKey: 'v60',
+          cups: 1,
+          roastLevel: 'light',
+          roastDate: new Date().toISOString().slice(0, 10),
+        })
+        .expect(200);
+
+      const kinds = response.body.recipe.adjustments.map(
+        (adjustment: { kind: string }) => adjustment.kind
+      );
+      expect(kinds).toContain('bloom');
+      expect(response.body.recipe.pours[1].atSec).toBeGreaterThan(45);
+    });
+
+    it('should reject malformed roast dates', async () => {
+      await request(app)
+        .post('/api/reverse')
+        .set('Cookie', `access_token=${authToken}`)
+        .send({
+          methodKey: 'v60',
+          cups: 1,
+          roastDate: 'last week',
+        })
+        .expect(400);
+    });
+
+    it('should reject bypass for cold brew', async () => {
+      await request(app)
+        .post('/api/reverse')
+        .set('Cookie', `access_token=${authToken}`)
+        .send({
+          methodKey: 'cold_brew',
+          cups: 2,
+          bypassMl: 100,
+        })
+        .expect(400);
+    });
+
+    it('should plan a cold brew concentrate and dilution', async () => {
+      const response = await request(app)
+        .post('/api/reverse')
+        .set('Cookie', `access_token=${authToken}`)
+        .send({
+          methodKey: 'cold_brew',
+          cups: 2,
+          targetYieldMl: 500,
+        })
+        .expect(200);
+
+      expect(response.body.recipe.coldBrew).toMatchObject({
+        steepHours: 16,
+        concentrateMl: 250,
+        dilutionMl: 250,
+      });
+    });
+
+    it('should refuse ice for cold brew and espresso', async () => {
+      for (const methodKey of ['cold_brew', 'espresso']) {
+        const response = await request(app)
+          .post('/api/reverse')
+          .set('Cookie', `access_token=${authToken}`)
+          .send({ methodKey, cups: 1, iced: true })
+          .expect(400);
+
+        expect(response.body.message).toBe('Iced brewing is not available for this method');
+      }
+    });
+
+    it('should dose espresso from a target beverage weight', async () => {
+      const response = await request(app)
+        .post('/api/reverse')
+        .set('Cookie', `access_token=${authToken}`)
+        .send({
+          methodKey: 'espresso',
+          cups: 1,
+          targetBeverageGrams: 40,
+        })
+        .expect(200);
+
+      expect(response.body.recipe.coffeeGrams).toBe(20);
+      expect(response.body.recipe.espresso).toMatchObject({
+        shotTimeMinSec: 25,
+        shotTimeMaxSec: 32,
+        beverageGrams: 40,
+      });
+    });
+
+    it('should reject espresso ratios for filter methods', async () => {
+      await request(app)
+        .post('/api/reverse')
+        .set('Cookie', `access_token=${authToken}`)
+        .send({
+          methodKey: 'v60',
+          cups: 2,
+          ratio: 2,
+        })
+        .expect(400);
+    });
+
+    it('should plan pours with a named recipe variant', async () => {
+      const response = await request(app)
+        .post('/api/reverse')
+        .set('Cookie', `access_token=${authToken}`)
+        .send({
+          methodKey: 'v60',
+          cups: 2,
+          recipeVariant: 'tetsu_4_6',
+          sweetness: 'sweet',
+          strength: 'strong',
+        })
+        .expect(200);
+
+      const { pours, waterTotalMl } = response.body.recipe;
+      expect(pours).toHaveLength(5);
+      expect(pours[0].label).toBe('Sweetness pour 1');
+      expect(pours[0].volumeMl).toBeLessThan(pours[1].volumeMl);
+      expect(
+        pours.reduce((sum: number, p: any) => sum + p.volumeMl, 0)
+      ).toBe(waterTotalMl);
+    });
+
+    it('should reject unknown recipe variants', async () => {
+      await request(app)
+        .post('/api/reverse')
+        .set('Cookie', `access_token=${authToken}`)
+        .send({
+          methodKey: 'v60',
+          cups: 2,
+          recipeVariant: 'not_a_recipe',
+        })
+        .expect(400);
+    });
+
     it('should validate input parameters', async () => {
       await request(app)
         .post('/api/reverse')
@@ -282,6 +641,79 @@ describe('API Integration Tests', () => {
         })
         .expect(400);
     });
+
+    it('should split a large order across several brews', async () => {
+      const response = await request(app)
+        .post('/api/reverse/batch')
+        .set('Cookie', `access_token=${authToken}`)
+        .send({ methodKey: 'v60', targetYieldMl: 2000 })
+        .expect(200);
+
+      const { batch } = response.body;
+      expect(batch.capacityMl).toBe(700);
+      expect(batch.brews).toHaveLength(3);
+      expect(
+        batch.brews.reduce((sum: number, b: any) => sum + b.yieldTargetMl, 0)
+      ).toBe(2000);
+      // The Chemex holds the order in two brews
+      expect(batch.suggestion).toMatchObject({
+        methodKey: 'chemex',
+        name: 'Chemex',
+        brews: 2,
+      });
+    });
+
+    it('should hold batch plans to the same ice and variant checks', async () => {
+      const iced = await request(app)
+        .post('/api/reverse/batch')
+        .set('Cookie', `access_token=${authToken}`)
+        .send({ methodKey: 'cold_brew', targetYieldMl: 6000, iced: true })
+        .expect(400);
+      expect(iced.body.message).toBe('Iced brewing is not available for this method');
+
+      await request(app)
+        .post('/api/reverse/batch')
+        .set('Cookie', `access_token=${authToken}`)
+        .send({ methodKey: 'chemex', targetYieldMl: 2000, recipeVariant: 'hoffmann_v60' })
+        .expect(400);
+    });
+
+    it('should require cups or a yield for a batch, not both', async () => {
+      await request(app)
+        .post('/api/reverse/batch')
+        .set('Cookie', `access_token=${authToken}`)
+        .send({ methodKey: 'v60', cups: 20, targetYieldMl: 4000 })
+        .expect(400);
+    });
+
+    it('should solve the ratio, dose and water for a target strength', async () => {
+      const response = await request(app)
+        .post('/api/reverse/strength')
+        .set('Cookie', `access_token=${authToken}`)
+        .send({
+          methodKey: 'v60',
+          targetTdsPercent: 1.35,
+          extractionYieldPercent: 20,
+          targetYieldMl: 300,
+        })
+        .expect(200);
+
+      expect(response.body.strength).toMatchObject({
+        ratio: 14.8,
+        coffeeGrams: 20.3,
+        yieldMl: 300,
+        waterMl: 341,
+      });
+    });
+
+    it('should reject a strength the method cannot brew', async () => {
+      // 5% TDS is espresso territory, far stronger than 1:8 on a V60
+      await request(app)
+        .post('/api/reverse/strength')
+        .set('Cookie', `access_token=${authToken}`)
+        .send({ methodKey: 'v60', targetTdsPercent: 5, cups: 1 })
+        .expect(400);
+    });
   });
 
   describe('Sessions Endpoints', () => {
@@ -369,35 +801,402 @@ describe('API Integration Tests', () => {
       expect(response.body.session.notes).toBe('Updated notes - excellent brew!');
     });
 
-    it('should search sessions', async () => {
+    it('should compute extraction yield from a TDS reading', async () => {
       const response = await request(app)
-        .get('/api/sessions?q=excellent')
+        .put(`/api/sessions/${sessionId}`)
         .set('Cookie', `access_token=${authToken}`)
+        .send({ tdsPercent: 1.35 })
         .expect(200);
 
-      expect(response.body.sessions.length).toBe(1);
+      // 30g dose, 400ml yield at 1.35% TDS
+      expect(response.body.session.tdsPercent).toBe(1.35);
+      expect(response.body.session.extractionYield).toBe(18);
     });
 
-    it('should not access other users sessions', async () => {
-      // Create another user
+    it('should reject hour-scale durations outside cold brew', async () => {
       await request(app)
-        .post('/api/auth/register')
-        .send({
-          email: 'other@example.com',
-          password: 'testpass123',
-          displayName: 'Other User',
-        });
-
-      const loginResponse = await request(app)
-        .post('/api/auth/login')
-        .send({
-          email: 'other@example.com',
-          password: 'testpass123',
-        });
+        .put(`/api/sessions/${sessionId}`)
+        .set('Cookie', `access_token=${authToken}`)
+        .send({ durationSec: 16 * 3600 })
+        .expect(400);
+    });
 
-      const otherToken = loginResponse.headers['set-cookie'][0].split('=')[1].split(';')[0];
+    it('should accept hour-scale durations for cold brew', async () => {
+      const coldBrew = await prisma.brewMethod.findUnique({
+        where: { key: 'cold_brew' },
+      });
+
+      const response = await request(app)
+        .post('/api/sessions')
+        .set('Cookie', `access_token=${authToken}`)
+        .send({
+          methodId: coldBrew!.id,
+          durationSec: 16 * 3600,
+          coffeeGrams: 50,
+          waterMl: 350,
+          yieldMl: 500,
+          waterTempC: 20,
+        })
+        .expect(201);
+
+      expect(response.body.session.durationSec).toBe(16 * 3600);
+
+      await prisma.brewSession.delete({ where: { id: response.body.session.id } });
+    });
+
+    it('should keep the usual minimums for methods other than cold brew and espresso', async () => {
+      const response = await request(app)
+        .post('/api/sessions')
+        .set('Cookie', `access_token=${authToken}`)
+        .send({
+          methodId,
+          durationSec: 180,
+          coffeeGrams: 20,
+          waterMl: 320,
+          yieldMl: 280,
+          waterTempC: 5,
+        })
+        .expect(400);
+
+      expect(response.body.message).toBe('Water temperature must be at least 60°C for this method');
+    });
+
+    it('should log espresso shot time and output weight', async () => {
+      const espresso = await prisma.brewMethod.findUnique({
+        where: { key: 'espresso' },
+      });
+
+      const response = await request(app)
+        .post('/api/sessions')
+        .set('Cookie', `access_token=${authToken}`)
+        .send({
+          methodId: espresso!.id,
+          durationSec: 28,
+          coffeeGrams: 18,
+          waterMl: 54,
+          yieldMl: 36,
+          brewRatio: 2,
+          shotTimeSec: 28,
+          outputGrams: 38,
+          tdsPercent: 9.5,
+        })
+        .expect(201);
+
+      expect(response.body.session.shotTimeSec).toBe(28);
+      expect(response.body.session.outputGrams).toBe(38);
+      // 38g out at 9.5% TDS from an 18g dose
+      expect(response.body.session.extractionYield).toBe(20.06);
+
+      await prisma.brewSession.delete({ where: { id: response.body.session.id } });
+    });
+
+    it('should search sessions', async () => {
+      const response = await request(app)
+        .get('/api/sessions?q=excellent')
+        .set('Cookie', `access_token=${authToken}`)
+        .expect(200);
+
+      expect(response.body.sessions.length).toBe(1);
+    });
+
+    it('should rank bean matches above notes and highlight them', async () => {
+      const created = await request(app)
+        .post('/api/sessions')
+        .set('Cookie', `access_token=${authToken}`)
+        .send({
+          methodId,
+          durationSec: 240,
+          coffeeGrams: 20,
+          waterMl: 320,
+          yieldMl: 280,
+          notes: 'Tastes like the Ethiopian from last week',
+        })
+        .expect(201);
+
+      // Prefix match on the bean variety of the first session
+      const response = await request(app)
+        .get('/api/sessions?q=ethiop')
+        .set('Cookie', `access_token=${authToken}`)
+        .expect(200);
+
+      expect(response.body.pagination.total).toBe(2);
+      expect(response.body.sessions.map((s: any) => s.id)).toEqual([
+        sessionId,
+        created.body.session.id,
+      ]);
+      expect(response.body.sessions[0].method.name).toBeDefined();
+      expect(response.body.sessions[0].highlight).toContainEqual({
+        text: 'Ethiopian',
+        match: true,
+      });
+
+      await prisma.brewSession.delete({ where: { id: created.body.session.id } });
+    });
+
+    it('should filter and sort sessions on the server', async () => {
+      const created = await request(app)
+        .post('/api/sessions')
+        .set('Cookie', `access_token=${authToken}`)
+        .send({
+          methodId,
+          durationSec: 200,
+          coffeeGrams: 20,
+          waterMl: 340,
+          yieldMl: 300,
+          brewRatio: 16,
+          rating: 3,
+          bean: { roaster: 'Onyx', origin: 'Colombia' },
+        })
+        .expect(201);
+      const otherId = created.body.session.id;
+
+      const ids = async (query: string) => {
+        const response = await request(app)
+          .get(`/api/sessions?${query}`)
+          .set('Cookie', `access_token=${authToken}`)
+          .expect(200);
+        return response.body.sessions.map((s: any) => s.id);
+      };
+
+      expect(await ids('roaster=blue%20BOTTLE')).toEqual([sessionId]);
+      expect(await ids('origin=colom')).toEqual([otherId]);
+      expect(await ids('minRating=4')).toEqual([sessionId]);
+      expect(await ids('minRatio=15.5&maxRatio=17')).toEqual([otherId]);
+      expect(await ids('maxDurationSec=250')).toEqual([otherId]);
+      expect(await ids('dateFrom=2999-01-01')).toEqual([]);
+      expect(await ids('sort=coffee&order=asc')).toEqual([otherId, sessionId]);
+      expect(await ids('sort=rating')).toEqual([sessionId, otherId]);
 
-      // Try to access first user's session
+      await request(app)
+        .get('/api/sessions?minRating=4&maxRating=2')
+        .set('Cookie', `access_token=${authToken}`)
+        .expect(400);
+
+      await prisma.brewSession.delete({ where: { id: otherId } });
+    });
+
+    it('should page through sessions with a cursor', async () => {
+      const logSession = async () => {
+        const response = await request(app)
+          .post('/api/sessions')
+          .set('Cookie', `access_token=${authToken}`)
+          .send({
+            methodId,
+            durationSec: 180,
+            coffeeGrams: 15,
+            waterMl: 250,
+            yieldMl: 220,
+          })
+          .expect(201);
+        return response.body.session.id;
+      };
+      const created = [await logSession(), await logSession()];
+
+      const everything = await request(app)
+        .get('/api/sessions')
+        .set('Cookie', `access_token=${authToken}`)
+        .expect(200);
+      const expected = everything.body.sessions.map((s: any) => s.id);
+
+      const seen: string[] = [];
+      let cursor: string | null = null;
+      do {
+        const response: any = await request(app)
+          .get(`/api/sessions?limit=1${cursor ? `&cursor=${cursor}` : ''}`)
+          .set('Cookie', `access_token=${authToken}`)
+          .expect(200);
+        // Only the first page counts the matches
+        expect(response.body.pagination.total).toBe(
+          cursor ? null : expected.length
+        );
+        seen.push(...response.body.sessions.map((s: any) => s.id));
+        cursor = response.body.pagination.nextCursor;
+
+        // Newer sessions don't shift the pages still to come
+        if (seen.length === 1) {
+          created.push(await logSession());
+        }
+      } while (cursor);
+
+      expect(seen).toEqual(expected);
+
+      await request(app)
+        .get('/api/sessions?cursor=not-a-cursor')
+        .set('Cookie', `access_token=${authToken}`)
+        .expect(400);
+
+      await prisma.brewSession.deleteMany({ where: { id: { in: created } } });
+    });
+
+    it('should export filtered sessions as CSV', async () => {
+      const response = await request(app)
+        .get('/api/sessions/export?roaster=blue%20bottle')
+        .set('Cookie', `access_token=${authToken}`)
+        .expect('Content-Type', /text\/csv/)
+        .expect(200);
+
+      const lines = response.text.trimEnd().split('\r\n');
+      expect(lines).toHaveLength(2);
+      expect(lines[0]).toMatch(/^Date,Method,Duration \(s\),Coffee \(g\)/);
+      expect(lines[1]).toContain('Blue Bottle Coffee');
+    });
+
+    it('should dry-run and then import sessions from CSV', async () => {
+      const csv = [
+        'Method,Date,Duration,Coffee (g),Water (ml),Yield (ml),Notes',
+        'Hario V60,2022-11-05,3:10,18,300,270,Imported gesha',
+        'Mystery brewer,2022-11-06,3:00,18,300,270,Imported unknown',
+      ].join('\n');
+
+      const dryRun = await request(app)
+        .post('/api/sessions/import')
+        .set('Cookie', `access_token=${authToken}`)
+        .send({ csv })
+        .expect(200);
+
+      expect(dryRun.body.import).toMatchObject({
+        dryRun: true,
+        mapping: { method: 'Method', coffeeGrams: 'Coffee (g)' },
+        total: 2,
+        valid: 1,
+        imported: 0,
+        errors: [
+          {
+            row: 3,
+            field: 'method',
+            message: 'No brew method called "Mystery brewer"',
+          },
+        ],
+      });
+      expect(
+        await prisma.brewSession.count({ where: { notes: { startsWith: 'Imported' } } })
+      ).toBe(0);
+
+      const committed = await request(app)
+        .post('/api/sessions/import')
+        .set('Cookie', `access_token=${authToken}`)
+        .send({ csv, mapping: dryRun.body.import.mapping, dryRun: false })
+        .expect(201);
+      expect(committed.body.import.imported).toBe(1);
+
+      // Imported sessions keep their date and are searchable straight away
+      const search = await request(app)
+        .get('/api/sessions?q=gesha')
+        .set('Cookie', `access_token=${authToken}`)
+        .expect(200);
+      expect(search.body.sessions).toHaveLength(1);
+      expect(search.body.sessions[0]).toMatchObject({
+        startedAt: '2022-11-05T00:00:00.000Z',
+        durationSec: 190,
+        brewRatio: 15,
+      });
+
+      await prisma.brewSession.deleteMany({
+        where: { notes: { startsWith: 'Imported' } },
+      });
+    });
+
+    it('should import a Beanconqueror export only once', async () => {
+      const file = zipOf({
+        'Beanconqueror.json': JSON.stringify({
+          BEANS: [{ name: 'Kochere', roaster: 'Tim Wendelboe', config: { uuid: 'b1' } }],
+          PREPARATION: [
+            { name: 'V60', type: 'V60', config: { uuid: 'p1' } },
+            { name: 'Siphon', type: 'CUSTOM_PREPARATION', config: { uuid: 'p2' } },
+          ],
+          BREWS: [
+            {
+              method_of_preparation: 'p1',
+              bean: 'b1',
+              grind_weight: 15,
+              brew_quantity: 250,
+              brew_time: 170,
+              note: 'Bq floral',
+              config: { uuid: 'r1', unix_timestamp: 1700000000 },
+            },
+            {
+              method_of_preparation: 'p2',
+              grind_weight: 20,
+              brew_quantity: 300,
+              brew_time: 150,
+              note: 'Bq siphon',
+              config: { uuid: 'r2', unix_timestamp: 1700000000 },
+            },
+          ],
+        }),
+      }).toString('base64');
+
+      const dryRun = await request(app)
+        .post('/api/sessions/import/beanconqueror')
+        .set('Cookie', `access_token=${authToken}`)
+        .send({ file })
+        .expect(200);
+      expect(dryRun.body.import).toMatchObject({
+        total: 2,
+        valid: 1,
+        alreadyImported: 0,
+        errors: [],
+      });
+      const siphon = dryRun.body.import.preparations.find(
+        (preparation: any) => preparation.id === 'p2'
+      );
+      expect(siphon).toMatchObject({ name: 'Siphon', brews: 1, methodId: null });
+
+      // The user picks a method for the preparation that didn't match
+      const methods = { p2: methodId };
+      const committed = await request(app)
+        .post('/api/sessions/import/beanconqueror')
+        .set('Cookie', `access_token=${authToken}`)
+        .send({ file, methods, dryRun: false })
+        .expect(201);
+      expect(committed.body.import.imported).toBe(2);
+
+      const again = await request(app)
+        .post('/api/sessions/import/beanconqueror')
+        .set('Cookie', `access_token=${authToken}`)
+        .send({ file, methods, dryRun: false })
+        .expect(201);
+      expect(again.body.import).toMatchObject({
+        valid: 0,
+        imported: 0,
+        alreadyImported: 2,
+      });
+
+      const search = await request(app)
+        .get('/api/sessions?q=wendelboe')
+        .set('Cookie', `access_token=${authToken}`)
+        .expect(200);
+      expect(search.body.sessions).toHaveLength(1);
+      expect(search.body.sessions[0]).toMatchObject({
+        notes: 'Bq floral',
+        bean: { name: 'Kochere', roaster: 'Tim Wendelboe' },
+      });
+
+      await prisma.brewSession.deleteMany({
+        where: { notes: { startsWith: 'Bq' } },
+      });
+    });
+
+    it('should not access other users sessions', async () => {
+      // Create another user
+      await request(app)
+        .post('/api/auth/register')
+        .send({
+          email: 'other@example.com',
+          password: 'testpass123',
+          displayName: 'Other User',
+        });
+
+      const loginResponse = await request(app)
+        .post('/api/auth/login')
+        .send({
+          email: 'other@example.com',
+          password: 'testpass123',
+        });
+
+      const otherToken = loginResponse.headers['set-cookie'][0].split('=')[1].split(';')[0];
+
+      // Try to access first user's session
       await request(app)
         .get(`/api/sessions/${sessionId}`)
         .set('Cookie', `access_token=${otherToken}`)
@@ -418,6 +1217,403 @@ describe('API Integration Tests', () => {
     });
   });
 
+  describe('Recipes Endpoints', () => {
+    let recipeId: string;
+
+    it('should save a recipe', async () => {
+      const response = await request(app)
+        .post('/api/recipes')
+        .set('Cookie', `access_token=${authToken}`)
+        .send({
+          name: 'Morning V60',
+          methodId,
+          ratio: 15,
+          coffeeGrams: 20,
+          waterMl: 340,
+          yieldMl: 300,
+          tempC: 94,
+          grind: 'Medium-fine',
+          pours: [
+            { atSec: 0, volumeMl: 40, label: 'Bloom' },
+            { atSec: 45, volumeMl: 165, label: 'First pour' },
+            { atSec: 105, volumeMl: 135, label: 'Second pour' },
+          ],
+        })
+        .expect(201);
+
+      expect(response.body.recipe).toMatchObject({
+        name: 'Morning V60',
+        method: { key: 'v60' },
+      });
+      recipeId = response.body.recipe.id;
+    });
+
+    it('should save a cold brew recipe steeped cold', async () => {
+      const coldBrew = await prisma.brewMethod.findUnique({
+        where: { key: 'cold_brew' },
+      });
+      const recipe = {
+        name: 'Fridge cold brew',
+        methodId: coldBrew!.id,
+        ratio: 10,
+        coffeeGrams: 100,
+        waterMl: 500,
+        yieldMl: 400,
+        tempC: 4,
+        pours: [{ atSec: 0, volumeMl: 500, label: 'Add water & start steep' }],
+      };
+
+      const response = await request(app)
+        .post('/api/recipes')
+        .set('Cookie', `access_token=${authToken}`)
+        .send(recipe)
+        .expect(201);
+      expect(response.body.recipe.tempC).toBe(4);
+
+      // Only cold brew goes below the usual 60°C
+      await request(app)
+        .post('/api/recipes')
+        .set('Cookie', `access_token=${authToken}`)
+        .send({ ...recipe, methodId, ratio: 15 })
+        .expect(400);
+
+      await request(app)
+        .delete(`/api/recipes/${response.body.recipe.id}`)
+        .set('Cookie', `access_token=${authToken}`)
+        .expect(200);
+    });
+
+    it('should list the user recipes', async () => {
+      const response = await request(app)
+        .get('/api/recipes')
+        .set('Cookie', `access_token=${authToken}`)
+        .expect(200);
+
+      expect(response.body.recipes).toHaveLength(1);
+      expect(response.body.recipes[0].pours).toHaveLength(3);
+    });
+
+    it('should update a recipe', async () => {
+      const response = await request(app)
+        .put(`/api/recipes/${recipeId}`)
+        .set('Cookie', `access_token=${authToken}`)
+        .send({ name: 'Weekend V60' })
+        .expect(200);
+
+      expect(response.body.recipe.name).toBe('Weekend V60');
+    });
+
+    it('should require authentication', async () => {
+      await request(app).get('/api/recipes').expect(401);
+    });
+
+    it('should delete a recipe', async () => {
+      await request(app)
+        .delete(`/api/recipes/${recipeId}`)
+        .set('Cookie', `access_token=${authToken}`)
+        .expect(200);
+
+      await request(app)
+        .get(`/api/recipes/${recipeId}`)
+        .set('Cookie', `access_token=${authToken}`)
+        .expect(404);
+    });
+  });
+
+  describe('Grinders Endpoints', () => {
+    let grinderId: string;
+
+    it('should create a grinder with grind ranges', async () => {
+      const response = await request(app)
+        .post('/api/grinders')
+        .set('Cookie', `access_token=${authToken}`)
+        .send({
+          name: 'Comandante',
+          scale: 'CLICKS',
+          ranges: { 'Medium-fine': { min: 22, max: 25 } },
+        })
+        .expect(201);
+
+      expect(response.body.grinder.name).toBe('Comandante');
+      grinderId = response.body.grinder.id;
+    });
+
+    it('should reject unknown grind levels', async () => {
+      await request(app)
+        .post('/api/grinders')
+        .set('Cookie', `access_token=${authToken}`)
+        .send({
+          name: 'Broken',
+          scale: 'CLICKS',
+          ranges: { 'Kinda fine': { min: 1, max: 2 } },
+        })
+        .expect(400);
+    });
+
+    it('should translate grind suggestions for the active grinder', async () => {
+      await request(app)
+        .put('/api/settings')
+        .set('Cookie', `access_token=${authToken}`)
+        .send({ activeGrinderId: grinderId, recommend: true })
+        .expect(200);
+
+      const response = await request(app)
+        .post('/api/reverse')
+        .set('Cookie', `access_token=${authToken}`)
+        .send({ methodKey: 'v60', cups: 1 })
+        .expect(200);
+
+      expect(response.body.recipe.grinderSetting).toMatchObject({
+        grinderId,
+        label: 'Comandante: 22–25 clicks',
+      });
+    });
+
+    it('should store a grind value against the grinder', async () => {
+      const response = await request(app)
+        .post('/api/sessions')
+        .set('Cookie', `access_token=${authToken}`)
+        .send({
+          methodId,
+          durationSec: 180,
+          coffeeGrams: 20,
+          waterMl: 340,
+          yieldMl: 300,
+          grinderId,
+          grindValue: 23,
+        })
+        .expect(201);
+
+      expect(response.body.session).toMatchObject({ grinderId, grindValue: 23 });
+    });
+
+    it('should reject a grind value without a grinder', async () => {
+      await request(app)
+        .post('/api/sessions')
+        .set('Cookie', `access_token=${authToken}`)
+        .send({
+          methodId,
+          durationSec: 180,
+          coffeeGrams: 20,
+          waterMl: 340,
+          yieldMl: 300,
+          grindValue: 23,
+        })
+        .expect(400);
+    });
+
+    it('should clear the active grinder when it is deleted', async () => {
+      await request(app)
+        .delete(`/api/grinders/${grinderId}`)
+        .set('Cookie', `access_token=${authToken}`)
+        .expect(200);
+
+      const response = await request(app)
+        .get('/api/settings')
+        .set('Cookie', `access_token=${authToken}`)
+        .expect(200);
+
+      expect(response.body.settings.activeGrinderId).toBeNull();
+    });
+  });
+
+  describe('Water Profiles Endpoints', () => {
+    let waterProfileId: string;
+    let waterSessionId: string;
+
+    it('should create a water profile with its mineral recipe', async () => {
+      const response = await request(app)
+        .post('/api/water-profiles')
+        .set('Cookie', `access_token=${authToken}`)
+        .send({ name: 'Soft brew water', ghPpm: 68, khPpm: 40 })
+        .expect(201);
+
+      expect(response.body.waterProfile).toMatchObject({
+        name: 'Soft brew water',
+        tdsPpm: null,
+        recipe: { epsomSaltGrams: 0.167, bakingSodaGrams: 0.067 },
+      });
+      waterProfileId = response.body.waterProfile.id;
+    });
+
+    it('should reject negative hardness', async () => {
+      await request(app)
+        .post('/api/water-profiles')
+        .set('Cookie', `access_token=${authToken}`)
+        .send({ name: 'Broken', ghPpm: -5, khPpm: 40 })
+        .expect(400);
+    });
+
+    it('should filter the logbook by the water used', async () => {
+      const created = await request(app)
+        .post('/api/sessions')
+        .set('Cookie', `access_token=${authToken}`)
+        .send({
+          methodId,
+          durationSec: 180,
+          coffeeGrams: 20,
+          waterMl: 340,
+          yieldMl: 300,
+          waterProfileId,
+        })
+        .expect(201);
+      waterSessionId = created.body.session.id;
+
+      const response = await request(app)
+        .get(`/api/sessions?waterProfileId=${waterProfileId}`)
+        .set('Cookie', `access_token=${authToken}`)
+        .expect(200);
+
+      expect(response.body.sessions).toHaveLength(1);
+      expect(response.body.sessions[0].id).toBe(waterSessionId);
+    });
+
+    it('should reject an unknown water profile', async () => {
+      await request(app)
+        .post('/api/sessions')
+        .set('Cookie', `access_token=${authToken}`)
+        .send({
+          methodId,
+          durationSec: 180,
+          coffeeGrams: 20,
+          waterMl: 340,
+          yieldMl: 300,
+          waterProfileId: 'not-a-profile',
+        })
+        .expect(400);
+    });
+
+    it('should keep sessions when their water profile is deleted', async () => {
+      await request(app)
+        .delete(`/api/water-profiles/${waterProfileId}`)
+        .set('Cookie', `access_token=${authToken}`)
+        .expect(200);
+
+      const response = await request(app)
+        .get(`/api/sessions/${waterSessionId}`)
+        .set('Cookie', `access_token=${authToken}`)
+        .expect(200);
+
+      expect(response.body.session.waterProfileId).toBeNull();
+    });
+  });
+
+  describe('Account Endpoints', () => {
+    it('should export the account and restore it by merging or replacing', async () => {
+      const exported = await request(app)
+        .get('/api/account/export')
+        .set('Cookie', `access_token=${authToken}`)
+        .expect(200);
+
+      const backup = exported.body;
+      const sessionCount = await prisma.brewSession.count({
+        where: { user: { email: backup.user.email } },
+      });
+      expect(exported.headers['content-disposition']).toContain('attachment');
+      expect(backup).toMatchObject({ format: 'coffee-brewster-account', version: 1 });
+      expect(backup.sessions).toHaveLength(sessionCount);
+      expect(backup.sessions[0]).toHaveProperty('methodKey');
+
+      // Everything in the backup is already in the logbook
+      const merged = await request(app)
+        .post('/api/account/restore')
+        .set('Cookie', `access_token=${authToken}`)
+        .send({ backup, mode: 'merge' })
+        .expect(200);
+      expect(merged.body.restore).toMatchObject({ restored: 0, skipped: sessionCount });
+
+      await request(app)
+        .delete(`/api/sessions/${backup.sessions[0].id}`)
+        .set('Cookie', `access_token=${authToken}`)
+        .expect(200);
+      await request(app)
+        .put('/api/settings')
+        .set('Cookie', `access_token=${authToken}`)
+        .send({ cupSizeMl: 500 })
+        .expect(200);
+
+      const replaced = await request(app)
+        .post('/api/account/restore')
+        .set('Cookie', `access_token=${authToken}`)
+        .send({ backup, mode: 'replace' })
+        .expect(200);
+      expect(replaced.body.restore.restored).toBe(sessionCount);
+
+      const settings = await request(app)
+        .get('/api/settings')
+        .set('Cookie', `access_token=${authToken}`)
+        .expect(200);
+      expect(settings.body.settings.cupSizeMl).toBe(backup.settings.cupSizeMl);
+    });
+
+    it('should refuse backups it cannot restore', async () => {
+      await request(app)
+        .post('/api/account/restore')
+        .set('Cookie', `access_token=${authToken}`)
+        .send({ backup: { format: 'coffee-brewster-account', version: 99 } })
+        .expect(400);
+
+      const exported = await request(app)
+        .get('/api/account/export')
+        .set('Cookie', `access_token=${authToken}`)
+        .expect(200);
+      const backup = {
+        ...exported.body,
+        sessions: [{ ...exported.body.sessions[0], methodKey: 'siphon' }],
+      };
+
+      const response = await request(app)
+        .post('/api/account/restore')
+        .set('Cookie', `access_token=${authToken}`)
+        .send({ backup, mode: 'replace' })
+        .expect(400);
+      expect(response.body.message).toContain('siphon');
+    });
+
+    it('should bring custom methods into another account once', async () => {
+      const created = await request(app)
+        .post('/api/methods')
+        .set('Cookie', `access_token=${authToken}`)
+        .send({ name: 'Origami', defaultRatio: 15, bloom: true, pours: 2 })
+        .expect(201);
+      const methodKey = created.body.method.key;
+
+      const exported = await request(app)
+        .get('/api/account/export')
+        .set('Cookie', `access_token=${authToken}`)
+        .expect(200);
+      expect(exported.body.methods).toContainEqual(
+        expect.objectContaining({ key: methodKey, name: 'Origami' })
+      );
+      const backup = {
+        ...exported.body,
+        sessions: exported.body.sessions.map((session: object) => ({ ...session, methodKey })),
+      };
+
+      const loginResponse = await request(app)
+        .post('/api/auth/login')
+        .send({ email: 'other@example.com', password: 'testpass123' })
+        .expect(200);
+      const otherToken = loginResponse.headers['set-cookie'][0].split('=')[1].split(';')[0];
+
+      // The second restore finds the sessions and the method from the first
+      for (const restored of [backup.sessions.length, 0]) {
+        const response = await request(app)
+          .post('/api/account/restore')
+          .set('Cookie', `access_token=${otherToken}`)
+          .send({ backup, mode: 'merge' })
+          .expect(200);
+        expect(response.body.restore.restored).toBe(restored);
+      }
+
+      const copies = await prisma.brewMethod.findMany({
+        where: { user: { email: 'other@example.com' }, name: 'Origami' },
+      });
+      expect(copies).toHaveLength(1);
+      expect(copies[0].key).not.toBe(methodKey);
+    });
+  });
+
   describe('Health Check', () => {
     it('should respond to health check', async () => {
       const response = await request(app)
@@ -2,6 +2,7 @@ import 'dotenv/config';
 import { app } from './server';
 import { env } from './config/env';
 import { prisma } from './lib/prisma';
+import { backfillSearchVectors } from './lib/sessionSearch';
 
 const startServer = async () => {
   try {
@@ -9,6 +10,12 @@ const startServer = async () => {
     await prisma.$connect();
     console.log('✅ Database connected successfully');
 
+    // Sessions logged before search existed, or written outside the API
+    const indexed = await backfillSearchVectors();
+    if (indexed > 0) {
+      console.log(`🔎 Indexed ${indexed} sessions for search`);
+    }
+
     // Start server
     const server = app.listen(env.PORT, () => {
       console.log(`🚀 Server running on http://localhost:${env.PORT}`);
@@ -0,0 +1,216 @@
+import {
+  parseAccountBackup,
+  restoreMethodIds,
+  RestoreTargets,
+  toAccountBackup,
+  toRestoredMethods,
+  toRestoredSessions,
+  toRestoredSettings,
+} from '../accountBackup';
+
+describe('accountBackup', () => {
+  const session = {
+    id: 'session-1',
+    userId: 'user-old',
+    methodId: 'method-old-v60',
+    method: { key: 'v60' },
+    startedAt: new Date('2024-01-02T08:00:00.000Z'),
+    durationSec: 180,
+    coffeeGrams: 15,
+    waterMl: 250,
+    bypassMl: null,
+    yieldMl: 220,
+    brewRatio: 14.7,
+    grindSetting: 'Medium-fine',
+    grinderId: 'grinder-1',
+    grindValue: 22,
+    waterTempC: 94,
+    waterProfileId: 'water-1',
+    rating: 4,
+    notes: 'Sweet',
+    tdsPercent: null,
+    extractionYield: null,
+    shotTimeSec: null,
+    outputGrams: null,
+    pours: [{ timestamp: 0, volumeMl: 50, label: 'Bloom' }],
+    bean: { roaster: 'Onyx' },
+    importId: null,
+  };
+
+  const method = {
+    key: 'switch_k3x9qa',
+    name: 'Switch',
+    kind: 'STANDARD' as const,
+    defaultRatio: 16,
+    bloom: true,
+    pours: 2,
+    notes: null,
+    presets: { tempC: 93 },
+    importId: null,
+  };
+
+  // Serialized and read back the way a downloaded file would be
+  const backup = JSON.parse(
+    JSON.stringify(
+      toAccountBackup({
+        user: {
+          email: 'brewer@example.com',
+          displayName: 'Brewer',
+          createdAt: new Date('2023-06-01T00:00:00.000Z'),
+        },
+        settings: {
+          units: 'METRIC',
+          tempUnit: 'C',
+          waterUnitPreference: 'ml',
+          recommend: true,
+          defaultMethodId: 'method-old-v60',
+          cupSizeMl: 240,
+          soundEnabled: false,
+          altitudeM: 1600,
+          activeGrinderId: 'grinder-1',
+        },
+        defaultMethodKey: 'v60',
+        methods: [method],
+        sessions: [session, { ...session, id: 'session-2', method }],
+      })
+    )
+  );
+
+  const targets: RestoreTargets = {
+    methodIds: new Map([['v60', 'method-new-v60']]),
+    grinderIds: new Set(),
+    waterProfileIds: new Set(['water-1']),
+  };
+
+  describe('parseAccountBackup', () => {
+    it('should read back what the export wrote', () => {
+      const parsed = parseAccountBackup(backup);
+
+      expect(parsed.user.displayName).toBe('Brewer');
+      expect(parsed.settings?.defaultMethodKey).toBe('v60');
+      expect(parsed.sessions[0]).toMatchObject({
+        methodKey: 'v60',
+        startedAt: session.startedAt,
+        bean: { roaster: 'Onyx' },
+      });
+      expect(parsed.sessions[0]).not.toHaveProperty('userId');
+      expect(parsed.methods).toEqual([method]);
+    });
+
+    it('should read backups made before methods were included', () => {
+      const older = { ...backup, methods: undefined };
+
+      expect(parseAccountBackup(older).methods).toEqual([]);
+    });
+
+    it('should refuse other documents and versions', () => {
+      expect(() => parseAccountBackup({ BREWS: [] })).toThrow(
+        'This is not a Coffee Brewster backup'
+      );
+      expect(() => parseAccountBackup({ ...backup, version: 2 })).toThrow(
+        'This backup (version 2) is newer than this server can restore'
+      );
+    });
+  });
+
+  describe('restoreMethodIds', () => {
+    it('should point custom methods at the account or an earlier copy', () => {
+      const { methods } = parseAccountBackup(backup);
+
+      expect(
+        restoreMethodIds(methods, [
+          { id: 'm-own', key: method.key, importId: null },
+        ]).get(method.key)
+      ).toBe('m-own');
+      expect(
+        restoreMethodIds(methods, [
+          { id: 'm-copy', key: 'switch_p2m7rt', importId: method.key },
+        ]).get(method.key)
+      ).toBe('m-copy');
+      expect(restoreMethodIds(methods, []).has(method.key)).toBe(false);
+    });
+  });
+
+  describe('toRestoredMethods', () => {
+    it('should copy the custom methods this server has nowhere to point', () => {
+      const [copy, ...others] = toRestoredMethods(
+        parseAccountBackup(backup),
+        targets.methodIds,
+        'user-new'
+      );
+
+      expect(others).toEqual([]);
+      expect(copy).toMatchObject({
+        name: 'Switch',
+        userId: 'user-new',
+        importId: method.key,
+        presets: { tempC: 93 },
+      });
+      expect(copy.key).toMatch(/^switch_/);
+      expect(copy.key).not.toBe(method.key);
+      expect(
+        toRestoredMethods(
+          parseAccountBackup(backup),
+          new Map([...targets.methodIds, [method.key, 'm-own']]),
+          'user-new'
+        )
+      ).toEqual([]);
+    });
+
+    it('should name the methods this server does not have', () => {
+      const parsed = parseAccountBackup(backup);
+
+      expect(() =>
+        toRestoredMethods(
+          {
+            ...parsed,
+            sessions: [
+              ...parsed.sessions,
+              { ...parsed.sessions[0], methodKey: 'siphon' },
+            ],
+          },
+          targets.methodIds,
+          'user-new'
+        )
+      ).toThrow('No brew method with key siphon on this server');
+    });
+  });
+
+  describe('toRestoredSessions', () => {
+    it('should remap methods by key and drop references to other accounts', () => {
+      const [restored] = toRestoredSessions(
+        parseAccountBackup(backup).sessions,
+        targets,
+        'user-new'
+      );
+
+      expect(restored).toMatchObject({
+        id: 'session-1',
+        userId: 'user-new',
+        methodId: 'method-new-v60',
+        grinderId: null,
+        grindValue: null,
+        waterProfileId: 'water-1',
+        grindSetting: 'Medium-fine',
+      });
+    });
+  });
+
+  describe('toRestoredSettings', () => {
+    it('should keep preferences and drop what no longer exists', () => {
+      expect(
+        toRestoredSettings(parseAccountBackup(backup).settings!, targets)
+      ).toEqual({
+        units: 'METRIC',
+        tempUnit: 'C',
+        waterUnitPreference: 'ml',
+        recommend: true,
+        cupSizeMl: 240,
+        soundEnabled: false,
+        altitudeM: 1600,
+        defaultMethodId: 'method-new-v60',
+        activeGrinderId: null,
+      });
+    });
+  });
+});
@@ -0,0 +1,150 @@
+import { planBatch, MAX_BATCH_BREWS } from '../batchPlanner';
+import { BrewMethod } from '@coffee-brewster/brew-math';
+
+describe('batchPlanner', () => {
+  const v60: BrewMethod = {
+    key: 'v60',
+    defaultRatio: 15,
+    bloom: true,
+    pours: 2,
+  };
+
+  const chemex: BrewMethod = {
+    key: 'chemex',
+    defaultRatio: 16,
+    bloom: true,
+    pours: 3,
+  };
+
+  const frenchPress: BrewMethod = {
+    key: 'french_press',
+    defaultRatio: 15,
+    bloom: false,
+    pours: 0,
+  };
+
+  const coldBrew: BrewMethod = {
+    key: 'cold_brew',
+    defaultRatio: 8,
+    bloom: false,
+    pours: 1,
+    kind: 'COLD_BREW',
+  };
+
+  it('should brew an order that fits in one go', () => {
+    const result = planBatch({ method: v60, cups: 2, cupSizeMl: 240 });
+
+    expect(result.totalYieldMl).toBe(480);
+    expect(result.capacityMl).toBe(700);
+    expect(result.brews).toHaveLength(1);
+    expect(result.brews[0].yieldTargetMl).toBe(480);
+    expect(result.suggestion).toBeNull();
+  });
+
+  it('should split a big order evenly across brews', () => {
+    const result = planBatch({
+      method: chemex,
+      targetYieldMl: 3000,
+      cupSizeMl: 240,
+    });
+
+    expect(result.brews.map((brew) => brew.yieldTargetMl)).toEqual([
+      1000, 1000, 1000,
+    ]);
+    expect(result.coffeeGrams).toBeCloseTo(200.1);
+    expect(result.waterTotalMl).toBe(
+      result.brews.reduce((sum, brew) => sum + brew.waterTotalMl, 0)
+    );
+    // Each brew is big enough to be scaled
+    expect(result.brews[0].grind).toBe('Coarse');
+  });
+
+  it('should give the rounding remainder to the last brew', () => {
+    const result = planBatch({
+      method: v60,
+      targetYieldMl: 1000,
+      cupSizeMl: 240,
+    });
+
+    expect(result.brews.map((brew) => brew.yieldTargetMl)).toEqual([500, 500]);
+
+    const uneven = planBatch({
+      method: v60,
+      targetYieldMl: 1001,
+      cupSizeMl: 240,
+    });
+    expect(uneven.brews.map((brew) => brew.yieldTargetMl)).toEqual([501, 500]);
+  });
+
+  it('should suggest a larger brewer of the same kind', () => {
+    const result = planBatch({
+      method: v60,
+      cups: 8,
+      cupSizeMl: 240,
+      alternatives: [v60, chemex, frenchPress, coldBrew],
+    });
+
+    expect(result.brews).toHaveLength(3);
+    // The Chemex and the press both need two brews; the smaller one wins
+    expect(result.suggestion).toEqual({
+      methodKey: 'french_press',
+      capacityMl: 1000,
+      brews: 2,
+    });
+  });
+
+  it('should not suggest a brewer that needs as many brews', () => {
+    const result = planBatch({
+      method: chemex,
+      targetYieldMl: 2000,
+      cupSizeMl: 240,
+      alternatives: [frenchPress],
+    });
+
+    expect(result.brews).toHaveLength(2);
+    expect(result.suggestion).toBeNull();
+  });
+
+  it('should carry ice, bypass and the recipe variant into every brew', () => {
+    const result = planBatch({
+      method: v60,
+      targetYieldMl: 1000,
+      cupSizeMl: 240,
+      iced: true,
+      bypassMl: 100,
+      variant: { key: 'tetsu_4_6', options: { strength: 'strong' } },
+      alternatives: [v60, frenchPress, chemex],
+    });
+
+    expect(result.brews).toHaveLength(2);
+    for (const brew of result.brews) {
+      expect(brew.iceGrams).toBeGreaterThan(0);
+      // The order's bypass is split between the brews
+      expect(brew.bypassMl).toBe(50);
+      expect(brew.pours.map((pour) => pour.label)).toContain('Strength pour 3');
+    }
+    // The press holds as much, but the 4:6 method is not written for it
+    expect(result.suggestion?.methodKey).toBe('chemex');
+  });
+
+  it('should brew custom methods without a capacity in one go', () => {
+    const result = planBatch({
+      method: { key: 'my_brewer', defaultRatio: 15, bloom: false, pours: 1 },
+      targetYieldMl: 5000,
+      cupSizeMl: 240,
+    });
+
+    expect(result.capacityMl).toBeNull();
+    expect(result.brews).toHaveLength(1);
+  });
+
+  it('should refuse orders that need too many brews', () => {
+    expect(() =>
+      planBatch({
+        method: { ...v60, capacityMl: 100 },
+        targetYieldMl: 100 * (MAX_BATCH_BREWS + 1),
+        cupSizeMl: 240,
+      })
+    ).toThrow('choose a larger brewer');
+  });
+});
@@ -0,0 +1,207 @@
+import {
+  planBeanconquerorImport,
+  readBeanconquerorExport,
+} from '../beanconqueror';
+import { ImportMethod } from '../sessionImport';
+import { zipOf } from '../../test/zip';
+
+describe('beanconqueror', () => {
+  const methods: ImportMethod[] = [
+    { id: 'm-v60', key: 'v60', name: 'Hario V60', kind: 'STANDARD' },
+    { id: 'm-espresso', key: 'espresso', name: 'Espresso', kind: 'ESPRESSO' },
+    { id: 'm-kalita', key: 'kalita', name: 'Kalita Wave', kind: 'STANDARD' },
+  ];
+
+  // 2024-03-01T07:30:00Z
+  const brewedAt = 1709278200;
+
+  const exported = {
+    BEANS: [
+      {
+        name: 'Guji Natural',
+        roaster: 'Onyx',
+        roastingDate: '2024-02-20T00:00:00.000Z',
+        bean_information: [
+          { country: 'Ethiopia', variety: 'Heirloom' },
+          { country: 'Ethiopia', variety: '' },
+        ],
+        config: { uuid: 'bean-1' },
+      },
+    ],
+    PREPARATION: [
+      { name: 'My V60', type: 'V60', config: { uuid: 'prep-v60' } },
+      { name: 'Lelit', type: 'PORTAFILTER', config: { uuid: 'prep-shot' } },
+      {
+        name: 'Kalita Wave',
+        type: 'CUSTOM_PREPARATION',
+        config: { uuid: 'prep-kalita' },
+      },
+      {
+        name: 'Siphon',
+        type: 'CUSTOM_PREPARATION',
+        config: { uuid: 'prep-x' },
+      },
+    ],
+    BREWS: [
+      {
+        method_of_preparation: 'prep-v60',
+        bean: 'bean-1',
+        grind_size: '22',
+        grind_weight: 15,
+        brew_quantity: 250,
+        brew_beverage_quantity: 0,
+        brew_time: 180,
+        temperature: 203,
+        rating: 8,
+        note: 'Juicy',
+        config: { uuid: 'brew-1', unix_timestamp: brewedAt },
+      },
+      {
+        method_of_preparation: 'prep-shot',
+        grind_weight: 18,
+        brew_beverage_quantity: 36,
+        brew_time: 28,
+        config: { uuid: 'brew-2', unix_timestamp: brewedAt },
+      },
+      {
+        method_of_preparation: 'prep-x',
+        grind_weight: 20,
+        brew_quantity: 300,
+        brew_time: 200,
+        config: { uuid: 'brew-3', unix_timestamp: brewedAt },
+      },
+      {
+        method_of_preparation: 'prep-kalita',
+        grind_weight: 15,
+        brew_quantity: 250,
+        config: { uuid: 'brew-4', unix_timestamp: brewedAt },
+      },
+    ],
+    SETTINGS: [{ brew_rating: 10 }],
+  };
+
+  describe('readBeanconquerorExport', () => {
+    it('should read the JSON on its own or inside the ZIP', () => {
+      const json = JSON.stringify(exported);
+
+      for (const file of [
+        Buffer.from(json),
+        zipOf({ 'Beanconqueror.json': json }),
+      ]) {
+        const data = readBeanconquerorExport(file);
+        expect(data.brews).toHaveLength(4);
+        expect(data.maxRating).toBe(10);
+      }
+    });
+
+    it('should gather collections split across numbered files', () => {
+      const zip = zipOf({
+        'Beanconqueror.json': JSON.stringify({ ...exported, BREWS: [] }),
+        'Beanconqueror_Brews_1.json': JSON.stringify(exported.BREWS),
+      });
+
+      expect(readBeanconquerorExport(zip).brews).toHaveLength(4);
+    });
+
+    it('should reject files that are not an export', () => {
+      expect(() =>
+        readBeanconquerorExport(Buffer.from('{"beans":[]}'))
+      ).toThrow('This is not a Beanconqueror export');
+      expect(() =>
+        readBeanconquerorExport(zipOf({ 'brews.csv': 'Method\n' }))
+      ).toThrow('The ZIP has no Beanconqueror.json');
+    });
+  });
+
+  describe('planBeanconquerorImport', () => {
+    const data = readBeanconquerorExport(Buffer.from(JSON.stringify(exported)));
+
+    it('should map brews and their beans onto sessions', () => {
+      const { rows } = planBeanconquerorImport({ data, methods });
+
+      expect(rows[0]).toEqual({
+        importId: 'beanconqueror:brew-1',
+        label: 'My V60 · 2024-03-01 · Guji Natural',
+        errors: [],
+        session: {
+          importId: 'beanconqueror:brew-1',
+          methodId: 'm-v60',
+          startedAt: new Date(brewedAt * 1000),
+          durationSec: 180,
+          coffeeGrams: 15,
+          waterMl: 250,
+          yieldMl: 220,
+          brewRatio: 14.7,
+          grindSetting: '22',
+          waterTempC: 95,
+          rating: 4,
+          notes: 'Juicy',
+          bean: {
+            name: 'Guji Natural',
+            roaster: 'Onyx',
+            roastDate: '2024-02-20',
+            origin: 'Ethiopia',
+            variety: 'Heirloom',
+          },
+        },
+      });
+      expect(rows[1].session).toMatchObject({
+        methodId: 'm-espresso',
+        coffeeGrams: 18,
+        waterMl: 54,
+        yieldMl: 36,
+        shotTimeSec: 28,
+        outputGrams: 36,
+        brewRatio: 2,
+      });
+    });
+
+    it('should match custom preparations by name and report the rest', () => {
+      const { preparations, rows } = planBeanconquerorImport({ data, methods });
+
+      expect(preparations.map(({ id, methodId }) => [id, methodId])).toEqual([
+        ['prep-v60', 'm-v60'],
+        ['prep-shot', 'm-espresso'],
+        ['prep-kalita', 'm-kalita'],
+        ['prep-x', null],
+      ]);
+      expect(preparations[3]).toMatchObject({ name: 'Siphon', brews: 1 });
+      expect(rows.map((row) => row.importId)).not.toContain(
+        'beanconqueror:brew-3'
+      );
+    });
+
+    it('should take the methods the user picked', () => {
+      const { rows } = planBeanconquerorImport({
+        data,
+        methods,
+        mapping: { 'prep-x': 'm-v60', 'prep-shot': '' },
+      });
+
+      expect(
+        rows.find((row) => row.importId === 'beanconqueror:brew-3')?.session
+      ).toMatchObject({ methodId: 'm-v60', coffeeGrams: 20 });
+      expect(rows.map((row) => row.importId)).not.toContain(
+        'beanconqueror:brew-2'
+      );
+      expect(() =>
+        planBeanconquerorImport({
+          data,
+          methods,
+          mapping: { 'prep-x': 'm-unknown' },
+        })
+      ).toThrow('Invalid method ID');
+    });
+
+    it('should report brews the logbook would not accept', () => {
+      const { rows } = planBeanconquerorImport({ data, methods });
+
+      // Logged without a brew time
+      expect(rows[2]).toMatchObject({
+        importId: 'beanconqueror:brew-4',
+        session: null,
+        errors: [{ field: 'durationSec', message: 'Required' }],
+      });
+    });
+  });
+});
@@ -0,0 +1,40 @@
+import { parseCsv, toCsvLine, unguardCsvCell } from '../csv';
+
+describe('csv', () => {
+  describe('toCsvLine', () => {
+    it('should quote commas, quotes and line breaks', () => {
+      expect(toCsvLine(['a,b', 'say "hi"', 'two\nlines', 3, null])).toBe(
+        '"a,b","say ""hi""","two\nlines",3,\r\n'
+      );
+    });
+
+    it('should keep text from running as a formula', () => {
+      expect(toCsvLine(['=SUM(A1:A2)', '+1', -1])).toBe(
+        "'=SUM(A1:A2),'+1,-1\r\n"
+      );
+      expect(unguardCsvCell("'=SUM(A1:A2)")).toBe('=SUM(A1:A2)');
+      expect(unguardCsvCell("'tis the season")).toBe("'tis the season");
+    });
+  });
+
+  describe('parseCsv', () => {
+    it('should read back what toCsvLine writes', () => {
+      const line = toCsvLine(['a,b', 'say "hi"', 'two\r\nlines', 3, null]);
+
+      expect(parseCsv(line + line)).toEqual([
+        { row: 1, cells: ['a,b', 'say "hi"', 'two\r\nlines', '3', ''] },
+        { row: 2, cells: ['a,b', 'say "hi"', 'two\r\nlines', '3', ''] },
+      ]);
+    });
+
+    it('should handle a byte order mark, bare newlines and blank lines', () => {
+      expect(
+        parseCsv('\uFEFFDate,Rating\n2024-01-01,4\n\n,\n2024-01-02,')
+      ).toEqual([
+        { row: 1, cells: ['Date', 'Rating'] },
+        { row: 2, cells: ['2024-01-01', '4'] },
+        { row: 5, cells: ['2024-01-02', ''] },
+      ]);
+    });
+  });
+});
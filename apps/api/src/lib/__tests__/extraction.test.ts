@@ -0,0 +1,19 @@
+import { calculateExtractionYield } from '../extraction';
+
+describe('extraction', () => {
+  describe('calculateExtractionYield', () => {
+    it('should derive extraction yield from dose, yield and TDS', () => {
+      // 20g dose, 300ml in the cup at 1.35% TDS → 20.25%
+      expect(calculateExtractionYield(20, 300, 1.35)).toBe(20.25);
+    });
+
+    it('should round to two decimals', () => {
+      expect(calculateExtractionYield(15, 250, 1.3)).toBe(21.67);
+    });
+
+    it('should handle espresso strength readings', () => {
+      // 18g in, 36g out at 10% TDS → 20%
+      expect(calculateExtractionYield(18, 36, 10)).toBe(20);
+    });
+  });
+});
@@ -0,0 +1,36 @@
+import { grinderSettingFor } from '../grinders';
+
+describe('grinders', () => {
+  const comandante = {
+    id: 'grinder-1',
+    name: 'Comandante',
+    scale: 'CLICKS' as const,
+    ranges: {
+      'Medium-fine': { min: 22, max: 25 },
+      Fine: { min: 8, max: 12 },
+    },
+  };
+
+  describe('grinderSettingFor', () => {
+    it('should translate a grind suggestion into the grinder range', () => {
+      expect(grinderSettingFor(comandante, 'Medium-fine')).toEqual({
+        grinderId: 'grinder-1',
+        level: 'Medium-fine',
+        min: 22,
+        max: 25,
+        label: 'Comandante: 22–25 clicks',
+      });
+    });
+
+    it('should return null for unmapped levels and free text', () => {
+      expect(grinderSettingFor(comandante, 'Coarse')).toBeNull();
+      expect(grinderSettingFor(comandante, 'Paper-thin')).toBeNull();
+    });
+
+    it('should ignore malformed stored ranges', () => {
+      expect(
+        grinderSettingFor({ ...comandante, ranges: 'oops' }, 'Fine')
+      ).toBeNull();
+    });
+  });
+});
@@ -0,0 +1,78 @@
+import { CsvSession, sessionCsvHeader, sessionCsvRow } from '../sessionCsv';
+
+describe('sessionCsv', () => {
+  const metric = { units: 'METRIC', tempUnit: 'C' } as const;
+  const imperial = { units: 'IMPERIAL', tempUnit: 'F' } as const;
+
+  const session = {
+    id: 'session-1',
+    startedAt: new Date('2024-03-01T08:30:00.000Z'),
+    durationSec: 210,
+    coffeeGrams: 20,
+    waterMl: 320,
+    bypassMl: null,
+    yieldMl: 280,
+    brewRatio: 16,
+    grindSetting: 'Medium-fine',
+    grindValue: 24,
+    waterTempC: 94,
+    rating: 4,
+    notes: 'Juicy "bright" finish',
+    tdsPercent: null,
+    extractionYield: null,
+    shotTimeSec: null,
+    outputGrams: null,
+    pours: [
+      { atSec: 0, volumeMl: 60, label: 'Bloom' },
+      { timestamp: 45, volumeMl: 260, label: 'Main pour' },
+    ],
+    bean: { roaster: 'Onyx', origin: 'Kenya' },
+    method: { name: 'Hario V60' },
+    grinder: { name: 'Comandante' },
+    waterProfile: null,
+  } as unknown as CsvSession;
+
+  describe('sessionCsvHeader', () => {
+    it('should label amounts in the user units with a column set per pour', () => {
+      const header = sessionCsvHeader(imperial, 2);
+
+      expect(header).toContain('Coffee (oz),Water (fl oz)');
+      expect(header).toContain('Water Temp (°F)');
+      expect(header.trimEnd().split(',').slice(-3)).toEqual([
+        'Pour 2 Time (s)',
+        'Pour 2 Water (fl oz)',
+        'Pour 2 Label',
+      ]);
+    });
+
+    it('should label water in grams for users who weigh it', () => {
+      expect(
+        sessionCsvHeader({ ...metric, waterUnitPreference: 'g' }, 0)
+      ).toContain('Water (g)');
+    });
+  });
+
+  describe('sessionCsvRow', () => {
+    it('should flatten the bean and pours into columns', () => {
+      const header = sessionCsvHeader(metric, 3).trimEnd().split(',');
+      const row = sessionCsvRow(session, metric, 3);
+      const cell = (name: string) => row.split(',')[header.indexOf(name)];
+
+      expect(cell('Date')).toBe('2024-03-01T08:30:00.000Z');
+      expect(cell('Roaster')).toBe('Onyx');
+      expect(cell('Origin')).toBe('Kenya');
+      expect(cell('Pour 2 Time (s)')).toBe('45');
+      expect(cell('Pour 2 Water (ml)')).toBe('260');
+      expect(cell('Pour 3 Label')).toBe('\r\n');
+      expect(cell('Notes')).toBe('"Juicy ""bright"" finish"');
+    });
+
+    it('should convert amounts to imperial units', () => {
+      const row = sessionCsvRow(session, imperial, 0);
+
+      // 20 g, 320 ml and 94 °C
+      expect(row).toContain('0.71,10.82,,9.47,16');
+      expect(row).toContain(',201,');
+    });
+  });
+});
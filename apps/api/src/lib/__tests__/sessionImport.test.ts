@@ -0,0 +1,204 @@
+import {
+  ImportMethod,
+  matchMethod,
+  planSessionImport,
+  suggestMapping,
+} from '../sessionImport';
+import { sessionCsvHeader } from '../sessionCsv';
+import { parseCsv } from '../csv';
+
+describe('sessionImport', () => {
+  const methods: ImportMethod[] = [
+    { id: 'm-v60', key: 'v60', name: 'Hario V60', kind: 'STANDARD' },
+    {
+      id: 'm-press',
+      key: 'french_press',
+      name: 'French Press',
+      kind: 'STANDARD',
+    },
+    { id: 'm-espresso', key: 'espresso', name: 'Espresso', kind: 'ESPRESSO' },
+  ];
+  const metric = { units: 'METRIC', tempUnit: 'C' } as const;
+
+  describe('suggestMapping', () => {
+    it('should map the logbook export back onto its fields', () => {
+      const [{ cells: headers }] = parseCsv(sessionCsvHeader(metric, 1));
+
+      expect(suggestMapping(headers)).toMatchObject({
+        method: 'Method',
+        startedAt: 'Date',
+        durationSec: 'Duration (s)',
+        coffeeGrams: 'Coffee (g)',
+        waterMl: 'Water (ml)',
+        yieldMl: 'Yield (ml)',
+        brewRatio: 'Ratio (1:x)',
+        waterTempC: 'Water Temp (°C)',
+        'bean.roaster': 'Roaster',
+        notes: 'Notes',
+      });
+    });
+  });
+
+  describe('matchMethod', () => {
+    it('should match method keys and names loosely', () => {
+      expect(matchMethod('V60', methods)?.id).toBe('m-v60');
+      expect(matchMethod('hario v60', methods)?.id).toBe('m-v60');
+      expect(matchMethod('French-Press', methods)?.id).toBe('m-press');
+      expect(matchMethod('Aeropress', methods)).toBeUndefined();
+    });
+  });
+
+  describe('planSessionImport', () => {
+    const csv = [
+      'Brewer,When,Time,Dose,Water,Yield,Temp,Roaster,Notes',
+      'French Press,2023-05-01,4:00,1.06,17,15.2,201,Onyx,"Heavy, sweet"',
+      'Aeropress,2023-05-02,2:00,0.6,8,7,200,,',
+      'V60,2023-05-03,soon,0.7,11,10,,,',
+    ].join('\n');
+    const mapping = {
+      method: 'Brewer',
+      startedAt: 'When',
+      durationSec: 'Time',
+      coffeeGrams: 'Dose',
+      waterMl: 'Water',
+      yieldMl: 'Yield',
+      waterTempC: 'Temp',
+      'bean.roaster': 'Roaster',
+      notes: 'Notes',
+    };
+
+    it('should convert imperial and Fahrenheit values to metric', () => {
+      const { rows } = planSessionImport({
+        csv,
+        mapping,
+        units: { units: 'IMPERIAL', tempUnit: 'F' },
+        methods,
+      });
+
+      expect(rows[0]).toEqual({
+        row: 2,
+        errors: [],
+        session: {
+          methodId: 'm-press',
+          startedAt: new Date('2023-05-01'),
+          durationSec: 240,
+          coffeeGrams: 30.1,
+          waterMl: 503,
+          yieldMl: 450,
+          waterTempC: 94,
+          brewRatio: 15,
+          bean: { roaster: 'Onyx' },
+          notes: 'Heavy, sweet',
+        },
+      });
+    });
+
+    it('should report every problem row by row', () => {
+      const { rows } = planSessionImport({
+        csv,
+        mapping,
+        units: { units: 'IMPERIAL', tempUnit: 'F' },
+        methods,
+      });
+
+      expect(rows[1]).toEqual({
+        row: 3,
+        session: null,
+        errors: [
+          { field: 'method', message: 'No brew method called "Aeropress"' },
+        ],
+      });
+      expect(rows[2].errors).toEqual([
+        { field: 'durationSec', message: '"soon" is not a duration' },
+      ]);
+    });
+
+    it('should number rows as the file does across blank lines', () => {
+      const { rows } = planSessionImport({
+        csv: 'Method,Duration\nv60,3:00\n\n\nAeropress,2:00',
+        units: metric,
+        methods,
+      });
+
+      expect(rows.map(({ row }) => row)).toEqual([2, 5]);
+      expect(rows[1].errors).toContainEqual({
+        field: 'method',
+        message: 'No brew method called "Aeropress"',
+      });
+    });
+
+    it('should hold imported sessions to the method limits', () => {
+      const { rows } = planSessionImport({
+        csv: 'Method,Duration,Coffee,Water,Yield,Ratio\nespresso,28,18,54,36,1:15',
+        units: metric,
+        methods,
+      });
+
+      expect(rows[0].errors).toEqual([
+        {
+          field: 'brewRatio',
+          message: 'Ratio must be between 1:1 and 1:4 for this method',
+        },
+      ]);
+    });
+
+    it('should hold a ratio worked out from the yield and dose to the method', () => {
+      const { rows } = planSessionImport({
+        csv: 'Method,Duration,Coffee,Water,Yield\nespresso,28,18,100,90',
+        units: metric,
+        methods,
+      });
+
+      expect(rows[0]).toEqual({
+        row: 2,
+        session: null,
+        errors: [
+          {
+            field: 'brewRatio',
+            message:
+              'Ratio must be between 1:1 and 1:4 for this method; the yield and dose give 1:5',
+          },
+        ],
+      });
+    });
+
+    it('should relax the minimums only for the methods that need it', () => {
+      const { rows } = planSessionImport({
+        csv: [
+          'Method,Duration,Coffee,Water,Yield,Temp,Ratio',
+          'espresso,0:25,18,40,36,93,1:2',
+          'v60,0:25,18,40,36,5,1:15',
+        ].join('\n'),
+        units: metric,
+        methods,
+      });
+
+      expect(rows[0].errors).toEqual([]);
+      expect(rows[1].errors).toEqual([
+        {
+          field: 'durationSec',
+          message: 'Duration must be at least 30 seconds for this method',
+        },
+        {
+          field: 'waterMl',
+          message: 'Water amount must be at least 50ml for this method',
+        },
+        {
+          field: 'waterTempC',
+          message: 'Water temperature must be at least 60°C for this method',
+        },
+      ]);
+    });
+
+    it('should reject a mapping onto a missing column', () => {
+      expect(() =>
+        planSessionImport({
+          csv,
+          mapping: { method: 'Brew method' },
+          units: metric,
+          methods,
+        })
+      ).toThrow('The CSV has no "Brew method" column');
+    });
+  });
+});
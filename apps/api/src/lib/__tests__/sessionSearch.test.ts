@@ -0,0 +1,48 @@
+import {
+  highlightSegments,
+  MATCH_END,
+  MATCH_START,
+  toSearchQuery,
+} from '../sessionSearch';
+
+describe('sessionSearch', () => {
+  describe('toSearchQuery', () => {
+    it('should require every word as a prefix', () => {
+      expect(toSearchQuery('Ethiopia washed')).toBe('ethiopia:* & washed:*');
+    });
+
+    it('should drop tsquery operators and punctuation', () => {
+      expect(toSearchQuery("jasmine & (bergamot) | !can't")).toBe(
+        'jasmine:* & bergamot:* & can:* & t:*'
+      );
+      expect(toSearchQuery('café Señor')).toBe('café:* & señor:*');
+    });
+
+    it('should return null when nothing is searchable', () => {
+      expect(toSearchQuery('')).toBeNull();
+      expect(toSearchQuery(' :* & ! ')).toBeNull();
+    });
+  });
+
+  describe('highlightSegments', () => {
+    it('should split a headline into matched and plain text', () => {
+      expect(
+        highlightSegments(
+          `Bright ${MATCH_START}jasmine${MATCH_END} and ${MATCH_START}bergamot${MATCH_END}`
+        )
+      ).toEqual([
+        { text: 'Bright ', match: false },
+        { text: 'jasmine', match: true },
+        { text: ' and ', match: false },
+        { text: 'bergamot', match: true },
+      ]);
+    });
+
+    it('should handle headlines without matches', () => {
+      expect(highlightSegments('Kenya AA')).toEqual([
+        { text: 'Kenya AA', match: false },
+      ]);
+      expect(highlightSegments('')).toEqual([]);
+    });
+  });
+});
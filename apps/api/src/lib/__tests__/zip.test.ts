@@ -0,0 +1,39 @@
+import { isZip, readZip } from '../zip';
+import { zipOf } from '../../test/zip';
+
+describe('zip', () => {
+  it('should read deflated and stored entries by path', () => {
+    const files = { 'Beanconqueror.json': '{"BREWS":[]}', 'notes/a.txt': 'hi' };
+
+    for (const deflate of [true, false]) {
+      const zip = zipOf(files, { deflate });
+      const entries = readZip(zip);
+
+      expect(isZip(zip)).toBe(true);
+      expect([...entries.keys()]).toEqual(Object.keys(files));
+      expect(entries.get('notes/a.txt')?.toString()).toBe('hi');
+    }
+  });
+
+  it('should cap what all the wanted entries unzip to together', () => {
+    const big = '0'.repeat(60 * 1024 * 1024);
+    const zip = zipOf({ 'a.json': big, 'b.json': big, 'photo.jpg': big });
+
+    expect(() => readZip(zip)).toThrow('The ZIP file is too large to import');
+    expect([...readZip(zip, (name) => name === 'a.json').keys()]).toEqual([
+      'a.json',
+    ]);
+  });
+
+  it('should tell a ZIP from plain JSON', () => {
+    expect(isZip(Buffer.from('{"BREWS":[]}'))).toBe(false);
+  });
+
+  it('should reject a truncated archive', () => {
+    const zip = zipOf({ 'Beanconqueror.json': '{"BREWS":[]}' });
+
+    expect(() => readZip(zip.subarray(0, zip.length - 30))).toThrow(
+      'The ZIP file is damaged'
+    );
+  });
+});
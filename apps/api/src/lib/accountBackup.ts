@@ -0,0 +1,225 @@
+import { Prisma } from '@prisma/client';
+import { AppError } from '../middleware/error';
+import { generateMethodKey } from './methods';
+import {
+  ACCOUNT_BACKUP_FORMAT,
+  ACCOUNT_BACKUP_VERSION,
+  AccountBackup,
+  accountBackupHeaderSchema,
+  accountBackupSchema,
+  BackupMethod,
+  BackupSession,
+  BackupSettings,
+} from '../schemas/account.schema';
+
+export const backupSettingsSelect = {
+  units: true,
+  tempUnit: true,
+  waterUnitPreference: true,
+  recommend: true,
+  defaultMethodId: true,
+  cupSizeMl: true,
+  soundEnabled: true,
+  altitudeM: true,
+  activeGrinderId: true,
+} satisfies Prisma.SettingsSelect;
+
+export const backupMethodSelect = {
+  key: true,
+  name: true,
+  kind: true,
+  defaultRatio: true,
+  bloom: true,
+  pours: true,
+  notes: true,
+  presets: true,
+  importId: true,
+} satisfies Prisma.BrewMethodSelect;
+
+export const backupSessionInclude = {
+  method: { select: { key: true } },
+} satisfies Prisma.BrewSessionInclude;
+
+type SettingsRecord = Prisma.SettingsGetPayload<{
+  select: typeof backupSettingsSelect;
+}>;
+
+type MethodRecord = Prisma.BrewMethodGetPayload<{
+  select: typeof backupMethodSelect;
+}>;
+
+type SessionRecord = Prisma.BrewSessionGetPayload<{
+  include: typeof backupSessionInclude;
+}>;
+
+// What the restoring account can point at on this server
+export interface RestoreTargets {
+  methodIds: Map<string, string>; // key in the backup -> ID
+  grinderIds: Set<string>;
+  waterProfileIds: Set<string>;
+}
+
+export const toAccountBackup = ({
+  user,
+  settings,
+  defaultMethodKey,
+  methods,
+  sessions,
+}: {
+  user: { email: string; displayName: string | null; createdAt: Date };
+  settings: SettingsRecord | null;
+  defaultMethodKey: string | null;
+  methods: MethodRecord[];
+  sessions: SessionRecord[];
+}): AccountBackup => {
+  const { defaultMethodId, ...savedSettings } = settings ?? {};
+
+  return {
+    format: ACCOUNT_BACKUP_FORMAT,
+    version: ACCOUNT_BACKUP_VERSION,
+    exportedAt: new Date().toISOString(),
+    user: {
+      email: user.email,
+      displayName: user.displayName,
+      createdAt: user.createdAt.toISOString(),
+    },
+    settings: settings
+      ? ({ ...savedSettings, defaultMethodKey } as BackupSettings)
+      : null,
+    methods: methods.map((method) => ({
+      ...method,
+      presets: method.presets as BackupMethod['presets'],
+    })),
+    sessions: sessions.map(({ userId, methodId, method, ...session }) => ({
+      ...session,
+      methodKey: method.key,
+      pours: session.pours as BackupSession['pours'],
+      bean: session.bean as BackupSession['bean'],
+    })),
+  };
+};
+
+// Checks the version before the shape, since the shape is version-specific
+export const parseAccountBackup = (document: unknown): AccountBackup => {
+  const header = accountBackupHeaderSchema.safeParse(document);
+  if (!header.success) {
+    throw new AppError('This is not a Coffee Brewster backup', 400);
+  }
+
+  const { version } = header.data;
+  if (version !== ACCOUNT_BACKUP_VERSION) {
+    throw new AppError(
+      version > ACCOUNT_BACKUP_VERSION
+        ? `This backup (version ${version}) is newer than this server can restore`
+        : `Backup version ${version} is no longer supported`,
+      400
+    );
+  }
+  return accountBackupSchema.parse(document);
+};
+
+// Where each method key in the backup points on this server: the method
+// itself while the account can see it, else the copy an earlier restore
+// made of it
+export const restoreMethodIds = (
+  methods: BackupMethod[],
+  visible: { id: string; key: string; importId: string | null }[]
+): Map<string, string> => {
+  const methodIds = new Map(visible.map((method) => [method.key, method.id]));
+  const copies = new Map<string, string>();
+  for (const method of visible) {
+    if (method.importId) {
+      copies.set(method.importId, method.id);
+    }
+  }
+
+  for (const method of methods) {
+    const origin = method.importId ?? method.key;
+    const id =
+      methodIds.get(method.key) ?? methodIds.get(origin) ?? copies.get(origin);
+    if (id) {
+      methodIds.set(method.key, id);
+    }
+  }
+  return methodIds;
+};
+
+// The backup's custom methods with nowhere to point yet, to be created
+// under new keys. Checked before anything is saved, as every session needs
+// either one of these or a method this server has
+export const toRestoredMethods = (
+  { methods, sessions }: AccountBackup,
+  methodIds: Map<string, string>,
+  userId: string
+): Prisma.BrewMethodCreateManyInput[] => {
+  const brought = new Set(methods.map((method) => method.key));
+  const missing = [
+    ...new Set(
+      sessions
+        .map((session) => session.methodKey)
+        .filter((key) => !methodIds.has(key) && !brought.has(key))
+    ),
+  ];
+  if (missing.length > 0) {
+    throw new AppError(
+      `No brew method with key ${missing.join(', ')} on this server; add ${
+        missing.length === 1 ? 'it' : 'them'
+      } before restoring`,
+      400
+    );
+  }
+
+  return methods
+    .filter((method) => !methodIds.has(method.key))
+    .map(({ key, importId, presets, ...method }) => ({
+      ...method,
+      key: generateMethodKey(method.name),
+      userId,
+      importId: importId ?? key,
+      presets: (presets as Prisma.InputJsonValue) ?? Prisma.JsonNull,
+    }));
+};
+
+// Grinders and water profiles aren't part of the backup; a session keeps
+// one only when restored into the account that still has it
+export const toRestoredSessions = (
+  sessions: BackupSession[],
+  targets: RestoreTargets,
+  userId: string
+): Prisma.BrewSessionCreateManyInput[] =>
+  sessions.map(({ methodKey, pours, bean, ...session }) => {
+    const grinderId =
+      session.grinderId && targets.grinderIds.has(session.grinderId)
+        ? session.grinderId
+        : null;
+
+    return {
+      ...session,
+      userId,
+      methodId: targets.methodIds.get(methodKey)!,
+      grinderId,
+      grindValue: grinderId ? session.grindValue : null,
+      waterProfileId:
+        session.waterProfileId &&
+        targets.waterProfileIds.has(session.waterProfileId)
+          ? session.waterProfileId
+          : null,
+      pours: (pours as Prisma.InputJsonValue) ?? Prisma.JsonNull,
+      bean: (bean as Prisma.InputJsonValue) ?? Prisma.JsonNull,
+    };
+  });
+
+export const toRestoredSettings = (
+  { defaultMethodKey, activeGrinderId, ...settings }: BackupSettings,
+  targets: RestoreTargets
+) => ({
+  ...settings,
+  // Left unset rather than failing the restore over a preference
+  defaultMethodId: defaultMethodKey
+    ? (targets.methodIds.get(defaultMethodKey) ?? null)
+    : null,
+  activeGrinderId:
+    activeGrinderId && targets.grinderIds.has(activeGrinderId)
+      ? activeGrinderId
+      : null,
+});
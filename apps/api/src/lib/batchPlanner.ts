@@ -0,0 +1,136 @@
+import { AppError } from '../middleware/error';
+import {
+  BrewMethod,
+  BrewPlan,
+  RECIPE_VARIANTS,
+  capacityFor,
+  planBrew,
+  yieldForCups,
+} from '@coffee-brewster/brew-math';
+
+// Beyond this the order is better served by an urn than a pour-over
+export const MAX_BATCH_BREWS = 20;
+
+export interface BrewerSuggestion {
+  methodKey: string;
+  capacityMl: number;
+  brews: number;
+}
+
+export interface BatchPlan {
+  totalYieldMl: number;
+  coffeeGrams: number;
+  waterTotalMl: number;
+  capacityMl: number | null;
+  brews: BrewPlan[];
+  // A bigger brewer of the same kind that gets the order done in fewer brews
+  suggestion: BrewerSuggestion | null;
+}
+
+type BrewOptions = Omit<
+  Parameters<typeof planBrew>[0],
+  'cups' | 'targetYieldMl' | 'targetBeverageGrams' | 'coffeeGrams' | 'batch'
+>;
+
+const brewsNeeded = (totalYieldMl: number, capacityMl: number | undefined) =>
+  capacityMl ? Math.ceil(totalYieldMl / capacityMl) : 1;
+
+const largerBrewer = (
+  method: BrewMethod,
+  totalYieldMl: number,
+  brews: number,
+  alternatives: BrewMethod[]
+): BrewerSuggestion | null => {
+  const kind = method.kind ?? 'STANDARD';
+  let best: BrewerSuggestion | null = null;
+
+  for (const alternative of alternatives) {
+    const capacityMl = capacityFor(alternative);
+    if (
+      alternative.key === method.key ||
+      (alternative.kind ?? 'STANDARD') !== kind ||
+      capacityMl === undefined
+    ) {
+      continue;
+    }
+    const needed = brewsNeeded(totalYieldMl, capacityMl);
+    // Fewest brews wins, then the smallest brewer that manages it
+    if (
+      needed < (best?.brews ?? brews) ||
+      (best && needed === best.brews && capacityMl < best.capacityMl)
+    ) {
+      best = { methodKey: alternative.key, capacityMl, brews: needed };
+    }
+  }
+
+  return best;
+};
+
+// Splits an order across as many brews as the method's capacity needs,
+// each planned as one brew of a batch so large ones get scaled
+export function planBatch({
+  cups,
+  targetYieldMl,
+  bypassMl,
+  alternatives = [],
+  ...options
+}: BrewOptions & {
+  cups?: number;
+  targetYieldMl?: number;
+  alternatives?: BrewMethod[];
+}): BatchPlan {
+  const { method, cupSizeMl, variant } = options;
+  const totalYieldMl = Math.round(
+    targetYieldMl ?? yieldForCups(method, cups ?? 1, cupSizeMl)
+  );
+  const capacityMl = capacityFor(method);
+  const count = brewsNeeded(totalYieldMl, capacityMl);
+
+  if (count > MAX_BATCH_BREWS) {
+    throw new AppError(
+      `That order needs more than ${MAX_BATCH_BREWS} brews; choose a larger brewer`,
+      400
+    );
+  }
+
+  // Even shares, with the last brew taking whatever rounding left over
+  const share = Math.round(totalYieldMl / count);
+  // A bypass in ml is for the whole order, so each brew takes its share
+  const brews = Array.from({ length: count }, (_, index) => {
+    const brewYieldMl =
+      index === count - 1 ? totalYieldMl - share * (count - 1) : share;
+    return planBrew({
+      ...options,
+      targetYieldMl: brewYieldMl,
+      bypassMl:
+        bypassMl === undefined
+          ? undefined
+          : Math.round((bypassMl * brewYieldMl) / totalYieldMl),
+      batch: true,
+    });
+  });
+
+  return {
+    totalYieldMl,
+    coffeeGrams: +brews
+      .reduce((sum, brew) => sum + brew.coffeeGrams, 0)
+      .toFixed(1),
+    waterTotalMl: brews.reduce((sum, brew) => sum + brew.waterTotalMl, 0),
+    capacityMl: capacityMl ?? null,
+    brews,
+    suggestion:
+      count > 1
+        ? largerBrewer(
+            method,
+            totalYieldMl,
+            count,
+            // Only brewers the chosen recipe variant can be poured in
+            variant
+              ? alternatives.filter((alternative) =>
+                  RECIPE_VARIANTS[variant.key].methods.includes(alternative.key)
+                )
+              : alternatives
+          )
+        : null,
+  };
+}
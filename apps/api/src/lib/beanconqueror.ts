@@ -0,0 +1,361 @@
+import { absorptionFor, fToC } from '@coffee-brewster/brew-math';
+import { z } from 'zod';
+import { AppError } from '../middleware/error';
+import { isZip, readZip } from './zip';
+import {
+  checkImportedSession,
+  ImportFieldError,
+  ImportInput,
+  ImportMethod,
+  ImportedSession,
+  matchMethod,
+} from './sessionImport';
+
+// Only the parts of Beanconqueror's records the logbook has a place for.
+// A field of the wrong type is left out rather than losing the record
+
+const optional = <T extends z.ZodTypeAny>(schema: T) =>
+  schema.optional().catch(undefined);
+
+const configSchema = z.object({
+  uuid: z.string(),
+  unix_timestamp: optional(z.number()), // seconds
+});
+
+const beanSchema = z.object({
+  name: optional(z.string()),
+  roaster: optional(z.string()),
+  roastingDate: optional(z.string()), // ISO timestamp
+  bean_information: optional(
+    z.array(
+      z
+        .object({
+          country: optional(z.string()),
+          variety: optional(z.string()),
+        })
+        .catch({})
+    )
+  ),
+  config: configSchema,
+});
+
+const preparationSchema = z.object({
+  name: optional(z.string()),
+  type: optional(z.string()), // V60, CHEMEX, ... or CUSTOM_PREPARATION
+  config: configSchema,
+});
+
+const brewSchema = z.object({
+  method_of_preparation: optional(z.string()), // preparation uuid
+  bean: optional(z.string()), // bean uuid
+  grind_size: optional(z.union([z.string(), z.number()])),
+  grind_weight: optional(z.number()), // coffee, g
+  brew_quantity: optional(z.number()), // water, ml or g
+  brew_beverage_quantity: optional(z.number()), // in the cup
+  brew_time: optional(z.number()), // seconds
+  temperature: optional(z.number()),
+  rating: optional(z.number()), // 0 when unrated
+  tds: optional(z.number()),
+  note: optional(z.string()),
+  config: configSchema,
+});
+
+// Each collection is checked record by record below
+const mainFileSchema = z.object({
+  BEANS: z.unknown(),
+  PREPARATION: z.unknown(),
+  BREWS: z.array(z.unknown()),
+  SETTINGS: optional(
+    z.array(z.object({ brew_rating: optional(z.coerce.number()) }).catch({}))
+  ),
+});
+
+export type BeanconquerorBean = z.infer<typeof beanSchema>;
+export type BeanconquerorPreparation = z.infer<typeof preparationSchema>;
+export type BeanconquerorBrew = z.infer<typeof brewSchema>;
+
+export interface BeanconquerorExport {
+  beans: BeanconquerorBean[];
+  preparations: BeanconquerorPreparation[];
+  brews: BeanconquerorBrew[];
+  maxRating: number; // the rating scale set in the app
+}
+
+export interface PreparationMatch {
+  id: string;
+  name: string;
+  type: string;
+  brews: number;
+  methodId: string | null; // null until the user picks a method
+}
+
+export interface BeanconquerorRow {
+  importId: string;
+  label: string; // how the user can find the brew in Beanconqueror
+  session: ImportedSession | null;
+  errors: ImportFieldError[];
+}
+
+// Stored IDs are prefixed by app so exports from different apps can't clash
+const importIdFor = (brew: BeanconquerorBrew) =>
+  `beanconqueror:${brew.config.uuid}`;
+
+// Beanconqueror's built-in preparation types with a method of our own
+const PREPARATION_KEYS: Record<string, string> = {
+  V60: 'v60',
+  CHEMEX: 'chemex',
+  AEROPRESS: 'aeropress',
+  FRENCH_PRESS: 'french_press',
+  BIALETTI: 'moka',
+  COLD_BREW: 'cold_brew',
+  ESPRESSO: 'espresso',
+  PORTAFILTER: 'espresso',
+};
+
+const MAIN_FILE = /(^|\/)Beanconqueror\.json$/i;
+
+// Big exports spread each collection over numbered files beside the main one
+const SPLIT_FILE = /Beanconqueror_(Beans|Brews|Preparation)_\d+\.json$/i;
+
+const parseJson = (file: Buffer, name: string): unknown => {
+  try {
+    return JSON.parse(file.toString('utf8').replace(/^\uFEFF/, ''));
+  } catch {
+    throw new AppError(`${name} is not valid JSON`, 400);
+  }
+};
+
+// Records without an ID can't be linked up, so they are left out
+const listOf = <T>(
+  schema: z.ZodType<T, z.ZodTypeDef, unknown>,
+  value: unknown
+): T[] =>
+  Array.isArray(value)
+    ? value.flatMap((item) => {
+        const result = schema.safeParse(item);
+        return result.success ? [result.data] : [];
+      })
+    : [];
+
+// Takes the app's ZIP export or the Beanconqueror.json inside it
+export const readBeanconquerorExport = (file: Buffer): BeanconquerorExport => {
+  const files = isZip(file)
+    ? readZip(file, (name) => MAIN_FILE.test(name) || SPLIT_FILE.test(name))
+    : new Map([['Beanconqueror.json', file]]);
+  const main = [...files.keys()].find((name) => MAIN_FILE.test(name));
+  if (!main) {
+    throw new AppError('The ZIP has no Beanconqueror.json', 400);
+  }
+
+  const parsed = mainFileSchema.safeParse(parseJson(files.get(main)!, main));
+  if (!parsed.success) {
+    throw new AppError('This is not a Beanconqueror export', 400);
+  }
+  const data = parsed.data;
+
+  const beans = listOf(beanSchema, data.BEANS);
+  const preparations = listOf(preparationSchema, data.PREPARATION);
+  const brews = listOf(brewSchema, data.BREWS);
+  for (const [name, content] of files) {
+    const split = name.match(SPLIT_FILE)?.[1].toUpperCase();
+    if (split === 'BEANS') {
+      beans.push(...listOf(beanSchema, parseJson(content, name)));
+    } else if (split === 'PREPARATION') {
+      preparations.push(...listOf(preparationSchema, parseJson(content, name)));
+    } else if (split === 'BREWS') {
+      brews.push(...listOf(brewSchema, parseJson(content, name)));
+    }
+  }
+
+  const maxRating = data.SETTINGS?.[0]?.brew_rating;
+  return {
+    beans,
+    preparations,
+    brews,
+    maxRating: maxRating !== undefined && maxRating > 0 ? maxRating : 5,
+  };
+};
+
+const positive = (value: unknown): number | undefined =>
+  typeof value === 'number' && value > 0 ? value : undefined;
+
+const text = (value: unknown): string | undefined =>
+  typeof value === 'string' && value.trim() ? value.trim() : undefined;
+
+// A blend lists each of its components
+const joined = (values: (string | undefined)[]): string | undefined =>
+  text([...new Set(values.map(text).filter(Boolean))].join(', '));
+
+const toBean = (bean: BeanconquerorBean | undefined) => {
+  if (!bean) {
+    return undefined;
+  }
+  const information = Array.isArray(bean.bean_information)
+    ? bean.bean_information
+    : [];
+
+  const fields = {
+    name: text(bean.name),
+    roaster: text(bean.roaster),
+    roastDate: text(bean.roastingDate)?.slice(0, 10),
+    origin: joined(information.map((info) => info.country)),
+    variety: joined(information.map((info) => info.variety)),
+  };
+  return Object.values(fields).some(Boolean) ? fields : undefined;
+};
+
+const toSessionInput = (
+  brew: BeanconquerorBrew,
+  bean: BeanconquerorBean | undefined,
+  method: ImportMethod,
+  maxRating: number
+): ImportInput => {
+  const coffee = positive(brew.grind_weight);
+  const beverage = positive(brew.brew_beverage_quantity);
+  const time = positive(brew.brew_time);
+  const temperature = positive(brew.temperature);
+  const rating = positive(brew.rating);
+
+  // Pour-over brews are often logged without the cup and espresso without
+  // the water; the grounds hold back the difference
+  const absorbed = (coffee ?? 0) * absorptionFor(method.key);
+  const water =
+    positive(brew.brew_quantity) ??
+    (beverage !== undefined ? beverage + absorbed : undefined);
+  const yieldMl =
+    beverage ?? (water !== undefined ? water - absorbed : undefined);
+  const espresso = method.kind === 'ESPRESSO';
+
+  return {
+    methodId: method.id,
+    startedAt: brew.config.unix_timestamp
+      ? new Date(brew.config.unix_timestamp * 1000)
+      : undefined,
+    durationSec: time !== undefined ? Math.round(time) : undefined,
+    coffeeGrams: coffee,
+    waterMl: water !== undefined ? +water.toFixed(1) : undefined,
+    yieldMl: yieldMl !== undefined ? +yieldMl.toFixed(1) : undefined,
+    grindSetting: text(String(brew.grind_size ?? '')),
+    // The app stores the number as typed; above boiling it can only be °F
+    waterTempC:
+      temperature !== undefined && temperature > 100
+        ? fToC(temperature)
+        : temperature,
+    rating:
+      rating !== undefined
+        ? Math.max(1, Math.round((rating / maxRating) * 5))
+        : undefined,
+    notes: text(brew.note),
+    tdsPercent: positive(brew.tds),
+    shotTimeSec: espresso && time !== undefined ? Math.round(time) : undefined,
+    outputGrams: espresso ? beverage : undefined,
+    bean: toBean(bean),
+  };
+};
+
+const labelFor = (
+  brew: BeanconquerorBrew,
+  preparation: BeanconquerorPreparation | undefined,
+  bean: BeanconquerorBean | undefined
+) =>
+  [
+    text(preparation?.name) ?? 'Brew',
+    brew.config.unix_timestamp
+      ? new Date(brew.config.unix_timestamp * 1000).toISOString().slice(0, 10)
+      : undefined,
+    text(bean?.name),
+  ]
+    .filter(Boolean)
+    .join(' · ');
+
+// Matches each preparation to a brew method, then checks every brew made with
+// a matched one. Brews of unmatched preparations are counted, not checked
+export const planBeanconquerorImport = ({
+  data,
+  methods,
+  mapping = {},
+}: {
+  data: BeanconquerorExport;
+  methods: ImportMethod[];
+  mapping?: Record<string, string>;
+}): { preparations: PreparationMatch[]; rows: BeanconquerorRow[] } => {
+  const beans = new Map(data.beans.map((bean) => [bean.config.uuid, bean]));
+  const brewCounts = new Map<string, number>();
+  for (const brew of data.brews) {
+    const id = brew.method_of_preparation ?? '';
+    brewCounts.set(id, (brewCounts.get(id) ?? 0) + 1);
+  }
+
+  const matched = new Map<string, ImportMethod>();
+  const preparations = data.preparations.map((preparation) => {
+    const id = preparation.config.uuid;
+    const chosen = mapping[id];
+    let method: ImportMethod | undefined;
+    if (chosen) {
+      method = methods.find((candidate) => candidate.id === chosen);
+      if (!method) {
+        throw new AppError('Invalid method ID', 400);
+      }
+    } else if (chosen === undefined) {
+      const key = PREPARATION_KEYS[preparation.type ?? ''];
+      method =
+        methods.find((candidate) => key && candidate.key === key) ??
+        matchMethod(preparation.name ?? '', methods);
+    }
+    if (method) {
+      matched.set(id, method);
+    }
+
+    return {
+      id,
+      name: text(preparation.name) ?? 'Unnamed preparation',
+      type: preparation.type ?? 'CUSTOM_PREPARATION',
+      brews: brewCounts.get(id) ?? 0,
+      methodId: method?.id ?? null,
+    };
+  });
+  const byId = new Map(
+    data.preparations.map((preparation) => [
+      preparation.config.uuid,
+      preparation,
+    ])
+  );
+
+  const rows = data.brews.flatMap((brew): BeanconquerorRow[] => {
+    const preparationId = brew.method_of_preparation ?? '';
+    const preparation = byId.get(preparationId);
+    const bean = beans.get(brew.bean ?? '');
+    const base = {
+      importId: importIdFor(brew),
+      label: labelFor(brew, preparation, bean),
+    };
+
+    if (!preparation) {
+      return [
+        {
+          ...base,
+          session: null,
+          errors: [{ field: 'method', message: 'The brew has no preparation' }],
+        },
+      ];
+    }
+    const method = matched.get(preparationId);
+    if (!method) {
+      return [];
+    }
+
+    const { session, errors } = checkImportedSession(
+      toSessionInput(brew, bean, method, data.maxRating),
+      methods
+    );
+    return [
+      {
+        ...base,
+        session: session && { ...session, importId: base.importId },
+        errors,
+      },
+    ];
+  });
+
+  return { preparations, rows };
+};
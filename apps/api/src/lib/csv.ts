@@ -0,0 +1,82 @@
+export type CsvValue = string | number | null | undefined;
+
+// Quoted per RFC 4180. Text a spreadsheet would run as a formula gets a
+// leading apostrophe so it opens as plain text.
+const csvCell = (value: CsvValue): string => {
+  if (value === null || value === undefined) {
+    return '';
+  }
+  if (typeof value === 'number') {
+    return String(value);
+  }
+  const text = /^[=+\-@\t\r]/.test(value) ? `'${value}` : value;
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+export const toCsvLine = (values: CsvValue[]): string =>
+  `${values.map(csvCell).join(',')}\r\n`;
+
+// The apostrophe toCsvLine puts in front of formula-like text
+export const unguardCsvCell = (value: string): string =>
+  value.replace(/^'(?=[=+\-@\t\r])/, '');
+
+export interface CsvRow {
+  row: number; // as numbered in a spreadsheet, blank lines included
+  cells: string[];
+}
+
+// Rows of cells, reading quoted cells across commas and line breaks.
+// Spreadsheets may save a byte order mark and either line ending; blank
+// lines are dropped but still counted in the row numbers.
+export const parseCsv = (text: string): CsvRow[] => {
+  const rows: CsvRow[] = [];
+  let row: string[] = [];
+  let cell = '';
+  let quoted = false;
+  let rowNumber = 1;
+
+  const endCell = () => {
+    row.push(cell);
+    cell = '';
+  };
+  const endRow = () => {
+    endCell();
+    if (row.some((value) => value !== '')) {
+      rows.push({ row: rowNumber, cells: row });
+    }
+    row = [];
+    rowNumber++;
+  };
+
+  const input = text.replace(/^\uFEFF/, '');
+  for (let index = 0; index < input.length; index++) {
+    const char = input[index];
+
+    if (quoted) {
+      if (char === '"' && input[index + 1] === '"') {
+        cell += '"';
+        index++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        cell += char;
+      }
+    } else if (char === '"' && cell === '') {
+      quoted = true;
+    } else if (char === ',') {
+      endCell();
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && input[index + 1] === '\n') {
+        index++;
+      }
+      endRow();
+    } else {
+      cell += char;
+    }
+  }
+  if (cell !== '' || row.length > 0) {
+    endRow();
+  }
+
+  return rows;
+};
@@ -0,0 +1,7 @@
+// Extraction yield (%) = TDS (%) × beverage mass / dose. Brewed coffee is
+// close enough to water density that the yield in ml stands in for grams.
+export const calculateExtractionYield = (
+  coffeeGrams: number,
+  yieldMl: number,
+  tdsPercent: number
+): number => +((tdsPercent * yieldMl) / coffeeGrams).toFixed(2);
@@ -0,0 +1,38 @@
+import { GrinderScale } from '@prisma/client';
+import {
+  formatGrinderSetting,
+  grindLevelOf,
+  GrindLevel,
+} from '@coffee-brewster/brew-math';
+import { grinderRangesSchema } from '../schemas/grinders.schema';
+
+export interface GrinderSetting {
+  grinderId: string;
+  level: GrindLevel;
+  min: number;
+  max: number;
+  label: string; // e.g. "Comandante: 22–25 clicks"
+}
+
+// Translate a descriptive grind ("Medium-fine") into the grinder's own
+// settings. Null when the descriptor is free text or the level is unmapped
+export const grinderSettingFor = (
+  grinder: { id: string; name: string; scale: GrinderScale; ranges: unknown },
+  descriptor: string
+): GrinderSetting | null => {
+  const level = grindLevelOf(descriptor);
+  const ranges = grinderRangesSchema.safeParse(grinder.ranges);
+  const range = level && ranges.success ? ranges.data[level] : undefined;
+
+  if (!level || !range) {
+    return null;
+  }
+
+  return {
+    grinderId: grinder.id,
+    level,
+    min: range.min,
+    max: range.max,
+    label: formatGrinderSetting(grinder, range.min, range.max),
+  };
+};
@@ -0,0 +1,178 @@
+import { Prisma } from '@prisma/client';
+import { prisma } from './prisma';
+import { AppError } from '../middleware/error';
+import {
+  BrewMethod as PlanMethod,
+  capacityFor,
+  toBrewMethod,
+  variantsForMethod,
+} from '@coffee-brewster/brew-math';
+import {
+  coldBrewProfileSchema,
+  espressoProfileSchema,
+  pourTemplateSchema,
+} from '../schemas/methods.schema';
+
+export const methodSelect = {
+  id: true,
+  key: true,
+  userId: true,
+  name: true,
+  kind: true,
+  defaultRatio: true,
+  bloom: true,
+  pours: true,
+  notes: true,
+  presets: true,
+} satisfies Prisma.BrewMethodSelect;
+
+export type MethodRecord = Prisma.BrewMethodGetPayload<{
+  select: typeof methodSelect;
+}>;
+
+// Global catalog methods plus the user's own custom methods
+export const visibleMethodsWhere = (
+  userId?: string
+): Prisma.BrewMethodWhereInput =>
+  userId ? { OR: [{ userId: null }, { userId }] } : { userId: null };
+
+export const findVisibleMethod = (
+  where: { id: string } | { key: string },
+  userId?: string
+) =>
+  prisma.brewMethod.findFirst({
+    where: { AND: [where, visibleMethodsWhere(userId)] },
+    select: methodSelect,
+  });
+
+// Custom method keys must stay globally unique, so suffix the slug
+export const generateMethodKey = (name: string): string => {
+  const slug = name
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, '_')
+    .replace(/^_+|_+$/g, '')
+    .slice(0, 30);
+  const suffix = Math.random().toString(36).slice(2, 8);
+  return `${slug || 'method'}_${suffix}`;
+};
+
+const presetsOf = (method: MethodRecord): Record<string, any> =>
+  method.presets && typeof method.presets === 'object'
+    ? (method.presets as Record<string, any>)
+    : {};
+
+// Espresso is pulled around 1:2 while everything else brews between 1:8 and
+// 1:20, so request schemas accept both and the method decides
+const RATIO_LIMITS = {
+  ESPRESSO: { min: 1, max: 4 },
+  default: { min: 8, max: 20 },
+};
+
+export const assertRatioFits = (method: { kind: string }, ratio: number) => {
+  const { min, max } =
+    method.kind === 'ESPRESSO' ? RATIO_LIMITS.ESPRESSO : RATIO_LIMITS.default;
+
+  if (ratio < min || ratio > max) {
+    throw new AppError(
+      `Ratio must be between 1:${min} and 1:${max} for this method`,
+      400
+    );
+  }
+};
+
+// Espresso shots are quick and small, so request schemas accept them and
+// every other method keeps the usual minimums
+const SESSION_MINIMUMS = {
+  ESPRESSO: { durationSec: 10, waterMl: 20, yieldMl: 10 },
+  default: { durationSec: 30, waterMl: 50, yieldMl: 30 },
+};
+
+const minimumsFor = (method: { kind: string }) =>
+  method.kind === 'ESPRESSO'
+    ? SESSION_MINIMUMS.ESPRESSO
+    : SESSION_MINIMUMS.default;
+
+// Only cold brew steeps long enough to need hour-scale durations
+const MAX_DURATION_SEC = 1800;
+
+export const assertDurationFits = (
+  method: { kind: string },
+  durationSec: number
+) => {
+  const min = minimumsFor(method).durationSec;
+  if (durationSec < min) {
+    throw new AppError(
+      `Duration must be at least ${min} seconds for this method`,
+      400
+    );
+  }
+  if (method.kind !== 'COLD_BREW' && durationSec > MAX_DURATION_SEC) {
+    throw new AppError('Duration must be less than 30 minutes', 400);
+  }
+};
+
+export const assertWaterFits = (method: { kind: string }, waterMl: number) => {
+  const min = minimumsFor(method).waterMl;
+  if (waterMl < min) {
+    throw new AppError(
+      `Water amount must be at least ${min}ml for this method`,
+      400
+    );
+  }
+};
+
+export const assertYieldFits = (method: { kind: string }, yieldMl: number) => {
+  const min = minimumsFor(method).yieldMl;
+  if (yieldMl < min) {
+    throw new AppError(`Yield must be at least ${min}ml for this method`, 400);
+  }
+};
+
+// Cold brew steeps at room temperature or colder; everything else is
+// brewed hot
+const MIN_TEMP_C = { COLD_BREW: 0, default: 60 };
+
+export const assertTempFits = (method: { kind: string }, tempC: number) => {
+  const min =
+    method.kind === 'COLD_BREW' ? MIN_TEMP_C.COLD_BREW : MIN_TEMP_C.default;
+
+  if (tempC < min) {
+    throw new AppError(
+      `Water temperature must be at least ${min}°C for this method`,
+      400
+    );
+  }
+};
+
+// Convert a database record into the shape planBrew expects
+export const toPlanMethod = (method: MethodRecord): PlanMethod => {
+  const presets = presetsOf(method);
+  const schedule = pourTemplateSchema.safeParse(presets.schedule);
+  const coldBrew = coldBrewProfileSchema.safeParse(presets.coldBrew);
+  const espresso = espressoProfileSchema.safeParse(presets.espresso);
+
+  return toBrewMethod({
+    ...method,
+    coldBrew: coldBrew.success ? coldBrew.data : undefined,
+    espresso: espresso.success ? espresso.data : undefined,
+    // Malformed schedules fall back to planBrew's even split
+    schedule: schedule.success ? schedule.data : undefined,
+  });
+};
+
+// The schedule, the capacity and the cold brew and espresso profiles are
+// always returned since the guide needs them to brew; the rest of the presets is advice the
+// user may have switched off
+export const serializeMethod = (
+  method: MethodRecord,
+  showRecommendations: boolean
+) => ({
+  ...method,
+  isCustom: method.userId !== null,
+  schedule: presetsOf(method).schedule ?? null,
+  coldBrew: presetsOf(method).coldBrew ?? null,
+  espresso: presetsOf(method).espresso ?? null,
+  capacityMl: capacityFor(toPlanMethod(method)) ?? null,
+  variants: variantsForMethod(method.key),
+  presets: showRecommendations ? method.presets : null,
+});
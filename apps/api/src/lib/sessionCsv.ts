@@ -0,0 +1,132 @@
+import { Prisma } from '@prisma/client';
+import {
+  displayTemperature,
+  displayVolume,
+  displayWeight,
+  getTemperatureUnit,
+  getVolumeUnit,
+  getWeightUnit,
+  UnitSettings,
+} from '@coffee-brewster/brew-math';
+import { CsvValue, toCsvLine } from './csv';
+
+export const sessionCsvInclude = {
+  method: { select: { name: true } },
+  grinder: { select: { name: true } },
+  waterProfile: { select: { name: true } },
+} satisfies Prisma.BrewSessionInclude;
+
+export type CsvSession = Prisma.BrewSessionGetPayload<{
+  include: typeof sessionCsvInclude;
+}>;
+
+// Water shows in grams for users who weigh it, like everywhere else
+const water = (ml: number, settings: UnitSettings) =>
+  settings.waterUnitPreference === 'g' ? ml : displayVolume(ml, settings);
+
+const beanField = (session: CsvSession, field: string): CsvValue => {
+  const bean = session.bean as Record<string, unknown> | null;
+  const value = bean?.[field];
+  return typeof value === 'string' ? value : undefined;
+};
+
+interface CsvColumn {
+  header: (settings: UnitSettings) => string;
+  value: (session: CsvSession, settings: UnitSettings) => CsvValue;
+}
+
+const COLUMNS: CsvColumn[] = [
+  { header: () => 'Date', value: (s) => s.startedAt.toISOString() },
+  { header: () => 'Method', value: (s) => s.method.name },
+  { header: () => 'Duration (s)', value: (s) => s.durationSec },
+  {
+    header: (u) => `Coffee (${getWeightUnit(u)})`,
+    value: (s, u) => displayWeight(s.coffeeGrams, u),
+  },
+  {
+    header: (u) => `Water (${getVolumeUnit(u)})`,
+    value: (s, u) => water(s.waterMl, u),
+  },
+  {
+    header: (u) => `Bypass (${getVolumeUnit(u)})`,
+    value: (s, u) => (s.bypassMl === null ? null : water(s.bypassMl, u)),
+  },
+  {
+    header: (u) => `Yield (${getVolumeUnit(u)})`,
+    value: (s, u) => water(s.yieldMl, u),
+  },
+  { header: () => 'Ratio (1:x)', value: (s) => s.brewRatio },
+  { header: () => 'Grind', value: (s) => s.grindSetting },
+  { header: () => 'Grinder', value: (s) => s.grinder?.name },
+  { header: () => 'Grind Value', value: (s) => s.grindValue },
+  {
+    header: (u) => `Water Temp (${getTemperatureUnit(u)})`,
+    value: (s, u) =>
+      s.waterTempC === null ? null : displayTemperature(s.waterTempC, u),
+  },
+  { header: () => 'Water Profile', value: (s) => s.waterProfile?.name },
+  { header: () => 'Rating', value: (s) => s.rating },
+  { header: () => 'TDS (%)', value: (s) => s.tdsPercent },
+  { header: () => 'Extraction (%)', value: (s) => s.extractionYield },
+  { header: () => 'Shot Time (s)', value: (s) => s.shotTimeSec },
+  {
+    header: (u) => `Output (${getWeightUnit(u)})`,
+    value: (s, u) =>
+      s.outputGrams === null ? null : displayWeight(s.outputGrams, u),
+  },
+  { header: () => 'Bean', value: (s) => beanField(s, 'name') },
+  { header: () => 'Variety', value: (s) => beanField(s, 'variety') },
+  { header: () => 'Roaster', value: (s) => beanField(s, 'roaster') },
+  { header: () => 'Origin', value: (s) => beanField(s, 'origin') },
+  { header: () => 'Roast Date', value: (s) => beanField(s, 'roastDate') },
+  { header: () => 'Notes', value: (s) => s.notes },
+];
+
+// Pours were logged as `timestamp` at first and `atSec` since
+const poursOf = (session: CsvSession) =>
+  Array.isArray(session.pours)
+    ? (session.pours as Record<string, unknown>[]).map((pour) => ({
+        atSec: (pour?.atSec ?? pour?.timestamp) as number | undefined,
+        volumeMl: pour?.volumeMl as number | undefined,
+        label: pour?.label as string | undefined,
+      }))
+    : [];
+
+// One time, water and label column per pour, as many as the longest
+// schedule in the export
+export const sessionCsvHeader = (
+  settings: UnitSettings,
+  pourCount: number
+): string =>
+  toCsvLine([
+    ...COLUMNS.map((column) => column.header(settings)),
+    ...Array.from({ length: pourCount }, (_, index) => [
+      `Pour ${index + 1} Time (s)`,
+      `Pour ${index + 1} Water (${getVolumeUnit(settings)})`,
+      `Pour ${index + 1} Label`,
+    ]).flat(),
+  ]);
+
+export const sessionCsvRow = (
+  session: CsvSession,
+  settings: UnitSettings,
+  pourCount: number
+): string => {
+  const pours = poursOf(session);
+
+  return toCsvLine([
+    ...COLUMNS.map((column) => column.value(session, settings)),
+    ...Array.from({ length: pourCount }, (_, index) => {
+      const pour = pours[index];
+      return pour
+        ? [
+            pour.atSec,
+            typeof pour.volumeMl === 'number'
+              ? water(pour.volumeMl, settings)
+              : undefined,
+            pour.label,
+          ]
+        : [undefined, undefined, undefined];
+    }).flat(),
+  ]);
+};
@@ -0,0 +1,346 @@
+import { fToC, ozToG, ozToMl, UnitSettings } from '@coffee-brewster/brew-math';
+import { AppError } from '../middleware/error';
+import {
+  assertDurationFits,
+  assertRatioFits,
+  assertTempFits,
+  assertWaterFits,
+  assertYieldFits,
+} from './methods';
+import { parseCsv, unguardCsvCell } from './csv';
+import {
+  createSessionSchema,
+  CreateSessionInput,
+  SESSION_IMPORT_FIELDS,
+  SessionImportField,
+} from '../schemas/sessions.schema';
+
+// Larger histories can be split across files
+export const MAX_IMPORT_ROWS = 5000;
+
+export type ImportMapping = Partial<Record<SessionImportField, string>>;
+
+export interface ImportMethod {
+  id: string;
+  key: string;
+  name: string;
+  kind: string;
+}
+
+export interface ImportFieldError {
+  field: string;
+  message: string;
+}
+
+export interface ImportedSession extends CreateSessionInput {
+  startedAt?: Date;
+  importId?: string;
+}
+
+// A session as read from a file, before the session schema checks it
+export interface ImportInput {
+  bean?: Record<string, unknown>;
+  [field: string]: unknown;
+}
+
+export interface ImportRow {
+  row: number; // as numbered in a spreadsheet, the header being row 1
+  session: ImportedSession | null;
+  errors: ImportFieldError[];
+}
+
+// Lowercase letters and digits only, so "French Press" finds french_press
+const squash = (value: string) => value.toLowerCase().replace(/[^a-z0-9]/g, '');
+
+// Headers are compared without their unit, so the export's own "Coffee (g)"
+// maps back onto coffeeGrams
+const FIELD_ALIASES: Record<SessionImportField, string[]> = {
+  method: ['method', 'brewmethod', 'brewer'],
+  startedAt: ['date', 'startedat', 'brewedat', 'datetime'],
+  durationSec: ['duration', 'durationsec', 'brewtime', 'totaltime'],
+  coffeeGrams: ['coffee', 'coffeegrams', 'dose'],
+  waterMl: ['water', 'waterml'],
+  bypassMl: ['bypass', 'bypassml'],
+  yieldMl: ['yield', 'yieldml', 'beverage'],
+  brewRatio: ['ratio', 'brewratio'],
+  grindSetting: ['grind', 'grindsetting', 'grindsize'],
+  waterTempC: ['watertemp', 'watertempc', 'temperature', 'temp'],
+  rating: ['rating', 'score', 'stars'],
+  notes: ['notes', 'note', 'comments', 'tastingnotes'],
+  tdsPercent: ['tds', 'tdspercent'],
+  shotTimeSec: ['shottime', 'shottimesec'],
+  outputGrams: ['output', 'outputgrams'],
+  'bean.variety': ['variety', 'beanvariety'],
+  'bean.roaster': ['roaster', 'beanroaster'],
+  'bean.origin': ['origin', 'beanorigin', 'country'],
+  'bean.roastDate': ['roastdate', 'roasted'],
+};
+
+export const suggestMapping = (headers: string[]): ImportMapping => {
+  const mapping: ImportMapping = {};
+  const squashed = headers.map((header) =>
+    squash(header.replace(/\(.*?\)/g, ''))
+  );
+
+  for (const field of SESSION_IMPORT_FIELDS) {
+    const index = squashed.findIndex((header) =>
+      FIELD_ALIASES[field].includes(header)
+    );
+    if (index !== -1 && !Object.values(mapping).includes(headers[index])) {
+      mapping[field] = headers[index];
+    }
+  }
+
+  return mapping;
+};
+
+export const matchMethod = (
+  value: string,
+  methods: ImportMethod[]
+): ImportMethod | undefined => {
+  const wanted = squash(value);
+  return methods.find(
+    (method) => squash(method.key) === wanted || squash(method.name) === wanted
+  );
+};
+
+// A number with an optional unit after it ("18", "18.5 g", "94°C")
+const parseNumber = (value: string): number | null => {
+  const match = value.match(/^(-?\d+(?:[.,]\d+)?)\s*[a-zA-Z°%]*$/);
+  return match ? Number(match[1].replace(',', '.')) : null;
+};
+
+// Seconds, or m:ss / h:mm:ss
+const parseDuration = (value: string): number | null => {
+  if (/^\d+(:\d{1,2}){1,2}$/.test(value)) {
+    return value
+      .split(':')
+      .reduce((total, part) => total * 60 + Number(part), 0);
+  }
+  return parseNumber(value);
+};
+
+// "1:15", "1/15" or just 15
+const parseRatio = (value: string): number | null =>
+  parseNumber(value.replace(/^1\s*[:/]\s*/, ''));
+
+type Parsed = { value: unknown } | { error: string };
+
+const numberField = (
+  value: string,
+  convert: (number: number) => number = (number) => number
+): Parsed => {
+  const number = parseNumber(value);
+  return number === null
+    ? { error: `"${value}" is not a number` }
+    : { value: convert(number) };
+};
+
+const parseField = (
+  field: SessionImportField,
+  value: string,
+  units: UnitSettings,
+  methods: ImportMethod[]
+): Parsed => {
+  const water = (ml: number) =>
+    units.waterUnitPreference !== 'g' && units.units === 'IMPERIAL'
+      ? ozToMl(ml)
+      : ml;
+  const weight = (grams: number) =>
+    units.units === 'IMPERIAL' ? ozToG(grams) : grams;
+
+  switch (field) {
+    case 'method': {
+      const method = matchMethod(value, methods);
+      return method
+        ? { value: method.id }
+        : { error: `No brew method called "${value}"` };
+    }
+    case 'startedAt': {
+      const date = new Date(value);
+      return isNaN(date.getTime())
+        ? { error: `"${value}" is not a date` }
+        : { value: date };
+    }
+    case 'durationSec':
+    case 'shotTimeSec': {
+      const seconds = parseDuration(value);
+      return seconds === null
+        ? { error: `"${value}" is not a duration` }
+        : { value: Math.round(seconds) };
+    }
+    case 'brewRatio': {
+      const ratio = parseRatio(value);
+      return ratio === null
+        ? { error: `"${value}" is not a ratio` }
+        : { value: ratio };
+    }
+    case 'coffeeGrams':
+    case 'outputGrams':
+      return numberField(value, weight);
+    case 'waterMl':
+    case 'bypassMl':
+    case 'yieldMl':
+      return numberField(value, water);
+    case 'waterTempC':
+      return numberField(value, (degrees) =>
+        units.tempUnit === 'F' ? fToC(degrees) : degrees
+      );
+    case 'rating':
+    case 'tdsPercent':
+      return numberField(value);
+    default:
+      return { value };
+  }
+};
+
+// Zod reports the method by its ID field; the mapping calls it method
+const fieldName = (path: (string | number)[]) =>
+  path[0] === 'methodId' ? 'method' : path.join('.');
+
+// The same per-method limits a logged session gets
+const methodCheck = (
+  field: SessionImportField,
+  check: () => void
+): ImportFieldError | null => {
+  try {
+    check();
+    return null;
+  } catch (error) {
+    if (error instanceof AppError) {
+      return { field, message: error.message };
+    }
+    throw error;
+  }
+};
+
+const toImportedSession = (
+  cells: string[],
+  columns: [SessionImportField, number][],
+  units: UnitSettings,
+  methods: ImportMethod[]
+): Omit<ImportRow, 'row'> => {
+  const input: ImportInput = {};
+  const errors: ImportFieldError[] = [];
+
+  for (const [field, index] of columns) {
+    const value = unguardCsvCell(cells[index] ?? '').trim();
+    if (value === '') {
+      continue;
+    }
+
+    const parsed = parseField(field, value, units, methods);
+    if ('error' in parsed) {
+      errors.push({ field, message: parsed.error });
+    } else if (field.startsWith('bean.')) {
+      input.bean = { ...input.bean, [field.slice(5)]: parsed.value };
+    } else {
+      input[field === 'method' ? 'methodId' : field] = parsed.value;
+    }
+  }
+
+  return checkImportedSession(input, methods, errors);
+};
+
+// Validates a session put together from another app's records the way a
+// logged one is, after any cells that failed to parse (`errors`)
+export const checkImportedSession = (
+  input: ImportInput,
+  methods: ImportMethod[],
+  errors: ImportFieldError[] = []
+): Omit<ImportRow, 'row'> => {
+  const { startedAt, ...fields } = input;
+  const result = createSessionSchema.safeParse(fields);
+  if (!result.success) {
+    for (const issue of result.error.issues) {
+      // A cell that didn't parse already explains itself
+      if (!errors.some((error) => error.field === fieldName(issue.path))) {
+        errors.push({ field: fieldName(issue.path), message: issue.message });
+      }
+    }
+  }
+  if (errors.length > 0 || !result.success) {
+    return { session: null, errors };
+  }
+
+  const session: ImportedSession = {
+    ...result.data,
+    startedAt: startedAt instanceof Date ? startedAt : undefined,
+  };
+  const method = methods.find(({ id }) => id === session.methodId)!;
+
+  // Spreadsheets rarely keep the ratio, but the logbook sorts and filters
+  // on it; a file's own ratio is kept as written
+  const derivedRatio = session.brewRatio === undefined;
+  if (derivedRatio) {
+    session.brewRatio = +(session.yieldMl / session.coffeeGrams).toFixed(1);
+  }
+  const ratioError = methodCheck('brewRatio', () =>
+    assertRatioFits(method, session.brewRatio!)
+  );
+  if (ratioError && derivedRatio) {
+    ratioError.message += `; the yield and dose give 1:${session.brewRatio}`;
+  }
+
+  const methodErrors = [
+    methodCheck('durationSec', () =>
+      assertDurationFits(method, session.durationSec)
+    ),
+    methodCheck('waterMl', () => assertWaterFits(method, session.waterMl)),
+    methodCheck('yieldMl', () => assertYieldFits(method, session.yieldMl)),
+    ratioError,
+    session.waterTempC !== undefined &&
+      methodCheck('waterTempC', () =>
+        assertTempFits(method, session.waterTempC!)
+      ),
+  ].filter((error): error is ImportFieldError => Boolean(error));
+  if (methodErrors.length > 0) {
+    return { session: null, errors: methodErrors };
+  }
+
+  return { session, errors: [] };
+};
+
+// Reads the CSV and checks every row without saving anything
+export const planSessionImport = ({
+  csv,
+  mapping,
+  units,
+  methods,
+}: {
+  csv: string;
+  mapping?: ImportMapping;
+  units: UnitSettings;
+  methods: ImportMethod[];
+}): { headers: string[]; mapping: ImportMapping; rows: ImportRow[] } => {
+  const [header, ...records] = parseCsv(csv);
+
+  if (!header) {
+    throw new AppError('The CSV file is empty', 400);
+  }
+  if (records.length > MAX_IMPORT_ROWS) {
+    throw new AppError(
+      `Import at most ${MAX_IMPORT_ROWS} sessions at a time`,
+      400
+    );
+  }
+
+  const headers = header.cells;
+  const used = mapping ?? suggestMapping(headers);
+  const columns = Object.entries(used).map(([field, header]) => {
+    const index = headers.indexOf(header);
+    if (index === -1) {
+      throw new AppError(`The CSV has no "${header}" column`, 400);
+    }
+    return [field, index] as [SessionImportField, number];
+  });
+
+  return {
+    headers,
+    mapping: used,
+    rows: records.map(({ row, cells }) => ({
+      row,
+      ...toImportedSession(cells, columns, units, methods),
+    })),
+  };
+};
@@ -0,0 +1,328 @@
+import { Prisma } from '@prisma/client';
+import { prisma } from './prisma';
+import { AppError } from '../middleware/error';
+import {
+  GetSessionsQuery,
+  SessionCursor,
+  sessionCursorSchema,
+  SessionSortField,
+} from '../schemas/sessions.schema';
+
+// Each session keeps a weighted tsvector for the logbook search: the method
+// name ranks highest, then the beans, the tasting notes and the grind
+const SEARCH_VECTOR = Prisma.sql`
+  setweight(to_tsvector('english', m.name), 'A') ||
+  setweight(to_tsvector('english', concat_ws(' ', s.bean->>'name', s.bean->>'variety', s.bean->>'roaster', s.bean->>'origin')), 'B') ||
+  setweight(to_tsvector('english', coalesce(s.notes, '')), 'C') ||
+  setweight(to_tsvector('english', coalesce(s."grindSetting", '')), 'D')`;
+
+// What highlights are cut from; the method name is on every card already
+const SEARCH_TEXT = Prisma.sql`
+  concat_ws(' · ', s.bean->>'name', s.bean->>'variety', s.bean->>'roaster', s.bean->>'origin', s."grindSetting", s.notes)`;
+
+// Private-use characters can't turn up in what people type, so they mark
+// matches without the client having to trust any markup
+export const MATCH_START = '\uE000';
+export const MATCH_END = '\uE001';
+const HEADLINE_OPTIONS = `StartSel=${MATCH_START}, StopSel=${MATCH_END}, MaxFragments=2, MaxWords=15, MinWords=5`;
+
+export interface HighlightSegment {
+  text: string;
+  match: boolean;
+}
+
+export interface SessionPageHit {
+  id: string;
+  highlight?: HighlightSegment[];
+}
+
+export type SessionPageQuery = Omit<
+  GetSessionsQuery,
+  'page' | 'limit' | 'cursor'
+>;
+
+const updateSearchVectors = (condition: Prisma.Sql) =>
+  prisma.$executeRaw`
+    UPDATE brew_sessions s
+    SET "searchVector" = ${SEARCH_VECTOR}
+    FROM brew_methods m
+    WHERE m.id = s."methodId" AND ${condition}`;
+
+// After sessions are saved, imported or restored, or a method renamed
+export const refreshSearchVectors = (
+  target:
+    | { sessionId: string }
+    | { sessionIds: string[] }
+    | { methodId: string }
+    | { userId: string }
+) => {
+  if ('sessionIds' in target && target.sessionIds.length === 0) {
+    return Promise.resolve(0);
+  }
+  return updateSearchVectors(
+    'sessionId' in target
+      ? Prisma.sql`s.id = ${target.sessionId}`
+      : 'sessionIds' in target
+        ? Prisma.sql`s.id IN (${Prisma.join(target.sessionIds)})`
+        : 'methodId' in target
+          ? Prisma.sql`s."methodId" = ${target.methodId}`
+          : Prisma.sql`s."userId" = ${target.userId}`
+  );
+};
+
+// Sessions logged before search was indexed; run on every start
+export const backfillSearchVectors = () =>
+  updateSearchVectors(Prisma.sql`s."searchVector" IS NULL`);
+
+// Every word has to match, each as a prefix so results show up while the
+// user is still typing. Null when there is nothing searchable left.
+export const toSearchQuery = (q: string): string | null => {
+  const terms = q.toLowerCase().match(/[\p{L}\p{N}]+/gu);
+  return terms ? terms.map((term) => `${term}:*`).join(' & ') : null;
+};
+
+export const highlightSegments = (headline: string): HighlightSegment[] =>
+  headline.split(MATCH_START).flatMap((part, index) => {
+    if (index === 0) {
+      return part ? [{ text: part, match: false }] : [];
+    }
+    const [match, rest] = part.split(MATCH_END);
+    return [
+      { text: match, match: true },
+      ...(rest ? [{ text: rest, match: false }] : []),
+    ];
+  });
+
+// Bean fields are free text, so these match any part of them in any case
+const escapeLike = (value: string) => value.replace(/[\\%_]/g, '\\$&');
+const beanContains = (field: string, value: string) =>
+  Prisma.sql`s.bean->>${field} ILIKE ${`%${escapeLike(value)}%`}`;
+
+// startedAt holds UTC without a zone
+const startedAt = (bound: Date) =>
+  Prisma.sql`(${bound.toISOString()}::timestamptz AT TIME ZONE 'UTC')`;
+
+const filterConditions = (userId: string, query: SessionPageQuery) => {
+  const conditions = [Prisma.sql`s."userId" = ${userId}`];
+  const add = (condition: Prisma.Sql) => conditions.push(condition);
+
+  if (query.methodId) add(Prisma.sql`s."methodId" = ${query.methodId}`);
+  if (query.waterProfileId) {
+    add(Prisma.sql`s."waterProfileId" = ${query.waterProfileId}`);
+  }
+  if (query.minRating !== undefined) {
+    add(Prisma.sql`s.rating >= ${query.minRating}`);
+  }
+  if (query.maxRating !== undefined) {
+    add(Prisma.sql`s.rating <= ${query.maxRating}`);
+  }
+  if (query.dateFrom) {
+    add(Prisma.sql`s."startedAt" >= ${startedAt(query.dateFrom)}`);
+  }
+  if (query.dateTo) {
+    add(Prisma.sql`s."startedAt" <= ${startedAt(query.dateTo)}`);
+  }
+  if (query.roaster) add(beanContains('roaster', query.roaster));
+  if (query.origin) add(beanContains('origin', query.origin));
+  if (query.minRatio !== undefined) {
+    add(Prisma.sql`s."brewRatio" >= ${query.minRatio}`);
+  }
+  if (query.maxRatio !== undefined) {
+    add(Prisma.sql`s."brewRatio" <= ${query.maxRatio}`);
+  }
+  if (query.minDurationSec !== undefined) {
+    add(Prisma.sql`s."durationSec" >= ${query.minDurationSec}`);
+  }
+  if (query.maxDurationSec !== undefined) {
+    add(Prisma.sql`s."durationSec" <= ${query.maxDurationSec}`);
+  }
+
+  return conditions;
+};
+
+const SORT_COLUMNS: Record<SessionSortField, Prisma.Sql> = {
+  date: Prisma.sql`s."startedAt"`,
+  rating: Prisma.sql`s.rating`,
+  ratio: Prisma.sql`s."brewRatio"`,
+  coffee: Prisma.sql`s."coffeeGrams"`,
+};
+
+// The user's sessions that pass the filters and, when searching, match the
+// query (joined as `query`). Null when the search has nothing to look for.
+const matchingSessions = (userId: string, query: SessionPageQuery) => {
+  const conditions = filterConditions(userId, query);
+
+  if (!query.q) {
+    return { source: Prisma.sql`FROM brew_sessions s`, conditions };
+  }
+
+  const tsquery = toSearchQuery(query.q);
+
+  if (!tsquery) {
+    return null;
+  }
+
+  conditions.push(Prisma.sql`s."searchVector" @@ query`);
+  return {
+    source: Prisma.sql`FROM brew_sessions s CROSS JOIN to_tsquery('english', ${tsquery}) AS query`,
+    conditions,
+  };
+};
+
+// Date order is resumed from the last row; that also keeps pages steady
+// while new sessions are logged. Null for any other order.
+const dateDirection = (query: SessionPageQuery) => {
+  if (query.sort === 'date') return query.order;
+  return !query.sort && !query.q ? 'desc' : null;
+};
+
+const orderBy = (query: SessionPageQuery) => {
+  const byDate = dateDirection(query);
+
+  if (byDate) {
+    const direction = Prisma.raw(byDate === 'asc' ? 'ASC' : 'DESC');
+    return Prisma.sql`s."startedAt" ${direction}, s.id ${direction}`;
+  }
+  if (!query.sort) {
+    return Prisma.sql`rank DESC, s."startedAt" DESC, s.id DESC`;
+  }
+  // Unrated sessions go last whichever way ratings are sorted
+  const direction = Prisma.raw(
+    query.order === 'asc' ? 'ASC NULLS LAST' : 'DESC NULLS LAST'
+  );
+  return Prisma.sql`${SORT_COLUMNS[query.sort]} ${direction}, s."startedAt" DESC, s.id DESC`;
+};
+
+const encodeCursor = (cursor: SessionCursor) =>
+  Buffer.from(JSON.stringify(cursor)).toString('base64url');
+
+const decodeCursor = (value: string): SessionCursor => {
+  try {
+    return sessionCursorSchema.parse(
+      JSON.parse(Buffer.from(value, 'base64url').toString())
+    );
+  } catch {
+    throw new AppError('Invalid cursor', 400);
+  }
+};
+
+// One page of the user's sessions that pass the filters, starting after
+// the `after` cursor when there is one. With a search query only matches
+// are returned, each with its highlighted excerpt. Counting every match is
+// skipped (total is null) with `withTotal: false`.
+export async function findSessionPage({
+  userId,
+  query,
+  after,
+  skip,
+  take,
+  withTotal = true,
+}: {
+  userId: string;
+  query: SessionPageQuery;
+  after?: string;
+  skip: number;
+  take: number;
+  withTotal?: boolean;
+}): Promise<{
+  hits: SessionPageHit[];
+  total: number | null;
+  nextCursor: string | null;
+}> {
+  const matching = matchingSessions(userId, query);
+
+  if (!matching) {
+    return { hits: [], total: withTotal ? 0 : null, nextCursor: null };
+  }
+
+  const { source, conditions } = matching;
+  const columns = query.q
+    ? Prisma.sql`
+      s.id,
+      s."startedAt",
+      ts_rank(s."searchVector", query) AS rank,
+      ts_headline('english', ${SEARCH_TEXT}, query, ${HEADLINE_OPTIONS}) AS headline`
+    : Prisma.sql`s.id, s."startedAt"`;
+
+  const byDate = dateDirection(query);
+  const pageConditions = [...conditions];
+  let offset = skip;
+
+  if (after) {
+    const cursor = decodeCursor(after);
+
+    if ('offset' in cursor) {
+      offset = cursor.offset;
+    } else if (byDate) {
+      const comparison = Prisma.raw(byDate === 'asc' ? '>' : '<');
+      pageConditions.push(
+        Prisma.sql`(s."startedAt", s.id) ${comparison} (${startedAt(new Date(cursor.startedAt))}, ${cursor.id})`
+      );
+      offset = 0;
+    } else {
+      throw new AppError('Cursor does not match the sort order', 400);
+    }
+  }
+
+  // One extra row tells whether there is a next page
+  const [rows, counted] = await Promise.all([
+    prisma.$queryRaw<{ id: string; startedAt: Date; headline?: string }[]>`
+      SELECT ${columns}
+      ${source}
+      WHERE ${Prisma.join(pageConditions, ' AND ')}
+      ORDER BY ${orderBy(query)}
+      LIMIT ${take + 1} OFFSET ${offset}`,
+    withTotal
+      ? prisma.$queryRaw<{ count: bigint }[]>`
+          SELECT count(*) AS count
+          ${source}
+          WHERE ${Prisma.join(conditions, ' AND ')}`
+      : null,
+  ]);
+  const page = rows.slice(0, take);
+  const last = page[page.length - 1];
+
+  return {
+    hits: page.map((row) => ({
+      id: row.id,
+      ...(row.headline !== undefined && {
+        highlight: highlightSegments(row.headline),
+      }),
+    })),
+    total: counted ? Number(counted[0].count) : null,
+    nextCursor:
+      rows.length > take
+        ? encodeCursor(
+            byDate
+              ? { startedAt: last.startedAt.toISOString(), id: last.id }
+              : { offset: offset + take }
+          )
+        : null,
+  };
+}
+
+// The most pours any matching session logged, so exports know how many
+// pour columns to lay out before the rows stream in
+export async function maxPourCount({
+  userId,
+  query,
+}: {
+  userId: string;
+  query: SessionPageQuery;
+}): Promise<number> {
+  const matching = matchingSessions(userId, query);
+
+  if (!matching) {
+    return 0;
+  }
+
+  const [{ pours }] = await prisma.$queryRaw<{ pours: number | null }[]>`
+    SELECT max(
+      CASE WHEN jsonb_typeof(s.pours) = 'array'
+        THEN jsonb_array_length(s.pours) ELSE 0 END
+    ) AS pours
+    ${matching.source}
+    WHERE ${Prisma.join(matching.conditions, ' AND ')}`;
+
+  return pours ?? 0;
+}
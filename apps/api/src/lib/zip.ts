@@ -0,0 +1,108 @@
+import { inflateRawSync } from 'zlib';
+import { AppError } from '../middleware/error';
+
+const LOCAL_HEADER = 0x04034b50;
+const CENTRAL_HEADER = 0x02014b50;
+const END_OF_CENTRAL_DIRECTORY = 0x06054b50;
+
+const STORED = 0;
+const DEFLATED = 8;
+
+// Archives that unzip past this, all entries read counted together, are
+// refused rather than inflated into memory
+const MAX_UNZIPPED_BYTES = 100 * 1024 * 1024;
+
+export const isZip = (file: Buffer) =>
+  file.length >= 4 && file.readUInt32LE(0) === LOCAL_HEADER;
+
+// The end record sits in the last 22 bytes unless the archive has a comment
+const findEndOfCentralDirectory = (zip: Buffer): number => {
+  for (let offset = zip.length - 22; offset >= 0; offset--) {
+    if (zip.readUInt32LE(offset) === END_OF_CENTRAL_DIRECTORY) {
+      return offset;
+    }
+  }
+  throw new AppError('The ZIP file is damaged', 400);
+};
+
+const tooLarge = () => new AppError('The ZIP file is too large to import', 400);
+
+const readEntries = (
+  zip: Buffer,
+  wanted: (name: string) => boolean
+): Map<string, Buffer> => {
+  const end = findEndOfCentralDirectory(zip);
+  const count = zip.readUInt16LE(end + 10);
+  let offset = zip.readUInt32LE(end + 16);
+  const files = new Map<string, Buffer>();
+  let budget = MAX_UNZIPPED_BYTES;
+
+  for (let index = 0; index < count; index++) {
+    if (zip.readUInt32LE(offset) !== CENTRAL_HEADER) {
+      throw new AppError('The ZIP file is damaged', 400);
+    }
+    const method = zip.readUInt16LE(offset + 10);
+    const compressedSize = zip.readUInt32LE(offset + 20);
+    const size = zip.readUInt32LE(offset + 24);
+    const nameLength = zip.readUInt16LE(offset + 28);
+    const extraLength = zip.readUInt16LE(offset + 30);
+    const commentLength = zip.readUInt16LE(offset + 32);
+    const localOffset = zip.readUInt32LE(offset + 42);
+    const name = zip.toString('utf8', offset + 46, offset + 46 + nameLength);
+    offset += 46 + nameLength + extraLength + commentLength;
+
+    if (name.endsWith('/') || !wanted(name)) {
+      continue; // a directory, or a file the caller has no use for
+    }
+    if (size > budget) {
+      throw tooLarge();
+    }
+
+    // The local header's own name and extra field can differ in length
+    const start =
+      localOffset +
+      30 +
+      zip.readUInt16LE(localOffset + 26) +
+      zip.readUInt16LE(localOffset + 28);
+    const data = zip.subarray(start, start + compressedSize);
+
+    if (method === STORED) {
+      files.set(name, data);
+      budget -= data.length;
+    } else if (method === DEFLATED) {
+      // The stated size can lie, so the inflated one is what's counted
+      let file: Buffer;
+      try {
+        file = inflateRawSync(data, { maxOutputLength: budget });
+      } catch (error) {
+        if (error instanceof RangeError) {
+          throw tooLarge();
+        }
+        throw error;
+      }
+      files.set(name, file);
+      budget -= file.length;
+    } else {
+      throw new AppError(`${name} is compressed in an unsupported way`, 400);
+    }
+  }
+
+  return files;
+};
+
+// Reads the wanted files out of a ZIP archive, by path. Only what
+// brew-tracker exports use is supported: stored or deflated entries, no ZIP64
+export const readZip = (
+  zip: Buffer,
+  wanted: (name: string) => boolean = () => true
+): Map<string, Buffer> => {
+  try {
+    return readEntries(zip, wanted);
+  } catch (error) {
+    // Offsets past the end of a truncated file, or data that won't inflate
+    if (error instanceof AppError) {
+      throw error;
+    }
+    throw new AppError('The ZIP file is damaged', 400);
+  }
+};
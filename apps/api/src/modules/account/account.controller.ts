@@ -0,0 +1,189 @@
+import { Request, Response, NextFunction } from 'express';
+import { prisma } from '../../lib/prisma';
+import { AppError } from '../../middleware/error';
+import { visibleMethodsWhere } from '../../lib/methods';
+import { refreshSearchVectors } from '../../lib/sessionSearch';
+import {
+  backupMethodSelect,
+  backupSessionInclude,
+  backupSettingsSelect,
+  parseAccountBackup,
+  restoreMethodIds,
+  RestoreTargets,
+  toAccountBackup,
+  toRestoredMethods,
+  toRestoredSessions,
+  toRestoredSettings,
+} from '../../lib/accountBackup';
+import { restoreAccountSchema } from '../../schemas/account.schema';
+
+export const exportAccount = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+) => {
+  try {
+    const userId = req.user!.id;
+
+    const [user, settings, methods, sessions] = await Promise.all([
+      prisma.user.findUnique({
+        where: { id: userId },
+        select: { email: true, displayName: true, createdAt: true },
+      }),
+      prisma.settings.findUnique({
+        where: { userId },
+        select: backupSettingsSelect,
+      }),
+      prisma.brewMethod.findMany({
+        where: { userId },
+        select: backupMethodSelect,
+        orderBy: { key: 'asc' },
+      }),
+      prisma.brewSession.findMany({
+        where: { userId },
+        include: backupSessionInclude,
+        orderBy: [{ startedAt: 'asc' }, { id: 'asc' }],
+      }),
+    ]);
+
+    if (!user) {
+      throw new AppError('User not found', 404);
+    }
+
+    const defaultMethod = settings?.defaultMethodId
+      ? await prisma.brewMethod.findUnique({
+          where: { id: settings.defaultMethodId },
+          select: { key: true },
+        })
+      : null;
+
+    const day = new Date().toISOString().slice(0, 10);
+    res.setHeader(
+      'Content-Disposition',
+      `attachment; filename="coffee-brewster-backup-${day}.json"`
+    );
+    // The document itself, so the downloaded file restores as it is
+    res.status(200).json(
+      toAccountBackup({
+        user,
+        settings,
+        defaultMethodKey: defaultMethod?.key ?? null,
+        methods,
+        sessions,
+      })
+    );
+  } catch (error) {
+    next(error);
+  }
+};
+
+export const restoreAccount = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+) => {
+  try {
+    const { mode, backup: document } = restoreAccountSchema.parse(req.body);
+    const backup = parseAccountBackup(document);
+    const userId = req.user!.id;
+
+    const [methods, grinders, waterProfiles] = await Promise.all([
+      prisma.brewMethod.findMany({
+        where: visibleMethodsWhere(userId),
+        select: { id: true, key: true, importId: true },
+      }),
+      prisma.grinder.findMany({ where: { userId }, select: { id: true } }),
+      prisma.waterProfile.findMany({
+        where: { userId },
+        select: { id: true },
+      }),
+    ]);
+
+    // Checked before anything is saved: every session needs a method this
+    // server has or one of the backup's custom methods
+    const newMethods = toRestoredMethods(
+      backup,
+      restoreMethodIds(backup.methods, methods),
+      userId
+    );
+
+    // All or nothing, custom methods included, so a failed restore leaves
+    // no half-made copies behind. Large backups need longer than the
+    // default five seconds.
+    const restored = await prisma.$transaction(
+      async (tx) => {
+        // Custom methods first, so the sessions brewed with them have a
+        // method to point at
+        const created =
+          newMethods.length > 0
+            ? await tx.brewMethod.createManyAndReturn({
+                data: newMethods,
+                select: { id: true, key: true, importId: true },
+              })
+            : [];
+        const targets: RestoreTargets = {
+          methodIds: restoreMethodIds(backup.methods, [...methods, ...created]),
+          grinderIds: new Set(grinders.map((grinder) => grinder.id)),
+          waterProfileIds: new Set(waterProfiles.map((profile) => profile.id)),
+        };
+        const sessions = toRestoredSessions(backup.sessions, targets, userId);
+
+        // A backup restored into a second account on the same server would
+        // reuse the first account's session IDs; those get new ones, and an
+        // import ID so restoring the backup there again skips them
+        const taken = await tx.brewSession.findMany({
+          where: {
+            id: { in: sessions.map((session) => session.id!) },
+            userId: { not: userId },
+          },
+          select: { id: true },
+        });
+        const takenIds = new Set(taken.map((session) => session.id));
+        const data = sessions.map(({ id, ...session }) =>
+          takenIds.has(id!)
+            ? { ...session, importId: session.importId ?? `backup:${id}` }
+            : { id, ...session }
+        );
+
+        if (mode === 'replace') {
+          const settings = backup.settings
+            ? toRestoredSettings(backup.settings, targets)
+            : {};
+          await tx.brewSession.deleteMany({ where: { userId } });
+          await tx.user.update({
+            where: { id: userId },
+            data: { displayName: backup.user.displayName ?? null },
+          });
+          await tx.settings.upsert({
+            where: { userId },
+            update: settings,
+            create: { ...settings, userId },
+          });
+        }
+
+        // Sessions already in the logbook (same ID or import ID) are skipped
+        const restoredSessions = await tx.brewSession.createManyAndReturn({
+          data,
+          select: { id: true },
+          skipDuplicates: true,
+        });
+        return restoredSessions.length;
+      },
+      { timeout: 30_000 }
+    );
+    await refreshSearchVectors({ userId });
+
+    res.status(200).json({
+      success: true,
+      message: `Restored ${restored} of ${backup.sessions.length} sessions`,
+      restore: {
+        mode,
+        total: backup.sessions.length,
+        restored,
+        skipped: backup.sessions.length - restored,
+      },
+    });
+  } catch (error) {
+    next(error);
+  }
+};
\ No newline at end of file
@@ -0,0 +1,13 @@
+import { Router } from 'express';
+import { exportAccount, restoreAccount } from './account.controller';
+import { authenticate } from '../../middleware/auth';
+
+const router = Router();
+
+// All account routes require authentication
+router.use(authenticate);
+
+router.get('/export', exportAccount);
+router.post('/restore', restoreAccount);
+
+export { router as accountRoutes };
\ No newline at end of file
@@ -0,0 +1,121 @@
+import { Request, Response, NextFunction } from 'express';
+import { prisma } from '../../lib/prisma';
+import { AppError } from '../../middleware/error';
+import {
+  createGrinderSchema,
+  updateGrinderSchema,
+} from '../../schemas/grinders.schema';
+
+export const getGrinders = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+) => {
+  try {
+    const grinders = await prisma.grinder.findMany({
+      where: { userId: req.user!.id },
+      orderBy: { name: 'asc' },
+    });
+
+    res.status(200).json({
+      success: true,
+      grinders,
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+export const createGrinder = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+) => {
+  try {
+    const grinderData = createGrinderSchema.parse(req.body);
+
+    const grinder = await prisma.grinder.create({
+      data: {
+        ...grinderData,
+        userId: req.user!.id,
+      },
+    });
+
+    res.status(201).json({
+      success: true,
+      message: 'Grinder created successfully',
+      grinder,
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+export const updateGrinder = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+) => {
+  try {
+    const { id } = req.params;
+    const updates = updateGrinderSchema.parse(req.body);
+
+    const existingGrinder = await prisma.grinder.findFirst({
+      where: {
+        id,
+        userId: req.user!.id,
+      },
+    });
+
+    if (!existingGrinder) {
+      throw new AppError('Grinder not found', 404);
+    }
+
+    const grinder = await prisma.grinder.update({
+      where: { id },
+      data: updates,
+    });
+
+    res.status(200).json({
+      success: true,
+      message: 'Grinder updated successfully',
+      grinder,
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+export const deleteGrinder = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+) => {
+  try {
+    const { id } = req.params;
+
+    const deletedGrinder = await prisma.grinder.deleteMany({
+      where: {
+        id,
+        userId: req.user!.id,
+      },
+    });
+
+    if (deletedGrinder.count === 0) {
+      throw new AppError('Grinder not found', 404);
+    }
+
+    // Sessions keep their grind value; only the active choice is cleared
+    await prisma.settings.updateMany({
+      where: { userId: req.user!.id, activeGrinderId: id },
+      data: { activeGrinderId: null },
+    });
+
+    res.status(200).json({
+      success: true,
+      message: 'Grinder deleted successfully',
+    });
+  } catch (error) {
+    next(error);
+  }
+};
@@ -0,0 +1,20 @@
+import { Router } from 'express';
+import {
+  getGrinders,
+  createGrinder,
+  updateGrinder,
+  deleteGrinder,
+} from './grinders.controller';
+import { requireAuth } from '../../middleware/auth';
+
+const router = Router();
+
+// Grinders are private to their owner
+router.use(requireAuth);
+
+router.get('/', getGrinders);
+router.post('/', createGrinder);
+router.put('/:id', updateGrinder);
+router.delete('/:id', deleteGrinder);
+
+export { router as grindersRoutes };
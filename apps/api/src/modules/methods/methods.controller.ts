@@ -1,6 +1,20 @@
 import { Request, Response, NextFunction } from 'express';
+import { Prisma } from '@prisma/client';
 import { prisma } from '../../lib/prisma';
 import { AppError } from '../../middleware/error';
+import {
+  createMethodSchema,
+  updateMethodSchema,
+} from '../../schemas/methods.schema';
+import { evenPourTemplate } from '@coffee-brewster/brew-math';
+import {
+  methodSelect,
+  serializeMethod,
+  visibleMethodsWhere,
+  findVisibleMethod,
+  generateMethodKey,
+} from '../../lib/methods';
+import { refreshSearchVectors } from '../../lib/sessionSearch';
 
 export const getMethods = async (
   req: Request,
@@ -20,24 +34,15 @@ export const getMethods = async (
     }
 
     const methods = await prisma.brewMethod.findMany({
-      select: {
-        id: true,
-        key: true,
-        name: true,
-        defaultRatio: true,
-        bloom: true,
-        pours: true,
-        notes: true,
-        presets: showRecommendations, // Only include presets if user wants recommendations
-      },
+      where: visibleMethodsWhere(req.user?.id),
+      select: methodSelect,
       orderBy: { name: 'asc' },
     });
 
     // If recommendations are disabled, filter out preset details from the presets field
-    const filteredMethods = methods.map(method => ({
-      ...method,
-      presets: showRecommendations ? method.presets : null,
-    }));
+    const filteredMethods = methods.map(method =>
+      serializeMethod(method, showRecommendations)
+    );
 
     res.status(200).json({
       success: true,
@@ -68,29 +73,14 @@ export const getMethodByKey = async (
       showRecommendations = userSettings?.recommend ?? true;
     }
 
-    const method = await prisma.brewMethod.findUnique({
-      where: { key },
-      select: {
-        id: true,
-        key: true,
-        name: true,
-        defaultRatio: true,
-        bloom: true,
-        pours: true,
-        notes: true,
-        presets: true,
-      },
-    });
+    const method = await findVisibleMethod({ key }, req.user?.id);
 
     if (!method) {
       throw new AppError('Brew method not found', 404);
     }
 
     // Filter presets based on user preference
-    const filteredMethod = {
-      ...method,
-      presets: showRecommendations ? method.presets : null,
-    };
+    const filteredMethod = serializeMethod(method, showRecommendations);
 
     res.status(200).json({
       success: true,
@@ -100,4 +90,155 @@ export const getMethodByKey = async (
   } catch (error) {
     next(error);
   }
+};
+
+export const createMethod = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+) => {
+  try {
+    const { tempC, grind, filter, capacityMl, schedule, ...fields } =
+      createMethodSchema.parse(req.body);
+
+    const method = await prisma.brewMethod.create({
+      data: {
+        ...fields,
+        key: generateMethodKey(fields.name),
+        userId: req.user!.id,
+        presets: {
+          tempC,
+          grind,
+          filter,
+          capacityMl,
+          // Without an explicit schedule, split the water evenly
+          schedule: (schedule ??
+            evenPourTemplate(
+              fields.pours,
+              fields.bloom
+            )) as unknown as Prisma.InputJsonObject,
+        },
+      },
+      select: methodSelect,
+    });
+
+    res.status(201).json({
+      success: true,
+      message: 'Method created successfully',
+      method: serializeMethod(method, true),
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+export const updateMethod = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+) => {
+  try {
+    const { id } = req.params;
+    const { tempC, grind, filter, capacityMl, schedule, ...fields } =
+      updateMethodSchema.parse(req.body);
+
+    // Only the owner can edit a method; global methods are read-only
+    const existingMethod = await prisma.brewMethod.findFirst({
+      where: { id, userId: req.user!.id },
+      select: methodSelect,
+    });
+
+    if (!existingMethod) {
+      throw new AppError('Method not found', 404);
+    }
+
+    const currentPresets =
+      (existingMethod.presets as Record<string, unknown> | null) ?? {};
+    const shapeChanged =
+      fields.pours !== undefined || fields.bloom !== undefined;
+
+    const method = await prisma.brewMethod.update({
+      where: { id },
+      data: {
+        ...fields,
+        presets: {
+          ...currentPresets,
+          ...(tempC !== undefined && { tempC }),
+          ...(grind !== undefined && { grind }),
+          ...(filter !== undefined && { filter }),
+          ...(capacityMl !== undefined && { capacityMl }),
+          ...(schedule
+            ? { schedule }
+            : shapeChanged && {
+                schedule: evenPourTemplate(
+                  fields.pours ?? existingMethod.pours,
+                  fields.bloom ?? existingMethod.bloom
+                ),
+              }),
+        },
+      },
+      select: methodSelect,
+    });
+
+    // Logged sessions are searchable by their method's name
+    if (fields.name !== undefined && fields.name !== existingMethod.name) {
+      await refreshSearchVectors({ methodId: id });
+    }
+
+    res.status(200).json({
+      success: true,
+      message: 'Method updated successfully',
+      method: serializeMethod(method, true),
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+export const deleteMethod = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+) => {
+  try {
+    const { id } = req.params;
+
+    const method = await prisma.brewMethod.findFirst({
+      where: { id, userId: req.user!.id },
+      select: {
+        id: true,
+        _count: { select: { sessions: true, recipes: true } },
+      },
+    });
+
+    if (!method) {
+      throw new AppError('Method not found', 404);
+    }
+
+    if (method._count.sessions > 0) {
+      throw new AppError(
+        'Method has logged sessions and cannot be deleted',
+        409
+      );
+    }
+
+    if (method._count.recipes > 0) {
+      throw new AppError('Method has saved recipes and cannot be deleted', 409);
+    }
+
+    await prisma.$transaction([
+      prisma.settings.updateMany({
+        where: { userId: req.user!.id, defaultMethodId: id },
+        data: { defaultMethodId: null },
+      }),
+      prisma.brewMethod.delete({ where: { id } }),
+    ]);
+
+    res.status(200).json({
+      success: true,
+      message: 'Method deleted successfully',
+    });
+  } catch (error) {
+    next(error);
+  }
 };
\ No newline at end of file
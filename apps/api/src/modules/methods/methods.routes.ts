@@ -1,6 +1,12 @@
 import { Router } from 'express';
-import { getMethods, getMethodByKey } from './methods.controller';
-import { authenticate } from '../../middleware/auth';
+import {
+  getMethods,
+  getMethodByKey,
+  createMethod,
+  updateMethod,
+  deleteMethod,
+} from './methods.controller';
+import { authenticate, requireAuth } from '../../middleware/auth';
 
 const router = Router();
 
@@ -20,4 +26,9 @@ const optionalAuth = (req: any, res: any, next: any) => {
 router.get('/', optionalAuth, getMethods);
 router.get('/:key', optionalAuth, getMethodByKey);
 
+// Custom methods are owned by the user who created them
+router.post('/', requireAuth, createMethod);
+router.put('/:id', requireAuth, updateMethod);
+router.delete('/:id', requireAuth, deleteMethod);
+
 export { router as methodsRoutes };
\ No newline at end of file
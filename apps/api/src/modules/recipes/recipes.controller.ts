@@ -0,0 +1,197 @@
+import { Request, Response, NextFunction } from 'express';
+import { prisma } from '../../lib/prisma';
+import { AppError } from '../../middleware/error';
+import {
+  assertRatioFits,
+  assertTempFits,
+  findVisibleMethod,
+} from '../../lib/methods';
+import {
+  createRecipeSchema,
+  updateRecipeSchema,
+} from '../../schemas/recipes.schema';
+
+const recipeInclude = {
+  method: {
+    select: {
+      name: true,
+      key: true,
+    },
+  },
+};
+
+export const getRecipes = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+) => {
+  try {
+    const recipes = await prisma.recipe.findMany({
+      where: { userId: req.user!.id },
+      orderBy: { updatedAt: 'desc' },
+      include: recipeInclude,
+    });
+
+    res.status(200).json({
+      success: true,
+      recipes,
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+export const getRecipe = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+) => {
+  try {
+    const { id } = req.params;
+
+    const recipe = await prisma.recipe.findFirst({
+      where: {
+        id,
+        userId: req.user!.id, // Ensure ownership
+      },
+      include: recipeInclude,
+    });
+
+    if (!recipe) {
+      throw new AppError('Recipe not found', 404);
+    }
+
+    res.status(200).json({
+      success: true,
+      recipe,
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+export const createRecipe = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+) => {
+  try {
+    const recipeData = createRecipeSchema.parse(req.body);
+
+    const method = await findVisibleMethod(
+      { id: recipeData.methodId },
+      req.user!.id
+    );
+
+    if (!method) {
+      throw new AppError('Invalid method ID', 400);
+    }
+
+    assertRatioFits(method, recipeData.ratio);
+    if (recipeData.tempC !== undefined) {
+      assertTempFits(method, recipeData.tempC);
+    }
+
+    const recipe = await prisma.recipe.create({
+      data: {
+        ...recipeData,
+        userId: req.user!.id,
+      },
+      include: recipeInclude,
+    });
+
+    res.status(201).json({
+      success: true,
+      message: 'Recipe created successfully',
+      recipe,
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+export const updateRecipe = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+) => {
+  try {
+    const { id } = req.params;
+    const updates = updateRecipeSchema.parse(req.body);
+
+    const existingRecipe = await prisma.recipe.findFirst({
+      where: {
+        id,
+        userId: req.user!.id,
+      },
+    });
+
+    if (!existingRecipe) {
+      throw new AppError('Recipe not found', 404);
+    }
+
+    // Verify the method exists and still allows the ratio and temperature
+    if (
+      updates.methodId ||
+      updates.ratio !== undefined ||
+      updates.tempC !== undefined
+    ) {
+      const method = await findVisibleMethod(
+        { id: updates.methodId ?? existingRecipe.methodId },
+        req.user!.id
+      );
+
+      if (!method) {
+        throw new AppError('Invalid method ID', 400);
+      }
+
+      assertRatioFits(method, updates.ratio ?? existingRecipe.ratio);
+      const tempC = updates.tempC ?? existingRecipe.tempC;
+      if (tempC !== null) {
+        assertTempFits(method, tempC);
+      }
+    }
+
+    const recipe = await prisma.recipe.update({
+      where: { id },
+      data: updates,
+      include: recipeInclude,
+    });
+
+    res.status(200).json({
+      success: true,
+      message: 'Recipe updated successfully',
+      recipe,
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+export const deleteRecipe = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+) => {
+  try {
+    const { id } = req.params;
+
+    const deletedRecipe = await prisma.recipe.deleteMany({
+      where: {
+        id,
+        userId: req.user!.id,
+      },
+    });
+
+    if (deletedRecipe.count === 0) {
+      throw new AppError('Recipe not found', 404);
+    }
+
+    res.status(200).json({
+      success: true,
+      message: 'Recipe deleted successfully',
+    });
+  } catch (error) {
+    next(error);
+  }
+};
@@ -0,0 +1,22 @@
+import { Router } from 'express';
+import {
+  getRecipes,
+  getRecipe,
+  createRecipe,
+  updateRecipe,
+  deleteRecipe,
+} from './recipes.controller';
+import { requireAuth } from '../../middleware/auth';
+
+const router = Router();
+
+// Recipes are private to their owner
+router.use(requireAuth);
+
+router.get('/', getRecipes);
+router.post('/', createRecipe);
+router.get('/:id', getRecipe);
+router.put('/:id', updateRecipe);
+router.delete('/:id', deleteRecipe);
+
+export { router as recipesRoutes };
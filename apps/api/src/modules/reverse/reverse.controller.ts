@@ -1,8 +1,114 @@
+import { Grinder } from '@prisma/client';
 import { Request, Response, NextFunction } from 'express';
+import {
+  BrewPlan,
+  RECIPE_VARIANTS,
+  planBrew,
+  roastAgeDays,
+  shownAdjustments,
+  solveForStrength,
+} from '@coffee-brewster/brew-math';
 import { prisma } from '../../lib/prisma';
 import { AppError } from '../../middleware/error';
-import { reverseBrewSchema } from '../../schemas/reverse.schema';
-import { planBrew } from '../../lib/brewCalculator';
+import {
+  batchBrewSchema,
+  reverseBrewSchema,
+  strengthSchema,
+} from '../../schemas/reverse.schema';
+import { planBatch } from '../../lib/batchPlanner';
+import { grinderSettingFor } from '../../lib/grinders';
+import {
+  assertRatioFits,
+  findVisibleMethod,
+  methodSelect,
+  toPlanMethod,
+  visibleMethodsWhere,
+} from '../../lib/methods';
+
+const loadPlanningSettings = async (userId: string) => {
+  const userSettings = await prisma.settings.findUnique({
+    where: { userId },
+    select: {
+      cupSizeMl: true,
+      recommend: true,
+      altitudeM: true,
+      activeGrinderId: true,
+    },
+  });
+  const showRecommendations = userSettings?.recommend ?? true;
+
+  // Translate the grind suggestion onto the user's own grinder
+  const activeGrinder =
+    showRecommendations && userSettings?.activeGrinderId
+      ? await prisma.grinder.findFirst({
+          where: { id: userSettings.activeGrinderId, userId },
+        })
+      : null;
+
+  return {
+    cupSizeMl: userSettings?.cupSizeMl ?? 240,
+    altitudeM: userSettings?.altitudeM,
+    showRecommendations,
+    activeGrinder,
+  };
+};
+
+// Cold brew dilutes its own concentrate and espresso is metered by the
+// machine, so ice and bypass only apply to standard brews
+const assertDilutionFits = (
+  method: { kind: string },
+  { iced, bypass }: { iced?: boolean; bypass?: boolean }
+) => {
+  if (method.kind === 'STANDARD') {
+    return;
+  }
+  if (iced) {
+    throw new AppError('Iced brewing is not available for this method', 400);
+  }
+  if (bypass) {
+    throw new AppError('Bypass is not available for this method', 400);
+  }
+};
+
+const assertVariantFits = (
+  method: { key: string },
+  variant?: keyof typeof RECIPE_VARIANTS
+) => {
+  if (variant && !RECIPE_VARIANTS[variant].methods.includes(method.key)) {
+    throw new AppError(
+      `${RECIPE_VARIANTS[variant].name} is not available for this method`,
+      400
+    );
+  }
+};
+
+// Hide recommendations if the user has disabled them
+const serializePlan = (
+  brewPlan: BrewPlan,
+  showRecommendations: boolean,
+  activeGrinder: Grinder | null
+) => ({
+  coffeeGrams: brewPlan.coffeeGrams,
+  waterTotalMl: brewPlan.waterTotalMl,
+  yieldTargetMl: brewPlan.yieldTargetMl,
+  bloomMl: brewPlan.bloomMl,
+  iceGrams: brewPlan.iceGrams,
+  brewWaterMl: brewPlan.brewWaterMl,
+  bypassMl: brewPlan.bypassMl,
+  coldBrew: brewPlan.coldBrew,
+  espresso: brewPlan.espresso,
+  pours: brewPlan.pours,
+  adjustments: shownAdjustments(brewPlan.adjustments, showRecommendations),
+  ...(showRecommendations && {
+    tempC: brewPlan.tempC,
+    boilingPointC: brewPlan.boilingPointC,
+    grind: brewPlan.grind,
+    grinderSetting: activeGrinder
+      ? grinderSettingFor(activeGrinder, brewPlan.grind)
+      : null,
+    filter: brewPlan.filter,
+  }),
+});
 
 export const calculateReverseBrew = async (
   req: Request,
@@ -10,71 +116,208 @@ export const calculateReverseBrew = async (
   next: NextFunction
 ) => {
   try {
-    const { methodKey, cups, ratio, targetYieldMl } = reverseBrewSchema.parse(
-      req.body
-    );
+    const {
+      methodKey,
+      cups,
+      ratio,
+      targetYieldMl,
+      targetBeverageGrams,
+      coffeeGrams,
+      iced,
+      bypassPercent,
+      bypassMl,
+      recipeVariant,
+      sweetness,
+      strength,
+      roastLevel,
+      roastDate,
+    } = reverseBrewSchema.parse(req.body);
 
-    // Get user settings for cup size preference
-    const userSettings = await prisma.settings.findUnique({
-      where: { userId: req.user!.id },
-      select: {
-        cupSizeMl: true,
-        recommend: true,
-      },
-    });
+    const { cupSizeMl, altitudeM, showRecommendations, activeGrinder } =
+      await loadPlanningSettings(req.user!.id);
 
-    const cupSizeMl = userSettings?.cupSizeMl ?? 240;
-    const showRecommendations = userSettings?.recommend ?? true;
-
-    // Get brew method details
-    const method = await prisma.brewMethod.findUnique({
-      where: { key: methodKey },
-      select: {
-        key: true,
-        defaultRatio: true,
-        bloom: true,
-        pours: true,
-      },
-    });
+    // Get brew method details (global or the user's own)
+    const method = await findVisibleMethod({ key: methodKey }, req.user!.id);
 
     if (!method) {
       throw new AppError('Brew method not found', 404);
     }
 
+    if (ratio !== undefined) {
+      assertRatioFits(method, ratio);
+    }
+
+    assertDilutionFits(method, {
+      iced,
+      bypass: Boolean(bypassPercent || bypassMl),
+    });
+
+    assertVariantFits(method, recipeVariant);
+
     // Calculate the brew plan
     const brewPlan = planBrew({
-      method: {
-        key: method.key as any,
-        defaultRatio: method.defaultRatio,
-        bloom: method.bloom,
-        pours: method.pours,
-      },
+      method: toPlanMethod(method),
       cups,
       cupSizeMl,
+      altitudeM,
       ratio,
       targetYieldMl,
+      targetBeverageGrams,
+      coffeeGrams,
+      iced,
+      bypassPercent,
+      bypassMl,
+      variant: recipeVariant && {
+        key: recipeVariant,
+        options: { sweetness, strength },
+      },
+      bean: {
+        roastLevel,
+        roastAgeDays: roastDate ? roastAgeDays(new Date(roastDate)) : undefined,
+      },
     });
 
-    // Prepare response - hide recommendations if user has disabled them
-    const response = {
-      coffeeGrams: brewPlan.coffeeGrams,
-      waterTotalMl: brewPlan.waterTotalMl,
-      yieldTargetMl: brewPlan.yieldTargetMl,
-      bloomMl: brewPlan.bloomMl,
-      pours: brewPlan.pours,
-      ...(showRecommendations && {
-        tempC: brewPlan.tempC,
-        grind: brewPlan.grind,
-        filter: brewPlan.filter,
-      }),
-    };
+    res.status(200).json({
+      success: true,
+      recipe: serializePlan(brewPlan, showRecommendations, activeGrinder),
+      showRecommendations,
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+export const calculateBatchBrew = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+) => {
+  try {
+    const {
+      methodKey,
+      cups,
+      targetYieldMl,
+      ratio,
+      iced,
+      bypassPercent,
+      bypassMl,
+      recipeVariant,
+      sweetness,
+      strength,
+      roastLevel,
+      roastDate,
+    } = batchBrewSchema.parse(req.body);
+
+    const { cupSizeMl, altitudeM, showRecommendations, activeGrinder } =
+      await loadPlanningSettings(req.user!.id);
+
+    // Every method the user can brew with, to look for a bigger brewer
+    const methods = await prisma.brewMethod.findMany({
+      where: visibleMethodsWhere(req.user!.id),
+      select: methodSelect,
+    });
+    const method = methods.find((m) => m.key === methodKey);
+
+    if (!method) {
+      throw new AppError('Brew method not found', 404);
+    }
+
+    if (ratio !== undefined) {
+      assertRatioFits(method, ratio);
+    }
+
+    assertDilutionFits(method, {
+      iced,
+      bypass: Boolean(bypassPercent || bypassMl),
+    });
+    assertVariantFits(method, recipeVariant);
+
+    const batch = planBatch({
+      method: toPlanMethod(method),
+      cups,
+      targetYieldMl,
+      cupSizeMl,
+      altitudeM,
+      ratio,
+      iced,
+      bypassPercent,
+      bypassMl,
+      variant: recipeVariant && {
+        key: recipeVariant,
+        options: { sweetness, strength },
+      },
+      bean: {
+        roastLevel,
+        roastAgeDays: roastDate ? roastAgeDays(new Date(roastDate)) : undefined,
+      },
+      alternatives: methods.map(toPlanMethod),
+    });
+
+    const suggested =
+      batch.suggestion &&
+      methods.find((m) => m.key === batch.suggestion!.methodKey);
 
     res.status(200).json({
       success: true,
-      recipe: response,
+      batch: {
+        totalYieldMl: batch.totalYieldMl,
+        coffeeGrams: batch.coffeeGrams,
+        waterTotalMl: batch.waterTotalMl,
+        capacityMl: batch.capacityMl,
+        brews: batch.brews.map((brewPlan) =>
+          serializePlan(brewPlan, showRecommendations, activeGrinder)
+        ),
+        suggestion: suggested
+          ? { ...batch.suggestion, name: suggested.name }
+          : null,
+      },
       showRecommendations,
     });
   } catch (error) {
     next(error);
   }
+};
+
+export const solveStrength = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+) => {
+  try {
+    const {
+      methodKey,
+      targetTdsPercent,
+      extractionYieldPercent,
+      cups,
+      targetYieldMl,
+      coffeeGrams,
+    } = strengthSchema.parse(req.body);
+
+    const { cupSizeMl } = await loadPlanningSettings(req.user!.id);
+
+    const method = await findVisibleMethod({ key: methodKey }, req.user!.id);
+
+    if (!method) {
+      throw new AppError('Brew method not found', 404);
+    }
+
+    const strength = solveForStrength({
+      method: toPlanMethod(method),
+      target: { tdsPercent: targetTdsPercent, extractionYieldPercent },
+      cups,
+      cupSizeMl,
+      targetYieldMl,
+      coffeeGrams,
+    });
+
+    // A strength the method can't brew is reported rather than clamped
+    assertRatioFits(method, strength.ratio);
+
+    res.status(200).json({
+      success: true,
+      strength,
+    });
+  } catch (error) {
+    next(error);
+  }
 };
\ No newline at end of file
@@ -1,5 +1,9 @@
 import { Router } from 'express';
-import { calculateReverseBrew } from './reverse.controller';
+import {
+  calculateBatchBrew,
+  calculateReverseBrew,
+  solveStrength,
+} from './reverse.controller';
 import { authenticate } from '../../middleware/auth';
 
 const router = Router();
@@ -8,5 +12,7 @@ const router = Router();
 router.use(authenticate);
 
 router.post('/', calculateReverseBrew);
+router.post('/batch', calculateBatchBrew);
+router.post('/strength', solveStrength);
 
 export { router as reverseRoutes };
\ No newline at end of file
@@ -1,104 +1,115 @@
 import { Request, Response, NextFunction } from 'express';
+import { once } from 'events';
+import { UnitSettings } from '@coffee-brewster/brew-math';
 import { prisma } from '../../lib/prisma';
 import { AppError } from '../../middleware/error';
+import {
+  assertDurationFits,
+  assertRatioFits,
+  assertTempFits,
+  assertWaterFits,
+  assertYieldFits,
+  findVisibleMethod,
+  visibleMethodsWhere,
+} from '../../lib/methods';
+import { calculateExtractionYield } from '../../lib/extraction';
+import {
+  findSessionPage,
+  maxPourCount,
+  refreshSearchVectors,
+} from '../../lib/sessionSearch';
+import {
+  sessionCsvHeader,
+  sessionCsvInclude,
+  sessionCsvRow,
+} from '../../lib/sessionCsv';
+import { ImportedSession, planSessionImport } from '../../lib/sessionImport';
+import {
+  planBeanconquerorImport,
+  readBeanconquerorExport,
+} from '../../lib/beanconqueror';
 import {
   createSessionSchema,
   updateSessionSchema,
   getSessionsQuerySchema,
+  importSessionsSchema,
+  importBeanconquerorSchema,
 } from '../../schemas/sessions.schema';
 
+// A grind value only means something on the grinder it was read from
+const assertGrinderOwned = async (
+  grinderId: string | null | undefined,
+  grindValue: number | null | undefined,
+  userId: string
+) => {
+  if (grinderId) {
+    const grinder = await prisma.grinder.findFirst({
+      where: { id: grinderId, userId },
+    });
+
+    if (!grinder) {
+      throw new AppError('Invalid grinder ID', 400);
+    }
+  } else if (grindValue !== undefined && grindValue !== null) {
+    throw new AppError('Grind value needs a grinder', 400);
+  }
+};
+
+const assertWaterProfileOwned = async (
+  waterProfileId: string | undefined,
+  userId: string
+) => {
+  if (!waterProfileId) {
+    return;
+  }
+
+  const waterProfile = await prisma.waterProfile.findFirst({
+    where: { id: waterProfileId, userId },
+  });
+
+  if (!waterProfile) {
+    throw new AppError('Invalid water profile ID', 400);
+  }
+};
+
 export const getSessions = async (
   req: Request,
   res: Response,
   next: NextFunction
 ) => {
   try {
-    const { page, limit, q, methodId } = getSessionsQuerySchema.parse(req.query);
-
-    const skip = (page - 1) * limit;
-
-    // Build where clause for search and filters
-    const where: any = {
+    const { page, limit, cursor, ...query } = getSessionsQuerySchema.parse(
+      req.query
+    );
+
+    // Filtered, sorted and paged in Postgres; the page is then loaded and
+    // put back in that order. Scrolling on with a cursor keeps the total
+    // from the page it started on, so it isn't counted again.
+    const { hits, total, nextCursor } = await findSessionPage({
       userId: req.user!.id,
-    };
-
-    if (methodId) {
-      where.methodId = methodId;
-    }
-
-    // For SQLite compatibility, we'll do a broader search and filter in memory
-    let sessions: any[];
-    let total: number;
-
-    if (q) {
-      // Fetch all sessions for the user when searching (we'll filter in memory)
-      const allSessions = await prisma.brewSession.findMany({
-        where: {
-          userId: req.user!.id,
-          ...(methodId && { methodId }),
-        },
-        orderBy: { startedAt: 'desc' },
-        include: {
-          method: {
-            select: {
-              name: true,
-              key: true,
-            },
+      query,
+      after: cursor,
+      skip: (page - 1) * limit,
+      take: limit,
+      withTotal: !cursor,
+    });
+    const found = await prisma.brewSession.findMany({
+      where: { id: { in: hits.map((hit) => hit.id) } },
+      include: {
+        method: {
+          select: {
+            name: true,
+            key: true,
           },
         },
-      });
-
-      // Filter sessions based on search query
-      const searchLower = q.toLowerCase();
-      const filteredSessions = allSessions.filter(session => {
-        // Search in regular fields
-        if (
-          session.notes?.toLowerCase().includes(searchLower) ||
-          session.grindSetting?.toLowerCase().includes(searchLower) ||
-          session.method.name.toLowerCase().includes(searchLower)
-        ) {
-          return true;
-        }
-
-        // Search in bean JSON fields
-        if (session.bean && typeof session.bean === 'object') {
-          const bean = session.bean as any;
-          return (
-            bean.variety?.toLowerCase().includes(searchLower) ||
-            bean.roaster?.toLowerCase().includes(searchLower) ||
-            bean.origin?.toLowerCase().includes(searchLower) ||
-            bean.name?.toLowerCase().includes(searchLower)
-          );
-        }
-
-        return false;
-      });
-
-      // Apply pagination to filtered results
-      total = filteredSessions.length;
-      sessions = filteredSessions.slice(skip, skip + limit);
-    } else {
-      // No search query, use normal pagination
-      [sessions, total] = await Promise.all([
-        prisma.brewSession.findMany({
-          where,
-          skip,
-          take: limit,
-          orderBy: { startedAt: 'desc' },
-          include: {
-            method: {
-              select: {
-                name: true,
-                key: true,
-              },
-            },
-          },
-        }),
-        prisma.brewSession.count({ where }),
-      ]);
-    }
+      },
+    });
+    const byId = new Map(found.map((session) => [session.id, session]));
+    const sessions = hits
+      .filter((hit) => byId.has(hit.id))
+      .map((hit) => ({ ...byId.get(hit.id), highlight: hit.highlight }));
 
-    const totalPages = Math.ceil(total / limit);
+    const totalPages = total === null ? null : Math.ceil(total / limit);
 
     res.status(200).json({
       success: true,
@@ -108,8 +119,238 @@ export const getSessions = async (
         limit,
         total,
         totalPages,
-        hasNext: page < totalPages,
+        hasNext: totalPages === null ? nextCursor !== null : page < totalPages,
         hasPrev: page > 1,
+        // Follow this rather than `page` to scroll through without gaps
+        nextCursor,
+      },
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+// Exports and imports default to the units the user brews in
+const findUnitSettings = async (userId: string): Promise<UnitSettings> => {
+  const settings = await prisma.settings.findUnique({
+    where: { userId },
+    select: { units: true, tempUnit: true, waterUnitPreference: true },
+  });
+
+  return {
+    units: settings?.units ?? 'METRIC',
+    tempUnit: settings?.tempUnit ?? 'C',
+    waterUnitPreference: settings?.waterUnitPreference === 'g' ? 'g' : 'ml',
+  };
+};
+
+// Sessions are read from the database this many at a time while exporting
+const EXPORT_BATCH_SIZE = 200;
+
+export const exportSessions = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+) => {
+  try {
+    // Same filters and order as the list; every page of it
+    const { page, limit, cursor, ...query } = getSessionsQuerySchema.parse(
+      req.query
+    );
+    const userId = req.user!.id;
+
+    const units = await findUnitSettings(userId);
+    const pourCount = await maxPourCount({ userId, query });
+    const day = new Date().toISOString().slice(0, 10);
+
+    res.status(200);
+    res.setHeader('Content-Type', 'text/csv; charset=utf-8');
+    res.setHeader(
+      'Content-Disposition',
+      `attachment; filename="brew-logbook-${day}.csv"`
+    );
+    res.write(sessionCsvHeader(units, pourCount));
+
+    let after: string | undefined;
+    do {
+      const { hits, nextCursor } = await findSessionPage({
+        userId,
+        query,
+        after,
+        skip: 0,
+        take: EXPORT_BATCH_SIZE,
+        withTotal: false,
+      });
+      const found = await prisma.brewSession.findMany({
+        where: { id: { in: hits.map((hit) => hit.id) } },
+        include: sessionCsvInclude,
+      });
+      const byId = new Map(found.map((session) => [session.id, session]));
+
+      const chunk = hits
+        .filter((hit) => byId.has(hit.id))
+        .map((hit) => sessionCsvRow(byId.get(hit.id)!, units, pourCount))
+        .join('');
+      // Let a slow download catch up before reading more
+      if (!res.write(chunk)) {
+        await once(res, 'drain');
+      }
+      after = nextCursor ?? undefined;
+    } while (after);
+
+    res.end();
+  } catch (error) {
+    // Past the header there is no JSON error to send; cut the download short
+    if (res.headersSent) {
+      res.destroy(error as Error);
+      return;
+    }
+    next(error);
+  }
+};
+
+// How many checked rows a dry run sends back for the preview
+const IMPORT_PREVIEW_ROWS = 20;
+
+// Methods an imported session can be brewed with
+const findImportMethods = (userId: string) =>
+  prisma.brewMethod.findMany({
+    where: visibleMethodsWhere(userId),
+    select: { id: true, key: true, name: true, kind: true },
+  });
+
+// Sessions with an import ID that's already in the logbook are skipped, so
+// a retried import can't double up
+const saveImportedSessions = async (
+  userId: string,
+  sessions: ImportedSession[]
+): Promise<number> => {
+  const created = await prisma.brewSession.createManyAndReturn({
+    data: sessions.map((session) => ({
+      ...session,
+      extractionYield:
+        session.tdsPercent !== undefined
+          ? calculateExtractionYield(
+              session.coffeeGrams,
+              session.outputGrams ?? session.yieldMl,
+              session.tdsPercent
+            )
+          : undefined,
+      userId,
+    })),
+    select: { id: true },
+    skipDuplicates: true,
+  });
+  await refreshSearchVectors({
+    sessionIds: created.map((session) => session.id),
+  });
+  return created.length;
+};
+
+export const importSessions = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+) => {
+  try {
+    const { csv, mapping, units, dryRun } = importSessionsSchema.parse(
+      req.body
+    );
+    const userId = req.user!.id;
+
+    const [fileUnits, methods] = await Promise.all([
+      units ?? findUnitSettings(userId),
+      findImportMethods(userId),
+    ]);
+    const plan = planSessionImport({
+      csv,
+      mapping,
+      units: fileUnits,
+      methods,
+    });
+    const sessions = plan.rows.flatMap((row) =>
+      row.session ? [row.session] : []
+    );
+
+    // Rows with problems are skipped; the dry run lists them beforehand
+    let imported = 0;
+    if (!dryRun && sessions.length > 0) {
+      imported = await saveImportedSessions(userId, sessions);
+    }
+
+    res.status(dryRun ? 200 : 201).json({
+      success: true,
+      message: dryRun
+        ? 'Import checked'
+        : `Imported ${imported} of ${plan.rows.length} sessions`,
+      import: {
+        dryRun,
+        headers: plan.headers,
+        mapping: plan.mapping,
+        total: plan.rows.length,
+        valid: sessions.length,
+        imported,
+        preview: plan.rows.slice(0, IMPORT_PREVIEW_ROWS),
+        errors: plan.rows.flatMap(({ row, errors }) =>
+          errors.map((error) => ({ row, ...error }))
+        ),
+      },
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+export const importBeanconqueror = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+) => {
+  try {
+    const {
+      file,
+      methods: mapping,
+      dryRun,
+    } = importBeanconquerorSchema.parse(req.body);
+    const userId = req.user!.id;
+
+    const data = readBeanconquerorExport(Buffer.from(file, 'base64'));
+    const methods = await findImportMethods(userId);
+    const plan = planBeanconquerorImport({ data, methods, mapping });
+
+    // Brews an earlier run of this export already brought in
+    const existing = await prisma.brewSession.findMany({
+      where: {
+        userId,
+        importId: { in: plan.rows.map((row) => row.importId) },
+      },
+      select: { importId: true },
+    });
+    const alreadyImported = new Set(existing.map(({ importId }) => importId));
+    const rows = plan.rows.filter((row) => !alreadyImported.has(row.importId));
+    const sessions = rows.flatMap((row) => (row.session ? [row.session] : []));
+
+    let imported = 0;
+    if (!dryRun && sessions.length > 0) {
+      imported = await saveImportedSessions(userId, sessions);
+    }
+
+    res.status(dryRun ? 200 : 201).json({
+      success: true,
+      message: dryRun
+        ? 'Import checked'
+        : `Imported ${imported} of ${data.brews.length} brews`,
+      import: {
+        dryRun,
+        total: data.brews.length,
+        valid: sessions.length,
+        imported,
+        alreadyImported: alreadyImported.size,
+        // Brews of these are left out until each has a method
+        preparations: plan.preparations,
+        errors: rows.flatMap(({ label, errors }) =>
+          errors.map((error) => ({ brew: label, ...error }))
+        ),
       },
     });
   } catch (error) {
@@ -135,6 +376,20 @@ export const getSession = async (
           select: {
             name: true,
             key: true,
+            kind: true,
+          },
+        },
+        grinder: {
+          select: {
+            name: true,
+            scale: true,
+          },
+        },
+        waterProfile: {
+          select: {
+            name: true,
+            ghPpm: true,
+            khPpm: true,
           },
         },
       },
@@ -161,18 +416,44 @@ export const createSession = async (
   try {
     const sessionData = createSessionSchema.parse(req.body);
 
-    // Verify method exists
-    const method = await prisma.brewMethod.findUnique({
-      where: { id: sessionData.methodId },
-    });
+    // Verify method exists and is visible to this user
+    const method = await findVisibleMethod(
+      { id: sessionData.methodId },
+      req.user!.id
+    );
 
     if (!method) {
       throw new AppError('Invalid method ID', 400);
     }
 
+    assertDurationFits(method, sessionData.durationSec);
+    assertWaterFits(method, sessionData.waterMl);
+    assertYieldFits(method, sessionData.yieldMl);
+    if (sessionData.brewRatio !== undefined) {
+      assertRatioFits(method, sessionData.brewRatio);
+    }
+    if (sessionData.waterTempC !== undefined) {
+      assertTempFits(method, sessionData.waterTempC);
+    }
+
+    await assertGrinderOwned(
+      sessionData.grinderId,
+      sessionData.grindValue,
+      req.user!.id
+    );
+    await assertWaterProfileOwned(sessionData.waterProfileId, req.user!.id);
+
     const session = await prisma.brewSession.create({
       data: {
         ...sessionData,
+        extractionYield:
+          sessionData.tdsPercent !== undefined
+            ? calculateExtractionYield(
+                sessionData.coffeeGrams,
+                sessionData.outputGrams ?? sessionData.yieldMl,
+                sessionData.tdsPercent
+              )
+            : undefined,
         userId: req.user!.id,
       },
       include: {
@@ -184,6 +465,7 @@ export const createSession = async (
         },
       },
     });
+    await refreshSearchVectors({ sessionId: session.id });
 
     res.status(201).json({
       success: true,
@@ -216,20 +498,70 @@ export const updateSession = async (
       throw new AppError('Session not found', 404);
     }
 
-    // If methodId is being updated, verify it exists
-    if (updates.methodId) {
-      const method = await prisma.brewMethod.findUnique({
-        where: { id: updates.methodId },
-      });
+    // Verify the method exists and still allows the duration, amounts,
+    // ratio and temperature
+    if (
+      updates.methodId ||
+      updates.durationSec !== undefined ||
+      updates.waterMl !== undefined ||
+      updates.yieldMl !== undefined ||
+      updates.brewRatio !== undefined ||
+      updates.waterTempC !== undefined
+    ) {
+      const method = await findVisibleMethod(
+        { id: updates.methodId ?? existingSession.methodId },
+        req.user!.id
+      );
 
       if (!method) {
         throw new AppError('Invalid method ID', 400);
       }
+
+      assertDurationFits(
+        method,
+        updates.durationSec ?? existingSession.durationSec
+      );
+      assertWaterFits(method, updates.waterMl ?? existingSession.waterMl);
+      assertYieldFits(method, updates.yieldMl ?? existingSession.yieldMl);
+      assertRatioFits(method, updates.brewRatio ?? existingSession.brewRatio);
+      const waterTempC = updates.waterTempC ?? existingSession.waterTempC;
+      if (waterTempC !== null) {
+        assertTempFits(method, waterTempC);
+      }
     }
 
+    if (updates.grinderId !== undefined || updates.grindValue !== undefined) {
+      await assertGrinderOwned(
+        updates.grinderId ?? existingSession.grinderId,
+        updates.grindValue ?? existingSession.grindValue,
+        req.user!.id
+      );
+    }
+
+    await assertWaterProfileOwned(updates.waterProfileId, req.user!.id);
+
+    // Keep extraction yield in step with any of its inputs changing. A
+    // weighed espresso output is more accurate than the planned yield
+    const tdsPercent = updates.tdsPercent ?? existingSession.tdsPercent;
+    const extractionYield =
+      tdsPercent !== null &&
+      (updates.tdsPercent !== undefined ||
+        updates.coffeeGrams !== undefined ||
+        updates.yieldMl !== undefined ||
+        updates.outputGrams !== undefined)
+        ? calculateExtractionYield(
+            updates.coffeeGrams ?? existingSession.coffeeGrams,
+            updates.outputGrams ??
+              existingSession.outputGrams ??
+              updates.yieldMl ??
+              existingSession.yieldMl,
+            tdsPercent
+          )
+        : undefined;
+
     const session = await prisma.brewSession.update({
       where: { id },
-      data: updates,
+      data: { ...updates, extractionYield },
       include: {
         method: {
           select: {
@@ -239,6 +571,7 @@ export const updateSession = async (
         },
       },
     });
+    await refreshSearchVectors({ sessionId: session.id });
 
     res.status(200).json({
       success: true,
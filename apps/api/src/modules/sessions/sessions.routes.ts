@@ -1,6 +1,9 @@
 import { Router } from 'express';
 import {
   getSessions,
+  exportSessions,
+  importSessions,
+  importBeanconqueror,
   getSession,
   createSession,
   updateSession,
@@ -14,7 +17,11 @@ const router = Router();
 router.use(authenticate);
 
 router.get('/', getSessions);
+// Before /:id so "export" isn't read as a session ID
+router.get('/export', exportSessions);
 router.post('/', createSession);
+router.post('/import', importSessions);
+router.post('/import/beanconqueror', importBeanconqueror);
 router.get('/:id', getSession);
 router.put('/:id', updateSession);
 router.delete('/:id', deleteSession);
@@ -1,6 +1,7 @@
 import { Request, Response, NextFunction } from 'express';
 import { prisma } from '../../lib/prisma';
 import { AppError } from '../../middleware/error';
+import { findVisibleMethod } from '../../lib/methods';
 import { updateSettingsSchema } from '../../schemas/settings.schema';
 
 export const getSettings = async (
@@ -22,6 +23,8 @@ export const getSettings = async (
         defaultMethodId: true,
         cupSizeMl: true,
         soundEnabled: true,
+        altitudeM: true,
+        activeGrinderId: true,
       },
     });
 
@@ -51,15 +54,26 @@ export const updateSettings = async (
 
     // If defaultMethodId is provided, verify it exists
     if (updates.defaultMethodId) {
-      const method = await prisma.brewMethod.findUnique({
-        where: { id: updates.defaultMethodId },
-      });
+      const method = await findVisibleMethod(
+        { id: updates.defaultMethodId },
+        req.user.id
+      );
 
       if (!method) {
         throw new AppError('Invalid default method ID', 400);
       }
     }
 
+    if (updates.activeGrinderId) {
+      const grinder = await prisma.grinder.findFirst({
+        where: { id: updates.activeGrinderId, userId: req.user.id },
+      });
+
+      if (!grinder) {
+        throw new AppError('Invalid grinder ID', 400);
+      }
+    }
+
     const settings = await prisma.settings.upsert({
       where: { userId: req.user.id },
       update: updates,
@@ -72,6 +86,8 @@ export const updateSettings = async (
         defaultMethodId: updates.defaultMethodId,
         cupSizeMl: updates.cupSizeMl || 240,
         soundEnabled: updates.soundEnabled ?? true,
+        altitudeM: updates.altitudeM ?? 0,
+        activeGrinderId: updates.activeGrinderId,
       },
       select: {
         units: true,
@@ -81,6 +97,8 @@ export const updateSettings = async (
         defaultMethodId: true,
         cupSizeMl: true,
         soundEnabled: true,
+        altitudeM: true,
+        activeGrinderId: true,
       },
     });
 
@@ -0,0 +1,124 @@
+import { Request, Response, NextFunction } from 'express';
+import { WaterProfile } from '@prisma/client';
+import { mineralRecipe } from '@coffee-brewster/brew-math';
+import { prisma } from '../../lib/prisma';
+import { AppError } from '../../middleware/error';
+import {
+  createWaterProfileSchema,
+  updateWaterProfileSchema,
+} from '../../schemas/waterProfiles.schema';
+
+// Every profile comes with the minerals to build it from distilled water
+const serializeWaterProfile = (profile: WaterProfile) => ({
+  ...profile,
+  recipe: mineralRecipe(profile),
+});
+
+export const getWaterProfiles = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+) => {
+  try {
+    const waterProfiles = await prisma.waterProfile.findMany({
+      where: { userId: req.user!.id },
+      orderBy: { name: 'asc' },
+    });
+
+    res.status(200).json({
+      success: true,
+      waterProfiles: waterProfiles.map(serializeWaterProfile),
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+export const createWaterProfile = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+) => {
+  try {
+    const profileData = createWaterProfileSchema.parse(req.body);
+
+    const waterProfile = await prisma.waterProfile.create({
+      data: {
+        ...profileData,
+        userId: req.user!.id,
+      },
+    });
+
+    res.status(201).json({
+      success: true,
+      message: 'Water profile created successfully',
+      waterProfile: serializeWaterProfile(waterProfile),
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+export const updateWaterProfile = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+) => {
+  try {
+    const { id } = req.params;
+    const updates = updateWaterProfileSchema.parse(req.body);
+
+    const existingProfile = await prisma.waterProfile.findFirst({
+      where: {
+        id,
+        userId: req.user!.id,
+      },
+    });
+
+    if (!existingProfile) {
+      throw new AppError('Water profile not found', 404);
+    }
+
+    const waterProfile = await prisma.waterProfile.update({
+      where: { id },
+      data: updates,
+    });
+
+    res.status(200).json({
+      success: true,
+      message: 'Water profile updated successfully',
+      waterProfile: serializeWaterProfile(waterProfile),
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+export const deleteWaterProfile = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+) => {
+  try {
+    const { id } = req.params;
+
+    // Sessions brewed with it stay in the logbook, just without the link
+    const deletedProfile = await prisma.waterProfile.deleteMany({
+      where: {
+        id,
+        userId: req.user!.id,
+      },
+    });
+
+    if (deletedProfile.count === 0) {
+      throw new AppError('Water profile not found', 404);
+    }
+
+    res.status(200).json({
+      success: true,
+      message: 'Water profile deleted successfully',
+    });
+  } catch (error) {
+    next(error);
+  }
+};
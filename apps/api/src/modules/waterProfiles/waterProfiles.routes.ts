@@ -0,0 +1,20 @@
+import { Router } from 'express';
+import {
+  getWaterProfiles,
+  createWaterProfile,
+  updateWaterProfile,
+  deleteWaterProfile,
+} from './waterProfiles.controller';
+import { requireAuth } from '../../middleware/auth';
+
+const router = Router();
+
+// Water profiles are private to their owner
+router.use(requireAuth);
+
+router.get('/', getWaterProfiles);
+router.post('/', createWaterProfile);
+router.put('/:id', updateWaterProfile);
+router.delete('/:id', deleteWaterProfile);
+
+export { router as waterProfilesRoutes };
@@ -0,0 +1,85 @@
+import { z } from 'zod';
+import { updateSettingsSchema } from './settings.schema';
+
+export const ACCOUNT_BACKUP_FORMAT = 'coffee-brewster-account';
+// Bump when the document changes shape
+export const ACCOUNT_BACKUP_VERSION = 1;
+
+// Read before the rest so an unsupported backup gets a clear message
+export const accountBackupHeaderSchema = z.object({
+  format: z.literal(ACCOUNT_BACKUP_FORMAT),
+  version: z.number().int(),
+});
+
+// Methods are referred to by key so a backup can move between servers;
+// the defaults go back through the same checks as a settings update
+const backupSettingsSchema = updateSettingsSchema
+  .omit({ defaultMethodId: true })
+  .extend({ defaultMethodKey: z.string().nullish() });
+
+// The account's own methods travel with it, since sessions brewed with them
+// can't restore without them; keys are remade where the backup lands
+const backupMethodSchema = z.object({
+  key: z.string().min(1),
+  name: z.string().min(1),
+  kind: z.enum(['STANDARD', 'COLD_BREW', 'ESPRESSO']),
+  defaultRatio: z.number(),
+  bloom: z.boolean(),
+  pours: z.number().int(),
+  notes: z.string().nullish(),
+  presets: z.record(z.unknown()).nullish(),
+  importId: z.string().nullish(),
+});
+
+// As stored rather than as entered, so older sessions outside today's
+// input limits still restore
+const backupSessionSchema = z.object({
+  id: z.string().min(1),
+  methodKey: z.string().min(1),
+  startedAt: z.coerce.date(),
+  durationSec: z.number().int(),
+  coffeeGrams: z.number(),
+  waterMl: z.number(),
+  bypassMl: z.number().nullish(),
+  yieldMl: z.number(),
+  brewRatio: z.number(),
+  grindSetting: z.string().nullish(),
+  grinderId: z.string().nullish(),
+  grindValue: z.number().nullish(),
+  waterTempC: z.number().nullish(),
+  waterProfileId: z.string().nullish(),
+  rating: z.number().int().nullish(),
+  notes: z.string().nullish(),
+  tdsPercent: z.number().nullish(),
+  extractionYield: z.number().nullish(),
+  shotTimeSec: z.number().int().nullish(),
+  outputGrams: z.number().nullish(),
+  pours: z.array(z.record(z.unknown())).nullish(),
+  bean: z.record(z.unknown()).nullish(),
+  importId: z.string().nullish(),
+});
+
+export const accountBackupSchema = accountBackupHeaderSchema.extend({
+  exportedAt: z.string(),
+  user: z.object({
+    email: z.string(),
+    displayName: z.string().nullish(),
+    createdAt: z.string(),
+  }),
+  settings: backupSettingsSchema.nullable(),
+  // Missing from backups made before custom methods were included
+  methods: z.array(backupMethodSchema).default([]),
+  sessions: z.array(backupSessionSchema),
+});
+
+export const restoreAccountSchema = z.object({
+  // Merge adds the sessions that aren't in the logbook yet; replace swaps
+  // the logbook, settings and display name for the backup's
+  mode: z.enum(['merge', 'replace']).default('merge'),
+  backup: z.unknown(),
+});
+
+export type AccountBackup = z.infer<typeof accountBackupSchema>;
+export type BackupMethod = z.infer<typeof backupMethodSchema>;
+export type BackupSession = z.infer<typeof backupSessionSchema>;
+export type BackupSettings = z.infer<typeof backupSettingsSchema>;
\ No newline at end of file
@@ -0,0 +1,34 @@
+import { z } from 'zod';
+import { GRIND_LEVELS } from '@coffee-brewster/brew-math';
+
+export const grindRangeSchema = z
+  .object({
+    min: z.number().min(0).max(2000),
+    max: z.number().min(0).max(2000),
+  })
+  .refine((range) => range.min <= range.max, {
+    message: 'Range must start at or below where it ends',
+  });
+
+// Only the levels the user has dialed in need to be mapped
+export const grinderRangesSchema = z.record(
+  z.enum(GRIND_LEVELS),
+  grindRangeSchema
+);
+
+export const createGrinderSchema = z.object({
+  name: z
+    .string()
+    .min(1, 'Name is required')
+    .max(50, 'Name must be less than 50 characters'),
+  scale: z.enum(['CLICKS', 'NUMBERS', 'MICRONS']),
+  ranges: grinderRangesSchema.refine(
+    (ranges) => Object.keys(ranges).length > 0,
+    'Map at least one grind level'
+  ),
+});
+
+export const updateGrinderSchema = createGrinderSchema.partial();
+
+export type CreateGrinderInput = z.infer<typeof createGrinderSchema>;
+export type UpdateGrinderInput = z.infer<typeof updateGrinderSchema>;
\ No newline at end of file
@@ -0,0 +1,94 @@
+import { z } from 'zod';
+
+export const bloomRuleSchema = z.object({
+  multiplier: z.number().min(0).max(5),
+  minMl: z.number().min(0).max(200),
+  maxMl: z.number().min(0).max(300),
+});
+
+// Shares are rounded, so an even split can add up to a hair over 1; the
+// last pour takes whatever is left anyway
+const SHARE_ROUNDING = 0.001;
+
+const totalShare = (steps: { share: number }[]) =>
+  steps.reduce((sum, step) => sum + step.share, 0);
+
+export const pourTemplateSchema = z
+  .object({
+    bloom: bloomRuleSchema.optional(),
+    steps: z
+      .array(
+        z.object({
+          label: z.string().min(1).max(50),
+          atSec: z.number().int().min(0).max(3600),
+          share: z.number().min(0).max(1),
+        })
+      )
+      .min(1, 'Schedule needs at least one pour'),
+  })
+  .refine(({ steps }) => totalShare(steps) <= 1 + SHARE_ROUNDING, {
+    message: 'Pour shares must add up to at most 100%',
+    path: ['steps'],
+  })
+  .refine(({ steps }) => totalShare(steps.slice(0, -1)) < 1, {
+    message: 'The pours before the last one use up all the water',
+    path: ['steps'],
+  });
+
+export const coldBrewProfileSchema = z.object({
+  steepHours: z.number().min(1).max(48),
+  concentrateRatio: z.number().min(2).max(20),
+});
+
+export const espressoProfileSchema = z
+  .object({
+    shotTimeMinSec: z.number().int().min(5).max(120),
+    shotTimeMaxSec: z.number().int().min(5).max(120),
+    preinfusionSec: z.number().int().min(0).max(30).optional(),
+    pressureBar: z.number().min(1).max(15).optional(),
+  })
+  .refine((profile) => profile.shotTimeMinSec <= profile.shotTimeMaxSec, {
+    message: 'Shot time window must start before it ends',
+  })
+  .refine((profile) => (profile.preinfusionSec ?? 0) < profile.shotTimeMaxSec, {
+    message: 'Preinfusion must end before the shot time window does',
+  });
+
+export const createMethodSchema = z.object({
+  name: z
+    .string()
+    .min(1, 'Name is required')
+    .max(50, 'Name must be less than 50 characters'),
+  defaultRatio: z
+    .number()
+    .min(8, 'Ratio must be at least 1:8')
+    .max(20, 'Ratio must be at most 1:20'),
+  bloom: z.boolean(),
+  pours: z
+    .number()
+    .int()
+    .min(0, 'Pour count cannot be negative')
+    .max(10, 'Pour count must be at most 10'),
+  notes: z.string().max(500, 'Notes must be less than 500 characters').optional(),
+  tempC: z
+    .number()
+    .min(60, 'Water temperature must be at least 60°C')
+    .max(100, 'Water temperature must be at most 100°C')
+    .optional(),
+  grind: z.string().max(50).optional(),
+  filter: z.string().max(50).optional(),
+  // Largest yield one brew makes; bigger batches are split
+  capacityMl: z
+    .number()
+    .int()
+    .min(50, 'Capacity must be at least 50ml')
+    .max(5000, 'Capacity must be at most 5000ml')
+    .optional(),
+  schedule: pourTemplateSchema.optional(),
+});
+
+export const updateMethodSchema = createMethodSchema.partial();
+
+export type CreateMethodInput = z.infer<typeof createMethodSchema>;
+export type UpdateMethodInput = z.infer<typeof updateMethodSchema>;
+export type PourTemplateInput = z.infer<typeof pourTemplateSchema>;
@@ -0,0 +1,58 @@
+import { z } from 'zod';
+
+export const recipePourSchema = z.object({
+  atSec: z.number().min(0),
+  volumeMl: z.number().min(0),
+  label: z.string().min(1).max(50),
+});
+
+export const createRecipeSchema = z.object({
+  name: z
+    .string()
+    .min(1, 'Recipe name is required')
+    .max(100, 'Recipe name must be less than 100 characters'),
+  methodId: z.string().min(1, 'Method ID is required'),
+  // Espresso goes down to 1:1; the method's own range is checked in the
+  // controller
+  ratio: z
+    .number()
+    .min(1, 'Ratio must be at least 1:1')
+    .max(20, 'Ratio must be at most 1:20'),
+  coffeeGrams: z
+    .number()
+    .min(5, 'Coffee amount must be at least 5g')
+    .max(200, 'Coffee amount must be less than 200g'),
+  waterMl: z
+    .number()
+    .min(20, 'Water amount must be at least 20ml')
+    .max(3000, 'Water amount must be less than 3000ml'),
+  yieldMl: z
+    .number()
+    .min(10, 'Yield must be at least 10ml')
+    .max(2500, 'Yield must be less than 2500ml'),
+  iceGrams: z
+    .number()
+    .min(0, 'Ice cannot be negative')
+    .max(1500, 'Ice must be less than 1500g')
+    .optional(),
+  bypassMl: z
+    .number()
+    .min(0, 'Bypass cannot be negative')
+    .max(1800, 'Bypass must be less than 1800ml')
+    .optional(),
+  // Cold brew steeps cold; the method's own minimum is checked in the
+  // controller
+  tempC: z
+    .number()
+    .min(0, 'Water temperature must be at least 0°C')
+    .max(100, 'Water temperature must be at most 100°C')
+    .optional(),
+  grind: z.string().max(100).optional(),
+  pours: z.array(recipePourSchema).min(1, 'Recipe needs a pour schedule'),
+  notes: z.string().max(1000, 'Notes must be less than 1000 characters').optional(),
+});
+
+export const updateRecipeSchema = createRecipeSchema.partial();
+
+export type CreateRecipeInput = z.infer<typeof createRecipeSchema>;
+export type UpdateRecipeInput = z.infer<typeof updateRecipeSchema>;
@@ -1,21 +1,160 @@
 import { z } from 'zod';
 
-export const reverseBrewSchema = z.object({
-  methodKey: z.enum(['v60', 'chemex', 'aeropress', 'french_press', 'moka']),
-  cups: z
+// How the brew is made rather than how much of it, the same for one brew
+// or each brew of a batch
+const brewStyleFields = {
+  iced: z.boolean().optional(),
+  bypassPercent: z
     .number()
-    .min(0.5, 'Must brew at least 0.5 cups')
-    .max(12, 'Cannot brew more than 12 cups'),
-  ratio: z
-    .number()
-    .min(8, 'Ratio must be at least 1:8')
-    .max(20, 'Ratio must be at most 1:20')
+    .min(0, 'Bypass cannot be negative')
+    .max(60, 'Bypass must be at most 60% of the yield')
     .optional(),
-  targetYieldMl: z
+  bypassMl: z
     .number()
-    .min(50, 'Target yield must be at least 50ml')
-    .max(3000, 'Target yield must be less than 3000ml')
+    .min(0, 'Bypass cannot be negative')
+    .max(1800, 'Bypass must be less than 1800ml')
     .optional(),
-});
+  recipeVariant: z.enum(['tetsu_4_6', 'hoffmann_v60']).optional(),
+  sweetness: z.enum(['sweet', 'balanced', 'bright']).optional(),
+  strength: z.enum(['light', 'medium', 'strong']).optional(),
+  roastLevel: z.enum(['light', 'medium', 'medium_dark', 'dark']).optional(),
+  roastDate: z.string().date('Roast date must be a YYYY-MM-DD date').optional(),
+};
+
+const oneBypass = {
+  check: (input: { bypassPercent?: number; bypassMl?: number }) =>
+    input.bypassPercent === undefined || input.bypassMl === undefined,
+  message: {
+    message: 'Give bypass as a percentage or an amount, not both',
+    path: ['bypassMl'],
+  },
+};
+
+export const reverseBrewSchema = z
+  .object({
+    methodKey: z.string().min(1, 'Method key is required'),
+    cups: z
+      .number()
+      .min(0.5, 'Must brew at least 0.5 cups')
+      .max(12, 'Cannot brew more than 12 cups')
+      .optional(),
+    // Espresso goes down to 1:1; the method's own range is checked later
+    ratio: z
+      .number()
+      .min(1, 'Ratio must be at least 1:1')
+      .max(20, 'Ratio must be at most 1:20')
+      .optional(),
+    targetYieldMl: z
+      .number()
+      .min(50, 'Target yield must be at least 50ml')
+      .max(3000, 'Target yield must be less than 3000ml')
+      .optional(),
+    targetBeverageGrams: z
+      .number()
+      .min(10, 'Target beverage must be at least 10g')
+      .max(200, 'Target beverage must be less than 200g')
+      .optional(),
+    // Dose mode: plan around the coffee on hand instead of a yield
+    coffeeGrams: z
+      .number()
+      .min(5, 'Coffee amount must be at least 5g')
+      .max(200, 'Coffee amount must be less than 200g')
+      .optional(),
+    ...brewStyleFields,
+  })
+  .refine(
+    (input) => input.cups !== undefined || input.coffeeGrams !== undefined,
+    {
+      message: 'Give a number of cups or a coffee dose',
+      path: ['cups'],
+    }
+  )
+  .refine(
+    (input) =>
+      input.coffeeGrams === undefined ||
+      (input.targetYieldMl === undefined &&
+        input.targetBeverageGrams === undefined),
+    {
+      message: 'Give a coffee dose or a target yield, not both',
+      path: ['coffeeGrams'],
+    }
+  )
+  .refine(oneBypass.check, oneBypass.message);
+
+// Batch mode: an order too big for one brew is split across several
+export const batchBrewSchema = z
+  .object({
+    methodKey: z.string().min(1, 'Method key is required'),
+    cups: z
+      .number()
+      .min(0.5, 'Must brew at least 0.5 cups')
+      .max(100, 'Cannot brew more than 100 cups')
+      .optional(),
+    targetYieldMl: z
+      .number()
+      .min(50, 'Target yield must be at least 50ml')
+      .max(20000, 'Target yield must be less than 20000ml')
+      .optional(),
+    ratio: z
+      .number()
+      .min(1, 'Ratio must be at least 1:1')
+      .max(20, 'Ratio must be at most 1:20')
+      .optional(),
+    // A bypass in ml is for the whole order and split with it
+    ...brewStyleFields,
+  })
+  .refine(
+    (input) =>
+      (input.cups === undefined) !== (input.targetYieldMl === undefined),
+    {
+      message: 'Give a number of cups or a target yield',
+      path: ['cups'],
+    }
+  )
+  .refine(oneBypass.check, oneBypass.message);
+
+// Strength mode: solve for the ratio that hits a target TDS
+export const strengthSchema = z
+  .object({
+    methodKey: z.string().min(1, 'Method key is required'),
+    // Filter coffee sits around 1.15–1.45%, espresso around 8–12%
+    targetTdsPercent: z
+      .number()
+      .min(0.5, 'Target TDS must be at least 0.5%')
+      .max(15, 'Target TDS must be at most 15%'),
+    extractionYieldPercent: z
+      .number()
+      .min(10, 'Extraction yield must be at least 10%')
+      .max(30, 'Extraction yield must be at most 30%')
+      .optional(),
+    // As large as a batch, since the ratio doesn't depend on the amount
+    cups: z
+      .number()
+      .min(0.5, 'Must brew at least 0.5 cups')
+      .max(100, 'Cannot brew more than 100 cups')
+      .optional(),
+    targetYieldMl: z
+      .number()
+      .min(10, 'Target yield must be at least 10ml')
+      .max(20000, 'Target yield must be less than 20000ml')
+      .optional(),
+    coffeeGrams: z
+      .number()
+      .min(5, 'Coffee amount must be at least 5g')
+      .max(200, 'Coffee amount must be less than 200g')
+      .optional(),
+  })
+  .refine(
+    (input) =>
+      [input.cups, input.targetYieldMl, input.coffeeGrams].filter(
+        (amount) => amount !== undefined
+      ).length === 1,
+    {
+      message: 'Give a number of cups, a target yield or a coffee dose',
+      path: ['cups'],
+    }
+  );
 
-export type ReverseBrewInput = z.infer<typeof reverseBrewSchema>;
\ No newline at end of file
+export type ReverseBrewInput = z.infer<typeof reverseBrewSchema>;
+export type BatchBrewInput = z.infer<typeof batchBrewSchema>;
+export type StrengthInput = z.infer<typeof strengthSchema>;
\ No newline at end of file
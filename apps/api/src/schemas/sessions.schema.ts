@@ -2,45 +2,81 @@ import { z } from 'zod';
 
 export const createSessionSchema = z.object({
   methodId: z.string().min(1, 'Method ID is required'),
+  // Cold brew steeps for hours and espresso takes seconds; each method's
+  // own range is checked in the controller, as are the water, yield and
+  // temperature minimums
   durationSec: z
     .number()
-    .min(30, 'Duration must be at least 30 seconds')
-    .max(1800, 'Duration must be less than 30 minutes'),
+    .min(10, 'Duration must be at least 10 seconds')
+    .max(48 * 3600, 'Duration must be less than 48 hours'),
   coffeeGrams: z
     .number()
     .min(5, 'Coffee amount must be at least 5g')
     .max(200, 'Coffee amount must be less than 200g'),
   waterMl: z
     .number()
-    .min(50, 'Water amount must be at least 50ml')
+    .min(20, 'Water amount must be at least 20ml')
     .max(3000, 'Water amount must be less than 3000ml'),
+  // Part of waterMl added after brewing rather than poured through the bed
+  bypassMl: z
+    .number()
+    .min(0, 'Bypass cannot be negative')
+    .max(1800, 'Bypass must be less than 1800ml')
+    .optional(),
   yieldMl: z
     .number()
-    .min(30, 'Yield must be at least 30ml')
+    .min(10, 'Yield must be at least 10ml')
     .max(2500, 'Yield must be less than 2500ml'),
+  // Espresso goes down to 1:1; the method's own range is checked in the
+  // controller
   brewRatio: z
     .number()
-    .min(8, 'Brew ratio must be at least 8')
+    .min(1, 'Brew ratio must be at least 1')
     .max(20, 'Brew ratio must be at most 20')
     .optional(),
   grindSetting: z.string().max(100).optional(),
+  grinderId: z.string().optional(),
+  grindValue: z
+    .number()
+    .min(0, 'Grind value cannot be negative')
+    .max(2000, 'Grind value must be at most 2000')
+    .optional(),
+  // Cold brew steeps cold
   waterTempC: z
     .number()
-    .min(60, 'Water temperature must be at least 60°C')
+    .min(0, 'Water temperature must be at least 0°C')
     .max(100, 'Water temperature must be at most 100°C')
     .optional(),
+  waterProfileId: z.string().optional(),
   rating: z
     .number()
     .min(1, 'Rating must be at least 1')
     .max(5, 'Rating must be at most 5')
     .optional(),
   notes: z.string().max(1000, 'Notes must be less than 1000 characters').optional(),
+  tdsPercent: z
+    .number()
+    .min(0.1, 'TDS must be at least 0.1%')
+    .max(25, 'TDS must be at most 25%')
+    .optional(),
+  shotTimeSec: z
+    .number()
+    .int()
+    .min(1, 'Shot time must be at least 1 second')
+    .max(180, 'Shot time must be less than 3 minutes')
+    .optional(),
+  outputGrams: z
+    .number()
+    .min(1, 'Output weight must be at least 1g')
+    .max(500, 'Output weight must be less than 500g')
+    .optional(),
   pours: z.array(z.object({
     timestamp: z.number(),
     volumeMl: z.number(),
     label: z.string(),
   })).optional(),
   bean: z.object({
+    name: z.string().optional(),
     variety: z.string().optional(),
     roaster: z.string().optional(),
     roastDate: z.string().optional(),
@@ -50,13 +86,132 @@ export const createSessionSchema = z.object({
 
 export const updateSessionSchema = createSessionSchema.partial();
 
-export const getSessionsQuerySchema = z.object({
-  page: z.string().transform(Number).pipe(z.number().min(1)).default('1'),
-  limit: z.string().transform(Number).pipe(z.number().min(1).max(50)).default('20'),
-  q: z.string().optional(), // search query
-  methodId: z.string().optional(), // filter by method
+// Fields a CSV column can be mapped onto; the method is matched by name or
+// key and bean fields are nested on save
+export const SESSION_IMPORT_FIELDS = [
+  'method',
+  'startedAt',
+  'durationSec',
+  'coffeeGrams',
+  'waterMl',
+  'bypassMl',
+  'yieldMl',
+  'brewRatio',
+  'grindSetting',
+  'waterTempC',
+  'rating',
+  'notes',
+  'tdsPercent',
+  'shotTimeSec',
+  'outputGrams',
+  'bean.variety',
+  'bean.roaster',
+  'bean.origin',
+  'bean.roastDate',
+] as const;
+
+export const importSessionsSchema = z.object({
+  csv: z
+    .string()
+    .min(1, 'The CSV file is empty')
+    .max(5_000_000, 'CSV must be less than 5MB'),
+  // Field -> CSV header; suggested from the headers when left out
+  mapping: z.record(z.enum(SESSION_IMPORT_FIELDS), z.string()).optional(),
+  // Units the file was written in; the user's settings when left out
+  units: z
+    .object({
+      units: z.enum(['METRIC', 'IMPERIAL']),
+      tempUnit: z.enum(['C', 'F']),
+      waterUnitPreference: z.enum(['ml', 'g']).optional(),
+    })
+    .optional(),
+  dryRun: z.boolean().default(true),
+});
+
+// Base64 characters, four for every three bytes of the file
+const MAX_EXPORT_BASE64 = 10_000_000;
+const MAX_EXPORT_MB = (MAX_EXPORT_BASE64 * 3) / 4 / 1_000_000;
+
+export const importBeanconquerorSchema = z.object({
+  // The export's ZIP or its Beanconqueror.json, base64 encoded
+  file: z
+    .string()
+    .min(1, 'The export file is empty')
+    .max(MAX_EXPORT_BASE64, `Export must be at most ${MAX_EXPORT_MB}MB`),
+  // Beanconqueror preparation ID -> brew method ID, for preparations that
+  // don't match a method on their own; an empty ID leaves one out
+  methods: z.record(z.string(), z.string()).optional(),
+  dryRun: z.boolean().default(true),
 });
 
+// Query strings arrive as text
+const numberParam = (schema: z.ZodNumber) =>
+  z.string().transform(Number).pipe(schema);
+
+const inOrder = (min?: number | Date, max?: number | Date) =>
+  min === undefined || max === undefined || min <= max;
+
+// Decoded from the opaque cursor: where the last page ended in date order,
+// or how far in for orders that can't be resumed from a row
+export const sessionCursorSchema = z.union([
+  z.object({ startedAt: z.string().datetime(), id: z.string().min(1) }),
+  z.object({ offset: z.number().int().min(0) }),
+]);
+
+export const SESSION_SORT_FIELDS = [
+  'date',
+  'rating',
+  'ratio',
+  'coffee',
+] as const;
+
+export const getSessionsQuerySchema = z
+  .object({
+    page: numberParam(z.number().min(1)).default('1'),
+    limit: numberParam(z.number().min(1).max(50)).default('20'),
+    cursor: z.string().optional(), // nextCursor of the previous page; wins over page
+    q: z.string().optional(), // search query
+    methodId: z.string().optional(), // filter by method
+    waterProfileId: z.string().optional(), // filter by water profile
+    minRating: numberParam(z.number().int().min(1).max(5)).optional(),
+    maxRating: numberParam(z.number().int().min(1).max(5)).optional(),
+    // Both ends inclusive
+    dateFrom: z.string().pipe(z.coerce.date()).optional(),
+    dateTo: z.string().pipe(z.coerce.date()).optional(),
+    roaster: z.string().trim().min(1).max(100).optional(), // partial, any case
+    origin: z.string().trim().min(1).max(100).optional(),
+    minRatio: numberParam(z.number().min(1).max(20)).optional(),
+    maxRatio: numberParam(z.number().min(1).max(20)).optional(),
+    minDurationSec: numberParam(z.number().int().min(0)).optional(),
+    maxDurationSec: numberParam(z.number().int().min(0)).optional(),
+    // Without a sort, searches come back best match first and the rest newest first
+    sort: z.enum(SESSION_SORT_FIELDS).optional(),
+    order: z.enum(['asc', 'desc']).default('desc'),
+  })
+  .refine((query) => inOrder(query.minRating, query.maxRating), {
+    message: 'Rating range must start at or below where it ends',
+    path: ['minRating'],
+  })
+  .refine((query) => inOrder(query.dateFrom, query.dateTo), {
+    message: 'Date range must start on or before where it ends',
+    path: ['dateFrom'],
+  })
+  .refine((query) => inOrder(query.minRatio, query.maxRatio), {
+    message: 'Ratio range must start at or below where it ends',
+    path: ['minRatio'],
+  })
+  .refine((query) => inOrder(query.minDurationSec, query.maxDurationSec), {
+    message: 'Duration range must start at or below where it ends',
+    path: ['minDurationSec'],
+  });
+
 export type CreateSessionInput = z.infer<typeof createSessionSchema>;
 export type UpdateSessionInput = z.infer<typeof updateSessionSchema>;
-export type GetSessionsQuery = z.infer<typeof getSessionsQuerySchema>;
\ No newline at end of file
+export type GetSessionsQuery = z.infer<typeof getSessionsQuerySchema>;
+export type SessionCursor = z.infer<typeof sessionCursorSchema>;
+export type ImportSessionsInput = z.infer<typeof importSessionsSchema>;
+export type ImportBeanconquerorInput = z.infer<
+  typeof importBeanconquerorSchema
+>;
+export type SessionImportField = (typeof SESSION_IMPORT_FIELDS)[number];
+export type SessionSortField = (typeof SESSION_SORT_FIELDS)[number];
\ No newline at end of file
@@ -12,6 +12,13 @@ export const updateSettingsSchema = z.object({
     .max(1000, 'Cup size must be less than 1000ml')
     .optional(),
   soundEnabled: z.boolean().optional(),
+  altitudeM: z
+    .number()
+    .int()
+    .min(0, 'Altitude cannot be below sea level')
+    .max(6000, 'Altitude must be less than 6000m')
+    .optional(),
+  activeGrinderId: z.string().optional().nullable(),
 });
 
 export type UpdateSettingsInput = z.infer<typeof updateSettingsSchema>;
\ No newline at end of file
@@ -0,0 +1,28 @@
+import { z } from 'zod';
+
+// GH and KH in ppm as CaCO3; brewing water guides stay well under 300
+export const createWaterProfileSchema = z.object({
+  name: z
+    .string()
+    .min(1, 'Name is required')
+    .max(50, 'Name must be less than 50 characters'),
+  ghPpm: z
+    .number()
+    .min(0, 'Hardness cannot be negative')
+    .max(500, 'Hardness must be at most 500 ppm'),
+  khPpm: z
+    .number()
+    .min(0, 'Alkalinity cannot be negative')
+    .max(500, 'Alkalinity must be at most 500 ppm'),
+  tdsPpm: z
+    .number()
+    .min(0, 'TDS cannot be negative')
+    .max(1000, 'TDS must be at most 1000 ppm')
+    .nullable()
+    .optional(),
+});
+
+export const updateWaterProfileSchema = createWaterProfileSchema.partial();
+
+export type CreateWaterProfileInput = z.infer<typeof createWaterProfileSchema>;
+export type UpdateWaterProfileInput = z.infer<typeof updateWaterProfileSchema>;
\ No newline at end of file
@@ -9,6 +9,10 @@ import { settingsRoutes } from './modules/settings/settings.routes';
 import { methodsRoutes } from './modules/methods/methods.routes';
 import { reverseRoutes } from './modules/reverse/reverse.routes';
 import { sessionsRoutes } from './modules/sessions/sessions.routes';
+import { recipesRoutes } from './modules/recipes/recipes.routes';
+import { grindersRoutes } from './modules/grinders/grinders.routes';
+import { waterProfilesRoutes } from './modules/waterProfiles/waterProfiles.routes';
+import { accountRoutes } from './modules/account/account.routes';
 
 const app = express();
 
@@ -49,6 +53,10 @@ app.use('/api/settings', settingsRoutes);
 app.use('/api/methods', methodsRoutes);
 app.use('/api/reverse', reverseRoutes);
 app.use('/api/sessions', sessionsRoutes);
+app.use('/api/recipes', recipesRoutes);
+app.use('/api/grinders', grindersRoutes);
+app.use('/api/water-profiles', waterProfilesRoutes);
+app.use('/api/account', accountRoutes);
 
 // Catch-all for unmatched API routes
 app.use('/api', (_req, res, _next) => {
@@ -0,0 +1,119 @@
+import { useState } from 'react';
+import { api, AccountRestoreMode } from '../lib/api';
+import { useSettings } from '../state/useSettings';
+
+export function AccountBackup() {
+  const { loadSettings } = useSettings();
+  const [mode, setMode] = useState<AccountRestoreMode>('merge');
+  const [isExporting, setIsExporting] = useState(false);
+  const [isRestoring, setIsRestoring] = useState(false);
+  const [message, setMessage] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleExport = async () => {
+    setIsExporting(true);
+    setError(null);
+    try {
+      const blob = await api.exportAccount();
+      const url = URL.createObjectURL(blob);
+      const link = document.createElement('a');
+      link.href = url;
+      link.download = `coffee-brewster-backup-${new Date().toISOString().slice(0, 10)}.json`;
+      link.click();
+      URL.revokeObjectURL(url);
+    } catch (error) {
+      console.error('Failed to export account:', error);
+      setError('Failed to download your backup');
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
+  const handleRestore = async (file: File | undefined) => {
+    if (!file) return;
+    if (
+      mode === 'replace' &&
+      !window.confirm('Replace your logbook and settings with this backup? Sessions not in the backup will be deleted.')
+    ) {
+      return;
+    }
+
+    setIsRestoring(true);
+    setError(null);
+    setMessage(null);
+    try {
+      let backup: unknown;
+      try {
+        backup = JSON.parse(await file.text());
+      } catch {
+        throw new Error('That file is not a backup');
+      }
+
+      const response = await api.restoreAccount(backup, mode);
+      if (response.success && response.restore) {
+        const { restored, skipped } = response.restore;
+        setMessage(
+          `Restored ${restored} ${restored === 1 ? 'session' : 'sessions'}` +
+            (skipped > 0 ? `; ${skipped} were already in your logbook` : '')
+        );
+        await loadSettings();
+      }
+    } catch (error) {
+      setError(error instanceof Error ? error.message : 'Failed to restore the backup');
+    } finally {
+      setIsRestoring(false);
+    }
+  };
+
+  return (
+    <div className="card p-6">
+      <h2 className="text-xl font-bold text-gray-900 dark:text-white mb-2">
+        Backup
+      </h2>
+      <p className="text-sm text-gray-600 dark:text-gray-300 mb-4">
+        Keep a copy of your profile, settings and logbook, or move them to another server.
+      </p>
+
+      <button
+        type="button"
+        onClick={handleExport}
+        disabled={isExporting}
+        className="w-full btn btn-secondary mb-6"
+      >
+        {isExporting ? 'Preparing…' : 'Download Backup'}
+      </button>
+
+      <div className="space-y-3">
+        <div>
+          <label htmlFor="restoreMode" className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
+            Restore
+          </label>
+          <select
+            id="restoreMode"
+            value={mode}
+            onChange={(e) => setMode(e.target.value as AccountRestoreMode)}
+            className="input w-full"
+            disabled={isRestoring}
+          >
+            <option value="merge">Add missing sessions</option>
+            <option value="replace">Replace everything</option>
+          </select>
+        </div>
+        <input
+          type="file"
+          aria-label="Backup file"
+          accept=".json,application/json"
+          onChange={(e) => {
+            handleRestore(e.target.files?.[0]);
+            e.target.value = '';
+          }}
+          disabled={isRestoring}
+          className="block w-full text-sm text-gray-600 dark:text-gray-300"
+        />
+        {isRestoring && <p className="text-sm text-gray-500 dark:text-gray-400">Restoring…</p>}
+        {message && <p className="text-sm text-green-600 dark:text-green-400">{message}</p>}
+        {error && <p className="text-sm text-red-600 dark:text-red-400">{error}</p>}
+      </div>
+    </div>
+  );
+}
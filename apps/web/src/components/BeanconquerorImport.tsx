@@ -0,0 +1,191 @@
+import { useState } from 'react';
+import { api, BeanconquerorImportResult, BrewMethod } from '../lib/api';
+
+// Problems listed under the summary; the rest are counted
+const MAX_LISTED_ERRORS = 50;
+
+interface BeanconquerorImportProps {
+  methods: BrewMethod[];
+  onImported: (count: number) => void;
+  onCancel: () => void;
+}
+
+// The export can be a ZIP, so it travels base64 encoded
+const readAsBase64 = (file: File): Promise<string> =>
+  new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(String(reader.result).split(',')[1] ?? '');
+    reader.onerror = () => reject(reader.error);
+    reader.readAsDataURL(file);
+  });
+
+export function BeanconquerorImport({ methods, onImported, onCancel }: BeanconquerorImportProps) {
+  const [file, setFile] = useState<string | null>(null);
+  const [fileName, setFileName] = useState('');
+  // Only the preparations the user picked a method for by hand
+  const [choices, setChoices] = useState<Record<string, string>>({});
+  const [result, setResult] = useState<BeanconquerorImportResult | null>(null);
+  const [isChecked, setIsChecked] = useState(false);
+  const [isWorking, setIsWorking] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const check = async (data: string, nextChoices: Record<string, string>) => {
+    setIsWorking(true);
+    setError(null);
+    try {
+      const response = await api.importBeanconqueror({ file: data, methods: nextChoices, dryRun: true });
+      if (response.success && response.import) {
+        setResult(response.import);
+        setIsChecked(true);
+      }
+    } catch (error) {
+      setError(error instanceof Error ? error.message : 'Failed to read the export');
+    } finally {
+      setIsWorking(false);
+    }
+  };
+
+  const handleFile = async (selected: File | undefined) => {
+    if (!selected) return;
+    const data = await readAsBase64(selected);
+    setFile(data);
+    setFileName(selected.name);
+    setChoices({});
+    setResult(null);
+    await check(data, {});
+  };
+
+  const handleMethodChange = (preparationId: string, methodId: string) => {
+    setChoices((prev) => ({ ...prev, [preparationId]: methodId }));
+    setIsChecked(false);
+  };
+
+  const handleImport = async () => {
+    if (!file) return;
+    setIsWorking(true);
+    setError(null);
+    try {
+      const response = await api.importBeanconqueror({ file, methods: choices, dryRun: false });
+      if (response.success && response.import) {
+        onImported(response.import.imported);
+      }
+    } catch (error) {
+      setError(error instanceof Error ? error.message : 'Failed to import brews');
+    } finally {
+      setIsWorking(false);
+    }
+  };
+
+  const unmatched = result?.preparations.filter((preparation) => !preparation.methodId) ?? [];
+
+  return (
+    <div className="space-y-4">
+      <div>
+        <label htmlFor="beanconquerorFile" className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
+          Beanconqueror Export
+        </label>
+        <input
+          type="file"
+          id="beanconquerorFile"
+          accept=".zip,.json,application/zip,application/json"
+          onChange={(e) => handleFile(e.target.files?.[0])}
+          className="block w-full text-sm text-gray-600 dark:text-gray-300"
+        />
+        <p className="mt-1 text-xs text-gray-500 dark:text-gray-400">
+          {fileName || 'The ZIP Beanconqueror exports, or the Beanconqueror.json inside it.'}
+        </p>
+      </div>
+
+      {/* Preparations */}
+      {result && result.preparations.length > 0 && (
+        <div>
+          <h4 className="font-medium text-gray-900 dark:text-white mb-2">Preparations</h4>
+          <div className="space-y-2">
+            {result.preparations.map((preparation) => (
+              <div key={preparation.id} className="flex items-center justify-between gap-4">
+                <label
+                  htmlFor={`preparation-${preparation.id}`}
+                  className="text-sm text-gray-700 dark:text-gray-300"
+                >
+                  {preparation.name}
+                  <span className="ml-2 text-xs text-gray-500 dark:text-gray-400">
+                    {preparation.brews} {preparation.brews === 1 ? 'brew' : 'brews'}
+                  </span>
+                </label>
+                <select
+                  id={`preparation-${preparation.id}`}
+                  value={choices[preparation.id] ?? preparation.methodId ?? ''}
+                  onChange={(e) => handleMethodChange(preparation.id, e.target.value)}
+                  className="input w-48 text-sm"
+                >
+                  <option value="">Not imported</option>
+                  {methods.map((method) => (
+                    <option key={method.id} value={method.id}>
+                      {method.name}
+                    </option>
+                  ))}
+                </select>
+              </div>
+            ))}
+          </div>
+          {unmatched.length > 0 && isChecked && (
+            <p className="mt-2 text-sm text-amber-600 dark:text-amber-400">
+              Pick a method for {unmatched.map((preparation) => preparation.name).join(', ')} to import
+              {unmatched.length === 1 ? ' its brews' : ' their brews'}.
+            </p>
+          )}
+        </div>
+      )}
+
+      {/* Summary */}
+      {result && isChecked && (
+        <div>
+          <p className="text-sm text-gray-700 dark:text-gray-300">
+            {result.valid} of {result.total} brews are ready to import
+            {result.alreadyImported > 0 && `; ${result.alreadyImported} are already in your logbook`}.
+          </p>
+
+          {result.errors.length > 0 && (
+            <div className="mt-4">
+              <h4 className="font-medium text-gray-900 dark:text-white mb-1">Problems</h4>
+              <ul className="text-sm text-red-600 dark:text-red-400 space-y-0.5">
+                {result.errors.slice(0, MAX_LISTED_ERRORS).map((error, index) => (
+                  <li key={index}>
+                    {error.brew}, {error.field}: {error.message}
+                  </li>
+                ))}
+              </ul>
+              {result.errors.length > MAX_LISTED_ERRORS && (
+                <p className="text-sm text-gray-500 dark:text-gray-400 mt-1">
+                  and {result.errors.length - MAX_LISTED_ERRORS} more
+                </p>
+              )}
+            </div>
+          )}
+        </div>
+      )}
+
+      {error && <p className="text-sm text-red-600 dark:text-red-400">{error}</p>}
+
+      <div className="flex justify-end gap-3">
+        <button type="button" onClick={onCancel} className="btn btn-secondary" disabled={isWorking}>
+          Cancel
+        </button>
+        {file && !isChecked ? (
+          <button type="button" onClick={() => check(file, choices)} className="btn btn-primary" disabled={isWorking}>
+            {isWorking ? 'Checking…' : 'Check again'}
+          </button>
+        ) : (
+          <button
+            type="button"
+            onClick={handleImport}
+            className="btn btn-primary"
+            disabled={isWorking || !result || result.valid === 0}
+          >
+            {isWorking ? 'Working…' : `Import ${result?.valid ?? 0} brews`}
+          </button>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -2,29 +2,68 @@ import { useState, useEffect, useCallback } from 'react';
 import { useForm } from 'react-hook-form';
 import { zodResolver } from '@hookform/resolvers/zod';
 import { z } from 'zod';
-import { BrewMethod } from '../lib/api';
+import { api, BatchPlan, BrewAdjustment, BrewMethod, ColdBrewPlan, EspressoPlan, PlannedBrew, RecipeVariantKey, RoastLevel } from '../lib/api';
 import { useSettings } from '../state/useSettings';
-import { formatWeight, formatVolume, displayWeight, displayVolume, parseWeight, parseVolume, getVolumeUnit } from '../lib/units';
+import { useGrinders } from '../state/useGrinders';
+import { grinderSettingLabel } from '../lib/grinders';
+import { ROAST_LEVELS, describeAdjustment } from '../lib/beanAdjustments';
+import { DEFAULT_EXTRACTION_YIELD, absorptionFor, adjustForRoast, planBrew, roastAgeDays, yieldForCups, formatWeight, formatVolume, formatTemperature, displayWeight, displayVolume, parseWeight, parseVolume, getVolumeUnit, boilingPointAt, shownAdjustments, toBrewMethod } from '@coffee-brewster/brew-math';
 
 const brewConfigSchema = z.object({
-  ratio: z.number().min(8).max(20),
-  cups: z.number().min(0.5).max(12),
+  ratio: z.number().min(1).max(20),
+  cups: z.number().min(0.5).max(100),
   customYield: z.boolean(),
-  yieldMl: z.number().min(50).max(3000).optional(),
+  fromDose: z.boolean(),
+  doseGrams: z.number().min(5).max(200).optional(),
+  iced: z.boolean(),
+  bypass: z.number().min(0).optional(),
+  bypassUnit: z.enum(['percent', 'ml']),
+  yieldMl: z.number().min(10).max(20000).optional(),
   coffeeGrams: z.number().min(5).max(200),
-  waterMl: z.number().min(50).max(3000),
+  waterMl: z.number().min(20).max(3000),
 });
 
 type BrewConfigData = z.infer<typeof brewConfigSchema>;
 
 interface BrewConfigProps {
   method: BrewMethod;
-  onConfigChange: (config: BrewConfigData & { schedule: any[] }) => void;
+  onConfigChange: (config: Omit<BrewConfigData, 'bypass' | 'bypassUnit' | 'fromDose' | 'doseGrams'> & { schedule: any[]; iceGrams?: number; bypassMl?: number; coldBrew?: ColdBrewPlan; espresso?: EspressoPlan; tempC?: number; grind?: string; roastDate?: string; adjustments?: BrewAdjustment[]; batch?: BatchPlan }) => void;
 }
 
+const RATIO_PRESETS = [
+  { ratio: 12, label: 'Strong', desc: '1:12' },
+  { ratio: 15, label: 'Balanced', desc: '1:15' },
+  { ratio: 17, label: 'Light', desc: '1:17' },
+];
+
+const ESPRESSO_PRESETS = [
+  { ratio: 1.5, label: 'Ristretto', desc: '1:1.5' },
+  { ratio: 2, label: 'Normale', desc: '1:2' },
+  { ratio: 3, label: 'Lungo', desc: '1:3' },
+];
+
 export function BrewConfig({ method, onConfigChange }: BrewConfigProps) {
   const { settings } = useSettings();
-  const [schedule, setSchedule] = useState<any[]>([]);
+  const { grinders } = useGrinders();
+  const absorptionCoef = absorptionFor(method.key);
+  const [plan, setPlan] = useState<PlannedBrew | null>(null);
+  const isColdBrew = method.kind === 'COLD_BREW';
+  const isEspresso = method.kind === 'ESPRESSO';
+  const cupMl = yieldForCups(toBrewMethod(method), 1, settings?.cupSizeMl ?? 240);
+  const [variant, setVariant] = useState<RecipeVariantKey | ''>('');
+  const [sweetness, setSweetness] = useState<'sweet' | 'balanced' | 'bright'>('balanced');
+  const [strength, setStrength] = useState<'light' | 'medium' | 'strong'>('medium');
+  const [roastLevel, setRoastLevel] = useState<RoastLevel | ''>('');
+  const [roastDate, setRoastDate] = useState('');
+  const [adjustments, setAdjustments] = useState<BrewAdjustment[]>([]);
+  const [batch, setBatch] = useState<BatchPlan | null>(null);
+  const [batchError, setBatchError] = useState<string | null>(null);
+  // Set by strength: the ratio follows from a target TDS instead of the slider
+  const [strengthTarget, setStrengthTarget] = useState<{ tdsPercent: number; extractionYieldPercent: number } | null>(null);
+  const [strengthRatio, setStrengthRatio] = useState<number | null>(null);
+  const [strengthError, setStrengthError] = useState<string | null>(null);
+  const ratioMin = isEspresso ? 1 : 8;
+  const ratioMax = isEspresso ? 4 : 20;
 
   const {
     register,
@@ -38,113 +77,174 @@ export function BrewConfig({ method, onConfigChange }: BrewConfigProps) {
       ratio: method.defaultRatio,
       cups: 2,
       customYield: false,
-      yieldMl: settings?.cupSizeMl ? settings.cupSizeMl * 2 : 480,
+      fromDose: false,
+      doseGrams: isEspresso ? 18 : 20,
+      iced: false,
+      bypass: 0,
+      bypassUnit: 'percent',
+      yieldMl: isEspresso ? cupMl : settings?.cupSizeMl ? settings.cupSizeMl * 2 : 480,
       coffeeGrams: 32,
       waterMl: 480,
     },
   });
 
   const watchedValues = watch();
-  const { ratio, cups, customYield, yieldMl, coffeeGrams, waterMl } = watchedValues;
+  const { ratio, cups, customYield, fromDose, doseGrams, iced, bypass, bypassUnit, yieldMl, coffeeGrams, waterMl } = watchedValues;
+  // A batch shows the whole order; its brews list what each one takes
+  const bypassMl = batch
+    ? batch.brews.reduce((sum, brew) => sum + (brew.bypassMl ?? 0), 0)
+    : plan?.bypassMl ?? 0;
+  const iceGrams = batch
+    ? batch.brews.reduce((sum, brew) => sum + (brew.iceGrams ?? 0), 0)
+    : plan?.iceGrams ?? 0;
+
+  // The server solves the ratio and rejects strengths the method can't brew
+  useEffect(() => {
+    setStrengthError(null);
+    if (!strengthTarget || !(strengthTarget.tdsPercent > 0) || !(strengthTarget.extractionYieldPercent > 0)) {
+      setStrengthRatio(null);
+      return;
+    }
+
+    let cancelled = false;
+    api
+      .solveStrength({
+        methodKey: method.key,
+        targetTdsPercent: strengthTarget.tdsPercent,
+        extractionYieldPercent: strengthTarget.extractionYieldPercent,
+        ...(fromDose
+          ? { coffeeGrams: doseGrams || 0 }
+          : customYield ? { targetYieldMl: yieldMl || 0 } : { cups }),
+      })
+      .then(response => {
+        if (cancelled || !response.strength) return;
+        setStrengthRatio(response.strength.ratio);
+        setValue('ratio', response.strength.ratio);
+      })
+      .catch(error => {
+        if (cancelled) return;
+        setStrengthRatio(null);
+        setStrengthError(error instanceof Error ? error.message : 'Failed to solve for that strength');
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [strengthTarget, method.key, fromDose, doseGrams, customYield, yieldMl, cups, setValue]);
 
   // Calculate brewing parameters without setValue to avoid infinite loops
   useEffect(() => {
     if (!settings) return;
 
-    const targetYield = customYield ? (yieldMl || 0) : (cups * settings.cupSizeMl);
-    const calculatedCoffee = +(targetYield / ratio).toFixed(1);
-    
-    // Water absorption coefficients (same as backend)
-    const absorptionCoef: Record<string, number> = {
-      v60: 2.0,
-      chemex: 2.0,
-      aeropress: 1.5,
-      french_press: 2.2,
-      moka: 0.8,
+    const targetYield = fromDose
+      ? Math.round((doseGrams || 0) * ratio)
+      : customYield ? (yieldMl || 0) : (cups * cupMl);
+    // Downstream only knows cups and custom yields; a dose becomes a yield
+    const amount = fromDose
+      ? { customYield: true, yieldMl: targetYield }
+      : { customYield, yieldMl };
+    const bean = {
+      roastLevel: roastLevel || undefined,
+      roastAgeDays: roastDate ? roastAgeDays(new Date(roastDate)) : undefined,
     };
-    
-    const absorption = calculatedCoffee * (absorptionCoef[method.key] || 2.0);
-    const totalWater = targetYield + absorption;
 
-    // Update form values for coffee and water amounts
-    setValue('coffeeGrams', calculatedCoffee);
-    setValue('waterMl', totalWater);
-
-    // Generate pour schedule (simplified version of backend logic)
-    const newSchedule = [];
-    
-    if (method.bloom) {
-      const bloomVol = Math.min(Math.max(2 * calculatedCoffee, 30), 60);
-      newSchedule.push({
-        atSec: 0,
-        volumeMl: Math.round(bloomVol),
-        label: 'Bloom',
+    const applyPlan = (brew: PlannedBrew, batchPlan: BatchPlan | null) => {
+      setValue('coffeeGrams', batchPlan?.coffeeGrams ?? brew.coffeeGrams);
+      setValue('waterMl', batchPlan?.waterTotalMl ?? brew.waterTotalMl);
+      setPlan(brew);
+      setBatch(batchPlan);
+      setBatchError(null);
+      setAdjustments(brew.adjustments);
+      onConfigChange({
+        ratio,
+        cups,
+        ...amount,
+        iced: !!brew.iceGrams,
+        coffeeGrams: brew.coffeeGrams,
+        waterMl: brew.waterTotalMl,
+        iceGrams: brew.iceGrams,
+        bypassMl: brew.bypassMl,
+        coldBrew: brew.coldBrew,
+        espresso: brew.espresso,
+        schedule: brew.pours,
+        // Without presets (recommendations off) there is nothing to recommend
+        tempC: method.presets?.tempC !== undefined ? brew.tempC : undefined,
+        grind: method.presets?.grind ? brew.grind : undefined,
+        roastDate: roastDate || undefined,
+        adjustments: brew.adjustments,
+        batch: batchPlan ?? undefined,
       });
-    }
+    };
 
-    const remaining = totalWater - (newSchedule[0]?.volumeMl || 0);
+    // Ice and bypass only apply to brews through a bed
+    const standard = !isColdBrew && !isEspresso;
 
-    if (method.key === 'v60') {
-      newSchedule.push({
-        atSec: 45,
-        volumeMl: Math.round(remaining * 0.55),
-        label: 'First pour',
-      });
-      newSchedule.push({
-        atSec: 105,
-        volumeMl: Math.round(remaining * 0.45),
-        label: 'Second pour',
-      });
-    } else if (method.key === 'chemex') {
-      newSchedule.push({
-        atSec: 45,
-        volumeMl: Math.round(remaining * 0.4),
-        label: 'First pour',
-      });
-      newSchedule.push({
-        atSec: 105,
-        volumeMl: Math.round(remaining * 0.3),
-        label: 'Second pour',
-      });
-      newSchedule.push({
-        atSec: 165,
-        volumeMl: Math.round(remaining * 0.3),
-        label: 'Third pour',
-      });
-    } else if (method.key === 'aeropress') {
-      newSchedule.push({
-        atSec: 45,
-        volumeMl: remaining,
-        label: 'Fill & steep',
-      });
-    } else if (method.key === 'french_press') {
-      newSchedule.push({
-        atSec: 0,
-        volumeMl: totalWater,
-        label: 'Fill',
-      });
-    } else if (method.key === 'moka') {
-      newSchedule.push({
-        atSec: 0,
-        volumeMl: totalWater,
-        label: 'Assemble & heat',
-      });
+    // Orders bigger than the brewer are split into several brews, which
+    // only the server plans
+    if (method.capacityMl && !fromDose && targetYield > method.capacityMl) {
+      let cancelled = false;
+      api
+        .calculateBatchBrew({
+          methodKey: method.key,
+          cups: customYield ? undefined : cups,
+          targetYieldMl: customYield ? yieldMl : undefined,
+          ratio,
+          iced: standard && iced,
+          ...(standard && (bypassUnit === 'ml' ? { bypassMl: bypass || 0 } : { bypassPercent: bypass || 0 })),
+          ...(variant && { recipeVariant: variant, sweetness, strength }),
+          roastLevel: bean.roastLevel,
+          roastDate: roastDate || undefined,
+        })
+        .then(response => {
+          if (!cancelled && response.batch) applyPlan(response.batch.brews[0], response.batch);
+        })
+        .catch(error => {
+          if (cancelled) return;
+          setBatch(null);
+          setBatchError(error instanceof Error ? error.message : 'Failed to plan the batch');
+        });
+
+      return () => {
+        cancelled = true;
+      };
     }
 
-    setSchedule(newSchedule);
-    onConfigChange({ 
-      ratio, 
-      cups, 
-      customYield, 
-      yieldMl,
-      coffeeGrams: calculatedCoffee,
-      waterMl: totalWater,
-      schedule: newSchedule 
-    });
-  }, [ratio, cups, customYield, yieldMl, method.key, method.bloom, settings]);
+    applyPlan(
+      planBrew({
+        method: toBrewMethod(method),
+        cups,
+        cupSizeMl: settings.cupSizeMl,
+        altitudeM: settings.altitudeM,
+        ratio,
+        targetYieldMl: customYield && !fromDose ? (yieldMl || 0) : undefined,
+        coffeeGrams: fromDose ? (doseGrams || 0) : undefined,
+        iced: standard && iced,
+        ...(standard && (bypassUnit === 'ml' ? { bypassMl: bypass || 0 } : { bypassPercent: bypass || 0 })),
+        variant: variant ? { key: variant, options: { sweetness, strength } } : undefined,
+        bean,
+      }),
+      null
+    );
+  }, [ratio, cups, customYield, fromDose, doseGrams, iced, bypass, bypassUnit, yieldMl, method, isColdBrew, isEspresso, cupMl, settings, variant, sweetness, strength, roastLevel, roastDate]);
 
   if (!settings) return null;
 
+  const boilingPoint = boilingPointAt(settings.altitudeM ?? 0);
+  const targetYieldMl = fromDose
+    ? Math.round((doseGrams || 0) * ratio)
+    : customYield ? (yieldMl || 0) : (cups * cupMl);
+  const roast = adjustForRoast(
+    { roastLevel: roastLevel || undefined },
+    { kind: method.kind, tempC: method.presets?.tempC ?? 94, grind: method.presets?.grind ?? '' }
+  );
+  const idealTempC: number | undefined = method.presets?.tempC !== undefined ? roast.tempC : undefined;
+  const batching = !!method.capacityMl && !fromDose && targetYieldMl > method.capacityMl;
+  const grinderSetting = grinderSettingLabel(
+    grinders.find(g => g.id === settings.activeGrinderId),
+    batch?.brews[0].grind ?? roast.grind
+  );
+  const visibleAdjustments = shownAdjustments(adjustments, settings.recommend);
+
   return (
     <div className="card p-6">
       <h3 className="text-lg font-bold text-gray-900 dark:text-white mb-4">
@@ -162,9 +262,10 @@ export function BrewConfig({ method, onConfigChange }: BrewConfigProps) {
               <input
                 {...register('ratio', { valueAsNumber: true })}
                 type="range"
-                min="8"
-                max="20"
-                step="0.5"
+                min={ratioMin}
+                max={ratioMax}
+                step={isEspresso || strengthTarget ? 0.1 : 0.5}
+                disabled={!!strengthTarget}
                 className="w-full h-2 bg-gray-200 rounded-lg appearance-none cursor-pointer dark:bg-gray-700 slider"
               />
             </div>
@@ -174,14 +275,80 @@ export function BrewConfig({ method, onConfigChange }: BrewConfigProps) {
               </span>
             </div>
           </div>
-          <div className="flex justify-between text-xs text-gray-500 dark:text-gray-400 mt-1">
-            <span>Strong (1:8)</span>
-            <span>Balanced (1:15)</span>
-            <span>Light (1:20)</span>
-          </div>
+          {isEspresso ? (
+            <div className="flex justify-between text-xs text-gray-500 dark:text-gray-400 mt-1">
+              <span>Ristretto (1:1)</span>
+              <span>Normale (1:2)</span>
+              <span>Lungo (1:4)</span>
+            </div>
+          ) : (
+            <div className="flex justify-between text-xs text-gray-500 dark:text-gray-400 mt-1">
+              <span>Strong (1:8)</span>
+              <span>Balanced (1:15)</span>
+              <span>Light (1:20)</span>
+            </div>
+          )}
           <p className="mt-2 text-xs text-gray-500 dark:text-gray-400">
-            Ratio is based on final brewed coffee, not total water poured
+            {isEspresso
+              ? 'Ratio is dose in to beverage weight out'
+              : 'Ratio is based on final brewed coffee, not total water poured'}
           </p>
+          <label className="flex items-center mt-3">
+            <input
+              type="checkbox"
+              checked={!!strengthTarget}
+              onChange={(e) => setStrengthTarget(e.target.checked
+                ? { tdsPercent: isEspresso ? 9 : 1.35, extractionYieldPercent: DEFAULT_EXTRACTION_YIELD }
+                : null)}
+              className="rounded border-gray-300 text-primary-600 focus:ring-primary-500"
+            />
+            <span className="ml-2 text-sm font-medium text-gray-700 dark:text-gray-300">Set by strength</span>
+          </label>
+          {strengthTarget && (
+            <div className="mt-3 p-4 bg-gray-50 dark:bg-gray-800 rounded-lg">
+              <div className="grid grid-cols-2 gap-4">
+                <div>
+                  <label htmlFor="targetTds" className="block text-xs text-gray-500 dark:text-gray-400 mb-1">
+                    Target TDS (%)
+                  </label>
+                  <input
+                    id="targetTds"
+                    type="number"
+                    min="0.5"
+                    max="15"
+                    step={isEspresso ? 0.5 : 0.05}
+                    value={strengthTarget.tdsPercent || ''}
+                    onChange={(e) => setStrengthTarget({ ...strengthTarget, tdsPercent: e.target.valueAsNumber || 0 })}
+                    className="input w-full"
+                  />
+                </div>
+                <div>
+                  <label htmlFor="extractionYield" className="block text-xs text-gray-500 dark:text-gray-400 mb-1">
+                    Expected Extraction (%)
+                  </label>
+                  <input
+                    id="extractionYield"
+                    type="number"
+                    min="10"
+                    max="30"
+                    step="0.5"
+                    value={strengthTarget.extractionYieldPercent || ''}
+                    onChange={(e) => setStrengthTarget({ ...strengthTarget, extractionYieldPercent: e.target.valueAsNumber || 0 })}
+                    className="input w-full"
+                  />
+                </div>
+              </div>
+              {strengthError ? (
+                <p className="mt-2 text-xs text-amber-600 dark:text-amber-400">
+                  {`${strengthError}; using 1:${ratio} instead`}
+                </p>
+              ) : strengthRatio !== null && (
+                <p className="mt-2 text-xs text-gray-500 dark:text-gray-400">
+                  {`${strengthTarget.tdsPercent}% TDS at ${strengthTarget.extractionYieldPercent}% extraction is 1:${strengthRatio}`}
+                </p>
+              )}
+            </div>
+          )}
           {errors.ratio && (
             <p className="mt-1 text-sm text-red-600 dark:text-red-400">
               {errors.ratio.message}
@@ -189,119 +356,391 @@ export function BrewConfig({ method, onConfigChange }: BrewConfigProps) {
           )}
         </div>
 
+        {/* Recipe Variant */}
+        {method.variants.length > 0 && (
+          <div>
+            <label htmlFor="recipeVariant" className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
+              Recipe
+            </label>
+            <select
+              id="recipeVariant"
+              value={variant}
+              onChange={(e) => setVariant(e.target.value as RecipeVariantKey | '')}
+              className="input w-full"
+            >
+              <option value="">Standard {method.name} schedule</option>
+              {method.variants.map((v) => (
+                <option key={v.key} value={v.key}>{v.name}</option>
+              ))}
+            </select>
+            {variant === 'tetsu_4_6' && (
+              <div className="grid grid-cols-2 gap-4 mt-3">
+                <div>
+                  <label htmlFor="sweetness" className="block text-xs text-gray-500 dark:text-gray-400 mb-1">
+                    First 40%: taste
+                  </label>
+                  <select
+                    id="sweetness"
+                    value={sweetness}
+                    onChange={(e) => setSweetness(e.target.value as typeof sweetness)}
+                    className="input w-full"
+                  >
+                    <option value="sweet">Sweeter</option>
+                    <option value="balanced">Balanced</option>
+                    <option value="bright">Brighter</option>
+                  </select>
+                </div>
+                <div>
+                  <label htmlFor="strength" className="block text-xs text-gray-500 dark:text-gray-400 mb-1">
+                    Last 60%: strength
+                  </label>
+                  <select
+                    id="strength"
+                    value={strength}
+                    onChange={(e) => setStrength(e.target.value as typeof strength)}
+                    className="input w-full"
+                  >
+                    <option value="light">Lighter (1 pour)</option>
+                    <option value="medium">Medium (2 pours)</option>
+                    <option value="strong">Stronger (3 pours)</option>
+                  </select>
+                </div>
+              </div>
+            )}
+          </div>
+        )}
+
+        {/* Beans */}
+        <div className="grid grid-cols-2 gap-4">
+          <div>
+            <label htmlFor="roastLevel" className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
+              Roast Level
+            </label>
+            <select
+              id="roastLevel"
+              value={roastLevel}
+              onChange={(e) => setRoastLevel(e.target.value as RoastLevel | '')}
+              className="input w-full"
+            >
+              <option value="">Not sure</option>
+              {ROAST_LEVELS.map((r) => (
+                <option key={r.value} value={r.value}>{r.label}</option>
+              ))}
+            </select>
+          </div>
+          <div>
+            <label htmlFor="roastDate" className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
+              Roast Date
+            </label>
+            <input
+              id="roastDate"
+              type="date"
+              value={roastDate}
+              max={new Date().toISOString().slice(0, 10)}
+              onChange={(e) => setRoastDate(e.target.value)}
+              className="input w-full"
+            />
+          </div>
+        </div>
+
         {/* Yield Configuration */}
         <div>
           <div className="flex items-center justify-between mb-3">
             <label className="text-sm font-medium text-gray-700 dark:text-gray-300">
               Brew Amount
             </label>
-            <label className="flex items-center">
-              <input
-                {...register('customYield')}
-                type="checkbox"
-                className="rounded border-gray-300 text-primary-600 focus:ring-primary-500"
-              />
-              <span className="ml-2 text-sm text-gray-600 dark:text-gray-400">Custom amount</span>
-            </label>
+            <select
+              aria-label="Brew amount mode"
+              value={fromDose ? 'dose' : customYield ? 'yield' : 'cups'}
+              onChange={(e) => {
+                setValue('fromDose', e.target.value === 'dose');
+                setValue('customYield', e.target.value === 'yield');
+              }}
+              className="input w-auto text-sm"
+            >
+              <option value="cups">{isEspresso ? 'By double shots' : 'By cups'}</option>
+              <option value="yield">Custom amount</option>
+              <option value="dose">From coffee on hand</option>
+            </select>
           </div>
 
-          {!customYield ? (
+          {fromDose ? (
+            <div>
+              <label className="block text-sm text-gray-600 dark:text-gray-400 mb-2">
+                {isEspresso ? 'Dose' : 'Coffee on Hand'}
+              </label>
+              <div className="flex items-center space-x-2">
+                <input
+                  {...register('doseGrams', { valueAsNumber: true })}
+                  type="number"
+                  min="5"
+                  max="200"
+                  step={isEspresso ? 0.5 : 1}
+                  className="input w-32"
+                />
+                <span className="text-sm text-gray-500 dark:text-gray-400">g</span>
+              </div>
+              <p className="mt-1 text-xs text-gray-500 dark:text-gray-400">
+                {isEspresso ? 'Beverage weight' : 'Yield'} at 1:{ratio}: {isEspresso ? formatWeight(targetYieldMl, settings) : formatVolume(targetYieldMl, settings)}
+              </p>
+            </div>
+          ) : !customYield ? (
             <div>
               <label className="block text-sm text-gray-600 dark:text-gray-400 mb-2">
-                Number of Cups
+                {isEspresso ? 'Number of Double Shots' : 'Number of Cups'}
               </label>
               <input
                 {...register('cups', { valueAsNumber: true })}
                 type="number"
                 min="0.5"
-                max="12"
+                max="100"
                 step="0.5"
                 className="input w-32"
               />
               <p className="mt-1 text-xs text-gray-500 dark:text-gray-400">
-                Cup size: {formatVolume(settings.cupSizeMl, settings)}
+                {isEspresso
+                  ? `Double shot: ${formatWeight(cupMl, settings)}`
+                  : `Cup size: ${formatVolume(settings.cupSizeMl, settings)}`}
               </p>
             </div>
           ) : (
             <div>
               <label className="block text-sm text-gray-600 dark:text-gray-400 mb-2">
-                Target Yield
+                {isEspresso ? 'Target Beverage Weight' : 'Target Yield'}
               </label>
               <div className="flex items-center space-x-2">
                 <input
                   {...register('yieldMl', { valueAsNumber: true })}
                   type="number"
-                  min="50"
-                  max="3000"
-                  step="10"
+                  min={isEspresso ? 10 : 50}
+                  max={isEspresso ? 200 : 20000}
+                  step={isEspresso ? 1 : 10}
                   className="input w-32"
                 />
-                <span className="text-sm text-gray-500 dark:text-gray-400">{getVolumeUnit(settings)}</span>
+                <span className="text-sm text-gray-500 dark:text-gray-400">{isEspresso ? 'g' : getVolumeUnit(settings)}</span>
               </div>
             </div>
           )}
         </div>
 
+        {/* Iced */}
+        {!isColdBrew && !isEspresso && (
+          <div>
+            <label className="flex items-center">
+              <input
+                {...register('iced')}
+                type="checkbox"
+                className="rounded border-gray-300 text-primary-600 focus:ring-primary-500"
+              />
+              <span className="ml-2 text-sm font-medium text-gray-700 dark:text-gray-300">Iced (flash brew)</span>
+            </label>
+            <p className="mt-1 text-xs text-gray-500 dark:text-gray-400">
+              Brew hot and strong straight onto ice; the melt brings it back to your ratio
+            </p>
+          </div>
+        )}
+
+        {/* Bypass */}
+        {!isColdBrew && !isEspresso && (
+          <div>
+            <label htmlFor="bypass" className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
+              Bypass Water
+            </label>
+            <div className="flex items-center space-x-2">
+              <input
+                {...register('bypass', { valueAsNumber: true })}
+                type="number"
+                id="bypass"
+                min="0"
+                max={bypassUnit === 'percent' ? 60 : 1800}
+                step={bypassUnit === 'percent' ? 5 : 10}
+                className="input w-32"
+              />
+              <select {...register('bypassUnit')} className="input w-24">
+                <option value="percent">%</option>
+                <option value="ml">{getVolumeUnit(settings)}</option>
+              </select>
+            </div>
+            <p className="mt-1 text-xs text-gray-500 dark:text-gray-400">
+              Brew stronger and top up with water after brewing; bypass is not absorbed by the grounds
+            </p>
+          </div>
+        )}
+
         {/* Calculated Results */}
         <div className="p-4 bg-gray-50 dark:bg-gray-800 rounded-lg">
           <div className="grid grid-cols-2 md:grid-cols-3 gap-4 mb-3">
             <div>
               <label className="block text-xs text-gray-500 dark:text-gray-400 mb-1">
-                Coffee Needed
+                {isEspresso ? 'Dose In' : fromDose ? 'Coffee' : 'Coffee Needed'}
               </label>
               <div className="text-lg font-semibold text-gray-900 dark:text-white">
                 {formatWeight(coffeeGrams, settings)}
               </div>
             </div>
-            <div>
-              <label className="block text-xs text-gray-500 dark:text-gray-400 mb-1">
-                Water to Pour
-              </label>
-              <div className="text-lg font-semibold text-gray-900 dark:text-white">
-                {formatVolume(waterMl, settings)}
+            {!isEspresso && (
+              <div>
+                <label className="block text-xs text-gray-500 dark:text-gray-400 mb-1">
+                  {isColdBrew ? 'Water to Steep' : iced ? 'Hot Water to Pour' : 'Water to Pour'}
+                </label>
+                <div className="text-lg font-semibold text-gray-900 dark:text-white">
+                  {formatVolume(waterMl - bypassMl, settings)}
+                </div>
               </div>
-            </div>
+            )}
+            {bypassMl > 0 && !isColdBrew && !isEspresso && (
+              <div>
+                <label className="block text-xs text-gray-500 dark:text-gray-400 mb-1">
+                  Bypass Water
+                </label>
+                <div className="text-lg font-semibold text-gray-900 dark:text-white">
+                  {formatVolume(bypassMl, settings)}
+                </div>
+              </div>
+            )}
+            {iced && !isColdBrew && (
+              <div>
+                <label className="block text-xs text-gray-500 dark:text-gray-400 mb-1">
+                  Ice in Server
+                </label>
+                <div className="text-lg font-semibold text-gray-900 dark:text-white">
+                  {formatWeight(iceGrams, settings)}
+                </div>
+              </div>
+            )}
             <div className="col-span-2 md:col-span-1">
               <label className="block text-xs text-gray-500 dark:text-gray-400 mb-1">
-                Expected Yield
+                {isEspresso ? 'Beverage Out' : 'Expected Yield'}
               </label>
               <div className="text-lg font-semibold text-gray-900 dark:text-white">
-                {formatVolume(customYield ? (yieldMl || 0) : (cups * settings.cupSizeMl), settings)}
+                {isEspresso
+                  ? formatWeight(targetYieldMl, settings)
+                  : formatVolume(targetYieldMl, settings)}
               </div>
             </div>
+            {isEspresso && plan?.espresso && (
+              <div>
+                <label className="block text-xs text-gray-500 dark:text-gray-400 mb-1">
+                  Shot Time
+                </label>
+                <div className="text-lg font-semibold text-gray-900 dark:text-white">
+                  {plan.espresso.shotTimeMinSec}–{plan.espresso.shotTimeMaxSec}s
+                </div>
+              </div>
+            )}
+            {isColdBrew && plan?.coldBrew && (
+              <>
+                <div>
+                  <label className="block text-xs text-gray-500 dark:text-gray-400 mb-1">
+                    Concentrate
+                  </label>
+                  <div className="text-lg font-semibold text-gray-900 dark:text-white">
+                    {formatVolume(plan.coldBrew.concentrateMl, settings)}
+                  </div>
+                </div>
+                <div>
+                  <label className="block text-xs text-gray-500 dark:text-gray-400 mb-1">
+                    Dilute With
+                  </label>
+                  <div className="text-lg font-semibold text-gray-900 dark:text-white">
+                    {formatVolume(plan.coldBrew.dilutionMl, settings)}
+                  </div>
+                </div>
+              </>
+            )}
           </div>
-          <p className="text-xs text-gray-500 dark:text-gray-400 border-t border-gray-200 dark:border-gray-700 pt-3">
-            Coffee grounds absorb ~{method.key === 'v60' || method.key === 'chemex' ? '2' : method.key === 'french_press' ? '2.2' : method.key === 'aeropress' ? '1.5' : '0.8'}× their weight in water, so you'll pour more water than the final yield
-          </p>
+          {isColdBrew && plan?.coldBrew && (
+            <p className="text-xs text-gray-500 dark:text-gray-400 mb-3">
+              Steep for {plan.coldBrew.steepHours} hours, filter, then dilute the concentrate to reach 1:{ratio}
+            </p>
+          )}
+          {batch && (
+            <div className="mb-3">
+              <p className="text-xs font-medium text-gray-700 dark:text-gray-300 mb-1">
+                {batch.brews.length} brews of up to {isEspresso ? formatWeight(batch.capacityMl ?? 0, settings) : formatVolume(batch.capacityMl ?? 0, settings)}, one after another
+              </p>
+              <ul className="text-xs text-gray-600 dark:text-gray-400 space-y-1">
+                {batch.brews.map((brew, index) => (
+                  <li key={index}>
+                    Brew {index + 1}: {formatWeight(brew.coffeeGrams, settings)} coffee for {isEspresso ? formatWeight(brew.yieldTargetMl, settings) : formatVolume(brew.yieldTargetMl, settings)}
+                    {!!brew.iceGrams && `, over ${formatWeight(brew.iceGrams, settings)} ice`}
+                    {!!brew.bypassMl && `, ${formatVolume(brew.bypassMl, settings)} bypass`}
+                  </li>
+                ))}
+              </ul>
+              {batch.suggestion && (
+                <p className="text-xs text-primary-700 dark:text-primary-300 mt-1">
+                  A {batch.suggestion.name} would make this in {batch.suggestion.brews === 1 ? 'one brew' : `${batch.suggestion.brews} brews`}
+                </p>
+              )}
+            </div>
+          )}
+          {batchError && batching && (
+            <p className="text-xs text-red-600 dark:text-red-400 mb-3">
+              {batchError}
+            </p>
+          )}
+          {grinderSetting && settings.recommend && (
+            <p className="text-xs text-gray-700 dark:text-gray-300 mb-3">
+              Grind: {grinderSetting}
+            </p>
+          )}
+          {visibleAdjustments.length > 0 && (
+            <div className="mb-3">
+              <p className="text-xs font-medium text-gray-700 dark:text-gray-300 mb-1">
+                {batch ? 'Adjusted for your beans and the batch' : 'Adjusted for your beans'}
+              </p>
+              <ul className="text-xs text-gray-600 dark:text-gray-400 space-y-1">
+                {visibleAdjustments.map((adjustment, index) => (
+                  <li key={index}>{describeAdjustment(adjustment, settings)}</li>
+                ))}
+              </ul>
+            </div>
+          )}
+          {idealTempC !== undefined && idealTempC > boilingPoint && (
+            <p className="text-xs text-amber-700 dark:text-amber-300 mb-3">
+              {formatTemperature(idealTempC, settings)} can't be reached at your altitude; water boils at about {formatTemperature(boilingPoint, settings)}.
+              Brew just off the boil and grind a little finer to make up for it.
+            </p>
+          )}
+          {isEspresso ? (
+            <p className="text-xs text-gray-500 dark:text-gray-400 border-t border-gray-200 dark:border-gray-700 pt-3">
+              Stop the shot at the beverage weight; if it lands outside the time window, adjust the grind
+              {method.espresso?.preinfusionSec ? `. Preinfuse for ${method.espresso.preinfusionSec}s` : ''}
+              {method.espresso?.pressureBar ? `. Brew at ${method.espresso.pressureBar} bar` : ''}
+            </p>
+          ) : (
+            <p className="text-xs text-gray-500 dark:text-gray-400 border-t border-gray-200 dark:border-gray-700 pt-3">
+              Coffee grounds absorb ~{absorptionCoef}× their weight in water, so you'll pour more water than the final yield
+            </p>
+          )}
         </div>
 
         {/* Quick Ratio Presets */}
-        <div>
-          <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-3">
-            Quick Ratios
-          </label>
-          <div className="grid grid-cols-3 gap-2">
-            {[
-              { ratio: 12, label: 'Strong', desc: '1:12' },
-              { ratio: 15, label: 'Balanced', desc: '1:15' },
-              { ratio: 17, label: 'Light', desc: '1:17' },
-            ].map((preset) => (
-              <button
-                key={preset.ratio}
-                type="button"
-                onClick={() => setValue('ratio', preset.ratio)}
-                className={`p-3 text-center rounded-lg border transition-colors ${
-                  ratio === preset.ratio
-                    ? 'border-primary-500 bg-primary-50 text-primary-700 dark:bg-primary-900/20 dark:text-primary-300'
-                    : 'border-gray-200 hover:border-primary-300 dark:border-gray-600 dark:hover:border-primary-600'
-                }`}
-              >
-                <div className="font-medium text-sm">{preset.label}</div>
-                <div className="text-xs text-gray-500 dark:text-gray-400">{preset.desc}</div>
-              </button>
-            ))}
+        {!strengthTarget && (
+          <div>
+            <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-3">
+              Quick Ratios
+            </label>
+            <div className="grid grid-cols-3 gap-2">
+              {(isEspresso ? ESPRESSO_PRESETS : RATIO_PRESETS).map((preset) => (
+                <button
+                  key={preset.ratio}
+                  type="button"
+                  onClick={() => setValue('ratio', preset.ratio)}
+                  className={`p-3 text-center rounded-lg border transition-colors ${
+                    ratio === preset.ratio
+                      ? 'border-primary-500 bg-primary-50 text-primary-700 dark:bg-primary-900/20 dark:text-primary-300'
+                      : 'border-gray-200 hover:border-primary-300 dark:border-gray-600 dark:hover:border-primary-600'
+                  }`}
+                >
+                  <div className="font-medium text-sm">{preset.label}</div>
+                  <div className="text-xs text-gray-500 dark:text-gray-400">{preset.desc}</div>
+                </button>
+              ))}
+            </div>
           </div>
-        </div>
+        )}
       </form>
     </div>
   );
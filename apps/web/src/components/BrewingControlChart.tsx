@@ -0,0 +1,137 @@
+import { ChartPoint, ControlChart, controlChartFor, describePoint } from '../lib/controlChart';
+import { BrewMethod } from '../lib/api';
+
+interface BrewingControlChartProps {
+  current: ChartPoint;
+  others?: ChartPoint[];
+  kind?: BrewMethod['kind']; // espresso is charted on its own strength scale
+}
+
+const WIDTH = 400;
+const HEIGHT = 300;
+const PAD = { top: 16, right: 16, bottom: 40, left: 48 };
+
+const clamp = (value: number, min: number, max: number) =>
+  Math.min(Math.max(value, min), max);
+
+// Plots values onto the chart, holding outliers at its edges
+const scalesFor = ({ eyTicks, tdsTicks }: ControlChart) => {
+  const ey = { min: eyTicks[0], max: eyTicks[eyTicks.length - 1] };
+  const tds = { min: tdsTicks[0], max: tdsTicks[tdsTicks.length - 1] };
+
+  return {
+    x: (value: number) =>
+      PAD.left +
+      ((clamp(value, ey.min, ey.max) - ey.min) / (ey.max - ey.min)) *
+        (WIDTH - PAD.left - PAD.right),
+    y: (value: number) =>
+      HEIGHT -
+      PAD.bottom -
+      ((clamp(value, tds.min, tds.max) - tds.min) / (tds.max - tds.min)) *
+        (HEIGHT - PAD.top - PAD.bottom),
+  };
+};
+
+export function BrewingControlChart({ current, others = [], kind }: BrewingControlChartProps) {
+  const chart = controlChartFor(kind);
+  const { ideal, eyTicks, tdsTicks } = chart;
+  const { x, y } = scalesFor(chart);
+
+  return (
+    <div>
+      <svg
+        viewBox={`0 0 ${WIDTH} ${HEIGHT}`}
+        className="w-full max-w-lg"
+        role="img"
+        aria-label={`Brewing control chart: ${describePoint(current, chart)}`}
+      >
+        {/* Grid */}
+        {eyTicks.map((tick) => (
+          <g key={`ey-${tick}`}>
+            <line
+              x1={x(tick)}
+              x2={x(tick)}
+              y1={PAD.top}
+              y2={HEIGHT - PAD.bottom}
+              className="stroke-gray-200 dark:stroke-gray-700"
+            />
+            <text
+              x={x(tick)}
+              y={HEIGHT - PAD.bottom + 16}
+              textAnchor="middle"
+              className="fill-gray-500 dark:fill-gray-400 text-[10px]"
+            >
+              {tick}
+            </text>
+          </g>
+        ))}
+        {tdsTicks.map((tick) => (
+          <g key={`tds-${tick}`}>
+            <line
+              x1={PAD.left}
+              x2={WIDTH - PAD.right}
+              y1={y(tick)}
+              y2={y(tick)}
+              className="stroke-gray-200 dark:stroke-gray-700"
+            />
+            <text
+              x={PAD.left - 8}
+              y={y(tick) + 3}
+              textAnchor="end"
+              className="fill-gray-500 dark:fill-gray-400 text-[10px]"
+            >
+              {tick.toFixed(1)}
+            </text>
+          </g>
+        ))}
+
+        {/* Ideal box */}
+        <rect
+          x={x(ideal.eyMin)}
+          y={y(ideal.tdsMax)}
+          width={x(ideal.eyMax) - x(ideal.eyMin)}
+          height={y(ideal.tdsMin) - y(ideal.tdsMax)}
+          className="fill-green-500/20 stroke-green-600"
+        />
+
+        {/* Axis labels */}
+        <text
+          x={(WIDTH + PAD.left - PAD.right) / 2}
+          y={HEIGHT - 6}
+          textAnchor="middle"
+          className="fill-gray-600 dark:fill-gray-300 text-[11px]"
+        >
+          Extraction yield (%)
+        </text>
+        <text
+          transform={`translate(12, ${(HEIGHT - PAD.bottom + PAD.top) / 2}) rotate(-90)`}
+          textAnchor="middle"
+          className="fill-gray-600 dark:fill-gray-300 text-[11px]"
+        >
+          TDS (%)
+        </text>
+
+        {/* Sessions */}
+        {others.map((point) => (
+          <circle
+            key={point.id}
+            cx={x(point.extractionYield)}
+            cy={y(point.tdsPercent)}
+            r={4}
+            className="fill-gray-400/60 dark:fill-gray-500/60"
+          />
+        ))}
+        <circle
+          cx={x(current.extractionYield)}
+          cy={y(current.tdsPercent)}
+          r={6}
+          className="fill-primary-600 stroke-white dark:stroke-gray-900"
+          strokeWidth={2}
+        />
+      </svg>
+      <p className="mt-2 text-sm text-gray-600 dark:text-gray-400">
+        {current.tdsPercent}% TDS at {current.extractionYield}% extraction: {describePoint(current, chart)}
+      </p>
+    </div>
+  );
+}
@@ -0,0 +1,119 @@
+import { useState, useEffect } from 'react';
+import { useSettings } from '../state/useSettings';
+import { ColdBrewPlan } from '../lib/api';
+import { formatVolume, formatWeight, formatDuration } from '@coffee-brewster/brew-math';
+import { ActualPour } from './Timer';
+
+interface ColdBrewTimelineProps {
+  coffeeGrams: number;
+  waterMl: number;
+  plan: ColdBrewPlan;
+  startedAt: number; // epoch ms
+  onFinish: (elapsedSec: number, actualPours: ActualPour[]) => void;
+}
+
+const formatClock = (ms: number): string =>
+  new Date(ms).toLocaleString(undefined, {
+    weekday: 'short',
+    hour: 'numeric',
+    minute: '2-digit',
+  });
+
+// Cold brew takes hours, so instead of a live seconds timer the guide shows
+// wall-clock times and refreshes twice a minute
+export function ColdBrewTimeline({
+  coffeeGrams,
+  waterMl,
+  plan,
+  startedAt,
+  onFinish,
+}: ColdBrewTimelineProps) {
+  const { settings } = useSettings();
+  const [now, setNow] = useState(Date.now());
+
+  useEffect(() => {
+    const interval = setInterval(() => setNow(Date.now()), 30000);
+    return () => clearInterval(interval);
+  }, []);
+
+  if (!settings) return null;
+
+  const filterAt = startedAt + plan.filterAtSec * 1000;
+  const elapsedSec = Math.max(0, Math.round((now - startedAt) / 1000));
+  const remainingSec = Math.max(0, plan.filterAtSec - elapsedSec);
+  const isReady = remainingSec === 0;
+
+  const handleFilter = () => {
+    const finishedSec = Math.max(0, Math.round((Date.now() - startedAt) / 1000));
+    onFinish(finishedSec, [
+      {
+        scheduledAtSec: 0,
+        actualAtSec: 0,
+        volumeMl: waterMl,
+        label: 'Start steep',
+        completed: true,
+      },
+      {
+        scheduledAtSec: plan.filterAtSec,
+        actualAtSec: finishedSec,
+        volumeMl: plan.dilutionMl,
+        label: 'Filter & dilute',
+        completed: true,
+      },
+    ]);
+  };
+
+  return (
+    <div className="card p-6">
+      <h3 className="text-lg font-bold text-gray-900 dark:text-white mb-4">
+        Cold Brew Steep
+      </h3>
+
+      <div className="space-y-4">
+        <div className="flex items-start space-x-4">
+          <div className="mt-1 w-3 h-3 rounded-full bg-green-500"></div>
+          <div className="flex-1">
+            <div className="font-medium text-gray-900 dark:text-white">Start steep</div>
+            <div className="text-sm text-gray-600 dark:text-gray-400">
+              Add {formatVolume(waterMl, settings)} of cold water to {formatWeight(coffeeGrams, settings)} of coffee and stir
+            </div>
+            <div className="text-sm font-mono text-primary-600 dark:text-primary-400">
+              Started {formatClock(startedAt)}
+            </div>
+          </div>
+        </div>
+
+        <div className="flex items-start space-x-4">
+          <div className={`mt-1 w-3 h-3 rounded-full ${isReady ? 'bg-green-500' : 'bg-blue-500'}`}></div>
+          <div className="flex-1">
+            <div className="font-medium text-gray-900 dark:text-white">
+              Filter at {formatClock(filterAt)}
+            </div>
+            <div className="text-sm text-gray-600 dark:text-gray-400">
+              After {plan.steepHours} hours
+              {isReady ? ' · ready to filter' : ` · ${formatDuration(remainingSec)} to go`}
+            </div>
+          </div>
+        </div>
+
+        <div className="flex items-start space-x-4">
+          <div className="mt-1 w-3 h-3 rounded-full bg-red-500"></div>
+          <div className="flex-1">
+            <div className="font-medium text-gray-900 dark:text-white">Dilute and serve</div>
+            <div className="text-sm text-gray-600 dark:text-gray-400">
+              {plan.dilutionMl > 0
+                ? `Mix ${formatVolume(plan.concentrateMl, settings)} of concentrate with ${formatVolume(plan.dilutionMl, settings)} of water or milk`
+                : 'Serve the concentrate as is'}
+            </div>
+          </div>
+        </div>
+      </div>
+
+      <div className="mt-6 pt-4 border-t border-gray-200 dark:border-gray-700 flex justify-end">
+        <button onClick={handleFilter} className="btn btn-primary">
+          {isReady ? 'Filter Now' : 'Filter Early'}
+        </button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,151 @@
+import { useForm } from 'react-hook-form';
+import { zodResolver } from '@hookform/resolvers/zod';
+import { z } from 'zod';
+import { Grinder, GrinderInput, GrindRange } from '../lib/api';
+import { GRIND_LEVELS, SCALE_UNITS } from '@coffee-brewster/brew-math';
+
+// Blank inputs come through as NaN; those levels are left unmapped
+const optionalNumber = z.number().min(0).max(2000).or(z.nan()).optional();
+
+const grinderSchema = z
+  .object({
+    name: z.string().min(1, 'Name is required').max(50),
+    scale: z.enum(['CLICKS', 'NUMBERS', 'MICRONS']),
+    ranges: z.array(
+      z.object({
+        min: optionalNumber,
+        max: optionalNumber,
+      })
+    ),
+  })
+  .refine(
+    data => data.ranges.some(r => Number.isFinite(r.min) && Number.isFinite(r.max)),
+    { message: 'Map at least one grind level', path: ['ranges'] }
+  )
+  .refine(
+    data => data.ranges.every(r => !(Number.isFinite(r.min) && Number.isFinite(r.max)) || r.min! <= r.max!),
+    { message: 'Each range must start at or below where it ends', path: ['ranges'] }
+  );
+
+type GrinderFormData = z.infer<typeof grinderSchema>;
+
+interface GrinderFormProps {
+  grinder?: Grinder | null;
+  onSave: (data: GrinderInput) => Promise<void>;
+  onCancel: () => void;
+}
+
+export function GrinderForm({ grinder, onSave, onCancel }: GrinderFormProps) {
+  const {
+    register,
+    handleSubmit,
+    watch,
+    formState: { errors, isSubmitting },
+  } = useForm<GrinderFormData>({
+    resolver: zodResolver(grinderSchema),
+    defaultValues: {
+      name: grinder?.name ?? '',
+      scale: grinder?.scale ?? 'CLICKS',
+      ranges: GRIND_LEVELS.map(level => ({
+        min: grinder?.ranges[level]?.min,
+        max: grinder?.ranges[level]?.max,
+      })),
+    },
+  });
+
+  const scale = watch('scale');
+
+  const onSubmit = async (data: GrinderFormData) => {
+    const ranges: Record<string, GrindRange> = {};
+    data.ranges.forEach((range, index) => {
+      if (Number.isFinite(range.min) && Number.isFinite(range.max)) {
+        ranges[GRIND_LEVELS[index]] = { min: range.min!, max: range.max! };
+      }
+    });
+
+    await onSave({ name: data.name, scale: data.scale, ranges });
+  };
+
+  return (
+    <div className="card p-6">
+      <h3 className="text-lg font-bold text-gray-900 dark:text-white mb-4">
+        {grinder ? 'Edit Grinder' : 'New Grinder'}
+      </h3>
+
+      <form onSubmit={handleSubmit(onSubmit)} className="space-y-4">
+        <div className="grid md:grid-cols-2 gap-4">
+          <div>
+            <label htmlFor="grinderName" className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
+              Name
+            </label>
+            <input
+              {...register('name')}
+              id="grinderName"
+              type="text"
+              placeholder="e.g., Comandante"
+              className="input w-full"
+            />
+            {errors.name && (
+              <p className="mt-1 text-sm text-red-600 dark:text-red-400">
+                {errors.name.message}
+              </p>
+            )}
+          </div>
+
+          <div>
+            <label htmlFor="grinderScale" className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
+              Scale
+            </label>
+            <select {...register('scale')} id="grinderScale" className="input w-full">
+              <option value="CLICKS">Clicks</option>
+              <option value="NUMBERS">Numbered dial</option>
+              <option value="MICRONS">Microns</option>
+            </select>
+          </div>
+        </div>
+
+        <div className="p-4 bg-gray-50 dark:bg-gray-800 rounded-lg space-y-3">
+          <p className="text-xs text-gray-500 dark:text-gray-400">
+            Enter the settings you use for each grind size. Leave a row blank if you never brew at it.
+          </p>
+          {GRIND_LEVELS.map((level, index) => (
+            <div key={level} className="grid grid-cols-12 gap-2 items-center">
+              <span className="col-span-4 text-sm text-gray-700 dark:text-gray-300">{level}</span>
+              <input
+                {...register(`ranges.${index}.min`, { valueAsNumber: true })}
+                type="number"
+                min="0"
+                step="any"
+                placeholder="from"
+                className="input col-span-3"
+              />
+              <input
+                {...register(`ranges.${index}.max`, { valueAsNumber: true })}
+                type="number"
+                min="0"
+                step="any"
+                placeholder="to"
+                className="input col-span-3"
+              />
+              <span className="col-span-2 text-xs text-gray-500 dark:text-gray-400">{SCALE_UNITS[scale]}</span>
+            </div>
+          ))}
+          {errors.ranges && (
+            <p className="text-sm text-red-600 dark:text-red-400">
+              {errors.ranges.message ?? errors.ranges.root?.message}
+            </p>
+          )}
+        </div>
+
+        <div className="flex items-center justify-end space-x-3 pt-4 border-t border-gray-200 dark:border-gray-700">
+          <button type="button" onClick={onCancel} className="btn btn-secondary" disabled={isSubmitting}>
+            Cancel
+          </button>
+          <button type="submit" className="btn btn-primary" disabled={isSubmitting}>
+            {isSubmitting ? 'Saving...' : 'Save Grinder'}
+          </button>
+        </div>
+      </form>
+    </div>
+  );
+}
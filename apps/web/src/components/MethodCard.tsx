@@ -1,6 +1,6 @@
 import { BrewMethod } from '../lib/api';
 import { useSettings } from '../state/useSettings';
-import { formatTemperature } from '../lib/units';
+import { formatTemperature } from '@coffee-brewster/brew-math';
 
 interface MethodCardProps {
   method: BrewMethod;
@@ -44,6 +44,11 @@ export function MethodCard({ method, onSelect, isSelected = false }: MethodCardP
           <div>
             <h3 className="text-lg font-bold text-gray-900 dark:text-white">
               {method.name}
+              {method.isCustom && (
+                <span className="ml-2 align-middle text-xs font-medium px-2 py-0.5 rounded-full bg-primary-100 text-primary-700 dark:bg-primary-900/40 dark:text-primary-300">
+                  Custom
+                </span>
+              )}
             </h3>
             <p className="text-sm text-gray-500 dark:text-gray-400">
               Ratio 1:{method.defaultRatio}
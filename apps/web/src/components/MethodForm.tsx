@@ -0,0 +1,306 @@
+import { useForm, useFieldArray } from 'react-hook-form';
+import { zodResolver } from '@hookform/resolvers/zod';
+import { z } from 'zod';
+import { BrewMethod, BrewMethodInput } from '../lib/api';
+
+const methodSchema = z
+  .object({
+    name: z.string().min(1, 'Name is required').max(50),
+    defaultRatio: z.number().min(8).max(20),
+    bloom: z.boolean(),
+    pours: z.number().int().min(0).max(10),
+    tempC: z.number().min(60).max(100).optional(),
+    grind: z.string().max(50).optional(),
+    filter: z.string().max(50).optional(),
+    // Blank comes through as NaN: the method is never split into batches
+    capacityMl: z.number().int().min(50).max(5000).or(z.nan()).optional(),
+    notes: z.string().max(500).optional(),
+    customSchedule: z.boolean(),
+    steps: z.array(
+      z.object({
+        label: z.string().min(1, 'Label is required'),
+        atSec: z.number().int().min(0),
+        sharePercent: z.number().min(1).max(100),
+      })
+    ),
+  })
+  .refine(
+    data =>
+      !data.customSchedule ||
+      Math.round(data.steps.reduce((sum, s) => sum + s.sharePercent, 0)) === 100,
+    { message: 'Pour shares must add up to 100%', path: ['steps'] }
+  );
+
+type MethodFormData = z.infer<typeof methodSchema>;
+
+interface MethodFormProps {
+  method?: BrewMethod | null;
+  onSave: (data: BrewMethodInput) => Promise<void>;
+  onCancel: () => void;
+}
+
+export function MethodForm({ method, onSave, onCancel }: MethodFormProps) {
+  const {
+    register,
+    control,
+    handleSubmit,
+    watch,
+    formState: { errors, isSubmitting },
+  } = useForm<MethodFormData>({
+    resolver: zodResolver(methodSchema),
+    defaultValues: {
+      name: method?.name ?? '',
+      defaultRatio: method?.defaultRatio ?? 15,
+      bloom: method?.bloom ?? true,
+      pours: method?.pours ?? 2,
+      tempC: method?.presets?.tempC ?? 94,
+      grind: method?.presets?.grind ?? '',
+      filter: method?.presets?.filter ?? '',
+      capacityMl: method?.capacityMl ?? undefined,
+      notes: method?.notes ?? '',
+      customSchedule: !!method?.schedule,
+      steps:
+        method?.schedule?.steps.map(step => ({
+          label: step.label,
+          atSec: step.atSec,
+          sharePercent: Math.round(step.share * 100),
+        })) ?? [],
+    },
+  });
+
+  const { fields, append, remove } = useFieldArray({ control, name: 'steps' });
+  const customSchedule = watch('customSchedule');
+
+  const onSubmit = async (data: MethodFormData) => {
+    await onSave({
+      name: data.name,
+      defaultRatio: data.defaultRatio,
+      bloom: data.bloom,
+      pours: data.customSchedule ? data.steps.length : data.pours,
+      tempC: data.tempC,
+      grind: data.grind || undefined,
+      filter: data.filter || undefined,
+      capacityMl: Number.isFinite(data.capacityMl) ? data.capacityMl : undefined,
+      notes: data.notes || undefined,
+      // Without a custom schedule the server splits the water evenly
+      schedule: data.customSchedule
+        ? {
+            steps: data.steps.map(step => ({
+              label: step.label,
+              atSec: step.atSec,
+              share: step.sharePercent / 100,
+            })),
+          }
+        : undefined,
+    });
+  };
+
+  return (
+    <div className="card p-6">
+      <h3 className="text-lg font-bold text-gray-900 dark:text-white mb-4">
+        {method ? 'Edit Custom Method' : 'New Custom Method'}
+      </h3>
+
+      <form onSubmit={handleSubmit(onSubmit)} className="space-y-4">
+        <div className="grid md:grid-cols-2 gap-4">
+          <div>
+            <label htmlFor="methodName" className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
+              Name
+            </label>
+            <input
+              {...register('name')}
+              id="methodName"
+              type="text"
+              placeholder="e.g., Kalita Wave"
+              className="input w-full"
+            />
+            {errors.name && (
+              <p className="mt-1 text-sm text-red-600 dark:text-red-400">
+                {errors.name.message}
+              </p>
+            )}
+          </div>
+
+          <div>
+            <label htmlFor="defaultRatio" className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
+              Default Ratio (1:x)
+            </label>
+            <input
+              {...register('defaultRatio', { valueAsNumber: true })}
+              id="defaultRatio"
+              type="number"
+              min="8"
+              max="20"
+              step="0.5"
+              className="input w-full"
+            />
+          </div>
+
+          <div>
+            <label htmlFor="methodTemp" className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
+              Water Temperature (°C)
+            </label>
+            <input
+              {...register('tempC', { valueAsNumber: true })}
+              id="methodTemp"
+              type="number"
+              min="60"
+              max="100"
+              className="input w-full"
+            />
+          </div>
+
+          <div>
+            <label htmlFor="methodGrind" className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
+              Grind
+            </label>
+            <input
+              {...register('grind')}
+              id="methodGrind"
+              type="text"
+              placeholder="e.g., Medium"
+              className="input w-full"
+            />
+          </div>
+
+          <div>
+            <label htmlFor="methodFilter" className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
+              Filter
+            </label>
+            <input
+              {...register('filter')}
+              id="methodFilter"
+              type="text"
+              placeholder="e.g., Wave 185 paper"
+              className="input w-full"
+            />
+          </div>
+
+          <div>
+            <label htmlFor="methodCapacity" className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
+              Capacity (ml)
+            </label>
+            <input
+              {...register('capacityMl', { valueAsNumber: true })}
+              id="methodCapacity"
+              type="number"
+              min="50"
+              max="5000"
+              step="10"
+              placeholder="Largest brew it makes"
+              className="input w-full"
+            />
+          </div>
+
+          {!customSchedule && (
+            <div>
+              <label htmlFor="methodPours" className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
+                Pours (not counting bloom)
+              </label>
+              <input
+                {...register('pours', { valueAsNumber: true })}
+                id="methodPours"
+                type="number"
+                min="0"
+                max="10"
+                className="input w-full"
+              />
+            </div>
+          )}
+        </div>
+
+        <div className="flex items-center space-x-6">
+          <label className="flex items-center">
+            <input
+              {...register('bloom')}
+              type="checkbox"
+              className="rounded border-gray-300 text-primary-600 focus:ring-primary-500"
+            />
+            <span className="ml-2 text-sm text-gray-600 dark:text-gray-400">Includes bloom</span>
+          </label>
+          <label className="flex items-center">
+            <input
+              {...register('customSchedule')}
+              type="checkbox"
+              className="rounded border-gray-300 text-primary-600 focus:ring-primary-500"
+            />
+            <span className="ml-2 text-sm text-gray-600 dark:text-gray-400">Custom pour schedule</span>
+          </label>
+        </div>
+
+        {customSchedule && (
+          <div className="p-4 bg-gray-50 dark:bg-gray-800 rounded-lg space-y-3">
+            <p className="text-xs text-gray-500 dark:text-gray-400">
+              Each pour takes a share of the water left after the bloom.
+            </p>
+            {fields.map((field, index) => (
+              <div key={field.id} className="grid grid-cols-12 gap-2 items-center">
+                <input
+                  {...register(`steps.${index}.label`)}
+                  type="text"
+                  placeholder="Label"
+                  className="input col-span-5"
+                />
+                <input
+                  {...register(`steps.${index}.atSec`, { valueAsNumber: true })}
+                  type="number"
+                  min="0"
+                  placeholder="sec"
+                  className="input col-span-3"
+                />
+                <input
+                  {...register(`steps.${index}.sharePercent`, { valueAsNumber: true })}
+                  type="number"
+                  min="1"
+                  max="100"
+                  placeholder="%"
+                  className="input col-span-3"
+                />
+                <button
+                  type="button"
+                  onClick={() => remove(index)}
+                  className="col-span-1 text-red-600 hover:text-red-700 dark:text-red-400"
+                >
+                  ✕
+                </button>
+              </div>
+            ))}
+            <button
+              type="button"
+              onClick={() => append({ label: `Pour ${fields.length + 1}`, atSec: 45 + fields.length * 60, sharePercent: 0 })}
+              className="text-sm text-primary-600 hover:text-primary-700 dark:text-primary-400"
+            >
+              + Add pour
+            </button>
+            {errors.steps && (
+              <p className="text-sm text-red-600 dark:text-red-400">
+                {errors.steps.message ?? errors.steps.root?.message}
+              </p>
+            )}
+          </div>
+        )}
+
+        <div>
+          <label htmlFor="methodNotes" className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
+            Notes
+          </label>
+          <textarea
+            {...register('notes')}
+            id="methodNotes"
+            rows={2}
+            className="input w-full"
+          />
+        </div>
+
+        <div className="flex items-center justify-end space-x-3 pt-4 border-t border-gray-200 dark:border-gray-700">
+          <button type="button" onClick={onCancel} className="btn btn-secondary" disabled={isSubmitting}>
+            Cancel
+          </button>
+          <button type="submit" className="btn btn-primary" disabled={isSubmitting}>
+            {isSubmitting ? 'Saving...' : 'Save Method'}
+          </button>
+        </div>
+      </form>
+    </div>
+  );
+}
@@ -1,28 +1,33 @@
 import { useSettings } from '../state/useSettings';
-import { formatVolume, formatTemperature, formatWeight } from '../lib/units';
-
-interface PourStep {
-  atSec: number;
-  volumeMl: number;
-  label: string;
-}
+import { formatVolume, formatTemperature, formatWeight } from '@coffee-brewster/brew-math';
+import { EspressoPlan, PourStep } from '../lib/api';
 
 interface PourScheduleProps {
   pours: PourStep[];
   tempC?: number;
   grind?: string;
+  grinderSetting?: string; // the grind on the user's active grinder
   filter?: string;
   totalWaterMl: number;
   coffeeGrams: number;
+  iceGrams?: number;
+  bypassMl?: number; // part of totalWaterMl added after the last pour
+  steepHours?: number; // cold brew: the schedule is one fill and a long steep
+  espresso?: EspressoPlan; // espresso: the machine meters water, stop by weight
 }
 
 export function PourSchedule({ 
   pours, 
   tempC, 
   grind, 
+  grinderSetting,
   filter, 
   totalWaterMl, 
-  coffeeGrams 
+  coffeeGrams,
+  iceGrams,
+  bypassMl,
+  steepHours,
+  espresso
 }: PourScheduleProps) {
   const { settings } = useSettings();
 
@@ -33,9 +38,11 @@ export function PourSchedule({
   };
 
   const getTotalTime = (): string => {
+    if (steepHours) return `${steepHours}h steep`;
+    if (espresso) return `${espresso.shotTimeMinSec}–${espresso.shotTimeMaxSec}s shot`;
     if (pours.length === 0) return '0:00';
     const lastPour = pours[pours.length - 1];
-    const estimatedFinish = lastPour.atSec + 60; // Add 60 seconds for final drip
+    const estimatedFinish = (lastPour.endSec ?? lastPour.atSec) + 60; // Add 60 seconds for final drip
     return formatTime(estimatedFinish);
   };
 
@@ -56,12 +63,26 @@ export function PourSchedule({
               {formatWeight(coffeeGrams, settings)}
             </span>
           </div>
-          <div>
-            <span className="text-gray-500 dark:text-gray-400">Water:</span>
-            <span className="ml-2 font-medium text-gray-900 dark:text-white">
-              {formatVolume(totalWaterMl, settings)}
-            </span>
-          </div>
+          {espresso ? (
+            <div>
+              <span className="text-gray-500 dark:text-gray-400">Beverage:</span>
+              <span className="ml-2 font-medium text-gray-900 dark:text-white">
+                {formatWeight(espresso.beverageGrams, settings)}
+              </span>
+            </div>
+          ) : (
+            <div>
+              <span className="text-gray-500 dark:text-gray-400">Water:</span>
+              <span className="ml-2 font-medium text-gray-900 dark:text-white">
+                {formatVolume(totalWaterMl, settings)}
+              </span>
+              {bypassMl ? (
+                <div className="text-xs text-gray-500 dark:text-gray-400">
+                  {formatVolume(totalWaterMl - bypassMl, settings)} brew + {formatVolume(bypassMl, settings)} bypass
+                </div>
+              ) : null}
+            </div>
+          )}
           {tempC && (
             <div>
               <span className="text-gray-500 dark:text-gray-400">Temp:</span>
@@ -92,6 +113,12 @@ export function PourSchedule({
                 <span className="ml-2 text-primary-900 dark:text-primary-100">{grind}</span>
               </div>
             )}
+            {grinderSetting && (
+              <div>
+                <span className="text-primary-700 dark:text-primary-300">On your grinder:</span>
+                <span className="ml-2 text-primary-900 dark:text-primary-100">{grinderSetting}</span>
+              </div>
+            )}
             {filter && (
               <div>
                 <span className="text-primary-700 dark:text-primary-300">Filter:</span>
@@ -109,6 +136,25 @@ export function PourSchedule({
         </h4>
         
         <div className="space-y-3">
+          {iceGrams ? (
+            <div className="flex items-center space-x-4">
+              <div className="flex-shrink-0 w-16 text-center">
+                <div className="text-sm font-mono text-gray-400 dark:text-gray-500">
+                  Before
+                </div>
+              </div>
+
+              <div className="flex-shrink-0">
+                <div className="w-3 h-3 rounded-full bg-cyan-400"></div>
+              </div>
+
+              <div className="flex-1">
+                <span className="font-medium text-gray-900 dark:text-white">
+                  Put {formatWeight(iceGrams, settings)} of ice in the server
+                </span>
+              </div>
+            </div>
+          ) : null}
           {pours.map((pour, index) => (
             <div key={index} className="flex items-center space-x-4">
               <div className="flex-shrink-0 w-16 text-center">
@@ -133,10 +179,18 @@ export function PourSchedule({
                     {pour.label}
                   </span>
                   <span className="text-sm text-gray-500 dark:text-gray-400">
-                    {formatVolume(pour.volumeMl, settings)}
+                    {espresso
+                      ? pour.volumeMl > 0 && `Stop at ${formatWeight(pour.volumeMl, settings)}`
+                      : formatVolume(pour.volumeMl, settings)}
                   </span>
                 </div>
                 
+                {pour.endSec !== undefined && pour.targetCumulativeMl !== undefined && pour.volumeMl > 0 && !espresso && !steepHours && (
+                  <p className="text-xs text-gray-500 dark:text-gray-400 mt-1">
+                    Pour until {formatTime(pour.endSec)}, reaching {formatVolume(pour.targetCumulativeMl, settings)} on the scale
+                    {pour.flowMlPerSec ? ` (about ${formatVolume(pour.flowMlPerSec, settings)}/s)` : ''}
+                  </p>
+                )}
                 {index === 0 && pour.label.toLowerCase().includes('bloom') && (
                   <p className="text-xs text-gray-500 dark:text-gray-400 mt-1">
                     Wet the coffee and let it bloom for 30-45 seconds
@@ -145,6 +199,25 @@ export function PourSchedule({
               </div>
             </div>
           ))}
+          {bypassMl ? (
+            <div className="flex items-center space-x-4">
+              <div className="flex-shrink-0 w-16 text-center">
+                <div className="text-sm font-mono text-gray-400 dark:text-gray-500">
+                  After
+                </div>
+              </div>
+
+              <div className="flex-shrink-0">
+                <div className="w-3 h-3 rounded-full bg-cyan-400"></div>
+              </div>
+
+              <div className="flex-1">
+                <span className="font-medium text-gray-900 dark:text-white">
+                  Stir {formatVolume(bypassMl, settings)} of bypass water into the brew
+                </span>
+              </div>
+            </div>
+          ) : null}
         </div>
       </div>
 
@@ -0,0 +1,57 @@
+import { Recipe } from '../lib/api';
+import { useSettings } from '../state/useSettings';
+import { formatWeight, formatVolume } from '@coffee-brewster/brew-math';
+
+interface RecipeListProps {
+  recipes: Recipe[];
+  onBrew: (recipe: Recipe) => void;
+  onDelete: (recipe: Recipe) => void;
+}
+
+export function RecipeList({ recipes, onBrew, onDelete }: RecipeListProps) {
+  const { settings } = useSettings();
+
+  if (!settings || recipes.length === 0) return null;
+
+  return (
+    <div className="card p-6 mb-6">
+      <h3 className="text-lg font-bold text-gray-900 dark:text-white mb-4">
+        Start from a Saved Recipe
+      </h3>
+
+      <div className="grid md:grid-cols-2 gap-3">
+        {recipes.map((recipe) => (
+          <div
+            key={recipe.id}
+            className="flex items-center justify-between p-4 rounded-lg border border-gray-200 dark:border-gray-700"
+          >
+            <div>
+              <div className="font-medium text-gray-900 dark:text-white">
+                {recipe.name}
+              </div>
+              <div className="text-sm text-gray-500 dark:text-gray-400">
+                {recipe.method.name} • 1:{recipe.ratio} •{' '}
+                {formatWeight(recipe.coffeeGrams, settings)} →{' '}
+                {formatVolume(recipe.yieldMl, settings)}
+              </div>
+            </div>
+            <div className="flex items-center space-x-3">
+              <button
+                onClick={() => onDelete(recipe)}
+                className="text-sm text-red-600 hover:text-red-700 dark:text-red-400"
+              >
+                Delete
+              </button>
+              <button
+                onClick={() => onBrew(recipe)}
+                className="btn btn-primary"
+              >
+                Brew
+              </button>
+            </div>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}
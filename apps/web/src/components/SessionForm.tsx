@@ -4,13 +4,22 @@ import { zodResolver } from '@hookform/resolvers/zod';
 import { z } from 'zod';
 import { BrewMethod } from '../lib/api';
 import { useSettings } from '../state/useSettings';
-import { formatVolume, formatWeight } from '../lib/units';
+import { useGrinders } from '../state/useGrinders';
+import { useWaterProfiles } from '../state/useWaterProfiles';
+import { grindRangeFor } from '../lib/grinders';
+import { formatVolume, formatWeight, formatDuration, SCALE_UNITS } from '@coffee-brewster/brew-math';
 
 const sessionSchema = z.object({
   rating: z.number().min(1).max(5).optional(),
   notes: z.string().optional(),
   grindSetting: z.string().optional(),
-  waterTempC: z.number().min(70).max(100).optional(),
+  grinderId: z.string().optional(),
+  grindValue: z.number().min(0).max(2000).optional(),
+  waterTempC: z.number().min(0).max(100).optional(),
+  waterProfileId: z.string().optional(),
+  tdsPercent: z.number().min(0.1).max(25).optional(),
+  shotTimeSec: z.number().int().min(1).max(180).optional(),
+  outputGrams: z.number().min(1).max(500).optional(),
   beanVariety: z.string().optional(),
   roaster: z.string().optional(),
   roastDate: z.string().optional(),
@@ -31,7 +40,11 @@ interface SessionFormProps {
   durationSec: number;
   coffeeGrams: number;
   waterMl: number;
+  bypassMl?: number;
   yieldMl: number;
+  tempC?: number;
+  grind?: string;
+  roastDate?: string;
   actualPours: ActualPour[];
   onSave: (sessionData: SessionFormData) => Promise<void>;
   onCancel: () => void;
@@ -43,27 +56,53 @@ export function SessionForm({
   durationSec,
   coffeeGrams,
   waterMl,
+  bypassMl,
   yieldMl,
+  tempC = method.presets?.tempC,
+  grind = method.presets?.grind,
+  roastDate,
   actualPours,
   onSave,
   onCancel,
   isLoading = false,
 }: SessionFormProps) {
   const { settings } = useSettings();
+  const { grinders } = useGrinders();
+  const { waterProfiles } = useWaterProfiles();
   const [rating, setRating] = useState<number>(0);
+  const isEspresso = method.kind === 'ESPRESSO';
+
+  // Start from the active grinder, in the middle of its range for this grind
+  const activeGrinder = grinders.find(g => g.id === settings?.activeGrinderId);
+  const suggestedRange = activeGrinder ? grindRangeFor(activeGrinder, grind) : null;
+  const suggestedValue = suggestedRange
+    ? (suggestedRange.min + suggestedRange.max) / 2
+    : undefined;
 
   const {
     register,
     handleSubmit,
+    watch,
     formState: { errors, isSubmitting },
   } = useForm<SessionFormData>({
     resolver: zodResolver(sessionSchema),
     defaultValues: {
-      waterTempC: method.presets?.tempC,
-      grindSetting: method.presets?.grind,
+      waterTempC: tempC,
+      grindSetting: grind,
+      roastDate,
+      grinderId: activeGrinder?.id,
+      grindValue: activeGrinder?.scale === 'CLICKS' && suggestedValue !== undefined
+        ? Math.round(suggestedValue)
+        : suggestedValue,
+      ...(isEspresso && {
+        shotTimeSec: durationSec,
+        outputGrams: yieldMl,
+      }),
     },
   });
 
+  const selectedGrinder = grinders.find(g => g.id === watch('grinderId'));
+
   const onSubmit = async (data: SessionFormData) => {
     await onSave({
       ...data,
@@ -71,12 +110,6 @@ export function SessionForm({
     });
   };
 
-  const formatTime = (seconds: number): string => {
-    const minutes = Math.floor(seconds / 60);
-    const remainingSeconds = seconds % 60;
-    return `${minutes}:${remainingSeconds.toString().padStart(2, '0')}`;
-  };
-
   const StarRating = () => {
     return (
       <div className="flex items-center space-x-1">
@@ -140,7 +173,7 @@ export function SessionForm({
             <div>
               <span className="text-gray-500 dark:text-gray-400">Duration:</span>
               <div className="font-medium text-gray-900 dark:text-white">
-                {formatTime(durationSec)}
+                {formatDuration(durationSec)}
               </div>
             </div>
             <div>
@@ -154,6 +187,11 @@ export function SessionForm({
               <div className="font-medium text-gray-900 dark:text-white">
                 {formatVolume(waterMl, settings)}
               </div>
+              {bypassMl ? (
+                <div className="text-xs text-gray-500 dark:text-gray-400">
+                  incl. {formatVolume(bypassMl, settings)} bypass
+                </div>
+              ) : null}
             </div>
           </div>
         </div>
@@ -172,7 +210,7 @@ export function SessionForm({
                     {formatVolume(pour.volumeMl, settings)}
                   </span>
                   <span className="font-mono text-gray-600 dark:text-gray-300">
-                    {formatTime(pour.actualAtSec)}
+                    {formatDuration(pour.actualAtSec)}
                     {pour.actualAtSec !== pour.scheduledAtSec && (
                       <span className="text-orange-500 ml-1">
                         ({pour.actualAtSec > pour.scheduledAtSec ? '+' : ''}
@@ -183,6 +221,16 @@ export function SessionForm({
                 </div>
               </div>
             ))}
+            {bypassMl ? (
+              <div className="flex justify-between items-center text-sm">
+                <span className="text-gray-700 dark:text-gray-300">
+                  Bypass water
+                </span>
+                <span className="text-gray-500 dark:text-gray-400">
+                  {formatVolume(bypassMl, settings)}
+                </span>
+              </div>
+            ) : null}
           </div>
         </div>
 
@@ -223,6 +271,49 @@ export function SessionForm({
                 className="input w-full"
               />
             </div>
+
+            {grinders.length > 0 && (
+              <div>
+                <label htmlFor="grinderId" className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
+                  Grinder
+                </label>
+                <div className="flex items-center space-x-2">
+                  <select
+                    {...register('grinderId', {
+                      setValueAs: (value) => value || undefined,
+                    })}
+                    id="grinderId"
+                    className="input flex-1"
+                  >
+                    <option value="">None</option>
+                    {grinders.map((grinder) => (
+                      <option key={grinder.id} value={grinder.id}>
+                        {grinder.name}
+                      </option>
+                    ))}
+                  </select>
+                  <input
+                    {...register('grindValue', {
+                      setValueAs: (value) => (value === '' ? undefined : Number(value)),
+                    })}
+                    type="number"
+                    id="grindValue"
+                    min="0"
+                    step="any"
+                    disabled={!selectedGrinder}
+                    className="input w-24"
+                  />
+                  {selectedGrinder && SCALE_UNITS[selectedGrinder.scale] && (
+                    <span className="text-sm text-gray-500 dark:text-gray-400">{SCALE_UNITS[selectedGrinder.scale]}</span>
+                  )}
+                </div>
+                {errors.grindValue && (
+                  <p className="mt-1 text-sm text-red-600 dark:text-red-400">
+                    {errors.grindValue.message}
+                  </p>
+                )}
+              </div>
+            )}
             
             <div>
               <label htmlFor="waterTempC" className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
@@ -233,7 +324,7 @@ export function SessionForm({
                   {...register('waterTempC', { valueAsNumber: true })}
                   type="number"
                   id="waterTempC"
-                  min="70"
+                  min="0"
                   max="100"
                   step="0.5"
                   className="input flex-1"
@@ -246,6 +337,108 @@ export function SessionForm({
                 </p>
               )}
             </div>
+
+            {waterProfiles.length > 0 && (
+              <div>
+                <label htmlFor="waterProfileId" className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
+                  Water
+                </label>
+                <select
+                  {...register('waterProfileId', {
+                    setValueAs: (value) => value || undefined,
+                  })}
+                  id="waterProfileId"
+                  className="input w-full"
+                >
+                  <option value="">Not recorded</option>
+                  {waterProfiles.map((waterProfile) => (
+                    <option key={waterProfile.id} value={waterProfile.id}>
+                      {waterProfile.name}
+                    </option>
+                  ))}
+                </select>
+              </div>
+            )}
+
+            <div>
+              <label htmlFor="tdsPercent" className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
+                TDS (Optional)
+              </label>
+              <div className="flex items-center space-x-2">
+                <input
+                  {...register('tdsPercent', {
+                    setValueAs: (value) => (value === '' ? undefined : Number(value)),
+                  })}
+                  type="number"
+                  id="tdsPercent"
+                  min="0.1"
+                  max="25"
+                  step="0.01"
+                  placeholder="e.g., 1.35"
+                  className="input flex-1"
+                />
+                <span className="text-sm text-gray-500 dark:text-gray-400">%</span>
+              </div>
+              {errors.tdsPercent && (
+                <p className="mt-1 text-sm text-red-600 dark:text-red-400">
+                  {errors.tdsPercent.message}
+                </p>
+              )}
+            </div>
+
+            {isEspresso && (
+              <>
+                <div>
+                  <label htmlFor="shotTimeSec" className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
+                    Shot Time
+                  </label>
+                  <div className="flex items-center space-x-2">
+                    <input
+                      {...register('shotTimeSec', {
+                        setValueAs: (value) => (value === '' ? undefined : Number(value)),
+                      })}
+                      type="number"
+                      id="shotTimeSec"
+                      min="1"
+                      max="180"
+                      step="1"
+                      className="input flex-1"
+                    />
+                    <span className="text-sm text-gray-500 dark:text-gray-400">s</span>
+                  </div>
+                  {errors.shotTimeSec && (
+                    <p className="mt-1 text-sm text-red-600 dark:text-red-400">
+                      {errors.shotTimeSec.message}
+                    </p>
+                  )}
+                </div>
+
+                <div>
+                  <label htmlFor="outputGrams" className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
+                    Output Weight
+                  </label>
+                  <div className="flex items-center space-x-2">
+                    <input
+                      {...register('outputGrams', {
+                        setValueAs: (value) => (value === '' ? undefined : Number(value)),
+                      })}
+                      type="number"
+                      id="outputGrams"
+                      min="1"
+                      max="500"
+                      step="0.1"
+                      className="input flex-1"
+                    />
+                    <span className="text-sm text-gray-500 dark:text-gray-400">g</span>
+                  </div>
+                  {errors.outputGrams && (
+                    <p className="mt-1 text-sm text-red-600 dark:text-red-400">
+                      {errors.outputGrams.message}
+                    </p>
+                  )}
+                </div>
+              </>
+            )}
           </div>
 
           {/* Bean Information */}
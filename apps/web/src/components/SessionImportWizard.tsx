@@ -0,0 +1,344 @@
+import { useState } from 'react';
+import { formatTemperature, formatVolume, formatWeight, formatDuration } from '@coffee-brewster/brew-math';
+import {
+  api,
+  BrewMethod,
+  SessionImportField,
+  SessionImportMapping,
+  SessionImportResult,
+  SessionImportUnits,
+} from '../lib/api';
+import { useSettings } from '../state/useSettings';
+import { BeanconquerorImport } from './BeanconquerorImport';
+
+type ImportSource = 'csv' | 'beanconqueror';
+
+const IMPORT_FIELDS: { field: SessionImportField; label: string }[] = [
+  { field: 'method', label: 'Method' },
+  { field: 'startedAt', label: 'Date' },
+  { field: 'durationSec', label: 'Duration' },
+  { field: 'coffeeGrams', label: 'Coffee' },
+  { field: 'waterMl', label: 'Water' },
+  { field: 'bypassMl', label: 'Bypass' },
+  { field: 'yieldMl', label: 'Yield' },
+  { field: 'brewRatio', label: 'Ratio' },
+  { field: 'grindSetting', label: 'Grind' },
+  { field: 'waterTempC', label: 'Water temp' },
+  { field: 'rating', label: 'Rating' },
+  { field: 'notes', label: 'Notes' },
+  { field: 'tdsPercent', label: 'TDS' },
+  { field: 'shotTimeSec', label: 'Shot time' },
+  { field: 'outputGrams', label: 'Output' },
+  { field: 'bean.variety', label: 'Bean variety' },
+  { field: 'bean.roaster', label: 'Roaster' },
+  { field: 'bean.origin', label: 'Origin' },
+  { field: 'bean.roastDate', label: 'Roast date' },
+];
+
+// Problems listed under the preview; the rest are summarised
+const MAX_LISTED_ERRORS = 50;
+
+interface SessionImportWizardProps {
+  methods: BrewMethod[];
+  onImported: (count: number) => void;
+  onCancel: () => void;
+}
+
+export function SessionImportWizard({ methods, onImported, onCancel }: SessionImportWizardProps) {
+  const { settings } = useSettings();
+  const [source, setSource] = useState<ImportSource>('csv');
+  const [csv, setCsv] = useState<string | null>(null);
+  const [fileName, setFileName] = useState('');
+  const [units, setUnits] = useState<SessionImportUnits>({
+    units: settings?.units ?? 'METRIC',
+    tempUnit: settings?.tempUnit ?? 'C',
+    waterUnitPreference: settings?.waterUnitPreference ?? 'ml',
+  });
+  const [mapping, setMapping] = useState<SessionImportMapping | undefined>();
+  const [result, setResult] = useState<SessionImportResult | null>(null);
+  // The check is stale once the mapping or units change
+  const [isChecked, setIsChecked] = useState(false);
+  const [isWorking, setIsWorking] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  // The server reads the file; the first check also suggests a mapping
+  const check = async (text: string, nextMapping?: SessionImportMapping) => {
+    setIsWorking(true);
+    setError(null);
+    try {
+      const response = await api.importSessions({ csv: text, mapping: nextMapping, units, dryRun: true });
+      if (response.success && response.import) {
+        setResult(response.import);
+        setMapping(response.import.mapping);
+        setIsChecked(true);
+      }
+    } catch (error) {
+      setError(error instanceof Error ? error.message : 'Failed to read the file');
+    } finally {
+      setIsWorking(false);
+    }
+  };
+
+  const handleFile = async (file: File | undefined) => {
+    if (!file) return;
+    const text = await file.text();
+    setCsv(text);
+    setFileName(file.name);
+    setMapping(undefined);
+    setResult(null);
+    await check(text);
+  };
+
+  const handleMappingChange = (field: SessionImportField, header: string) => {
+    setMapping((prev) => {
+      const next = { ...prev };
+      if (header) {
+        next[field] = header;
+      } else {
+        delete next[field];
+      }
+      return next;
+    });
+    setIsChecked(false);
+  };
+
+  const handleUnitsChange = (changes: Partial<SessionImportUnits>) => {
+    setUnits((prev) => ({ ...prev, ...changes }));
+    setIsChecked(false);
+  };
+
+  const handleImport = async () => {
+    if (!csv) return;
+    setIsWorking(true);
+    setError(null);
+    try {
+      const response = await api.importSessions({ csv, mapping, units, dryRun: false });
+      if (response.success && response.import) {
+        onImported(response.import.imported);
+      }
+    } catch (error) {
+      setError(error instanceof Error ? error.message : 'Failed to import sessions');
+    } finally {
+      setIsWorking(false);
+    }
+  };
+
+  const methodName = (methodId?: string) =>
+    methods.find((method) => method.id === methodId)?.name ?? '—';
+
+  return (
+    <div className="card p-6 mb-6">
+      <h3 className="text-lg font-bold text-gray-900 dark:text-white mb-1">
+        Import Sessions
+      </h3>
+      <p className="text-sm text-gray-600 dark:text-gray-300 mb-4">
+        {source === 'csv'
+          ? 'Bring in brews from a spreadsheet saved as CSV.'
+          : 'Bring in your brews and beans from Beanconqueror; brews imported before are skipped.'}{' '}
+        Nothing is saved until you import.
+      </p>
+
+      <div className="mb-4">
+        <label htmlFor="importSource" className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
+          Import From
+        </label>
+        <select
+          id="importSource"
+          value={source}
+          onChange={(e) => setSource(e.target.value as ImportSource)}
+          className="input w-full md:w-64"
+          disabled={isWorking}
+        >
+          <option value="csv">CSV file</option>
+          <option value="beanconqueror">Beanconqueror</option>
+        </select>
+      </div>
+
+      {source === 'beanconqueror' ? (
+        <BeanconquerorImport methods={methods} onImported={onImported} onCancel={onCancel} />
+      ) : (
+        <div className="space-y-4">
+          {/* File and Units */}
+          <div className="grid gap-4 md:grid-cols-4">
+            <div className="md:col-span-1">
+              <label htmlFor="importFile" className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
+                CSV File
+              </label>
+              <input
+                type="file"
+                id="importFile"
+                accept=".csv,text/csv"
+                onChange={(e) => handleFile(e.target.files?.[0])}
+                className="block w-full text-sm text-gray-600 dark:text-gray-300"
+              />
+              {fileName && (
+                <p className="mt-1 text-xs text-gray-500 dark:text-gray-400 truncate">{fileName}</p>
+              )}
+            </div>
+            <div>
+              <label htmlFor="importUnits" className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
+                Amounts In
+              </label>
+              <select
+                id="importUnits"
+                value={units.units}
+                onChange={(e) => handleUnitsChange({ units: e.target.value as SessionImportUnits['units'] })}
+                className="input w-full"
+              >
+                <option value="METRIC">Grams & ml</option>
+                <option value="IMPERIAL">Ounces & fl oz</option>
+              </select>
+            </div>
+            <div>
+              <label htmlFor="importWater" className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
+                Water In
+              </label>
+              <select
+                id="importWater"
+                value={units.waterUnitPreference}
+                onChange={(e) => handleUnitsChange({ waterUnitPreference: e.target.value as SessionImportUnits['waterUnitPreference'] })}
+                className="input w-full"
+              >
+                <option value="ml">Volume</option>
+                <option value="g">Grams</option>
+              </select>
+            </div>
+            <div>
+              <label htmlFor="importTemp" className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
+                Temperatures In
+              </label>
+              <select
+                id="importTemp"
+                value={units.tempUnit}
+                onChange={(e) => handleUnitsChange({ tempUnit: e.target.value as SessionImportUnits['tempUnit'] })}
+                className="input w-full"
+              >
+                <option value="C">°C</option>
+                <option value="F">°F</option>
+              </select>
+            </div>
+          </div>
+
+          {/* Column Mapping */}
+          {result && (
+            <div>
+              <h4 className="font-medium text-gray-900 dark:text-white mb-2">Columns</h4>
+              <div className="grid gap-3 sm:grid-cols-2 md:grid-cols-4">
+                {IMPORT_FIELDS.map(({ field, label }) => (
+                  <div key={field}>
+                    <label htmlFor={`import-${field}`} className="block text-xs font-medium text-gray-600 dark:text-gray-400 mb-1">
+                      {label}
+                    </label>
+                    <select
+                      id={`import-${field}`}
+                      value={mapping?.[field] ?? ''}
+                      onChange={(e) => handleMappingChange(field, e.target.value)}
+                      className="input w-full text-sm"
+                    >
+                      <option value="">Not imported</option>
+                      {result.headers.map((header) => (
+                        <option key={header} value={header}>
+                          {header}
+                        </option>
+                      ))}
+                    </select>
+                  </div>
+                ))}
+              </div>
+            </div>
+          )}
+
+          {/* Preview */}
+          {result && isChecked && (
+            <div>
+              <p className="text-sm text-gray-700 dark:text-gray-300 mb-2">
+                {result.valid} of {result.total} rows are ready to import
+                {result.errors.length > 0 && '; rows with problems will be skipped'}.
+              </p>
+              <div className="overflow-x-auto">
+                <table className="min-w-full text-sm">
+                  <thead>
+                    <tr className="text-left text-gray-500 dark:text-gray-400">
+                      <th className="py-1 pr-4">Row</th>
+                      <th className="py-1 pr-4">Method</th>
+                      <th className="py-1 pr-4">Date</th>
+                      <th className="py-1 pr-4">Time</th>
+                      <th className="py-1 pr-4">Coffee</th>
+                      <th className="py-1 pr-4">Yield</th>
+                      <th className="py-1 pr-4">Temp</th>
+                      <th className="py-1">Status</th>
+                    </tr>
+                  </thead>
+                  <tbody className="text-gray-900 dark:text-white">
+                    {result.preview.map(({ row, session, errors }) => (
+                      <tr key={row} className="border-t border-gray-200 dark:border-gray-700">
+                        <td className="py-1 pr-4 text-gray-500">{row}</td>
+                        <td className="py-1 pr-4">{methodName(session?.methodId)}</td>
+                        <td className="py-1 pr-4">
+                          {session?.startedAt ? new Date(session.startedAt).toLocaleDateString() : '—'}
+                        </td>
+                        <td className="py-1 pr-4">{session?.durationSec ? formatDuration(session.durationSec) : '—'}</td>
+                        <td className="py-1 pr-4">
+                          {session?.coffeeGrams && settings ? formatWeight(session.coffeeGrams, settings) : '—'}
+                        </td>
+                        <td className="py-1 pr-4">
+                          {session?.yieldMl && settings ? formatVolume(session.yieldMl, settings) : '—'}
+                        </td>
+                        <td className="py-1 pr-4">
+                          {session?.waterTempC && settings ? formatTemperature(session.waterTempC, settings) : '—'}
+                        </td>
+                        <td className={`py-1 ${errors.length ? 'text-red-600 dark:text-red-400' : 'text-green-600 dark:text-green-400'}`}>
+                          {errors.length ? errors.map((error) => error.message).join('; ') : 'Ready'}
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+
+              {result.errors.length > 0 && (
+                <div className="mt-4">
+                  <h4 className="font-medium text-gray-900 dark:text-white mb-1">Problems</h4>
+                  <ul className="text-sm text-red-600 dark:text-red-400 space-y-0.5">
+                    {result.errors.slice(0, MAX_LISTED_ERRORS).map((error, index) => (
+                      <li key={index}>
+                        Row {error.row}, {error.field}: {error.message}
+                      </li>
+                    ))}
+                  </ul>
+                  {result.errors.length > MAX_LISTED_ERRORS && (
+                    <p className="text-sm text-gray-500 dark:text-gray-400 mt-1">
+                      and {result.errors.length - MAX_LISTED_ERRORS} more
+                    </p>
+                  )}
+                </div>
+              )}
+            </div>
+          )}
+
+          {error && <p className="text-sm text-red-600 dark:text-red-400">{error}</p>}
+
+          <div className="flex justify-end gap-3">
+            <button type="button" onClick={onCancel} className="btn btn-secondary" disabled={isWorking}>
+              Cancel
+            </button>
+            {csv && !isChecked ? (
+              <button type="button" onClick={() => check(csv, mapping)} className="btn btn-primary" disabled={isWorking}>
+                {isWorking ? 'Checking…' : 'Check again'}
+              </button>
+            ) : (
+              <button
+                type="button"
+                onClick={handleImport}
+                className="btn btn-primary"
+                disabled={isWorking || !result || result.valid === 0}
+              >
+                {isWorking ? 'Working…' : `Import ${result?.valid ?? 0} sessions`}
+              </button>
+            )}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -1,12 +1,8 @@
 import { useState, useEffect, useRef } from 'react';
 import { useSettings } from '../state/useSettings';
-import { formatVolume } from '../lib/units';
-
-interface PourStep {
-  atSec: number;
-  volumeMl: number;
-  label: string;
-}
+import { formatVolume } from '@coffee-brewster/brew-math';
+import { PourStep } from '../lib/api';
+import { expectedScaleReading } from '../lib/pourWindows';
 
 interface TimerProps {
   schedule: PourStep[];
@@ -186,14 +182,26 @@ export function Timer({ schedule, onFinish, onStep, onTick }: TimerProps) {
   const nextStep = getNextStep();
   const isLastStep = currentStepIndex >= schedule.length - 1;
 
-  // Calculate total duration for timeline (last step time + 60 sec buffer for drawdown)
-  const lastStepTime = schedule.length > 0 ? schedule[schedule.length - 1].atSec : 0;
+  // Calculate total duration for timeline (end of the last pour + 60 sec buffer for drawdown)
+  const lastStep = schedule[schedule.length - 1];
+  const lastStepTime = lastStep ? lastStep.endSec ?? lastStep.atSec : 0;
   const totalDuration = lastStepTime + 60;
 
   // Determine if we're at "pour time" - timer has reached or passed the current step's scheduled time
   const isActionTime = currentStep && elapsedSec >= currentStep.atSec && !actualPours[currentStepIndex]?.completed;
   const isStepCompleted = actualPours[currentStepIndex]?.completed;
 
+  // Inside the pour window: show the scale reading to aim for
+  const isPouringWindow =
+    isActionTime &&
+    currentStep.volumeMl > 0 &&
+    currentStep.endSec !== undefined &&
+    currentStep.targetCumulativeMl !== undefined &&
+    elapsedSec < currentStep.endSec;
+  const windowProgress = isPouringWindow && currentStep.durationSec
+    ? Math.min(100, ((elapsedSec - currentStep.atSec) / currentStep.durationSec) * 100)
+    : 0;
+
   return (
     <div className="max-w-2xl mx-auto">
       {/* Compact Header: Timer + Controls */}
@@ -246,7 +254,16 @@ export function Timer({ schedule, onFinish, onStep, onTick }: TimerProps) {
             : 'bg-primary-50 dark:bg-primary-900/20'
         }`}>
           {/* Action State Indicator */}
-          {isActionTime ? (
+          {isPouringWindow ? (
+            <div className="mb-3">
+              <div className="text-3xl md:text-4xl font-black text-green-600 dark:text-green-400">
+                POURING NOW
+              </div>
+              <div className="text-lg text-green-700 dark:text-green-300 mt-1">
+                Reach {settings ? formatVolume(currentStep.targetCumulativeMl!, settings) : `${currentStep.targetCumulativeMl}ml`} by {formatTimeDisplay(currentStep.endSec!)}
+              </div>
+            </div>
+          ) : isActionTime ? (
             <div className="text-3xl md:text-4xl font-black text-green-600 dark:text-green-400 mb-3">
               POUR NOW
             </div>
@@ -273,6 +290,21 @@ export function Timer({ schedule, onFinish, onStep, onTick }: TimerProps) {
             {settings ? formatVolume(currentStep.volumeMl, settings) : `${currentStep.volumeMl}ml`}
           </div>
 
+          {/* Pour Window Progress */}
+          {isPouringWindow && (
+            <div className="mb-4">
+              <div className="h-2 bg-green-100 dark:bg-green-900/50 rounded-full overflow-hidden">
+                <div
+                  className="h-2 bg-green-500 rounded-full transition-all duration-1000"
+                  style={{ width: `${windowProgress}%` }}
+                />
+              </div>
+              <div className="mt-1 text-sm text-gray-600 dark:text-gray-300">
+                Scale should read about {settings ? formatVolume(expectedScaleReading(currentStep, elapsedSec), settings) : `${expectedScaleReading(currentStep, elapsedSec)}ml`} now
+              </div>
+            </div>
+          )}
+
           {/* Mark Complete Button */}
           {isRunning && (
             <button
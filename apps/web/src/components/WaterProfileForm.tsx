@@ -0,0 +1,166 @@
+import { useForm } from 'react-hook-form';
+import { zodResolver } from '@hookform/resolvers/zod';
+import { z } from 'zod';
+import { WaterProfile, WaterProfileInput } from '../lib/api';
+import { mineralRecipe } from '@coffee-brewster/brew-math';
+
+const waterProfileSchema = z.object({
+  name: z.string().min(1, 'Name is required').max(50),
+  ghPpm: z.number({ invalid_type_error: 'Enter the hardness' }).min(0).max(500),
+  khPpm: z.number({ invalid_type_error: 'Enter the alkalinity' }).min(0).max(500),
+  // Blank comes through as NaN when there is no meter reading
+  tdsPpm: z.number().min(0).max(1000).or(z.nan()).optional(),
+});
+
+type WaterProfileFormData = z.infer<typeof waterProfileSchema>;
+
+interface WaterProfileFormProps {
+  waterProfile?: WaterProfile | null;
+  onSave: (data: WaterProfileInput) => Promise<void>;
+  onCancel: () => void;
+}
+
+export function WaterProfileForm({ waterProfile, onSave, onCancel }: WaterProfileFormProps) {
+  const {
+    register,
+    handleSubmit,
+    watch,
+    formState: { errors, isSubmitting },
+  } = useForm<WaterProfileFormData>({
+    resolver: zodResolver(waterProfileSchema),
+    defaultValues: {
+      name: waterProfile?.name ?? '',
+      ghPpm: waterProfile?.ghPpm ?? 68,
+      khPpm: waterProfile?.khPpm ?? 40,
+      tdsPpm: waterProfile?.tdsPpm ?? undefined,
+    },
+  });
+
+  const [ghPpm, khPpm] = watch(['ghPpm', 'khPpm']);
+  const recipe = mineralRecipe({ ghPpm: ghPpm || 0, khPpm: khPpm || 0 });
+
+  const onSubmit = async (data: WaterProfileFormData) => {
+    await onSave({
+      name: data.name,
+      ghPpm: data.ghPpm,
+      khPpm: data.khPpm,
+      tdsPpm: Number.isFinite(data.tdsPpm) ? data.tdsPpm : null,
+    });
+  };
+
+  return (
+    <div className="card p-6">
+      <h3 className="text-lg font-bold text-gray-900 dark:text-white mb-4">
+        {waterProfile ? 'Edit Water Profile' : 'New Water Profile'}
+      </h3>
+
+      <form onSubmit={handleSubmit(onSubmit)} className="space-y-4">
+        <div>
+          <label htmlFor="waterProfileName" className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
+            Name
+          </label>
+          <input
+            {...register('name')}
+            id="waterProfileName"
+            type="text"
+            placeholder="e.g., Third Wave Water, tap"
+            className="input w-full"
+          />
+          {errors.name && (
+            <p className="mt-1 text-sm text-red-600 dark:text-red-400">
+              {errors.name.message}
+            </p>
+          )}
+        </div>
+
+        <div className="grid md:grid-cols-3 gap-4">
+          <div>
+            <label htmlFor="ghPpm" className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
+              GH (ppm)
+            </label>
+            <input
+              {...register('ghPpm', { valueAsNumber: true })}
+              id="ghPpm"
+              type="number"
+              min="0"
+              step="any"
+              className="input w-full"
+            />
+            {errors.ghPpm && (
+              <p className="mt-1 text-sm text-red-600 dark:text-red-400">
+                {errors.ghPpm.message}
+              </p>
+            )}
+          </div>
+
+          <div>
+            <label htmlFor="khPpm" className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
+              KH (ppm)
+            </label>
+            <input
+              {...register('khPpm', { valueAsNumber: true })}
+              id="khPpm"
+              type="number"
+              min="0"
+              step="any"
+              className="input w-full"
+            />
+            {errors.khPpm && (
+              <p className="mt-1 text-sm text-red-600 dark:text-red-400">
+                {errors.khPpm.message}
+              </p>
+            )}
+          </div>
+
+          <div>
+            <label htmlFor="tdsPpm" className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
+              TDS (ppm)
+            </label>
+            <input
+              {...register('tdsPpm', { valueAsNumber: true })}
+              id="tdsPpm"
+              type="number"
+              min="0"
+              step="any"
+              placeholder="optional"
+              className="input w-full"
+            />
+          </div>
+        </div>
+        <p className="text-xs text-gray-500 dark:text-gray-400">
+          Hardness and alkalinity as CaCO₃. The SCA aims for about 68 ppm GH and 40 ppm KH.
+        </p>
+
+        {/* Mineral recipe */}
+        <div className="p-4 bg-gray-50 dark:bg-gray-800 rounded-lg">
+          <h4 className="text-sm font-medium text-gray-900 dark:text-white mb-2">
+            Make it from distilled water
+          </h4>
+          <div className="grid grid-cols-3 gap-4 text-sm">
+            <div>
+              <div className="text-gray-500 dark:text-gray-400">Epsom salt</div>
+              <div className="font-medium text-gray-900 dark:text-white">{recipe.epsomSaltGrams} g/L</div>
+            </div>
+            <div>
+              <div className="text-gray-500 dark:text-gray-400">Baking soda</div>
+              <div className="font-medium text-gray-900 dark:text-white">{recipe.bakingSodaGrams} g/L</div>
+            </div>
+            <div>
+              <div className="text-gray-500 dark:text-gray-400">Expected TDS</div>
+              <div className="font-medium text-gray-900 dark:text-white">~{recipe.tdsPpm} ppm</div>
+            </div>
+          </div>
+        </div>
+
+        <div className="flex items-center justify-end space-x-3 pt-4 border-t border-gray-200 dark:border-gray-700">
+          <button type="button" onClick={onCancel} className="btn btn-secondary" disabled={isSubmitting}>
+            Cancel
+          </button>
+          <button type="submit" className="btn btn-primary" disabled={isSubmitting}>
+            {isSubmitting ? 'Saving...' : 'Save Water Profile'}
+          </button>
+        </div>
+      </form>
+    </div>
+  );
+}
@@ -0,0 +1,33 @@
+import { describe, it, expect } from 'vitest';
+import { describeAdjustment } from '../beanAdjustments';
+import type { UserSettings } from '../api';
+
+describe('beanAdjustments', () => {
+  const settings: UserSettings = {
+    units: 'METRIC',
+    tempUnit: 'C',
+    waterUnitPreference: 'ml',
+    recommend: true,
+    defaultMethodId: null,
+    cupSizeMl: 240,
+    soundEnabled: true,
+    altitudeM: 0,
+    activeGrinderId: null,
+  };
+
+  it('should explain adjustments in the user\'s units', () => {
+    const hotter = { kind: 'temperature' as const, deltaC: 2, reason: 'Light roast' };
+
+    expect(describeAdjustment(hotter, settings)).toBe('Light roast: water 2°C hotter');
+    expect(describeAdjustment(hotter, { ...settings, tempUnit: 'F' })).toBe('Light roast: water 4°F hotter');
+    expect(
+      describeAdjustment({ kind: 'grind', from: 'Medium', to: 'Medium-coarse', reason: 'Dark roast' }, settings)
+    ).toBe('Dark roast: grind medium-coarse instead of medium');
+    expect(
+      describeAdjustment({ kind: 'ratio', from: 16, to: 15, reason: 'Large batch' }, settings)
+    ).toBe('Large batch: brew at 1:15 instead of 1:16');
+    expect(
+      describeAdjustment({ kind: 'bypass', fromMl: 180, toMl: 60, reason: 'Iced' }, settings)
+    ).toBe('Iced: bypass 60 ml instead of 180 ml');
+  });
+});
\ No newline at end of file
@@ -0,0 +1,21 @@
+import { describe, it, expect } from 'vitest';
+import { controlChartFor, describePoint } from '../controlChart';
+
+describe('controlChart', () => {
+  it('should judge filter coffee on the SCA chart', () => {
+    const point = { id: 's1', tdsPercent: 1.25, extractionYield: 20 };
+
+    expect(describePoint(point, controlChartFor('STANDARD'))).toBe('ideal strength, ideal extraction');
+    expect(describePoint(point, controlChartFor())).toBe('ideal strength, ideal extraction');
+  });
+
+  it('should chart espresso on its own strength scale', () => {
+    const shot = { id: 's2', tdsPercent: 9.5, extractionYield: 19.8 };
+    const chart = controlChartFor('ESPRESSO');
+
+    expect(describePoint(shot, controlChartFor('STANDARD'))).toBe('strong, ideal extraction');
+    expect(describePoint(shot, chart)).toBe('ideal strength, ideal extraction');
+    expect(chart.tdsTicks[0]).toBeLessThan(shot.tdsPercent);
+    expect(chart.tdsTicks[chart.tdsTicks.length - 1]).toBeGreaterThan(shot.tdsPercent);
+  });
+});
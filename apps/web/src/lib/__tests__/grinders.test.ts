@@ -0,0 +1,35 @@
+import { describe, it, expect } from 'vitest';
+import { grindRangeFor, grinderSettingLabel } from '../grinders';
+import type { Grinder } from '../api';
+
+describe('grinders', () => {
+  const comandante: Grinder = {
+    id: 'grinder-1',
+    userId: 'user-1',
+    name: 'Comandante',
+    scale: 'CLICKS',
+    ranges: { 'Medium-fine': { min: 22, max: 25 } },
+    createdAt: '2024-01-01T00:00:00.000Z',
+    updatedAt: '2024-01-01T00:00:00.000Z',
+  };
+
+  describe('grindRangeFor', () => {
+    it('should find the range for a descriptive grind', () => {
+      expect(grindRangeFor(comandante, 'medium-fine')).toEqual({ min: 22, max: 25 });
+    });
+
+    it('should return null for unmapped or free text grinds', () => {
+      expect(grindRangeFor(comandante, 'Coarse')).toBeNull();
+      expect(grindRangeFor(comandante, 'like sand')).toBeNull();
+      expect(grindRangeFor(comandante, undefined)).toBeNull();
+    });
+  });
+
+  describe('grinderSettingLabel', () => {
+    it('should label the suggested grind on the active grinder', () => {
+      expect(grinderSettingLabel(comandante, 'Medium-fine')).toBe('Comandante: 22–25 clicks');
+      expect(grinderSettingLabel(comandante, 'Coarse')).toBeNull();
+      expect(grinderSettingLabel(undefined, 'Medium-fine')).toBeNull();
+    });
+  });
+});
\ No newline at end of file
@@ -0,0 +1,12 @@
+import { describe, it, expect } from 'vitest';
+import { expectedScaleReading } from '../pourWindows';
+
+describe('pourWindows', () => {
+  it('should track the expected scale reading through a pour', () => {
+    const pour = { atSec: 45, volumeMl: 280, label: 'First pour', durationSec: 56, targetCumulativeMl: 340 };
+
+    expect(expectedScaleReading(pour, 45)).toBe(60);
+    expect(expectedScaleReading(pour, 73)).toBe(200);
+    expect(expectedScaleReading(pour, 200)).toBe(340);
+  });
+});
\ No newline at end of file
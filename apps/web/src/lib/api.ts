@@ -1,3 +1,36 @@
+import type {
+  BrewAdjustment,
+  ColdBrewPlan,
+  ColdBrewProfile,
+  EspressoPlan,
+  EspressoProfile,
+  GrinderScale,
+  GrindRange,
+  MineralRecipe,
+  PourStep,
+  PourTemplate,
+  RecipeVariantKey,
+  RoastLevel,
+  StrengthPlan,
+} from '@coffee-brewster/brew-math';
+
+// The calculator's method and plan types are shared with the API
+export type {
+  BrewAdjustment,
+  ColdBrewPlan,
+  ColdBrewProfile,
+  EspressoPlan,
+  EspressoProfile,
+  GrinderScale,
+  GrindRange,
+  MineralRecipe,
+  PourStep,
+  PourTemplate,
+  RecipeVariantKey,
+  RoastLevel,
+  StrengthPlan,
+} from '@coffee-brewster/brew-math';
+
 // In development, proxy to local API server via Vite proxy (/api → http://localhost:4000)
 // In production, use environment variable or fallback to relative /api path
 const API_BASE_URL = import.meta.env.VITE_API_URL || '/api';
@@ -10,16 +43,28 @@ export interface ApiResponse<T = any> {
   user?: T;
   settings?: T;
   methods?: T;
+  method?: T;
   sessions?: T;
   session?: T;
   recipe?: T;
+  recipes?: T;
+  grinder?: T;
+  grinders?: T;
+  waterProfile?: T;
+  waterProfiles?: T;
+  batch?: T;
+  strength?: T;
+  import?: T;
+  restore?: T;
   pagination?: {
     page: number;
     limit: number;
-    total: number;
-    totalPages: number;
+    // Null on pages fetched with a cursor; the first page has the count
+    total: number | null;
+    totalPages: number | null;
     hasNext: boolean;
     hasPrev: boolean;
+    nextCursor?: string | null;
   };
 }
 
@@ -39,19 +84,76 @@ export interface UserSettings {
   defaultMethodId: string | null;
   cupSizeMl: number;
   soundEnabled: boolean;
+  altitudeM: number;
+  activeGrinderId: string | null;
+}
+
+export interface RecipeVariant {
+  key: RecipeVariantKey;
+  name: string;
+}
+
+// One planned brew, as the calculator or the reverse endpoint returns it
+export interface PlannedBrew {
+  coffeeGrams: number;
+  waterTotalMl: number;
+  yieldTargetMl: number;
+  bloomMl?: number;
+  iceGrams?: number;
+  brewWaterMl?: number;
+  bypassMl?: number;
+  coldBrew?: ColdBrewPlan;
+  espresso?: EspressoPlan;
+  pours: PourStep[];
+  adjustments: BrewAdjustment[];
+  tempC?: number;
+  grind?: string;
+  grinderSetting?: string | null;
+  filter?: string;
+}
+
+export interface BatchPlan {
+  totalYieldMl: number;
+  coffeeGrams: number;
+  waterTotalMl: number;
+  capacityMl: number | null;
+  brews: PlannedBrew[];
+  // A bigger brewer that gets the order done in fewer brews
+  suggestion: { methodKey: string; name: string; capacityMl: number; brews: number } | null;
 }
 
 export interface BrewMethod {
   id: string;
   key: string;
+  userId: string | null;
+  isCustom: boolean;
   name: string;
+  kind: 'STANDARD' | 'COLD_BREW' | 'ESPRESSO';
   defaultRatio: number;
   bloom: boolean;
   pours: number;
   notes: string | null;
+  schedule: PourTemplate | null;
+  coldBrew: ColdBrewProfile | null;
+  espresso: EspressoProfile | null;
+  capacityMl: number | null; // largest yield one brew makes
+  variants: RecipeVariant[];
   presets: any;
 }
 
+export interface BrewMethodInput {
+  name: string;
+  defaultRatio: number;
+  bloom: boolean;
+  pours: number;
+  notes?: string;
+  tempC?: number;
+  grind?: string;
+  filter?: string;
+  capacityMl?: number;
+  schedule?: PourTemplate;
+}
+
 export interface BrewSession {
   id: string;
   userId: string;
@@ -60,18 +162,231 @@ export interface BrewSession {
   durationSec: number;
   coffeeGrams: number;
   waterMl: number;
+  bypassMl: number | null;
   yieldMl: number;
   brewRatio?: number;
   grindSetting: string | null;
+  grinderId: string | null;
+  grindValue: number | null;
+  grinder?: {
+    name: string;
+    scale: GrinderScale;
+  } | null;
   waterTempC: number | null;
+  waterProfileId: string | null;
+  waterProfile?: {
+    name: string;
+    ghPpm: number;
+    khPpm: number;
+  } | null;
   rating: number | null;
   notes: string | null;
+  tdsPercent: number | null;
+  extractionYield: number | null;
+  shotTimeSec: number | null;
+  outputGrams: number | null;
   pours: any;
   bean: any;
   method: {
     name: string;
     key: string;
   };
+  // Search results only: where the query matched, in order
+  highlight?: { text: string; match: boolean }[];
+}
+
+export type SessionImportField =
+  | 'method'
+  | 'startedAt'
+  | 'durationSec'
+  | 'coffeeGrams'
+  | 'waterMl'
+  | 'bypassMl'
+  | 'yieldMl'
+  | 'brewRatio'
+  | 'grindSetting'
+  | 'waterTempC'
+  | 'rating'
+  | 'notes'
+  | 'tdsPercent'
+  | 'shotTimeSec'
+  | 'outputGrams'
+  | 'bean.variety'
+  | 'bean.roaster'
+  | 'bean.origin'
+  | 'bean.roastDate';
+
+// Field -> CSV header
+export type SessionImportMapping = Partial<Record<SessionImportField, string>>;
+
+export type SessionImportUnits = Pick<UserSettings, 'units' | 'tempUnit' | 'waterUnitPreference'>;
+
+export interface SessionImportRequest {
+  csv: string;
+  mapping?: SessionImportMapping; // suggested from the headers when left out
+  units?: SessionImportUnits; // the user's settings when left out
+  dryRun?: boolean;
+}
+
+export interface SessionImportRowError {
+  row: number;
+  field: string;
+  message: string;
+}
+
+// Checked rows are in metric, as they would be saved
+export interface SessionImportResult {
+  dryRun: boolean;
+  headers: string[];
+  mapping: SessionImportMapping;
+  total: number;
+  valid: number;
+  imported: number;
+  preview: {
+    row: number; // spreadsheet row, the header being row 1
+    session: Partial<BrewSession> | null;
+    errors: Omit<SessionImportRowError, 'row'>[];
+  }[];
+  errors: SessionImportRowError[];
+}
+
+export interface BeanconquerorImportRequest {
+  file: string; // the export's ZIP or Beanconqueror.json, base64 encoded
+  methods?: Record<string, string>; // preparation ID -> brew method ID
+  dryRun?: boolean;
+}
+
+export interface BeanconquerorPreparation {
+  id: string;
+  name: string;
+  type: string;
+  brews: number;
+  methodId: string | null; // brews are left out while this is null
+}
+
+export interface BeanconquerorImportResult {
+  dryRun: boolean;
+  total: number;
+  valid: number;
+  imported: number;
+  alreadyImported: number;
+  preparations: BeanconquerorPreparation[];
+  errors: { brew: string; field: string; message: string }[];
+}
+
+// Merge adds sessions missing from the logbook; replace swaps the logbook,
+// settings and display name for the backup's
+export type AccountRestoreMode = 'merge' | 'replace';
+
+export interface AccountRestoreResult {
+  mode: AccountRestoreMode;
+  total: number;
+  restored: number;
+  skipped: number; // already in the logbook
+}
+
+export type SessionSortField = 'date' | 'rating' | 'ratio' | 'coffee';
+
+// Filters and ranges are all optional; ranges include both ends
+export interface SessionQuery {
+  page?: number;
+  limit?: number;
+  cursor?: string; // the previous page's nextCursor; wins over page
+  q?: string;
+  methodId?: string;
+  waterProfileId?: string;
+  minRating?: number;
+  maxRating?: number;
+  dateFrom?: string; // ISO timestamps
+  dateTo?: string;
+  roaster?: string; // partial, any case
+  origin?: string;
+  minRatio?: number;
+  maxRatio?: number;
+  minDurationSec?: number;
+  maxDurationSec?: number;
+  sort?: SessionSortField; // searches default to best match, otherwise newest
+  order?: 'asc' | 'desc';
+}
+
+export interface Grinder {
+  id: string;
+  userId: string;
+  name: string;
+  scale: GrinderScale;
+  ranges: Record<string, GrindRange>;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface GrinderInput {
+  name: string;
+  scale: GrinderScale;
+  ranges: Record<string, GrindRange>;
+}
+
+// GH and KH in ppm as CaCO3
+export interface WaterProfile {
+  id: string;
+  userId: string;
+  name: string;
+  ghPpm: number;
+  khPpm: number;
+  tdsPpm: number | null;
+  recipe: MineralRecipe; // per litre of distilled water
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface WaterProfileInput {
+  name: string;
+  ghPpm: number;
+  khPpm: number;
+  tdsPpm?: number | null;
+}
+
+export interface RecipePour {
+  atSec: number;
+  volumeMl: number;
+  label: string;
+}
+
+export interface Recipe {
+  id: string;
+  userId: string;
+  methodId: string;
+  name: string;
+  ratio: number;
+  coffeeGrams: number;
+  waterMl: number;
+  yieldMl: number;
+  iceGrams: number | null;
+  bypassMl: number | null;
+  tempC: number | null;
+  grind: string | null;
+  pours: RecipePour[];
+  notes: string | null;
+  createdAt: string;
+  updatedAt: string;
+  method: {
+    name: string;
+    key: string;
+  };
+}
+
+export interface RecipeInput {
+  name: string;
+  methodId: string;
+  ratio: number;
+  coffeeGrams: number;
+  waterMl: number;
+  yieldMl: number;
+  iceGrams?: number;
+  bypassMl?: number;
+  tempC?: number;
+  grind?: string;
+  pours: RecipePour[];
+  notes?: string;
 }
 
 class ApiClient {
@@ -151,6 +466,27 @@ class ApiClient {
     });
   }
 
+  // Account endpoints; the backup is a versioned JSON document
+  async exportAccount(): Promise<Blob> {
+    const response = await fetch(`${API_BASE_URL}/account/export`, {
+      credentials: 'include',
+    });
+
+    if (!response.ok) {
+      const data = await response.json().catch(() => ({}));
+      throw new Error(data.message || 'Backup failed');
+    }
+
+    return response.blob();
+  }
+
+  async restoreAccount(backup: unknown, mode: AccountRestoreMode): Promise<ApiResponse<AccountRestoreResult>> {
+    return this.request('/account/restore', {
+      method: 'POST',
+      body: JSON.stringify({ backup, mode }),
+    });
+  }
+
   // Methods endpoints
   async getMethods(): Promise<ApiResponse<BrewMethod[]>> {
     return this.request('/methods');
@@ -160,12 +496,80 @@ class ApiClient {
     return this.request(`/methods/${key}`);
   }
 
+  async createMethod(data: BrewMethodInput): Promise<ApiResponse<BrewMethod>> {
+    return this.request('/methods', {
+      method: 'POST',
+      body: JSON.stringify(data),
+    });
+  }
+
+  async updateMethod(
+    id: string,
+    data: Partial<BrewMethodInput>
+  ): Promise<ApiResponse<BrewMethod>> {
+    return this.request(`/methods/${id}`, {
+      method: 'PUT',
+      body: JSON.stringify(data),
+    });
+  }
+
+  async deleteMethod(id: string): Promise<ApiResponse> {
+    return this.request(`/methods/${id}`, {
+      method: 'DELETE',
+    });
+  }
+
   // Reverse brew endpoint
+  async calculateBatchBrew(data: {
+    methodKey: string;
+    cups?: number;
+    targetYieldMl?: number;
+    ratio?: number;
+    iced?: boolean;
+    bypassPercent?: number;
+    bypassMl?: number;
+    recipeVariant?: RecipeVariantKey;
+    sweetness?: 'sweet' | 'balanced' | 'bright';
+    strength?: 'light' | 'medium' | 'strong';
+    roastLevel?: RoastLevel;
+    roastDate?: string;
+  }): Promise<ApiResponse<BatchPlan>> {
+    return this.request('/reverse/batch', {
+      method: 'POST',
+      body: JSON.stringify(data),
+    });
+  }
+
+  // Exactly one of cups, targetYieldMl or coffeeGrams
+  async solveStrength(data: {
+    methodKey: string;
+    targetTdsPercent: number;
+    extractionYieldPercent?: number;
+    cups?: number;
+    targetYieldMl?: number;
+    coffeeGrams?: number;
+  }): Promise<ApiResponse<StrengthPlan>> {
+    return this.request('/reverse/strength', {
+      method: 'POST',
+      body: JSON.stringify(data),
+    });
+  }
+
   async calculateReverseBrew(data: {
     methodKey: string;
-    cups: number;
+    cups?: number;
     ratio?: number;
     targetYieldMl?: number;
+    targetBeverageGrams?: number;
+    coffeeGrams?: number;
+    iced?: boolean;
+    bypassPercent?: number;
+    bypassMl?: number;
+    recipeVariant?: RecipeVariantKey;
+    sweetness?: 'sweet' | 'balanced' | 'bright';
+    strength?: 'light' | 'medium' | 'strong';
+    roastLevel?: RoastLevel;
+    roastDate?: string;
   }): Promise<ApiResponse<any>> {
     return this.request('/reverse', {
       method: 'POST',
@@ -173,21 +577,136 @@ class ApiClient {
     });
   }
 
+  // Recipes endpoints
+  async getRecipes(): Promise<ApiResponse<Recipe[]>> {
+    return this.request('/recipes');
+  }
+
+  async getRecipe(id: string): Promise<ApiResponse<Recipe>> {
+    return this.request(`/recipes/${id}`);
+  }
+
+  async createRecipe(data: RecipeInput): Promise<ApiResponse<Recipe>> {
+    return this.request('/recipes', {
+      method: 'POST',
+      body: JSON.stringify(data),
+    });
+  }
+
+  async updateRecipe(
+    id: string,
+    data: Partial<RecipeInput>
+  ): Promise<ApiResponse<Recipe>> {
+    return this.request(`/recipes/${id}`, {
+      method: 'PUT',
+      body: JSON.stringify(data),
+    });
+  }
+
+  async deleteRecipe(id: string): Promise<ApiResponse> {
+    return this.request(`/recipes/${id}`, {
+      method: 'DELETE',
+    });
+  }
+
+  // Grinders endpoints
+  async getGrinders(): Promise<ApiResponse<Grinder[]>> {
+    return this.request('/grinders');
+  }
+
+  async createGrinder(data: GrinderInput): Promise<ApiResponse<Grinder>> {
+    return this.request('/grinders', {
+      method: 'POST',
+      body: JSON.stringify(data),
+    });
+  }
+
+  async updateGrinder(
+    id: string,
+    data: Partial<GrinderInput>
+  ): Promise<ApiResponse<Grinder>> {
+    return this.request(`/grinders/${id}`, {
+      method: 'PUT',
+      body: JSON.stringify(data),
+    });
+  }
+
+  async deleteGrinder(id: string): Promise<ApiResponse> {
+    return this.request(`/grinders/${id}`, {
+      method: 'DELETE',
+    });
+  }
+
+  // Water profiles endpoints
+  async getWaterProfiles(): Promise<ApiResponse<WaterProfile[]>> {
+    return this.request('/water-profiles');
+  }
+
+  async createWaterProfile(data: WaterProfileInput): Promise<ApiResponse<WaterProfile>> {
+    return this.request('/water-profiles', {
+      method: 'POST',
+      body: JSON.stringify(data),
+    });
+  }
+
+  async updateWaterProfile(
+    id: string,
+    data: Partial<WaterProfileInput>
+  ): Promise<ApiResponse<WaterProfile>> {
+    return this.request(`/water-profiles/${id}`, {
+      method: 'PUT',
+      body: JSON.stringify(data),
+    });
+  }
+
+  async deleteWaterProfile(id: string): Promise<ApiResponse> {
+    return this.request(`/water-profiles/${id}`, {
+      method: 'DELETE',
+    });
+  }
+
   // Sessions endpoints
-  async getSessions(params?: {
-    page?: number;
-    limit?: number;
-    q?: string;
-    methodId?: string;
-  }): Promise<ApiResponse<BrewSession[]>> {
+  private sessionQueryString(params?: SessionQuery): string {
     const searchParams = new URLSearchParams();
-    if (params?.page) searchParams.set('page', params.page.toString());
-    if (params?.limit) searchParams.set('limit', params.limit.toString());
-    if (params?.q) searchParams.set('q', params.q);
-    if (params?.methodId) searchParams.set('methodId', params.methodId);
+    Object.entries(params ?? {}).forEach(([key, value]) => {
+      if (value !== undefined && value !== '') searchParams.set(key, value.toString());
+    });
     
     const query = searchParams.toString();
-    return this.request(`/sessions${query ? `?${query}` : ''}`);
+    return query ? `?${query}` : '';
+  }
+
+  async getSessions(params?: SessionQuery): Promise<ApiResponse<BrewSession[]>> {
+    return this.request(`/sessions${this.sessionQueryString(params)}`);
+  }
+
+  async importSessions(data: SessionImportRequest): Promise<ApiResponse<SessionImportResult>> {
+    return this.request('/sessions/import', {
+      method: 'POST',
+      body: JSON.stringify(data),
+    });
+  }
+
+  async importBeanconqueror(data: BeanconquerorImportRequest): Promise<ApiResponse<BeanconquerorImportResult>> {
+    return this.request('/sessions/import/beanconqueror', {
+      method: 'POST',
+      body: JSON.stringify(data),
+    });
+  }
+
+  // The whole filtered logbook as CSV, in the user's units
+  async exportSessions(params?: SessionQuery): Promise<Blob> {
+    const response = await fetch(
+      `${API_BASE_URL}/sessions/export${this.sessionQueryString(params)}`,
+      { credentials: 'include' }
+    );
+
+    if (!response.ok) {
+      const data = await response.json().catch(() => ({}));
+      throw new Error(data.message || 'Export failed');
+    }
+
+    return response.blob();
   }
 
   async getSession(id: string): Promise<ApiResponse<BrewSession>> {
@@ -0,0 +1,33 @@
+import { formatVolume } from '@coffee-brewster/brew-math';
+import { BrewAdjustment, RoastLevel, UserSettings } from './api';
+
+export const ROAST_LEVELS: { value: RoastLevel; label: string }[] = [
+  { value: 'light', label: 'Light roast' },
+  { value: 'medium', label: 'Medium roast' },
+  { value: 'medium_dark', label: 'Medium-dark roast' },
+  { value: 'dark', label: 'Dark roast' },
+];
+
+// One line of explanation per adjustment, in the user's units
+export const describeAdjustment = (
+  adjustment: BrewAdjustment,
+  settings: UserSettings
+): string => {
+  switch (adjustment.kind) {
+    case 'temperature': {
+      const delta = settings.tempUnit === 'F'
+        ? Math.round(Math.abs(adjustment.deltaC) * 9 / 5)
+        : Math.abs(adjustment.deltaC);
+      const direction = adjustment.deltaC > 0 ? 'hotter' : 'cooler';
+      return `${adjustment.reason}: water ${delta}°${settings.tempUnit} ${direction}`;
+    }
+    case 'grind':
+      return `${adjustment.reason}: grind ${adjustment.to.toLowerCase()} instead of ${adjustment.from.toLowerCase()}`;
+    case 'bloom':
+      return `${adjustment.reason}: bloom with ${formatVolume(adjustment.extraMl, settings)} more water and wait ${adjustment.extraSec}s longer`;
+    case 'ratio':
+      return `${adjustment.reason}: brew at 1:${adjustment.to} instead of 1:${adjustment.from}`;
+    case 'bypass':
+      return `${adjustment.reason}: bypass ${formatVolume(adjustment.toMl, settings)} instead of ${formatVolume(adjustment.fromMl, settings)}`;
+  }
+};
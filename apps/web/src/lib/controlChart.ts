@@ -0,0 +1,45 @@
+import { BrewMethod } from './api';
+
+export interface ChartPoint {
+  id: string;
+  tdsPercent: number;
+  extractionYield: number;
+}
+
+export interface ControlChart {
+  ideal: { eyMin: number; eyMax: number; tdsMin: number; tdsMax: number };
+  eyTicks: number[]; // the first and last bound the axis
+  tdsTicks: number[];
+}
+
+// SCA brewing control chart ideal: 1.15–1.35% TDS at 18–22% extraction
+const FILTER_CHART: ControlChart = {
+  ideal: { eyMin: 18, eyMax: 22, tdsMin: 1.15, tdsMax: 1.35 },
+  eyTicks: [14, 16, 18, 20, 22, 24, 26],
+  tdsTicks: [0.9, 1.1, 1.3, 1.5, 1.7],
+};
+
+// Espresso extracts as much but is several times stronger: 8–12% TDS
+const ESPRESSO_CHART: ControlChart = {
+  ideal: { eyMin: 18, eyMax: 22, tdsMin: 8, tdsMax: 12 },
+  eyTicks: [14, 16, 18, 20, 22, 24, 26],
+  tdsTicks: [6, 8, 10, 12, 14],
+};
+
+export const controlChartFor = (kind?: BrewMethod['kind']): ControlChart =>
+  kind === 'ESPRESSO' ? ESPRESSO_CHART : FILTER_CHART;
+
+export const describePoint = (
+  { tdsPercent, extractionYield }: ChartPoint,
+  { ideal }: ControlChart
+): string => {
+  const strength =
+    tdsPercent < ideal.tdsMin ? 'weak' : tdsPercent > ideal.tdsMax ? 'strong' : 'ideal strength';
+  const extraction =
+    extractionYield < ideal.eyMin
+      ? 'under-extracted'
+      : extractionYield > ideal.eyMax
+      ? 'over-extracted'
+      : 'ideal extraction';
+  return `${strength}, ${extraction}`;
+};
@@ -0,0 +1,22 @@
+import { formatGrinderSetting, grindLevelOf } from '@coffee-brewster/brew-math';
+import { Grinder, GrindRange } from './api';
+
+// The grinder's range for a descriptive grind, or null when the descriptor
+// is free text or the grinder has no mapping for it
+export const grindRangeFor = (
+  grinder: Grinder,
+  descriptor: string | undefined
+): GrindRange | null => {
+  const level = descriptor ? grindLevelOf(descriptor) : undefined;
+  return (level && grinder.ranges[level]) || null;
+};
+
+// "Comandante: 22–25 clicks" for the active grinder, or null if it can't
+// translate the suggested grind
+export const grinderSettingLabel = (
+  grinder: Grinder | undefined,
+  descriptor: string | undefined
+): string | null => {
+  const range = grinder ? grindRangeFor(grinder, descriptor) : null;
+  return grinder && range ? formatGrinderSetting(grinder, range.min, range.max) : null;
+};
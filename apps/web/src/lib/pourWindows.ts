@@ -0,0 +1,10 @@
+import { PourStep } from './api';
+
+// Where the scale should be at `elapsedSec` while pouring through `pour`
+export const expectedScaleReading = (pour: PourStep, elapsedSec: number): number => {
+  if (pour.targetCumulativeMl === undefined || !pour.durationSec) {
+    return pour.targetCumulativeMl ?? pour.volumeMl;
+  }
+  const progress = Math.min(Math.max((elapsedSec - pour.atSec) / pour.durationSec, 0), 1);
+  return Math.round(pour.targetCumulativeMl - pour.volumeMl * (1 - progress));
+};
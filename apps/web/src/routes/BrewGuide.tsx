@@ -5,8 +5,15 @@ import { BrewConfig } from '../components/BrewConfig';
 import { PourSchedule } from '../components/PourSchedule';
 import { Timer } from '../components/Timer';
 import { SessionForm } from '../components/SessionForm';
+import { MethodForm } from '../components/MethodForm';
+import { RecipeList } from '../components/RecipeList';
+import { ColdBrewTimeline } from '../components/ColdBrewTimeline';
 import { useSettings } from '../state/useSettings';
-import { api, BrewMethod } from '../lib/api';
+import { useGrinders } from '../state/useGrinders';
+import { useWaterProfiles } from '../state/useWaterProfiles';
+import { api, BatchPlan, BrewAdjustment, BrewMethod, BrewMethodInput, ColdBrewPlan, ColdBrewProfile, EspressoPlan, Recipe } from '../lib/api';
+import { formatDuration, cappedTempC, espressoWindows, flowRateFor, withPourWindows } from '@coffee-brewster/brew-math';
+import { grinderSettingLabel } from '../lib/grinders';
 
 type BrewStep = 'method' | 'configure' | 'schedule' | 'timer' | 'complete' | 'session';
 
@@ -14,12 +21,87 @@ interface BrewConfigData {
   ratio: number;
   cups: number;
   customYield: boolean;
+  iced?: boolean;
   yieldMl?: number;
   coffeeGrams: number;
   waterMl: number;
+  iceGrams?: number;
+  bypassMl?: number;
+  coldBrew?: ColdBrewPlan;
+  espresso?: EspressoPlan;
+  tempC?: number; // adjusted for the beans
+  grind?: string;
+  roastDate?: string;
+  adjustments?: BrewAdjustment[];
   schedule: any[];
+  batch?: BatchPlan; // several brews, made one after another
+  batchIndex?: number;
 }
 
+// Espresso yield is the beverage weight; everything else counts cups
+const targetYieldOf = (config: BrewConfigData, cupSizeMl: number): number =>
+  config.espresso?.beverageGrams ??
+  (config.customYield ? (config.yieldMl || 0) : (config.cups * cupSizeMl));
+
+// Each brew of a batch is guided and logged like a brew of its own
+const configForBrew = (config: BrewConfigData, batchIndex: number): BrewConfigData => {
+  const brew = config.batch!.brews[batchIndex];
+  return {
+    ...config,
+    batchIndex,
+    customYield: true,
+    yieldMl: brew.yieldTargetMl,
+    coffeeGrams: brew.coffeeGrams,
+    waterMl: brew.waterTotalMl,
+    iceGrams: undefined,
+    bypassMl: undefined,
+    coldBrew: brew.coldBrew,
+    espresso: brew.espresso,
+    tempC: brew.tempC,
+    grind: brew.grind,
+    adjustments: brew.adjustments,
+    schedule: brew.pours,
+  };
+};
+
+const hasNextBrew = (config: BrewConfigData | null): boolean =>
+  !!config?.batch && (config.batchIndex ?? 0) < config.batch.brews.length - 1;
+
+// Recipes store amounts, not the steep plan, so rebuild it from the method
+const coldBrewPlanFor = (
+  profile: ColdBrewProfile,
+  recipe: Recipe
+): ColdBrewPlan => {
+  const concentrateMl = Math.min(
+    Math.round(recipe.coffeeGrams * profile.concentrateRatio),
+    recipe.yieldMl
+  );
+  return {
+    steepHours: profile.steepHours,
+    filterAtSec: Math.round(profile.steepHours * 3600),
+    concentrateMl,
+    dilutionMl: recipe.yieldMl - concentrateMl,
+  };
+};
+
+// A cold brew steep outlives the page, so it is kept until filtered
+const STEEP_STORAGE_KEY = 'coldBrewSteep';
+
+interface StoredSteep {
+  methodId: string;
+  config: BrewConfigData;
+  startedAt: number;
+}
+
+const loadStoredSteep = (): StoredSteep | null => {
+  try {
+    const raw = localStorage.getItem(STEEP_STORAGE_KEY);
+    return raw ? JSON.parse(raw) : null;
+  } catch {
+    return null;
+  }
+};
+
 interface ActualPour {
   scheduledAtSec: number;
   actualAtSec: number;
@@ -32,10 +114,15 @@ export function BrewGuide() {
   const navigate = useNavigate();
   const location = useLocation();
   const { settings } = useSettings();
+  const { grinders, loadGrinders } = useGrinders();
+  const { loadWaterProfiles } = useWaterProfiles();
   const [currentStep, setCurrentStep] = useState<BrewStep>('method');
   const [methods, setMethods] = useState<BrewMethod[]>([]);
   const [selectedMethod, setSelectedMethod] = useState<BrewMethod | null>(null);
   const [brewConfig, setBrewConfig] = useState<BrewConfigData | null>(null);
+  const [recipes, setRecipes] = useState<Recipe[]>([]);
+  const [activeRecipe, setActiveRecipe] = useState<Recipe | null>(null);
+  const [isSavingRecipe, setIsSavingRecipe] = useState(false);
   const [isLoadingMethods, setIsLoadingMethods] = useState(true);
   const [error, setError] = useState<string | null>(null);
   
@@ -43,6 +130,20 @@ export function BrewGuide() {
   const [timerElapsedSec, setTimerElapsedSec] = useState(0);
   const [actualPours, setActualPours] = useState<ActualPour[]>([]);
   const [isSavingSession, setIsSavingSession] = useState(false);
+  const [steepStartedAt, setSteepStartedAt] = useState<number | null>(null);
+
+  // Custom method editing: 'new' opens an empty form
+  const [editingMethod, setEditingMethod] = useState<BrewMethod | 'new' | null>(null);
+
+  // Grinders translate the grind suggestion into the user's own settings
+  useEffect(() => {
+    loadGrinders();
+  }, [loadGrinders]);
+
+  // The session form offers the saved water profiles
+  useEffect(() => {
+    loadWaterProfiles();
+  }, [loadWaterProfiles]);
 
   // Load brewing methods
   useEffect(() => {
@@ -51,13 +152,20 @@ export function BrewGuide() {
         const response = await api.getMethods();
         if (response.success && response.methods) {
           setMethods(response.methods);
+          const locationState = location.state as any;
           
+          // Resume a cold brew that is still steeping
+          const storedSteep = loadStoredSteep();
+          const steepMethod = storedSteep && response.methods.find(m => m.id === storedSteep.methodId);
+          if (storedSteep && steepMethod) {
+            setSelectedMethod(steepMethod);
+            setBrewConfig(storedSteep.config);
+            setSteepStartedAt(storedSteep.startedAt);
+            setCurrentStep('timer');
+          }
           // Check for prefilled data from reverse brew
-          const locationState = location.state as any;
-          if (locationState?.prefilledMethod && locationState?.prefilledConfig) {
-            setSelectedMethod(locationState.prefilledMethod);
-            setBrewConfig(locationState.prefilledConfig);
-            setCurrentStep('schedule');
+          else if (locationState?.prefilledMethod && locationState?.prefilledConfig) {
+            applyPrefill(locationState.prefilledMethod, locationState.prefilledConfig);
           }
           // Auto-select default method if set
           else if (settings?.defaultMethodId) {
@@ -81,20 +189,168 @@ export function BrewGuide() {
     loadMethods();
   }, [settings?.defaultMethodId, location.state]);
 
+  // Load saved recipes; the guide works without them
+  useEffect(() => {
+    const loadRecipes = async () => {
+      try {
+        const response = await api.getRecipes();
+        if (response.success && response.recipes) {
+          setRecipes(response.recipes);
+        }
+      } catch (error) {
+        console.error('Failed to load recipes:', error);
+      }
+    };
+
+    loadRecipes();
+  }, []);
+
+  // Jump straight to the schedule with a ready-made configuration
+  const applyPrefill = (method: BrewMethod, config: BrewConfigData) => {
+    setSelectedMethod(method);
+    setBrewConfig(config);
+    setCurrentStep('schedule');
+  };
+
+  const handleBrewFromRecipe = (recipe: Recipe) => {
+    const method = methods.find(m => m.id === recipe.methodId);
+    if (!method) {
+      setError('The method for this recipe is no longer available');
+      return;
+    }
+
+    setActiveRecipe(recipe);
+    applyPrefill(method, {
+      ratio: recipe.ratio,
+      cups: +(recipe.yieldMl / (settings?.cupSizeMl || 240)).toFixed(1),
+      customYield: true,
+      yieldMl: recipe.yieldMl,
+      coffeeGrams: recipe.coffeeGrams,
+      waterMl: recipe.waterMl,
+      iced: recipe.iceGrams !== null,
+      iceGrams: recipe.iceGrams ?? undefined,
+      bypassMl: recipe.bypassMl ?? undefined,
+      coldBrew: method.coldBrew ? coldBrewPlanFor(method.coldBrew, recipe) : undefined,
+      espresso: method.espresso ? { ...method.espresso, beverageGrams: recipe.yieldMl } : undefined,
+      // Recipes store pour events; the windows come from the method
+      schedule: method.espresso
+        ? espressoWindows(recipe.pours, method.espresso)
+        : withPourWindows(recipe.pours, flowRateFor(method.key)),
+    });
+  };
+
+  const handleDeleteRecipe = async (recipe: Recipe) => {
+    if (!confirm(`Delete recipe "${recipe.name}"?`)) return;
+
+    try {
+      await api.deleteRecipe(recipe.id);
+      setRecipes(prev => prev.filter(r => r.id !== recipe.id));
+    } catch (error) {
+      console.error('Failed to delete recipe:', error);
+    }
+  };
+
+  const handleSaveRecipe = async () => {
+    if (!selectedMethod || !brewConfig) return;
+
+    const name = prompt('Name this recipe', activeRecipe?.name ?? `My ${selectedMethod.name}`);
+    if (!name) return;
+
+    setIsSavingRecipe(true);
+    try {
+      const response = await api.createRecipe({
+        name,
+        methodId: selectedMethod.id,
+        ratio: brewConfig.ratio,
+        coffeeGrams: brewConfig.coffeeGrams,
+        waterMl: Math.round(brewConfig.waterMl),
+        yieldMl: targetYieldOf(brewConfig, settings?.cupSizeMl || 240),
+        iceGrams: brewConfig.iceGrams,
+        bypassMl: brewConfig.bypassMl,
+        tempC: activeRecipe?.tempC ?? brewConfig.tempC ?? selectedMethod.presets?.tempC,
+        grind: activeRecipe?.grind ?? brewConfig.grind ?? selectedMethod.presets?.grind,
+        pours: brewConfig.schedule,
+      });
+
+      if (response.success && response.recipe) {
+        const saved = response.recipe;
+        setRecipes(prev => [saved, ...prev]);
+        setActiveRecipe(saved);
+      }
+    } catch (error) {
+      console.error('Failed to save recipe:', error);
+      alert(error instanceof Error ? error.message : 'Failed to save recipe');
+    } finally {
+      setIsSavingRecipe(false);
+    }
+  };
+
   const handleMethodSelect = (method: BrewMethod) => {
     setSelectedMethod(method);
     setCurrentStep('configure');
   };
 
+  const handleSaveMethod = async (data: BrewMethodInput) => {
+    try {
+      const response = editingMethod && editingMethod !== 'new'
+        ? await api.updateMethod(editingMethod.id, data)
+        : await api.createMethod(data);
+
+      if (response.success && response.method) {
+        const saved = response.method;
+        setMethods(prev =>
+          [...prev.filter(m => m.id !== saved.id), saved].sort((a, b) => a.name.localeCompare(b.name))
+        );
+        setEditingMethod(null);
+      } else {
+        throw new Error(response.error || 'Failed to save method');
+      }
+    } catch (error) {
+      console.error('Failed to save method:', error);
+      alert(error instanceof Error ? error.message : 'Failed to save method');
+    }
+  };
+
+  const handleDeleteMethod = async (method: BrewMethod) => {
+    if (!confirm(`Delete "${method.name}"? This cannot be undone.`)) return;
+
+    try {
+      await api.deleteMethod(method.id);
+      setMethods(prev => prev.filter(m => m.id !== method.id));
+    } catch (error) {
+      console.error('Failed to delete method:', error);
+      alert(error instanceof Error ? error.message : 'Failed to delete method');
+    }
+  };
+
   const handleConfigChange = useCallback((config: BrewConfigData) => {
-    setBrewConfig(config);
+    setBrewConfig(config.batch ? configForBrew(config, 0) : config);
   }, []);
 
   const handleStartBrew = () => {
+    if (selectedMethod?.kind === 'COLD_BREW' && brewConfig) {
+      const startedAt = Date.now();
+      localStorage.setItem(
+        STEEP_STORAGE_KEY,
+        JSON.stringify({ methodId: selectedMethod.id, config: brewConfig, startedAt })
+      );
+      setSteepStartedAt(startedAt);
+    }
     setCurrentStep('timer');
   };
 
+  const handleLeaveTimer = () => {
+    if (steepStartedAt) {
+      if (!confirm('Abandon this steep?')) return;
+      localStorage.removeItem(STEEP_STORAGE_KEY);
+      setSteepStartedAt(null);
+    }
+    setCurrentStep('schedule');
+  };
+
   const handleTimerFinish = (elapsedSec: number, pours: ActualPour[]) => {
+    localStorage.removeItem(STEEP_STORAGE_KEY);
+    setSteepStartedAt(null);
     setTimerElapsedSec(elapsedSec);
     setActualPours(pours);
     setCurrentStep('complete');
@@ -104,6 +360,14 @@ export function BrewGuide() {
     setCurrentStep('session');
   };
 
+  const handleNextBrew = () => {
+    if (!brewConfig || !hasNextBrew(brewConfig)) return;
+    setBrewConfig(configForBrew(brewConfig, (brewConfig.batchIndex ?? 0) + 1));
+    setTimerElapsedSec(0);
+    setActualPours([]);
+    setCurrentStep('schedule');
+  };
+
   const handleSaveSession = async (sessionData: any) => {
     if (!selectedMethod || !brewConfig) return;
 
@@ -114,12 +378,19 @@ export function BrewGuide() {
         durationSec: timerElapsedSec,
         coffeeGrams: brewConfig.coffeeGrams,
         waterMl: brewConfig.waterMl,
-        yieldMl: brewConfig.customYield ? (brewConfig.yieldMl || 0) : (brewConfig.cups * (settings?.cupSizeMl || 240)),
+        bypassMl: brewConfig.bypassMl,
+        yieldMl: targetYieldOf(brewConfig, settings?.cupSizeMl || 240),
         brewRatio: brewConfig.ratio,
         grindSetting: sessionData.grindSetting,
+        grinderId: sessionData.grinderId,
+        grindValue: sessionData.grinderId ? sessionData.grindValue : undefined,
         waterTempC: sessionData.waterTempC,
+        waterProfileId: sessionData.waterProfileId,
         rating: sessionData.rating,
         notes: sessionData.notes,
+        tdsPercent: sessionData.tdsPercent,
+        shotTimeSec: sessionData.shotTimeSec,
+        outputGrams: sessionData.outputGrams,
         pours: actualPours.map(pour => ({
           timestamp: pour.actualAtSec,
           volumeMl: pour.volumeMl,
@@ -133,7 +404,9 @@ export function BrewGuide() {
       };
 
       const response = await api.createSession(sessionPayload);
-      if (response.success) {
+      if (response.success && hasNextBrew(brewConfig)) {
+        handleNextBrew();
+      } else if (response.success) {
         navigate('/logbook');
       } else {
         throw new Error(response.error || 'Failed to save session');
@@ -147,16 +420,22 @@ export function BrewGuide() {
   };
 
   const handleSkipSession = () => {
+    if (hasNextBrew(brewConfig)) {
+      handleNextBrew();
+      return;
+    }
     navigate('/');
   };
 
   const handleBackToMethods = () => {
     setSelectedMethod(null);
     setBrewConfig(null);
+    setActiveRecipe(null);
     setCurrentStep('method');
   };
 
   const handleBackToConfigure = () => {
+    setActiveRecipe(null);
     setCurrentStep('configure');
   };
 
@@ -226,6 +505,10 @@ export function BrewGuide() {
     </div>
   );
 
+  // Nothing brews hotter than the local boiling point
+  const brewTempC: number | undefined =
+    activeRecipe?.tempC ?? brewConfig?.tempC ?? selectedMethod?.presets?.tempC;
+
   const renderContent = () => {
     if (isLoadingMethods) {
       return (
@@ -265,14 +548,57 @@ export function BrewGuide() {
       case 'method':
         return (
           <div>
+            <div className="flex justify-end mb-4">
+              <button
+                onClick={() => setEditingMethod('new')}
+                className="btn btn-secondary"
+              >
+                + Add Custom Method
+              </button>
+            </div>
+
+            <RecipeList
+              recipes={recipes}
+              onBrew={handleBrewFromRecipe}
+              onDelete={handleDeleteRecipe}
+            />
+
+            {editingMethod && (
+              <div className="max-w-3xl mx-auto mb-6">
+                <MethodForm
+                  key={editingMethod === 'new' ? 'new' : editingMethod.id}
+                  method={editingMethod === 'new' ? null : editingMethod}
+                  onSave={handleSaveMethod}
+                  onCancel={() => setEditingMethod(null)}
+                />
+              </div>
+            )}
+
             <div className="grid md:grid-cols-2 lg:grid-cols-3 gap-6">
               {methods.map((method) => (
-                <MethodCard
-                  key={method.id}
-                  method={method}
-                  onSelect={handleMethodSelect}
-                  isSelected={selectedMethod?.id === method.id}
-                />
+                <div key={method.id}>
+                  <MethodCard
+                    method={method}
+                    onSelect={handleMethodSelect}
+                    isSelected={selectedMethod?.id === method.id}
+                  />
+                  {method.isCustom && (
+                    <div className="flex justify-end space-x-4 mt-2 text-sm">
+                      <button
+                        onClick={() => setEditingMethod(method)}
+                        className="text-primary-600 hover:text-primary-700 dark:text-primary-400"
+                      >
+                        Edit
+                      </button>
+                      <button
+                        onClick={() => handleDeleteMethod(method)}
+                        className="text-red-600 hover:text-red-700 dark:text-red-400"
+                      >
+                        Delete
+                      </button>
+                    </div>
+                  )}
+                </div>
               ))}
             </div>
           </div>
@@ -335,32 +661,55 @@ export function BrewGuide() {
                   </button>
                   <div>
                     <h2 className="text-xl font-bold text-gray-900 dark:text-white">
-                      Ready to Brew
+                      {activeRecipe
+                        ? activeRecipe.name
+                        : brewConfig.batch
+                        ? `Brew ${(brewConfig.batchIndex ?? 0) + 1} of ${brewConfig.batch.brews.length}`
+                        : 'Ready to Brew'}
                     </h2>
                     <p className="text-sm text-gray-500 dark:text-gray-400">
                       Review your brewing schedule
                     </p>
                   </div>
                 </div>
-                <button
-                  onClick={handleStartBrew}
-                  className="btn btn-primary flex items-center space-x-2"
-                >
-                  <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
-                    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M14.828 14.828a4 4 0 01-5.656 0M9 10h1m4 0h1m-6 4h6" />
-                  </svg>
-                  <span>Start Timer</span>
-                </button>
+                <div className="flex items-center space-x-3">
+                  {!activeRecipe && !brewConfig.batch && (
+                    <button
+                      onClick={handleSaveRecipe}
+                      disabled={isSavingRecipe}
+                      className="btn btn-secondary"
+                    >
+                      {isSavingRecipe ? 'Saving...' : 'Save as Recipe'}
+                    </button>
+                  )}
+                  <button
+                    onClick={handleStartBrew}
+                    className="btn btn-primary flex items-center space-x-2"
+                  >
+                    <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                      <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M14.828 14.828a4 4 0 01-5.656 0M9 10h1m4 0h1m-6 4h6" />
+                    </svg>
+                    <span>{selectedMethod.kind === 'COLD_BREW' ? 'Start Steep' : 'Start Timer'}</span>
+                  </button>
+                </div>
               </div>
             </div>
 
             <PourSchedule
               pours={brewConfig.schedule}
-              tempC={selectedMethod.presets?.tempC}
-              grind={selectedMethod.presets?.grind}
+              tempC={brewTempC === undefined ? undefined : cappedTempC(brewTempC, settings?.altitudeM ?? 0)}
+              grind={activeRecipe?.grind ?? brewConfig.grind ?? selectedMethod.presets?.grind}
+              grinderSetting={grinderSettingLabel(
+                grinders.find(g => g.id === settings?.activeGrinderId),
+                activeRecipe?.grind ?? brewConfig.grind ?? selectedMethod.presets?.grind
+              ) ?? undefined}
               filter={selectedMethod.presets?.filter}
               totalWaterMl={brewConfig.waterMl}
               coffeeGrams={brewConfig.coffeeGrams}
+              iceGrams={brewConfig.iceGrams}
+              bypassMl={brewConfig.bypassMl}
+              steepHours={brewConfig.coldBrew?.steepHours}
+              espresso={brewConfig.espresso}
             />
           </div>
         ) : null;
@@ -372,7 +721,7 @@ export function BrewGuide() {
               <div className="flex items-center justify-between">
                 <div className="flex items-center space-x-3">
                   <button
-                    onClick={() => setCurrentStep('schedule')}
+                    onClick={handleLeaveTimer}
                     className="text-gray-400 hover:text-gray-600 dark:hover:text-gray-300"
                   >
                     <svg className="w-6 h-6" fill="none" stroke="currentColor" viewBox="0 0 24 24">
@@ -384,17 +733,29 @@ export function BrewGuide() {
                       Brewing {selectedMethod.name}
                     </h2>
                     <p className="text-sm text-gray-500 dark:text-gray-400">
-                      Follow the timer and complete each step
+                      {steepStartedAt
+                        ? 'Come back when it is time to filter'
+                        : 'Follow the timer and complete each step'}
                     </p>
                   </div>
                 </div>
               </div>
             </div>
 
-            <Timer
-              schedule={brewConfig.schedule}
-              onFinish={handleTimerFinish}
-            />
+            {steepStartedAt && brewConfig.coldBrew ? (
+              <ColdBrewTimeline
+                coffeeGrams={brewConfig.coffeeGrams}
+                waterMl={brewConfig.waterMl}
+                plan={brewConfig.coldBrew}
+                startedAt={steepStartedAt}
+                onFinish={handleTimerFinish}
+              />
+            ) : (
+              <Timer
+                schedule={brewConfig.schedule}
+                onFinish={handleTimerFinish}
+              />
+            )}
           </div>
         ) : null;
 
@@ -416,10 +777,17 @@ export function BrewGuide() {
 
               {/* Brew Summary */}
               <div className="text-gray-600 dark:text-gray-300 mb-6">
-                <div className="font-medium text-lg mb-1">{selectedMethod.name}</div>
+                <div className="font-medium text-lg mb-1">
+                  {selectedMethod.name}
+                  {brewConfig.batch && ` · brew ${(brewConfig.batchIndex ?? 0) + 1} of ${brewConfig.batch.brews.length}`}
+                </div>
                 <div className="text-sm space-y-1">
-                  <div>{Math.floor(timerElapsedSec / 60)}:{(timerElapsedSec % 60).toString().padStart(2, '0')} total time</div>
-                  <div>{brewConfig.coffeeGrams}g coffee &bull; {brewConfig.waterMl}ml water</div>
+                  <div>{formatDuration(timerElapsedSec)} total time</div>
+                  <div>
+                    {brewConfig.espresso
+                      ? <>{brewConfig.coffeeGrams}g in &bull; {brewConfig.espresso.beverageGrams}g out</>
+                      : <>{brewConfig.coffeeGrams}g coffee &bull; {brewConfig.waterMl}ml water</>}
+                  </div>
                 </div>
               </div>
 
@@ -435,7 +803,7 @@ export function BrewGuide() {
                   onClick={handleSkipSession}
                   className="text-gray-500 hover:text-gray-700 dark:text-gray-400 dark:hover:text-gray-200 text-sm"
                 >
-                  Skip logging
+                  {hasNextBrew(brewConfig) ? 'Skip logging, start the next brew' : 'Skip logging'}
                 </button>
               </div>
             </div>
@@ -450,7 +818,11 @@ export function BrewGuide() {
               durationSec={timerElapsedSec}
               coffeeGrams={brewConfig.coffeeGrams}
               waterMl={brewConfig.waterMl}
-              yieldMl={brewConfig.customYield ? (brewConfig.yieldMl || 0) : (brewConfig.cups * (settings?.cupSizeMl || 240))}
+              bypassMl={brewConfig.bypassMl}
+              yieldMl={targetYieldOf(brewConfig, settings?.cupSizeMl || 240)}
+              tempC={activeRecipe?.tempC ?? brewConfig.tempC}
+              grind={activeRecipe?.grind ?? brewConfig.grind}
+              roastDate={brewConfig.roastDate}
               actualPours={actualPours}
               onSave={handleSaveSession}
               onCancel={handleSkipSession}
@@ -1,38 +1,121 @@
-import { useState, useEffect, useRef } from 'react';
+import { useState, useEffect, useRef, useCallback } from 'react';
 import { useNavigate, useSearchParams } from 'react-router-dom';
 import { useSettings } from '../state/useSettings';
-import { api, BrewSession, BrewMethod } from '../lib/api';
-import { formatWeight, formatVolume, formatTemperature } from '../lib/units';
+import { useWaterProfiles } from '../state/useWaterProfiles';
+import { api, BrewSession, BrewMethod, SessionQuery, SessionSortField } from '../lib/api';
+import { formatWeight, formatVolume, formatTemperature, formatDuration } from '@coffee-brewster/brew-math';
 import { useDebounce } from '../hooks/useDebounce';
+import { SessionImportWizard } from '../components/SessionImportWizard';
 
 interface LogbookFilters {
   search: string;
   methodId: string;
+  waterProfileId: string;
   rating: string;
   dateFrom: string;
   dateTo: string;
+  roaster: string;
+  origin: string;
+  minRatio: string;
+  maxRatio: string;
+  minMinutes: string;
+  maxMinutes: string;
+  sort: string; // field:direction, empty for the default order
 }
 
+// Filter name -> URL param, so a filtered logbook can be bookmarked
+const FILTER_PARAMS: Record<keyof LogbookFilters, string> = {
+  search: 'search',
+  methodId: 'method',
+  waterProfileId: 'water',
+  rating: 'rating',
+  dateFrom: 'from',
+  dateTo: 'to',
+  roaster: 'roaster',
+  origin: 'origin',
+  minRatio: 'ratioMin',
+  maxRatio: 'ratioMax',
+  minMinutes: 'timeMin',
+  maxMinutes: 'timeMax',
+  sort: 'sort',
+};
+
+const EMPTY_FILTERS = Object.fromEntries(
+  Object.keys(FILTER_PARAMS).map((key) => [key, ''])
+) as unknown as LogbookFilters;
+
+const SORT_OPTIONS = [
+  { value: '', label: 'Best match / newest' },
+  { value: 'date:asc', label: 'Oldest first' },
+  { value: 'rating:desc', label: 'Highest rated' },
+  { value: 'rating:asc', label: 'Lowest rated' },
+  { value: 'ratio:asc', label: 'Strongest ratio' },
+  { value: 'ratio:desc', label: 'Weakest ratio' },
+  { value: 'coffee:desc', label: 'Most coffee' },
+  { value: 'coffee:asc', label: 'Least coffee' },
+];
+
+const numberOrUndefined = (value: string) => (value === '' ? undefined : Number(value));
+
+// Dates are picked as local days; the API wants the instants they start and end
+const toSessionQuery = (filters: LogbookFilters): SessionQuery => {
+  const [sort, order] = filters.sort.split(':') as [SessionSortField | '', 'asc' | 'desc' | undefined];
+  const minMinutes = numberOrUndefined(filters.minMinutes);
+  const maxMinutes = numberOrUndefined(filters.maxMinutes);
+
+  return {
+    q: filters.search || undefined,
+    methodId: filters.methodId || undefined,
+    waterProfileId: filters.waterProfileId || undefined,
+    minRating: numberOrUndefined(filters.rating),
+    dateFrom: filters.dateFrom ? new Date(`${filters.dateFrom}T00:00`).toISOString() : undefined,
+    dateTo: filters.dateTo ? new Date(`${filters.dateTo}T23:59:59.999`).toISOString() : undefined,
+    roaster: filters.roaster.trim() || undefined,
+    origin: filters.origin.trim() || undefined,
+    minRatio: numberOrUndefined(filters.minRatio),
+    maxRatio: numberOrUndefined(filters.maxRatio),
+    minDurationSec: minMinutes === undefined ? undefined : Math.round(minMinutes * 60),
+    maxDurationSec: maxMinutes === undefined ? undefined : Math.round(maxMinutes * 60),
+    sort: sort || undefined,
+    order,
+    limit: 20,
+  };
+};
+
 export function Logbook() {
   const navigate = useNavigate();
   const [searchParams, setSearchParams] = useSearchParams();
   const { settings } = useSettings();
+  const { waterProfiles, loadWaterProfiles } = useWaterProfiles();
   const searchInputRef = useRef<HTMLInputElement>(null);
   
   const [sessions, setSessions] = useState<BrewSession[]>([]);
+  const [total, setTotal] = useState(0);
+  const [nextCursor, setNextCursor] = useState<string | null>(null);
+  const [isFetching, setIsFetching] = useState(false);
+  const [isLoadingMore, setIsLoadingMore] = useState(false);
+  const [isExporting, setIsExporting] = useState(false);
+  const [exportError, setExportError] = useState<string | null>(null);
+  const [showImport, setShowImport] = useState(false);
+  const [importNotice, setImportNotice] = useState<string | null>(null);
+  // Bumped after an import so the list reloads with the new sessions
+  const [reloadKey, setReloadKey] = useState(0);
+  const loadMoreRef = useRef<HTMLDivElement>(null);
+  // Bumped on every new set of filters so late pages of the old list are dropped
+  const requestRef = useRef(0);
   const [methods, setMethods] = useState<BrewMethod[]>([]);
   const [isLoading, setIsLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
-  const [filters, setFilters] = useState<LogbookFilters>({
-    search: searchParams.get('search') || '',
-    methodId: searchParams.get('method') || '',
-    rating: searchParams.get('rating') || '',
-    dateFrom: searchParams.get('from') || '',
-    dateTo: searchParams.get('to') || '',
+  const [filters, setFilters] = useState<LogbookFilters>(() => {
+    const initial = { ...EMPTY_FILTERS };
+    (Object.keys(FILTER_PARAMS) as (keyof LogbookFilters)[]).forEach((key) => {
+      initial[key] = searchParams.get(FILTER_PARAMS[key]) || '';
+    });
+    return initial;
   });
   
-  // Debounce search value to prevent excessive API calls
-  const debouncedSearch = useDebounce(filters.search, 500);
+  // Debounce filters to prevent excessive API calls while typing
+  const debouncedFilters = useDebounce(filters, 500);
 
   // Load methods on mount
   useEffect(() => {
@@ -48,46 +131,120 @@ export function Logbook() {
     };
     
     loadMethods();
-  }, []);
+    loadWaterProfiles();
+  }, [loadWaterProfiles]);
 
-  // Load sessions when debounced search changes
+  // Load sessions when the debounced filters change
   useEffect(() => {
+    let cancelled = false;
+    requestRef.current += 1;
+
     const loadSessions = async () => {
-      setIsLoading(true);
+      setIsFetching(true);
       try {
-        const sessionsResponse = await api.getSessions({
-          q: debouncedSearch || undefined,
-          page: 1,
-          limit: 50,
-        });
+        const sessionsResponse = await api.getSessions(toSessionQuery(debouncedFilters));
+        if (cancelled) return;
 
         if (sessionsResponse.success && sessionsResponse.sessions) {
           setSessions(sessionsResponse.sessions);
+          setTotal(sessionsResponse.pagination?.total ?? sessionsResponse.sessions.length);
+          setNextCursor(sessionsResponse.pagination?.nextCursor ?? null);
         } else {
           throw new Error(sessionsResponse.error || 'Failed to load sessions');
         }
       } catch (error) {
+        if (cancelled) return;
         console.error('Failed to load sessions:', error);
         setError('Failed to load your brewing sessions');
       } finally {
-        setIsLoading(false);
+        if (!cancelled) {
+          setIsLoading(false);
+          setIsFetching(false);
+        }
       }
     };
 
     loadSessions();
-  }, [debouncedSearch]);
+    return () => {
+      cancelled = true;
+    };
+  }, [debouncedFilters, reloadKey]);
+
+  const loadMore = useCallback(async () => {
+    if (!nextCursor || isLoadingMore) return;
+
+    const request = requestRef.current;
+    setIsLoadingMore(true);
+    try {
+      const sessionsResponse = await api.getSessions({
+        ...toSessionQuery(debouncedFilters),
+        cursor: nextCursor,
+      });
+      if (request !== requestRef.current) return;
+
+      if (sessionsResponse.success && sessionsResponse.sessions) {
+        setSessions((prev) => [...prev, ...sessionsResponse.sessions!]);
+        setNextCursor(sessionsResponse.pagination?.nextCursor ?? null);
+      } else {
+        throw new Error(sessionsResponse.error || 'Failed to load more sessions');
+      }
+    } catch (error) {
+      console.error('Failed to load more sessions:', error);
+    } finally {
+      setIsLoadingMore(false);
+    }
+  }, [nextCursor, isLoadingMore, debouncedFilters]);
+
+  // Downloads every session the current filters match, not just those loaded
+  const handleExport = async () => {
+    setIsExporting(true);
+    setExportError(null);
+    try {
+      const blob = await api.exportSessions(toSessionQuery(debouncedFilters));
+      const url = URL.createObjectURL(blob);
+      const link = document.createElement('a');
+      link.href = url;
+      link.download = `brew-logbook-${new Date().toISOString().slice(0, 10)}.csv`;
+      link.click();
+      URL.revokeObjectURL(url);
+    } catch (error) {
+      console.error('Failed to export sessions:', error);
+      setExportError('Failed to export your sessions');
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
+  const handleImported = (count: number) => {
+    setShowImport(false);
+    setImportNotice(`Imported ${count} ${count === 1 ? 'session' : 'sessions'}`);
+    setReloadKey((key) => key + 1);
+  };
+
+  // Load the next page as the end of the list scrolls into view
+  useEffect(() => {
+    const sentinel = loadMoreRef.current;
+    if (!sentinel || !nextCursor || typeof IntersectionObserver === 'undefined') return;
 
-  // Update URL params when filters change (except search which is debounced)
+    const observer = new IntersectionObserver(
+      (entries) => {
+        if (entries[0].isIntersecting) loadMore();
+      },
+      { rootMargin: '400px' }
+    );
+    observer.observe(sentinel);
+    return () => observer.disconnect();
+  }, [loadMore, nextCursor]);
+
+  // Update URL params when the debounced filters change
   useEffect(() => {
     const params = new URLSearchParams();
-    if (debouncedSearch) params.set('search', debouncedSearch);
-    if (filters.methodId) params.set('method', filters.methodId);
-    if (filters.rating) params.set('rating', filters.rating);
-    if (filters.dateFrom) params.set('from', filters.dateFrom);
-    if (filters.dateTo) params.set('to', filters.dateTo);
+    (Object.keys(FILTER_PARAMS) as (keyof LogbookFilters)[]).forEach((key) => {
+      if (debouncedFilters[key]) params.set(FILTER_PARAMS[key], debouncedFilters[key]);
+    });
     
     setSearchParams(params, { replace: true }); // Use replace to avoid adding to history on each keystroke
-  }, [debouncedSearch, filters.methodId, filters.rating, filters.dateFrom, filters.dateTo, setSearchParams]);
+  }, [debouncedFilters, setSearchParams]);
 
   const handleFilterChange = (key: keyof LogbookFilters, value: string) => {
     setFilters(prev => ({ ...prev, [key]: value }));
@@ -101,13 +258,7 @@ export function Logbook() {
   };
 
   const clearFilters = () => {
-    setFilters({
-      search: '',
-      methodId: '',
-      rating: '',
-      dateFrom: '',
-      dateTo: '',
-    });
+    setFilters(EMPTY_FILTERS);
   };
 
   const formatDate = (date: string): string => {
@@ -118,12 +269,6 @@ export function Logbook() {
     });
   };
 
-  const formatTime = (seconds: number): string => {
-    const minutes = Math.floor(seconds / 60);
-    const remainingSeconds = seconds % 60;
-    return `${minutes}:${remainingSeconds.toString().padStart(2, '0')}`;
-  };
-
   const getMethodName = (methodId: string): string => {
     const method = methods.find(m => m.id === methodId);
     return method?.name || 'Unknown Method';
@@ -153,15 +298,10 @@ export function Logbook() {
     );
   };
 
-  const filteredSessions = sessions.filter(session => {
-    if (filters.methodId && session.methodId !== filters.methodId) return false;
-    if (filters.rating && session.rating?.toString() !== filters.rating) return false;
-    if (filters.dateFrom && new Date(session.startedAt) < new Date(filters.dateFrom)) return false;
-    if (filters.dateTo && new Date(session.startedAt) > new Date(filters.dateTo)) return false;
-    return true;
-  });
-
-  const hasActiveFilters = filters.methodId || filters.rating || filters.dateFrom || filters.dateTo;
+  const hasActiveFilters = (Object.keys(FILTER_PARAMS) as (keyof LogbookFilters)[]).some(
+    (key) => key !== 'search' && key !== 'sort' && filters[key]
+  );
+  const isFiltered = hasActiveFilters || Boolean(filters.search);
 
   if (isLoading) {
     return (
@@ -240,7 +380,7 @@ export function Logbook() {
           </div>
 
           {/* Filters */}
-          <div className="grid md:grid-cols-4 gap-4">
+          <div className={`grid gap-4 ${waterProfiles.length > 0 ? 'md:grid-cols-5' : 'md:grid-cols-4'}`}>
             <div>
               <label htmlFor="methodFilter" className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
                 Method
@@ -260,6 +400,27 @@ export function Logbook() {
               </select>
             </div>
 
+            {waterProfiles.length > 0 && (
+              <div>
+                <label htmlFor="waterFilter" className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
+                  Water
+                </label>
+                <select
+                  id="waterFilter"
+                  value={filters.waterProfileId}
+                  onChange={(e) => handleFilterChange('waterProfileId', e.target.value)}
+                  className="input w-full"
+                >
+                  <option value="">All Water</option>
+                  {waterProfiles.map((waterProfile) => (
+                    <option key={waterProfile.id} value={waterProfile.id}>
+                      {waterProfile.name}
+                    </option>
+                  ))}
+                </select>
+              </div>
+            )}
+
             <div>
               <label htmlFor="ratingFilter" className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
                 Rating
@@ -306,6 +467,112 @@ export function Logbook() {
             </div>
           </div>
 
+          <div className="grid gap-4 md:grid-cols-5">
+            <div>
+              <label htmlFor="roasterFilter" className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
+                Roaster
+              </label>
+              <input
+                type="text"
+                id="roasterFilter"
+                value={filters.roaster}
+                onChange={(e) => handleFilterChange('roaster', e.target.value)}
+                className="input w-full"
+                autoComplete="off"
+              />
+            </div>
+
+            <div>
+              <label htmlFor="originFilter" className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
+                Origin
+              </label>
+              <input
+                type="text"
+                id="originFilter"
+                value={filters.origin}
+                onChange={(e) => handleFilterChange('origin', e.target.value)}
+                className="input w-full"
+                autoComplete="off"
+              />
+            </div>
+
+            <div>
+              <span className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
+                Ratio (1:x)
+              </span>
+              <div className="flex items-center gap-2">
+                <input
+                  type="number"
+                  aria-label="Minimum ratio"
+                  placeholder="Min"
+                  min={1}
+                  max={20}
+                  step={0.5}
+                  value={filters.minRatio}
+                  onChange={(e) => handleFilterChange('minRatio', e.target.value)}
+                  className="input w-full"
+                />
+                <input
+                  type="number"
+                  aria-label="Maximum ratio"
+                  placeholder="Max"
+                  min={1}
+                  max={20}
+                  step={0.5}
+                  value={filters.maxRatio}
+                  onChange={(e) => handleFilterChange('maxRatio', e.target.value)}
+                  className="input w-full"
+                />
+              </div>
+            </div>
+
+            <div>
+              <span className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
+                Brew Time (min)
+              </span>
+              <div className="flex items-center gap-2">
+                <input
+                  type="number"
+                  aria-label="Minimum brew time in minutes"
+                  placeholder="Min"
+                  min={0}
+                  step={0.5}
+                  value={filters.minMinutes}
+                  onChange={(e) => handleFilterChange('minMinutes', e.target.value)}
+                  className="input w-full"
+                />
+                <input
+                  type="number"
+                  aria-label="Maximum brew time in minutes"
+                  placeholder="Max"
+                  min={0}
+                  step={0.5}
+                  value={filters.maxMinutes}
+                  onChange={(e) => handleFilterChange('maxMinutes', e.target.value)}
+                  className="input w-full"
+                />
+              </div>
+            </div>
+
+            <div>
+              <label htmlFor="sortOrder" className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
+                Sort By
+              </label>
+              <select
+                id="sortOrder"
+                value={filters.sort}
+                onChange={(e) => handleFilterChange('sort', e.target.value)}
+                className="input w-full"
+              >
+                {SORT_OPTIONS.map((option) => (
+                  <option key={option.value} value={option.value}>
+                    {option.label}
+                  </option>
+                ))}
+              </select>
+            </div>
+          </div>
+
           {/* Clear Filters */}
           {hasActiveFilters && (
             <div className="flex justify-end">
@@ -323,28 +590,70 @@ export function Logbook() {
       {/* Results Summary */}
       <div className="mb-6 flex items-center justify-between">
         <p className="text-gray-600 dark:text-gray-300">
-          {filteredSessions.length === 0 ? (
+          {sessions.length === 0 ? (
             'No sessions found'
           ) : (
-            `Showing ${filteredSessions.length} of ${sessions.length} sessions`
+            `Showing ${sessions.length} of ${total} sessions`
           )}
+          {isFetching && <span className="ml-2 text-sm text-gray-400">Updating…</span>}
         </p>
         
-        {sessions.length > 0 && (
+        <div className="flex items-center gap-3">
           <button
-            onClick={() => navigate('/brew')}
-            className="btn btn-primary"
+            onClick={() => {
+              setShowImport(true);
+              setImportNotice(null);
+            }}
+            disabled={showImport}
+            className="btn btn-secondary"
           >
             <svg className="w-5 h-5 mr-2" fill="none" stroke="currentColor" viewBox="0 0 24 24">
-              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 6v6m0 0v6m0-6h6m-6 0H6" />
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M4 16v1a3 3 0 003 3h10a3 3 0 003-3v-1m-4-8l-4-4m0 0L8 8m4-4v12" />
             </svg>
-            New Session
+            Import
           </button>
-        )}
+          {sessions.length > 0 && (
+            <>
+              <button
+                onClick={handleExport}
+                disabled={isExporting}
+                className="btn btn-secondary"
+              >
+                <svg className="w-5 h-5 mr-2" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                  <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M4 16v1a3 3 0 003 3h10a3 3 0 003-3v-1m-4-4l-4 4m0 0l-4-4m4 4V4" />
+                </svg>
+                {isExporting ? 'Exporting…' : 'Export'}
+              </button>
+              <button
+                onClick={() => navigate('/brew')}
+                className="btn btn-primary"
+              >
+                <svg className="w-5 h-5 mr-2" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                  <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 6v6m0 0v6m0-6h6m-6 0H6" />
+                </svg>
+                New Session
+              </button>
+            </>
+          )}
+        </div>
       </div>
+      {exportError && (
+        <p className="-mt-4 mb-6 text-sm text-red-600 dark:text-red-400">{exportError}</p>
+      )}
+      {importNotice && (
+        <p className="-mt-4 mb-6 text-sm text-green-600 dark:text-green-400">{importNotice}</p>
+      )}
+
+      {showImport && (
+        <SessionImportWizard
+          methods={methods}
+          onImported={handleImported}
+          onCancel={() => setShowImport(false)}
+        />
+      )}
 
       {/* Sessions List */}
-      {filteredSessions.length === 0 ? (
+      {sessions.length === 0 ? (
         <div className="card p-8">
           <div className="text-center">
             <div className="text-gray-400 mb-4">
@@ -353,10 +662,10 @@ export function Logbook() {
               </svg>
             </div>
             <h2 className="text-xl font-bold text-gray-900 dark:text-white mb-2">
-              {sessions.length === 0 ? 'No Brewing Sessions Yet' : 'No Sessions Match Your Filters'}
+              {!isFiltered ? 'No Brewing Sessions Yet' : 'No Sessions Match Your Filters'}
             </h2>
             <p className="text-gray-600 dark:text-gray-300 mb-6">
-              {sessions.length === 0 
+              {!isFiltered
                 ? 'Start brewing to track your sessions and improve your technique.'
                 : 'Try adjusting your search terms or filters to find more sessions.'
               }
@@ -371,7 +680,7 @@ export function Logbook() {
         </div>
       ) : (
         <div className="grid md:grid-cols-2 lg:grid-cols-3 gap-6">
-          {filteredSessions.map((session) => (
+          {sessions.map((session) => (
             <div
               key={session.id}
               onClick={() => navigate(`/logbook/${session.id}`)}
@@ -407,7 +716,7 @@ export function Logbook() {
                 <div>
                   <span className="text-gray-500 dark:text-gray-400">Time:</span>
                   <div className="font-medium text-gray-900 dark:text-white">
-                    {formatTime(session.durationSec)}
+                    {formatDuration(session.durationSec)}
                   </div>
                 </div>
                 <div>
@@ -421,8 +730,25 @@ export function Logbook() {
                 </div>
               </div>
 
-              {/* Notes Preview */}
-              {session.notes && (
+              {/* Search Match, or Notes Preview */}
+              {session.highlight?.some((segment) => segment.match) ? (
+                <div className="mb-4">
+                  <p className="text-sm text-gray-600 dark:text-gray-300 line-clamp-2">
+                    {session.highlight.map((segment, index) =>
+                      segment.match ? (
+                        <mark
+                          key={index}
+                          className="bg-yellow-200 dark:bg-yellow-700 text-gray-900 dark:text-white rounded-sm px-0.5"
+                        >
+                          {segment.text}
+                        </mark>
+                      ) : (
+                        segment.text
+                      )
+                    )}
+                  </p>
+                </div>
+              ) : session.notes && (
                 <div className="mb-4">
                   <p className="text-sm text-gray-600 dark:text-gray-300 line-clamp-2">
                     {session.notes}
@@ -443,6 +769,19 @@ export function Logbook() {
           ))}
         </div>
       )}
+
+      {/* More Sessions */}
+      {nextCursor && (
+        <div ref={loadMoreRef} className="mt-6 flex justify-center">
+          <button
+            onClick={loadMore}
+            disabled={isLoadingMore}
+            className="btn btn-secondary"
+          >
+            {isLoadingMore ? 'Loading…' : 'Load more sessions'}
+          </button>
+        </div>
+      )}
     </div>
   );
 }
\ No newline at end of file
@@ -2,7 +2,8 @@ import { useState, useEffect } from 'react';
 import { useNavigate, useParams } from 'react-router-dom';
 import { useSettings } from '../state/useSettings';
 import { api, BrewSession, BrewMethod } from '../lib/api';
-import { formatWeight, formatVolume, formatTemperature } from '../lib/units';
+import { formatWeight, formatVolume, formatTemperature, formatDuration, formatGrinderSetting } from '@coffee-brewster/brew-math';
+import { BrewingControlChart } from '../components/BrewingControlChart';
 
 export function SessionDetail() {
   const navigate = useNavigate();
@@ -14,6 +15,10 @@ export function SessionDetail() {
   const [isLoading, setIsLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
   const [isDeleting, setIsDeleting] = useState(false);
+  const [methodSessions, setMethodSessions] = useState<BrewSession[]>([]);
+  const [tdsInput, setTdsInput] = useState('');
+  const [isSavingTds, setIsSavingTds] = useState(false);
+  const [tdsError, setTdsError] = useState<string | null>(null);
 
   useEffect(() => {
     const loadSession = async () => {
@@ -43,6 +48,41 @@ export function SessionDetail() {
     loadSession();
   }, [id]);
 
+  // Other measured brews with the same method give the chart some context
+  useEffect(() => {
+    if (!session?.tdsPercent) return;
+
+    api
+      .getSessions({ methodId: session.methodId, limit: 50 })
+      .then((response) => setMethodSessions(response.sessions ?? []))
+      .catch((error) => console.error('Failed to load method sessions:', error));
+  }, [session?.methodId, session?.tdsPercent]);
+
+  const handleSaveTds = async () => {
+    const tdsPercent = parseFloat(tdsInput);
+    if (!session || !(tdsPercent >= 0.1 && tdsPercent <= 25)) {
+      setTdsError('TDS must be between 0.1% and 25%');
+      return;
+    }
+
+    setTdsError(null);
+    setIsSavingTds(true);
+    try {
+      const response = await api.updateSession(session.id, { tdsPercent });
+      if (response.success && response.session) {
+        setSession(response.session);
+        setTdsInput('');
+      } else {
+        throw new Error(response.error || 'Failed to save TDS');
+      }
+    } catch (error) {
+      console.error('Failed to save TDS:', error);
+      setTdsError('Failed to save TDS reading. Please try again.');
+    } finally {
+      setIsSavingTds(false);
+    }
+  };
+
   const handleDelete = async () => {
     if (!session || !confirm('Are you sure you want to delete this brewing session? This action cannot be undone.')) {
       return;
@@ -73,12 +113,6 @@ export function SessionDetail() {
     });
   };
 
-  const formatTime = (seconds: number): string => {
-    const minutes = Math.floor(seconds / 60);
-    const remainingSeconds = seconds % 60;
-    return `${minutes}:${remainingSeconds.toString().padStart(2, '0')}`;
-  };
-
   const renderStarRating = (rating: number | null) => {
     if (!rating) return <span className="text-gray-400">Not rated</span>;
     
@@ -209,7 +243,11 @@ export function SessionDetail() {
             <div className="text-2xl font-bold text-blue-900 dark:text-blue-100 mb-1">
               {settings ? formatVolume(session.waterMl, settings) : `${session.waterMl}ml`}
             </div>
-            <div className="text-sm text-blue-700 dark:text-blue-300">Water</div>
+            <div className="text-sm text-blue-700 dark:text-blue-300">
+              {session.bypassMl
+                ? `Water (${settings ? formatVolume(session.bypassMl, settings) : `${session.bypassMl}ml`} bypass)`
+                : 'Water'}
+            </div>
           </div>
           
           <div className="text-center p-4 bg-green-50 dark:bg-green-900/20 rounded-lg">
@@ -221,7 +259,7 @@ export function SessionDetail() {
           
           <div className="text-center p-4 bg-orange-50 dark:bg-orange-900/20 rounded-lg">
             <div className="text-2xl font-bold text-orange-900 dark:text-orange-100 mb-1">
-              {formatTime(session.durationSec)}
+              {formatDuration(session.durationSec)}
             </div>
             <div className="text-sm text-orange-700 dark:text-orange-300">Duration</div>
           </div>
@@ -257,12 +295,44 @@ export function SessionDetail() {
                 {session.grindSetting || 'Not recorded'}
               </span>
             </div>
+            {session.grinder && session.grindValue !== null && (
+              <div className="flex justify-between">
+                <span className="text-gray-600 dark:text-gray-400">Grinder:</span>
+                <span className="font-medium text-gray-900 dark:text-white">
+                  {formatGrinderSetting(session.grinder, session.grindValue, session.grindValue)}
+                </span>
+              </div>
+            )}
+            {session.waterProfile && (
+              <div className="flex justify-between">
+                <span className="text-gray-600 dark:text-gray-400">Water:</span>
+                <span className="font-medium text-gray-900 dark:text-white">
+                  {session.waterProfile.name} (GH {session.waterProfile.ghPpm}, KH {session.waterProfile.khPpm} ppm)
+                </span>
+              </div>
+            )}
             <div className="flex justify-between">
               <span className="text-gray-600 dark:text-gray-400">Ratio:</span>
               <span className="font-medium text-gray-900 dark:text-white">
                 1:{session.brewRatio ? session.brewRatio.toFixed(1) : (session.waterMl / session.coffeeGrams).toFixed(1)}
               </span>
             </div>
+            {session.shotTimeSec !== null && (
+              <div className="flex justify-between">
+                <span className="text-gray-600 dark:text-gray-400">Shot Time:</span>
+                <span className="font-medium text-gray-900 dark:text-white">
+                  {session.shotTimeSec}s
+                </span>
+              </div>
+            )}
+            {session.outputGrams !== null && (
+              <div className="flex justify-between">
+                <span className="text-gray-600 dark:text-gray-400">Output Weight:</span>
+                <span className="font-medium text-gray-900 dark:text-white">
+                  {settings ? formatWeight(session.outputGrams, settings) : `${session.outputGrams}g`}
+                </span>
+              </div>
+            )}
           </div>
         </div>
 
@@ -273,6 +343,14 @@ export function SessionDetail() {
           </h3>
           {bean ? (
             <div className="space-y-3">
+              {bean.name && (
+                <div className="flex justify-between">
+                  <span className="text-gray-600 dark:text-gray-400">Bean:</span>
+                  <span className="font-medium text-gray-900 dark:text-white">
+                    {bean.name}
+                  </span>
+                </div>
+              )}
               {bean.variety && (
                 <div className="flex justify-between">
                   <span className="text-gray-600 dark:text-gray-400">Variety/Origin:</span>
@@ -306,6 +384,61 @@ export function SessionDetail() {
         </div>
       </div>
 
+      {/* Strength & Extraction */}
+      <div className="card p-6 mb-6">
+        <h3 className="text-lg font-bold text-gray-900 dark:text-white mb-4">
+          Strength & Extraction
+        </h3>
+        {session.tdsPercent && session.extractionYield ? (
+          <BrewingControlChart
+            kind={method?.kind}
+            current={{
+              id: session.id,
+              tdsPercent: session.tdsPercent,
+              extractionYield: session.extractionYield,
+            }}
+            others={methodSessions
+              .filter((s) => s.id !== session.id && s.tdsPercent && s.extractionYield)
+              .map((s) => ({
+                id: s.id,
+                tdsPercent: s.tdsPercent!,
+                extractionYield: s.extractionYield!,
+              }))}
+          />
+        ) : (
+          <div>
+            <p className="text-gray-500 dark:text-gray-400 mb-3">
+              Add a refractometer reading to see where this brew lands on the control chart.
+            </p>
+            <div className="flex items-center space-x-2">
+              <input
+                type="number"
+                value={tdsInput}
+                onChange={(e) => setTdsInput(e.target.value)}
+                min="0.1"
+                max="25"
+                step="0.01"
+                placeholder="TDS, e.g. 1.35"
+                className="input w-40"
+              />
+              <span className="text-sm text-gray-500 dark:text-gray-400">%</span>
+              <button
+                onClick={handleSaveTds}
+                disabled={isSavingTds || !tdsInput}
+                className="btn btn-primary"
+              >
+                {isSavingTds ? 'Saving...' : 'Save'}
+              </button>
+            </div>
+            {tdsError && (
+              <p className="mt-1 text-sm text-red-600 dark:text-red-400">
+                {tdsError}
+              </p>
+            )}
+          </div>
+        )}
+      </div>
+
       {/* Pour Timeline */}
       {pours.length > 0 && (
         <div className="card p-6 mb-6">
@@ -318,7 +451,7 @@ export function SessionDetail() {
               <div key={index} className="flex items-center space-x-4">
                 <div className="flex-shrink-0 w-16 text-center">
                   <div className="text-sm font-mono text-primary-600 dark:text-primary-400">
-                    {formatTime(pour.atSec || pour.timestamp || 0)}
+                    {formatDuration(pour.atSec || pour.timestamp || 0)}
                   </div>
                 </div>
                 
@@ -364,7 +497,7 @@ export function SessionDetail() {
                     }`}></div>
                     <div className="mt-2 text-xs text-center">
                       <div className="font-mono text-gray-600 dark:text-gray-400">
-                        {formatTime(pour.atSec || pour.timestamp || 0)}
+                        {formatDuration(pour.atSec || pour.timestamp || 0)}
                       </div>
                       <div className="text-gray-500 dark:text-gray-500 max-w-16 truncate">
                         {pour.label}
@@ -5,8 +5,13 @@ import { z } from 'zod';
 import { useNavigate } from 'react-router-dom';
 import { useAuth } from '../state/useAuth';
 import { useSettings } from '../state/useSettings';
-import { formatCupSize } from '../lib/units';
-import { api } from '../lib/api';
+import { useGrinders } from '../state/useGrinders';
+import { GrinderForm } from '../components/GrinderForm';
+import { useWaterProfiles } from '../state/useWaterProfiles';
+import { WaterProfileForm } from '../components/WaterProfileForm';
+import { AccountBackup } from '../components/AccountBackup';
+import { formatCupSize, formatTemperature, boilingPointAt, SCALE_UNITS } from '@coffee-brewster/brew-math';
+import { api, Grinder, GrinderInput, WaterProfile, WaterProfileInput } from '../lib/api';
 
 const settingsSchema = z.object({
   units: z.enum(['METRIC', 'IMPERIAL']),
@@ -19,17 +24,29 @@ const settingsSchema = z.object({
     .min(100, 'Cup size must be at least 100ml')
     .max(1000, 'Cup size must be less than 1000ml'),
   soundEnabled: z.boolean(),
+  altitudeM: z
+    .number()
+    .int()
+    .min(0, 'Altitude cannot be below sea level')
+    .max(6000, 'Altitude must be less than 6000m'),
+  activeGrinderId: z.string().nullable(),
 });
 
 type SettingsFormData = z.infer<typeof settingsSchema>;
 
 export function Settings() {
   const { user, logout } = useAuth();
-  const { settings, updateSettings, isLoading, error } = useSettings();
+  const { settings, updateSettings, loadSettings, isLoading, error } = useSettings();
+  const { grinders, loadGrinders, saveGrinder, deleteGrinder } = useGrinders();
+  const { waterProfiles, loadWaterProfiles, saveWaterProfile, deleteWaterProfile } = useWaterProfiles();
   const navigate = useNavigate();
   const [methods, setMethods] = useState<any[]>([]);
   const [isLoadingMethods, setIsLoadingMethods] = useState(true);
   const [saveMessage, setSaveMessage] = useState<string | null>(null);
+  const [editingGrinder, setEditingGrinder] = useState<Grinder | null>(null);
+  const [showGrinderForm, setShowGrinderForm] = useState(false);
+  const [editingWaterProfile, setEditingWaterProfile] = useState<WaterProfile | null>(null);
+  const [showWaterProfileForm, setShowWaterProfileForm] = useState(false);
 
   const {
     register,
@@ -44,6 +61,8 @@ export function Settings() {
 
   const watchedUnits = watch('units');
   const watchedCupSize = watch('cupSizeMl');
+  const watchedAltitude = watch('altitudeM');
+  const watchedTempUnit = watch('tempUnit');
 
   // Load brewing methods for default method selection
   useEffect(() => {
@@ -61,7 +80,9 @@ export function Settings() {
     };
 
     loadMethods();
-  }, []);
+    loadGrinders();
+    loadWaterProfiles();
+  }, [loadGrinders, loadWaterProfiles]);
 
   // Reset form when settings change
   useEffect(() => {
@@ -82,6 +103,46 @@ export function Settings() {
     }
   };
 
+  const handleSaveGrinder = async (data: GrinderInput) => {
+    await saveGrinder(editingGrinder?.id ?? null, data);
+    setShowGrinderForm(false);
+    setEditingGrinder(null);
+  };
+
+  const handleDeleteGrinder = async (grinder: Grinder) => {
+    if (!window.confirm(`Delete ${grinder.name}? Sessions logged with it keep their grind value.`)) {
+      return;
+    }
+
+    try {
+      await deleteGrinder(grinder.id);
+      // The server clears the active grinder if it was this one
+      if (settings?.activeGrinderId === grinder.id) {
+        await loadSettings();
+      }
+    } catch (error) {
+      console.error('Failed to delete grinder:', error);
+    }
+  };
+
+  const handleSaveWaterProfile = async (data: WaterProfileInput) => {
+    await saveWaterProfile(editingWaterProfile?.id ?? null, data);
+    setShowWaterProfileForm(false);
+    setEditingWaterProfile(null);
+  };
+
+  const handleDeleteWaterProfile = async (waterProfile: WaterProfile) => {
+    if (!window.confirm(`Delete ${waterProfile.name}? Sessions brewed with it stay in your logbook.`)) {
+      return;
+    }
+
+    try {
+      await deleteWaterProfile(waterProfile.id);
+    } catch (error) {
+      console.error('Failed to delete water profile:', error);
+    }
+  };
+
   const handleLogout = async () => {
     try {
       await logout();
@@ -354,6 +415,35 @@ export function Settings() {
                   </p>
                 </div>
 
+                {/* Altitude */}
+                <div>
+                  <label htmlFor="altitudeM" className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
+                    Altitude
+                  </label>
+                  <div className="flex items-center space-x-3">
+                    <input
+                      {...register('altitudeM', { valueAsNumber: true })}
+                      id="altitudeM"
+                      type="number"
+                      min="0"
+                      max="6000"
+                      step="50"
+                      className="input w-32"
+                    />
+                    <span className="text-sm text-gray-500 dark:text-gray-400">
+                      m (water boils at {settings ? formatTemperature(boilingPointAt(watchedAltitude || 0), { ...settings, tempUnit: watchedTempUnit }) : ''})
+                    </span>
+                  </div>
+                  {errors.altitudeM && (
+                    <p className="mt-1 text-sm text-red-600 dark:text-red-400">
+                      {errors.altitudeM.message}
+                    </p>
+                  )}
+                  <p className="mt-1 text-xs text-gray-500 dark:text-gray-400">
+                    Temperature recommendations are capped at your local boiling point
+                  </p>
+                </div>
+
                 {/* Default Method */}
                 <div>
                   <label htmlFor="defaultMethodId" className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
@@ -375,6 +465,28 @@ export function Settings() {
                     Pre-select this method when starting a new brew
                   </p>
                 </div>
+
+                {/* Active Grinder */}
+                <div>
+                  <label htmlFor="activeGrinderId" className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
+                    Active Grinder
+                  </label>
+                  <select
+                    {...register('activeGrinderId', { setValueAs: (value) => value || null })}
+                    id="activeGrinderId"
+                    className="input"
+                  >
+                    <option value="">No grinder</option>
+                    {grinders.map((grinder) => (
+                      <option key={grinder.id} value={grinder.id}>
+                        {grinder.name}
+                      </option>
+                    ))}
+                  </select>
+                  <p className="mt-1 text-xs text-gray-500 dark:text-gray-400">
+                    Grind suggestions are translated to this grinder's settings
+                  </p>
+                </div>
               </div>
             </div>
 
@@ -407,6 +519,155 @@ export function Settings() {
               </button>
             </div>
           </form>
+
+          {/* Grinders */}
+          <div className="mt-6 space-y-4">
+            <div className="card p-6">
+              <div className="flex items-center justify-between mb-4">
+                <h2 className="text-xl font-bold text-gray-900 dark:text-white">
+                  Grinders
+                </h2>
+                {!showGrinderForm && (
+                  <button
+                    type="button"
+                    onClick={() => {
+                      setEditingGrinder(null);
+                      setShowGrinderForm(true);
+                    }}
+                    className="btn btn-secondary"
+                  >
+                    Add Grinder
+                  </button>
+                )}
+              </div>
+
+              {grinders.length === 0 ? (
+                <p className="text-sm text-gray-500 dark:text-gray-400">
+                  Add your grinder to see suggestions as clicks or dial numbers.
+                </p>
+              ) : (
+                <ul className="divide-y divide-gray-200 dark:divide-gray-700">
+                  {grinders.map((grinder) => (
+                    <li key={grinder.id} className="flex items-center justify-between py-3">
+                      <div>
+                        <p className="font-medium text-gray-900 dark:text-white">{grinder.name}</p>
+                        <p className="text-xs text-gray-500 dark:text-gray-400">
+                          {Object.keys(grinder.ranges).length} grind levels mapped
+                          {SCALE_UNITS[grinder.scale] && ` • ${SCALE_UNITS[grinder.scale]}`}
+                        </p>
+                      </div>
+                      <div className="flex items-center space-x-2">
+                        <button
+                          type="button"
+                          onClick={() => {
+                            setEditingGrinder(grinder);
+                            setShowGrinderForm(true);
+                          }}
+                          className="text-sm text-primary-600 hover:text-primary-700 dark:text-primary-400"
+                        >
+                          Edit
+                        </button>
+                        <button
+                          type="button"
+                          onClick={() => handleDeleteGrinder(grinder)}
+                          className="text-sm text-red-600 hover:text-red-700 dark:text-red-400"
+                        >
+                          Delete
+                        </button>
+                      </div>
+                    </li>
+                  ))}
+                </ul>
+              )}
+            </div>
+
+            {showGrinderForm && (
+              <GrinderForm
+                key={editingGrinder?.id ?? 'new'}
+                grinder={editingGrinder}
+                onSave={handleSaveGrinder}
+                onCancel={() => {
+                  setShowGrinderForm(false);
+                  setEditingGrinder(null);
+                }}
+              />
+            )}
+          </div>
+
+          {/* Water Profiles */}
+          <div className="mt-6 space-y-4">
+            <div className="card p-6">
+              <div className="flex items-center justify-between mb-4">
+                <h2 className="text-xl font-bold text-gray-900 dark:text-white">
+                  Water Profiles
+                </h2>
+                {!showWaterProfileForm && (
+                  <button
+                    type="button"
+                    onClick={() => {
+                      setEditingWaterProfile(null);
+                      setShowWaterProfileForm(true);
+                    }}
+                    className="btn btn-secondary"
+                  >
+                    Add Water
+                  </button>
+                )}
+              </div>
+
+              {waterProfiles.length === 0 ? (
+                <p className="text-sm text-gray-500 dark:text-gray-400">
+                  Record the water you brew with to compare sessions and mix your own from distilled water.
+                </p>
+              ) : (
+                <ul className="divide-y divide-gray-200 dark:divide-gray-700">
+                  {waterProfiles.map((waterProfile) => (
+                    <li key={waterProfile.id} className="flex items-center justify-between py-3">
+                      <div>
+                        <p className="font-medium text-gray-900 dark:text-white">{waterProfile.name}</p>
+                        <p className="text-xs text-gray-500 dark:text-gray-400">
+                          GH {waterProfile.ghPpm} • KH {waterProfile.khPpm}
+                          {waterProfile.tdsPpm !== null && ` • TDS ${waterProfile.tdsPpm}`} ppm
+                          {` • ${waterProfile.recipe.epsomSaltGrams} g Epsom salt and ${waterProfile.recipe.bakingSodaGrams} g baking soda per litre`}
+                        </p>
+                      </div>
+                      <div className="flex items-center space-x-2">
+                        <button
+                          type="button"
+                          onClick={() => {
+                            setEditingWaterProfile(waterProfile);
+                            setShowWaterProfileForm(true);
+                          }}
+                          className="text-sm text-primary-600 hover:text-primary-700 dark:text-primary-400"
+                        >
+                          Edit
+                        </button>
+                        <button
+                          type="button"
+                          onClick={() => handleDeleteWaterProfile(waterProfile)}
+                          className="text-sm text-red-600 hover:text-red-700 dark:text-red-400"
+                        >
+                          Delete
+                        </button>
+                      </div>
+                    </li>
+                  ))}
+                </ul>
+              )}
+            </div>
+
+            {showWaterProfileForm && (
+              <WaterProfileForm
+                key={editingWaterProfile?.id ?? 'new'}
+                waterProfile={editingWaterProfile}
+                onSave={handleSaveWaterProfile}
+                onCancel={() => {
+                  setShowWaterProfileForm(false);
+                  setEditingWaterProfile(null);
+                }}
+              />
+            )}
+          </div>
         </div>
 
         {/* Account Info */}
@@ -454,6 +715,8 @@ export function Settings() {
               </button>
             </div>
           </div>
+
+          <AccountBackup />
         </div>
       </div>
     </div>
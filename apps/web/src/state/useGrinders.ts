@@ -0,0 +1,62 @@
+import { create } from 'zustand';
+import { api, Grinder, GrinderInput } from '../lib/api';
+
+interface GrindersState {
+  grinders: Grinder[];
+  isLoading: boolean;
+  error: string | null;
+
+  // Actions
+  loadGrinders: () => Promise<void>;
+  saveGrinder: (id: string | null, data: GrinderInput) => Promise<void>;
+  deleteGrinder: (id: string) => Promise<void>;
+}
+
+export const useGrinders = create<GrindersState>((set) => ({
+  grinders: [],
+  isLoading: false,
+  error: null,
+
+  loadGrinders: async () => {
+    set({ isLoading: true, error: null });
+
+    try {
+      const response = await api.getGrinders();
+
+      if (response.success && response.grinders) {
+        set({ grinders: response.grinders, isLoading: false });
+      } else {
+        throw new Error(response.message || 'Failed to load grinders');
+      }
+    } catch (error) {
+      set({
+        isLoading: false,
+        error: error instanceof Error ? error.message : 'Failed to load grinders',
+      });
+    }
+  },
+
+  saveGrinder: async (id: string | null, data: GrinderInput) => {
+    const response = id
+      ? await api.updateGrinder(id, data)
+      : await api.createGrinder(data);
+
+    const saved = response.grinder;
+    if (!response.success || !saved) {
+      throw new Error(response.message || 'Failed to save grinder');
+    }
+
+    set((state) => ({
+      grinders: id
+        ? state.grinders.map((g) => (g.id === id ? saved : g))
+        : [...state.grinders, saved].sort((a, b) => a.name.localeCompare(b.name)),
+    }));
+  },
+
+  deleteGrinder: async (id: string) => {
+    await api.deleteGrinder(id);
+    set((state) => ({
+      grinders: state.grinders.filter((g) => g.id !== id),
+    }));
+  },
+}));
@@ -21,6 +21,8 @@ const defaultSettings: UserSettings = {
   defaultMethodId: null,
   cupSizeMl: 240,
   soundEnabled: true,
+  altitudeM: 0,
+  activeGrinderId: null,
 };
 
 export const useSettings = create<SettingsState>((set, get) => ({
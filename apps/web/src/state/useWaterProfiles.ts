@@ -0,0 +1,62 @@
+import { create } from 'zustand';
+import { api, WaterProfile, WaterProfileInput } from '../lib/api';
+
+interface WaterProfilesState {
+  waterProfiles: WaterProfile[];
+  isLoading: boolean;
+  error: string | null;
+
+  // Actions
+  loadWaterProfiles: () => Promise<void>;
+  saveWaterProfile: (id: string | null, data: WaterProfileInput) => Promise<void>;
+  deleteWaterProfile: (id: string) => Promise<void>;
+}
+
+export const useWaterProfiles = create<WaterProfilesState>((set) => ({
+  waterProfiles: [],
+  isLoading: false,
+  error: null,
+
+  loadWaterProfiles: async () => {
+    set({ isLoading: true, error: null });
+
+    try {
+      const response = await api.getWaterProfiles();
+
+      if (response.success && response.waterProfiles) {
+        set({ waterProfiles: response.waterProfiles, isLoading: false });
+      } else {
+        throw new Error(response.message || 'Failed to load water profiles');
+      }
+    } catch (error) {
+      set({
+        isLoading: false,
+        error: error instanceof Error ? error.message : 'Failed to load water profiles',
+      });
+    }
+  },
+
+  saveWaterProfile: async (id: string | null, data: WaterProfileInput) => {
+    const response = id
+      ? await api.updateWaterProfile(id, data)
+      : await api.createWaterProfile(data);
+
+    const saved = response.waterProfile;
+    if (!response.success || !saved) {
+      throw new Error(response.message || 'Failed to save water profile');
+    }
+
+    set((state) => ({
+      waterProfiles: id
+        ? state.waterProfiles.map((p) => (p.id === id ? saved : p))
+        : [...state.waterProfiles, saved].sort((a, b) => a.name.localeCompare(b.name)),
+    }));
+  },
+
+  deleteWaterProfile: async (id: string) => {
+    await api.deleteWaterProfile(id);
+    set((state) => ({
+      waterProfiles: state.waterProfiles.filter((p) => p.id !== id),
+    }));
+  },
+}));
@@ -74,6 +74,8 @@ export default defineConfig({
   resolve: {
     alias: {
       '@': resolve(__dirname, './src'),
+      // Built from source so the preview always runs the current calculator
+      '@coffee-brewster/brew-math': resolve(__dirname, '../../packages/brew-math/src'),
     },
   },
   server: {
@@ -12,6 +12,7 @@ export default defineConfig({
   resolve: {
     alias: {
       '@': resolve(__dirname, './src'),
+      '@coffee-brewster/brew-math': resolve(__dirname, '../../packages/brew-math/src'),
     },
   },
 });
\ No newline at end of file
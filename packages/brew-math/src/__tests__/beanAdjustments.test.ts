@@ -0,0 +1,98 @@
+import {
+  adjustBloomForAge,
+  adjustForRoast,
+  roastAgeDays,
+  shiftGrind,
+  shownAdjustments,
+} from '../beanAdjustments';
+
+describe('beanAdjustments', () => {
+  describe('roastAgeDays', () => {
+    it('should count whole days since roasting', () => {
+      const now = new Date('2024-03-10T12:00:00Z');
+      expect(roastAgeDays(new Date('2024-03-01'), now)).toBe(9);
+      expect(roastAgeDays(new Date('2024-03-10'), now)).toBe(0);
+    });
+
+    it('should treat future roast dates as roasted today', () => {
+      const now = new Date('2024-03-10T12:00:00Z');
+      expect(roastAgeDays(new Date('2024-03-12'), now)).toBe(0);
+    });
+  });
+
+  describe('shiftGrind', () => {
+    it('should move along the grind levels and stop at the ends', () => {
+      expect(shiftGrind('Medium', -1)).toBe('Medium-fine');
+      expect(shiftGrind('coarse', 1)).toBe('Extra coarse');
+      expect(shiftGrind('Extra coarse', 1)).toBe('Extra coarse');
+    });
+
+    it('should leave free text grinds alone', () => {
+      expect(shiftGrind('Like table salt', -1)).toBe('Like table salt');
+    });
+  });
+
+  describe('adjustForRoast', () => {
+    it('should brew dark roasts cooler and coarser', () => {
+      const result = adjustForRoast(
+        { roastLevel: 'dark' },
+        { tempC: 94, grind: 'Medium' }
+      );
+
+      expect(result.tempC).toBe(90);
+      expect(result.grind).toBe('Medium-coarse');
+      expect(result.adjustments.map((a) => a.kind)).toEqual([
+        'temperature',
+        'grind',
+      ]);
+    });
+
+    it('should not change the cold brew temperature', () => {
+      const result = adjustForRoast(
+        { roastLevel: 'light' },
+        { kind: 'COLD_BREW', tempC: 20, grind: 'Extra coarse' }
+      );
+
+      expect(result.tempC).toBe(20);
+      expect(result.grind).toBe('Coarse');
+      expect(result.adjustments).toHaveLength(1);
+    });
+  });
+
+  describe('adjustBloomForAge', () => {
+    it('should only change the bloom for beans under five days old', () => {
+      expect(adjustBloomForAge({ roastAgeDays: 0 }, 40)).toMatchObject({
+        bloomMl: 60,
+        extraSec: 15,
+        adjustments: [{ kind: 'bloom', reason: 'Roasted today' }],
+      });
+      expect(adjustBloomForAge({ roastAgeDays: 5 }, 40)).toEqual({
+        bloomMl: 40,
+        extraSec: 0,
+        adjustments: [],
+      });
+      expect(adjustBloomForAge(undefined, 40).bloomMl).toBe(40);
+    });
+  });
+
+  describe('shownAdjustments', () => {
+    it('should keep bloom, ratio and bypass changes when recommendations are off', () => {
+      const adjustments = [
+        { kind: 'temperature' as const, deltaC: 2, reason: 'Light roast' },
+        { kind: 'ratio' as const, from: 15, to: 14, reason: 'Large batch' },
+        { kind: 'bypass' as const, fromMl: 180, toMl: 60, reason: 'Iced' },
+        {
+          kind: 'bloom' as const,
+          extraMl: 10,
+          extraSec: 15,
+          reason: 'Roasted today',
+        },
+      ];
+
+      expect(shownAdjustments(adjustments, true)).toEqual(adjustments);
+      expect(
+        shownAdjustments(adjustments, false).map((adjustment) => adjustment.kind)
+      ).toEqual(['ratio', 'bypass', 'bloom']);
+    });
+  });
+});
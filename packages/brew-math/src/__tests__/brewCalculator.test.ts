@@ -0,0 +1,804 @@
+import {
+  planBrew,
+  evenPourTemplate,
+  espressoWindows,
+  boilingPointAt,
+  cappedTempC,
+  BrewMethod,
+} from '../brewCalculator';
+import {
+  V60_TEMPLATE,
+  CHEMEX_TEMPLATE,
+  AEROPRESS_TEMPLATE,
+  FRENCH_PRESS_TEMPLATE,
+  MOKA_TEMPLATE,
+} from '../test/fixtures/pourTemplates';
+
+describe('brewCalculator', () => {
+  const mockV60Method: BrewMethod = {
+    key: 'v60',
+    defaultRatio: 15,
+    bloom: true,
+    pours: 2,
+    schedule: V60_TEMPLATE,
+  };
+
+  const mockChemexMethod: BrewMethod = {
+    key: 'chemex',
+    defaultRatio: 16,
+    bloom: true,
+    pours: 3,
+    schedule: CHEMEX_TEMPLATE,
+  };
+
+  const mockAeropressMethod: BrewMethod = {
+    key: 'aeropress',
+    defaultRatio: 14,
+    bloom: true,
+    pours: 0,
+    schedule: AEROPRESS_TEMPLATE,
+  };
+
+  const mockFrenchPressMethod: BrewMethod = {
+    key: 'french_press',
+    defaultRatio: 15,
+    bloom: false,
+    pours: 0,
+    schedule: FRENCH_PRESS_TEMPLATE,
+  };
+
+  const mockMokaMethod: BrewMethod = {
+    key: 'moka',
+    defaultRatio: 10,
+    bloom: false,
+    pours: 0,
+    schedule: MOKA_TEMPLATE,
+  };
+
+  describe('planBrew', () => {
+    it('should calculate basic V60 recipe correctly', () => {
+      const result = planBrew({
+        method: mockV60Method,
+        cups: 2,
+        cupSizeMl: 240,
+      });
+
+      expect(result.yieldTargetMl).toBe(480);
+      expect(result.coffeeGrams).toBe(32);
+      expect(result.waterTotalMl).toBe(544); // 480 + (32 * 2.0 absorption)
+      expect(result.pours).toHaveLength(3); // bloom + 2 pours
+      expect(result.pours[0].label).toBe('Bloom');
+      expect(result.tempC).toBe(94);
+      expect(result.grind).toBe('Medium-fine');
+    });
+
+    it('should handle custom ratio override', () => {
+      const result = planBrew({
+        method: mockV60Method,
+        cups: 1,
+        cupSizeMl: 240,
+        ratio: 12, // stronger than default 15
+      });
+
+      expect(result.coffeeGrams).toBe(20); // 240/12 = 20
+      expect(result.waterTotalMl).toBe(280); // 240 + (20 * 2.0)
+    });
+
+    it('should handle custom target yield', () => {
+      const result = planBrew({
+        method: mockV60Method,
+        cups: 2,
+        cupSizeMl: 240,
+        targetYieldMl: 400, // override cups * cupSize
+      });
+
+      expect(result.yieldTargetMl).toBe(400);
+      expect(result.coffeeGrams).toBe(26.7); // 400/15
+    });
+
+    it('should calculate Chemex recipe with 3 pours', () => {
+      const result = planBrew({
+        method: mockChemexMethod,
+        cups: 2,
+        cupSizeMl: 240,
+      });
+
+      expect(result.pours).toHaveLength(4); // bloom + 3 pours
+      expect(result.pours[1].label).toBe('First pour');
+      expect(result.pours[2].label).toBe('Second pour');
+      expect(result.pours[3].label).toBe('Third pour');
+      expect(result.grind).toBe('Medium-coarse');
+    });
+
+    it('should calculate AeroPress recipe with single fill', () => {
+      const result = planBrew({
+        method: mockAeropressMethod,
+        cups: 1,
+        cupSizeMl: 240,
+      });
+
+      expect(result.pours).toHaveLength(2); // bloom + fill
+      expect(result.pours[1].label).toBe('Fill & steep');
+      expect(result.tempC).toBe(85);
+    });
+
+    it('should calculate French Press without bloom', () => {
+      const result = planBrew({
+        method: mockFrenchPressMethod,
+        cups: 2,
+        cupSizeMl: 240,
+      });
+
+      expect(result.bloomMl).toBeUndefined();
+      expect(result.pours).toHaveLength(1); // just fill
+      expect(result.pours[0].label).toBe('Fill');
+      expect(result.pours[0].atSec).toBe(0);
+    });
+
+    it('should calculate Moka Pot recipe', () => {
+      const result = planBrew({
+        method: mockMokaMethod,
+        cups: 1,
+        cupSizeMl: 240,
+      });
+
+      expect(result.coffeeGrams).toBe(24); // 240/10
+      expect(result.waterTotalMl).toBe(259); // 240 + (24 * 0.8 absorption)
+      expect(result.pours[0].label).toBe('Assemble & heat');
+      expect(result.grind).toBe('Fine-medium');
+    });
+
+    it('should calculate bloom volume correctly', () => {
+      const smallResult = planBrew({
+        method: mockV60Method,
+        cups: 0.5,
+        cupSizeMl: 120, // small brew
+      });
+
+      const largeResult = planBrew({
+        method: mockV60Method,
+        cups: 4,
+        cupSizeMl: 240, // large brew
+      });
+
+      // Bloom should be between 30-60ml
+      expect(smallResult.bloomMl).toBeGreaterThanOrEqual(30);
+      expect(largeResult.bloomMl).toBeLessThanOrEqual(60);
+    });
+
+    it('should distribute pour volumes correctly for V60', () => {
+      const result = planBrew({
+        method: mockV60Method,
+        cups: 2,
+        cupSizeMl: 240,
+      });
+
+      const bloomVol = result.pours[0].volumeMl;
+      const firstPour = result.pours[1].volumeMl;
+      const secondPour = result.pours[2].volumeMl;
+
+      expect(bloomVol + firstPour + secondPour).toBe(result.waterTotalMl);
+      
+      // First pour should be ~55% of remaining water after bloom
+      const remaining = result.waterTotalMl - bloomVol;
+      expect(firstPour).toBeCloseTo(remaining * 0.55, 0);
+    });
+
+    it('should split the water evenly when the method has no schedule', () => {
+      const result = planBrew({
+        method: { ...mockV60Method, schedule: undefined },
+        cups: 1,
+        cupSizeMl: 240,
+      });
+
+      expect(result.pours.map(p => p.label)).toEqual([
+        'Bloom',
+        'First pour',
+        'Second pour',
+      ]);
+      expect(result.pours.map(p => p.atSec)).toEqual([0, 45, 105]);
+      expect(result.pours[0].durationSec).toBeGreaterThan(0);
+      expect(result.pours.reduce((sum, p) => sum + p.volumeMl, 0)).toBe(
+        result.waterTotalMl
+      );
+    });
+
+    it('should follow a custom template and bloom rule', () => {
+      const result = planBrew({
+        method: {
+          ...mockV60Method,
+          schedule: {
+            bloom: { multiplier: 3, minMl: 40, maxMl: 100 },
+            steps: [
+              { label: 'Pulse 1', atSec: 40, share: 0.25 },
+              { label: 'Pulse 2', atSec: 70, share: 0.25 },
+              { label: 'Pulse 3', atSec: 100, share: 0.25 },
+              { label: 'Pulse 4', atSec: 130, share: 0.25 },
+            ],
+          },
+        },
+        cups: 1,
+        cupSizeMl: 300,
+      });
+
+      expect(result.coffeeGrams).toBe(20);
+      expect(result.bloomMl).toBe(60); // 3 × 20g
+      expect(result.pours.map(p => p.label)).toEqual([
+        'Bloom',
+        'Pulse 1',
+        'Pulse 2',
+        'Pulse 3',
+        'Pulse 4',
+      ]);
+      expect(result.pours[4].atSec).toBe(130);
+      expect(result.pours.reduce((sum, p) => sum + p.volumeMl, 0)).toBe(
+        result.waterTotalMl
+      );
+    });
+
+    it('should give rounding leftovers to the last pour', () => {
+      const result = planBrew({
+        method: mockChemexMethod,
+        cups: 1.5,
+        cupSizeMl: 250,
+      });
+
+      const total = result.pours.reduce((sum, p) => sum + p.volumeMl, 0);
+      expect(total).toBe(result.waterTotalMl);
+    });
+  });
+
+  describe('custom methods', () => {
+    const kalitaMethod: BrewMethod = {
+      key: 'kalita_wave_x1y2z3',
+      defaultRatio: 16,
+      bloom: true,
+      pours: 3,
+      schedule: evenPourTemplate(3, true),
+      tempC: 93,
+      grind: 'Medium',
+    };
+
+    it('should use default absorption and overrides for unknown keys', () => {
+      const result = planBrew({
+        method: kalitaMethod,
+        cups: 1,
+        cupSizeMl: 240,
+      });
+
+      expect(result.coffeeGrams).toBe(15);
+      expect(result.waterTotalMl).toBe(270); // 240 + (15 * 2.0 default)
+      expect(result.tempC).toBe(93);
+      expect(result.grind).toBe('Medium');
+      expect(result.filter).toBe('Paper');
+      expect(result.pours).toHaveLength(4);
+    });
+
+    it('should build an even template from a pour count', () => {
+      const template = evenPourTemplate(3, true);
+
+      expect(template.steps.map(s => s.label)).toEqual([
+        'First pour',
+        'Second pour',
+        'Third pour',
+      ]);
+      expect(template.steps.map(s => s.atSec)).toEqual([45, 105, 165]);
+      expect(evenPourTemplate(0, false).steps).toEqual([
+        { label: 'Fill', atSec: 0, share: 1 },
+      ]);
+    });
+  });
+
+  describe('iced', () => {
+    it('should move part of the yield into ice and brew the rest hot', () => {
+      const hot = planBrew({ method: mockV60Method, cups: 2, cupSizeMl: 250 });
+      const iced = planBrew({
+        method: mockV60Method,
+        cups: 2,
+        cupSizeMl: 250,
+        iced: true,
+      });
+
+      expect(iced.coffeeGrams).toBe(hot.coffeeGrams);
+      expect(iced.iceGrams).toBe(200); // 40% of 500ml
+      expect(iced.waterTotalMl).toBe(hot.waterTotalMl - 200);
+      expect(hot.iceGrams).toBeUndefined();
+    });
+
+    it('should scale the pour schedule to the hot water only', () => {
+      const result = planBrew({
+        method: mockV60Method,
+        cups: 2,
+        cupSizeMl: 250,
+        iced: true,
+      });
+
+      const total = result.pours.reduce((sum, pour) => sum + pour.volumeMl, 0);
+      expect(total).toBe(result.waterTotalMl);
+    });
+  });
+
+  describe('altitude', () => {
+    it('should estimate the boiling point from altitude', () => {
+      expect(boilingPointAt(0)).toBe(100);
+      expect(boilingPointAt(2400)).toBe(92);
+      expect(boilingPointAt(1000)).toBe(96.7);
+    });
+
+    it('should cap a temperature at the whole degree below boiling', () => {
+      expect(cappedTempC(94, 0)).toBe(94);
+      expect(cappedTempC(94, 2500)).toBe(91); // boils at 91.7
+    });
+
+    it('should cap the temperature below the local boiling point', () => {
+      const result = planBrew({
+        method: mockMokaMethod,
+        cups: 1,
+        cupSizeMl: 240,
+        altitudeM: 2400,
+      });
+
+      expect(result.tempC).toBe(92);
+      expect(result.boilingPointC).toBe(92);
+    });
+
+    it('should leave reachable temperatures alone', () => {
+      const result = planBrew({
+        method: mockAeropressMethod,
+        cups: 1,
+        cupSizeMl: 240,
+        altitudeM: 2400,
+      });
+
+      expect(result.tempC).toBe(85);
+      expect(result.boilingPointC).toBeUndefined();
+    });
+  });
+
+  describe('dose mode', () => {
+    it('should solve for yield and water from the coffee on hand', () => {
+      const result = planBrew({
+        method: mockV60Method,
+        cupSizeMl: 250,
+        ratio: 16,
+        coffeeGrams: 17,
+      });
+
+      expect(result.coffeeGrams).toBe(17);
+      expect(result.yieldTargetMl).toBe(272);
+      expect(result.waterTotalMl).toBe(306); // 272 + (17 * 2.0)
+      expect(result.pours.reduce((sum, p) => sum + p.volumeMl, 0)).toBe(306);
+    });
+
+    it('should pull a shot from the dose at the chosen ratio', () => {
+      const result = planBrew({
+        method: {
+          key: 'espresso',
+          kind: 'ESPRESSO',
+          defaultRatio: 2,
+          bloom: false,
+          pours: 1,
+        },
+        cupSizeMl: 240,
+        ratio: 2,
+        coffeeGrams: 18,
+      });
+
+      expect(result.espresso?.beverageGrams).toBe(36);
+      expect(result.waterTotalMl).toBe(54); // 36 + (18 * 1.0)
+    });
+  });
+
+  describe('pour windows', () => {
+    it('should give each pour a window at the method flow rate', () => {
+      const result = planBrew({
+        method: mockV60Method,
+        cups: 2,
+        cupSizeMl: 250,
+      });
+
+      // 500 + 33.3 * 2 absorption = 567 ml: bloom 60, then 279 and 228
+      expect(result.pours).toEqual([
+        expect.objectContaining({
+          atSec: 0,
+          durationSec: 12,
+          endSec: 12,
+          targetCumulativeMl: 60,
+        }),
+        expect.objectContaining({
+          atSec: 45,
+          durationSec: 56,
+          endSec: 101,
+          targetCumulativeMl: 339,
+        }),
+        expect.objectContaining({
+          atSec: 105,
+          targetCumulativeMl: result.waterTotalMl,
+        }),
+      ]);
+    });
+
+    it('should cut a pour short rather than run into the next one', () => {
+      const result = planBrew({
+        method: mockV60Method,
+        cups: 2,
+        cupSizeMl: 250,
+        variant: { key: 'hoffmann_v60' },
+      });
+
+      // "Pour to 60%" has 30 seconds before "Pour to 100%"
+      const [, toSixty] = result.pours;
+      expect(toSixty.endSec).toBe(75);
+      expect(toSixty.flowMlPerSec).toBeGreaterThan(5);
+    });
+  });
+
+  describe('bean adjustments', () => {
+    it('should brew light roasts hotter and finer', () => {
+      const result = planBrew({
+        method: mockV60Method,
+        cups: 1,
+        cupSizeMl: 240,
+        bean: { roastLevel: 'light' },
+      });
+
+      expect(result.tempC).toBe(96);
+      expect(result.grind).toBe('Fine-medium');
+      expect(result.adjustments).toEqual([
+        { kind: 'temperature', deltaC: 2, reason: 'Light roast' },
+        {
+          kind: 'grind',
+          from: 'Medium-fine',
+          to: 'Fine-medium',
+          reason: 'Light roast',
+        },
+      ]);
+    });
+
+    it('should give very fresh beans a bigger, longer bloom', () => {
+      const result = planBrew({
+        method: mockV60Method,
+        cups: 1,
+        cupSizeMl: 240,
+        bean: { roastAgeDays: 2 },
+      });
+
+      expect(result.bloomMl).toBe(48);
+      expect(result.pours.map((p) => p.atSec)).toEqual([0, 60, 120]);
+      expect(result.pours.reduce((sum, p) => sum + p.volumeMl, 0)).toBe(
+        result.waterTotalMl
+      );
+      expect(result.adjustments).toEqual([
+        {
+          kind: 'bloom',
+          extraMl: 16,
+          extraSec: 15,
+          reason: 'Roasted 2 days ago',
+        },
+      ]);
+    });
+
+    it('should leave the plan alone without bean details', () => {
+      const result = planBrew({
+        method: mockV60Method,
+        cups: 1,
+        cupSizeMl: 240,
+        bean: { roastLevel: 'medium', roastAgeDays: 14 },
+      });
+
+      expect(result.tempC).toBe(94);
+      expect(result.bloomMl).toBe(32);
+      expect(result.adjustments).toEqual([]);
+    });
+  });
+
+  describe('large batches', () => {
+    it('should brew a big batch tighter, coarser and with a fuller bloom', () => {
+      const result = planBrew({
+        method: mockChemexMethod,
+        targetYieldMl: 1000,
+        cupSizeMl: 240,
+        batch: true,
+      });
+
+      expect(result.coffeeGrams).toBe(66.7);
+      expect(result.grind).toBe('Coarse');
+      expect(result.bloomMl).toBeCloseTo(133.4);
+      expect(result.pours[1].atSec).toBe(60);
+      expect(result.adjustments).toEqual([
+        { kind: 'ratio', from: 16, to: 15, reason: 'Large batch' },
+        {
+          kind: 'grind',
+          from: 'Medium-coarse',
+          to: 'Coarse',
+          reason: 'Large batch',
+        },
+        { kind: 'bloom', extraMl: 73, extraSec: 15, reason: 'Large batch' },
+      ]);
+    });
+
+    it('should not tighten the ratio past 1:12', () => {
+      const result = planBrew({
+        method: mockChemexMethod,
+        targetYieldMl: 1000,
+        cupSizeMl: 240,
+        ratio: 12.5,
+        batch: true,
+      });
+
+      expect(result.coffeeGrams).toBe(83.3);
+      expect(result.adjustments[0]).toEqual({
+        kind: 'ratio',
+        from: 12.5,
+        to: 12,
+        reason: 'Large batch',
+      });
+    });
+
+    it('should leave small brews and single brews alone', () => {
+      const small = planBrew({
+        method: mockChemexMethod,
+        targetYieldMl: 600,
+        cupSizeMl: 240,
+        batch: true,
+      });
+      const single = planBrew({
+        method: mockChemexMethod,
+        targetYieldMl: 1000,
+        cupSizeMl: 240,
+      });
+
+      expect(small.adjustments).toEqual([]);
+      expect(single.adjustments).toEqual([]);
+      expect(single.coffeeGrams).toBe(62.5);
+    });
+  });
+
+  describe('bypass', () => {
+    it('should take bypass out of the brew water without absorption', () => {
+      const plain = planBrew({ method: mockV60Method, cups: 2, cupSizeMl: 250 });
+      const result = planBrew({
+        method: mockV60Method,
+        cups: 2,
+        cupSizeMl: 250,
+        bypassPercent: 20,
+      });
+
+      expect(result.coffeeGrams).toBe(plain.coffeeGrams);
+      expect(result.bypassMl).toBe(100); // 20% of 500ml
+      expect(result.brewWaterMl).toBe(plain.waterTotalMl - 100);
+      expect(result.waterTotalMl).toBe(plain.waterTotalMl);
+      expect(plain.bypassMl).toBeUndefined();
+      expect(plain.brewWaterMl).toBeUndefined();
+    });
+
+    it('should scale the pour schedule to the brew water only', () => {
+      const result = planBrew({
+        method: mockV60Method,
+        cups: 2,
+        cupSizeMl: 250,
+        bypassMl: 150,
+      });
+
+      const total = result.pours.reduce((sum, pour) => sum + pour.volumeMl, 0);
+      expect(result.bypassMl).toBe(150);
+      expect(total).toBe(result.brewWaterMl);
+    });
+
+    it('should keep most of the yield going through the bed', () => {
+      const result = planBrew({
+        method: mockV60Method,
+        cups: 2,
+        cupSizeMl: 250,
+        bypassMl: 450,
+      });
+
+      expect(result.bypassMl).toBe(300); // capped at 60% of 500ml
+    });
+
+    it('should count ice towards the bypass cap', () => {
+      const result = planBrew({
+        method: mockV60Method,
+        cupSizeMl: 240,
+        targetYieldMl: 300,
+        iced: true,
+        bypassPercent: 60,
+      });
+
+      expect(result.iceGrams).toBe(120); // 40% of 300ml
+      expect(result.bypassMl).toBe(60); // what the ice leaves of 60%
+      expect(result.brewWaterMl).toBe(160); // 300 + 40 absorbed - 180
+      expect(result.pours[1].volumeMl).toBeGreaterThan(0);
+      expect(result.adjustments).toContainEqual({
+        kind: 'bypass',
+        fromMl: 180,
+        toMl: 60,
+        reason: 'Iced',
+      });
+    });
+
+    it('should leave a bypass within the cap as asked', () => {
+      const result = planBrew({
+        method: mockV60Method,
+        cupSizeMl: 240,
+        targetYieldMl: 300,
+        iced: true,
+        bypassMl: 50,
+      });
+
+      expect(result.bypassMl).toBe(50);
+      expect(
+        result.adjustments.filter(({ kind }) => kind === 'bypass')
+      ).toEqual([]);
+    });
+  });
+
+  describe('cold brew', () => {
+    const coldBrewMethod: BrewMethod = {
+      key: 'cold_brew',
+      kind: 'COLD_BREW',
+      defaultRatio: 10,
+      bloom: false,
+      pours: 0,
+      coldBrew: { steepHours: 16, concentrateRatio: 5 },
+    };
+
+    it('should steep a concentrate and dilute it to the final ratio', () => {
+      const result = planBrew({
+        method: coldBrewMethod,
+        cups: 2,
+        cupSizeMl: 250,
+      });
+
+      expect(result.coffeeGrams).toBe(50); // 500ml at 1:10
+      expect(result.coldBrew).toEqual({
+        steepHours: 16,
+        filterAtSec: 57600,
+        concentrateMl: 250, // 50g at 1:5
+        dilutionMl: 250,
+      });
+      expect(result.waterTotalMl).toBe(350); // 250 + (50 * 2.0)
+      expect(result.pours).toEqual([
+        {
+          atSec: 0,
+          volumeMl: 350,
+          label: 'Add water & start steep',
+          durationSec: 35,
+          endSec: 35,
+          targetCumulativeMl: 350,
+          flowMlPerSec: 10,
+        },
+      ]);
+      expect(result.tempC).toBe(20);
+    });
+
+    it('should use the requested ratio for the final drink', () => {
+      const result = planBrew({
+        method: coldBrewMethod,
+        cups: 1,
+        cupSizeMl: 240,
+        ratio: 8,
+        targetYieldMl: 200,
+      });
+
+      expect(result.coldBrew?.concentrateMl).toBe(125);
+      expect(result.coldBrew?.dilutionMl).toBe(75);
+    });
+
+    it('should skip dilution when the concentrate is weaker than the ratio', () => {
+      const result = planBrew({
+        method: {
+          ...coldBrewMethod,
+          coldBrew: { steepHours: 12, concentrateRatio: 12 },
+        },
+        cups: 1,
+        cupSizeMl: 240,
+      });
+
+      expect(result.coldBrew?.concentrateMl).toBe(240);
+      expect(result.coldBrew?.dilutionMl).toBe(0);
+    });
+  });
+
+  describe('espresso', () => {
+    const espressoMethod: BrewMethod = {
+      key: 'espresso',
+      kind: 'ESPRESSO',
+      defaultRatio: 2,
+      bloom: false,
+      pours: 0,
+      espresso: {
+        shotTimeMinSec: 25,
+        shotTimeMaxSec: 32,
+        preinfusionSec: 5,
+        pressureBar: 9,
+      },
+    };
+
+    it('should dose from a target beverage weight', () => {
+      const result = planBrew({
+        method: espressoMethod,
+        cups: 1,
+        cupSizeMl: 240,
+        targetBeverageGrams: 40,
+      });
+
+      expect(result.coffeeGrams).toBe(20); // 40g out at 1:2
+      expect(result.yieldTargetMl).toBe(40);
+      expect(result.waterTotalMl).toBe(60); // 40 + (20 * 1.0)
+      expect(result.espresso).toEqual({
+        shotTimeMinSec: 25,
+        shotTimeMaxSec: 32,
+        preinfusionSec: 5,
+        pressureBar: 9,
+        beverageGrams: 40,
+      });
+      expect(result.pours).toEqual([
+        {
+          atSec: 0,
+          volumeMl: 0,
+          label: 'Preinfusion',
+          durationSec: 5,
+          endSec: 5,
+          targetCumulativeMl: 0,
+          flowMlPerSec: 0,
+        },
+        {
+          atSec: 5,
+          volumeMl: 40,
+          label: 'Pull shot',
+          durationSec: 27,
+          endSec: 32,
+          targetCumulativeMl: 40,
+          flowMlPerSec: 1.5,
+        },
+      ]);
+      expect(result.tempC).toBe(93);
+    });
+
+    it('should count cups as double shots instead of the cup size', () => {
+      const result = planBrew({
+        method: espressoMethod,
+        cups: 2,
+        cupSizeMl: 240,
+        ratio: 2.5,
+      });
+
+      expect(result.yieldTargetMl).toBe(72);
+      expect(result.coffeeGrams).toBe(28.8);
+    });
+
+    it('should pull straight away without preinfusion', () => {
+      const result = planBrew({
+        method: { ...espressoMethod, espresso: undefined },
+        cups: 1,
+        cupSizeMl: 240,
+      });
+
+      expect(result.espresso?.shotTimeMinSec).toBe(25);
+      expect(result.pours).toEqual([
+        {
+          atSec: 0,
+          volumeMl: 36,
+          label: 'Pull shot',
+          durationSec: 32,
+          endSec: 32,
+          targetCumulativeMl: 36,
+          flowMlPerSec: 1.1,
+        },
+      ]);
+    });
+
+    it('should end a saved shot at the top of the time window', () => {
+      const pours = espressoWindows(
+        [
+          { atSec: 0, volumeMl: 0, label: 'Preinfusion' },
+          { atSec: 5, volumeMl: 40, label: 'Pull shot' },
+        ],
+        { shotTimeMinSec: 25, shotTimeMaxSec: 32, preinfusionSec: 5 }
+      );
+
+      expect(pours.map(p => p.endSec)).toEqual([5, 32]);
+    });
+  });
+});
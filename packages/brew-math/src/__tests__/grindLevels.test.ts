@@ -0,0 +1,24 @@
+import { formatGrinderSetting, grindLevelOf } from '../grindLevels';
+
+describe('grindLevels', () => {
+  describe('grindLevelOf', () => {
+    it('should match descriptors regardless of case and spacing', () => {
+      expect(grindLevelOf('medium-fine ')).toBe('Medium-fine');
+      expect(grindLevelOf('Like table salt')).toBeUndefined();
+    });
+  });
+
+  describe('formatGrinderSetting', () => {
+    it('should label ranges with the scale unit', () => {
+      expect(
+        formatGrinderSetting({ name: 'Comandante', scale: 'CLICKS' }, 22, 25)
+      ).toBe('Comandante: 22–25 clicks');
+      expect(
+        formatGrinderSetting({ name: 'Ode', scale: 'NUMBERS' }, 4, 4)
+      ).toBe('Ode: 4');
+      expect(
+        formatGrinderSetting({ name: 'Kinu', scale: 'MICRONS' }, 500, 600)
+      ).toBe('Kinu: 500–600 µm');
+    });
+  });
+});
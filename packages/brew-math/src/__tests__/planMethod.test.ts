@@ -0,0 +1,41 @@
+import { toBrewMethod } from '../planMethod';
+
+describe('planMethod', () => {
+  const v60 = {
+    key: 'v60',
+    defaultRatio: 15,
+    bloom: true,
+    pours: 2,
+    kind: 'STANDARD' as const,
+  };
+
+  it('should read the recommendations from the presets', () => {
+    const method = toBrewMethod({
+      ...v60,
+      presets: { tempC: 93, grind: 'Medium-fine', filter: 'V60 paper' },
+    });
+
+    expect(method).toMatchObject({
+      key: 'v60',
+      tempC: 93,
+      grind: 'Medium-fine',
+      filter: 'V60 paper',
+    });
+  });
+
+  it('should ignore presets of the wrong type', () => {
+    const method = toBrewMethod({
+      ...v60,
+      presets: { tempC: 'hot', capacityMl: null },
+    });
+
+    expect(method.tempC).toBeUndefined();
+    expect(method.capacityMl).toBeUndefined();
+  });
+
+  it('should take the served capacity when the presets are hidden', () => {
+    expect(
+      toBrewMethod({ ...v60, presets: null, capacityMl: 700 }).capacityMl
+    ).toBe(700);
+  });
+});
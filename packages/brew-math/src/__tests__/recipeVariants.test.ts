@@ -0,0 +1,95 @@
+import { planBrew, BrewMethod } from '../brewCalculator';
+import { RECIPE_VARIANTS, variantsForMethod } from '../recipeVariants';
+import { V60_TEMPLATE } from '../test/fixtures/pourTemplates';
+
+describe('recipeVariants', () => {
+  const v60: BrewMethod = {
+    key: 'v60',
+    defaultRatio: 15,
+    bloom: true,
+    pours: 2,
+    schedule: V60_TEMPLATE,
+  };
+
+  describe('Tetsu Kasuya 4:6', () => {
+    const plan = (options = {}) =>
+      RECIPE_VARIANTS.tetsu_4_6.plan({
+        coffeeGrams: 20,
+        waterTotalMl: 300,
+        options,
+      });
+
+    it('should split 40% for sweetness and 60% for strength', () => {
+      const { pours } = plan();
+
+      expect(pours.map(p => p.volumeMl)).toEqual([60, 60, 90, 90]);
+      expect(pours.map(p => p.atSec)).toEqual([0, 45, 90, 135]);
+      expect(pours[0].label).toBe('Sweetness pour 1');
+      expect(pours[2].label).toBe('Strength pour 1');
+    });
+
+    it('should pour less first for a sweeter cup', () => {
+      expect(plan({ sweetness: 'sweet' }).pours.slice(0, 2).map(p => p.volumeMl))
+        .toEqual([48, 72]);
+      expect(plan({ sweetness: 'bright' }).pours.slice(0, 2).map(p => p.volumeMl))
+        .toEqual([72, 48]);
+    });
+
+    it('should vary the number of strength pours', () => {
+      expect(plan({ strength: 'light' }).pours).toHaveLength(3);
+      expect(plan({ strength: 'strong' }).pours).toHaveLength(5);
+    });
+
+    it('should never lose water to rounding', () => {
+      const { pours } = RECIPE_VARIANTS.tetsu_4_6.plan({
+        coffeeGrams: 17,
+        waterTotalMl: 289,
+        options: { sweetness: 'sweet', strength: 'strong' },
+      });
+
+      expect(pours.reduce((sum, p) => sum + p.volumeMl, 0)).toBe(289);
+    });
+  });
+
+  describe('Hoffmann V60', () => {
+    it('should bloom with twice the coffee weight and pour to 60% then 100%', () => {
+      const { bloomMl, pours } = RECIPE_VARIANTS.hoffmann_v60.plan({
+        coffeeGrams: 30,
+        waterTotalMl: 500,
+        options: {},
+      });
+
+      expect(bloomMl).toBe(60);
+      expect(pours.map(p => p.volumeMl)).toEqual([60, 240, 200]);
+      expect(pours.map(p => p.atSec)).toEqual([0, 45, 75]);
+    });
+  });
+
+  describe('planBrew integration', () => {
+    it('should replace the method schedule with the variant pours', () => {
+      const result = planBrew({
+        method: v60,
+        cups: 1,
+        cupSizeMl: 240,
+        variant: { key: 'tetsu_4_6', options: { strength: 'light' } },
+      });
+
+      expect(result.waterTotalMl).toBe(272);
+      expect(result.bloomMl).toBeUndefined();
+      expect(result.pours).toHaveLength(3);
+      expect(result.pours.reduce((sum, p) => sum + p.volumeMl, 0)).toBe(272);
+      expect(result.tempC).toBe(94);
+    });
+  });
+
+  describe('variantsForMethod', () => {
+    it('should list the variants written for a method', () => {
+      expect(variantsForMethod('v60').map(v => v.key)).toEqual([
+        'tetsu_4_6',
+        'hoffmann_v60',
+      ]);
+      expect(variantsForMethod('chemex').map(v => v.key)).toEqual(['tetsu_4_6']);
+      expect(variantsForMethod('french_press')).toEqual([]);
+    });
+  });
+});
@@ -0,0 +1,101 @@
+import { BrewMethod } from '../brewCalculator';
+import {
+  DEFAULT_EXTRACTION_YIELD,
+  ratioForStrength,
+  solveForStrength,
+} from '../strength';
+
+describe('strength', () => {
+  const v60: BrewMethod = {
+    key: 'v60',
+    defaultRatio: 15,
+    bloom: true,
+    pours: 2,
+  };
+
+  const espresso: BrewMethod = {
+    key: 'espresso',
+    defaultRatio: 2,
+    bloom: false,
+    pours: 1,
+    kind: 'ESPRESSO',
+  };
+
+  describe('ratioForStrength', () => {
+    it('should divide the extraction yield by the target strength', () => {
+      expect(
+        ratioForStrength({ tdsPercent: 1.35, extractionYieldPercent: 20 })
+      ).toBe(14.8);
+      expect(
+        ratioForStrength({ tdsPercent: 1.25, extractionYieldPercent: 20 })
+      ).toBe(16);
+    });
+
+    it('should assume a 20% extraction when none is given', () => {
+      expect(DEFAULT_EXTRACTION_YIELD).toBe(20);
+      expect(ratioForStrength({ tdsPercent: 1.35 })).toBe(14.8);
+    });
+
+    it('should brew stronger for a lower extraction', () => {
+      expect(
+        ratioForStrength({ tdsPercent: 1.35, extractionYieldPercent: 18 })
+      ).toBeLessThan(ratioForStrength({ tdsPercent: 1.35 }));
+    });
+  });
+
+  describe('solveForStrength', () => {
+    it('should size the dose and water for a number of cups', () => {
+      const plan = solveForStrength({
+        method: v60,
+        target: { tdsPercent: 1.35 },
+        cups: 1,
+        cupSizeMl: 300,
+      });
+
+      expect(plan.ratio).toBe(14.8);
+      expect(plan.yieldMl).toBe(300);
+      expect(plan.coffeeGrams).toBeCloseTo(20.3, 1);
+      // The V60 bed holds back twice the dose
+      expect(plan.waterMl).toBe(Math.round(300 + plan.coffeeGrams * 2));
+    });
+
+    it('should land on the target strength', () => {
+      const plan = solveForStrength({
+        method: v60,
+        target: { tdsPercent: 1.4, extractionYieldPercent: 21 },
+        targetYieldMl: 500,
+        cupSizeMl: 240,
+      });
+
+      const tds =
+        (plan.extractionYieldPercent * plan.coffeeGrams) / plan.yieldMl;
+      expect(tds).toBeCloseTo(1.4, 2);
+    });
+
+    it('should work forward from a dose', () => {
+      const plan = solveForStrength({
+        method: v60,
+        target: { tdsPercent: 1.25 },
+        coffeeGrams: 20,
+        cupSizeMl: 240,
+      });
+
+      expect(plan.coffeeGrams).toBe(20);
+      expect(plan.yieldMl).toBe(320);
+      expect(plan.waterMl).toBe(360);
+    });
+
+    it('should solve espresso shots in beverage grams', () => {
+      const plan = solveForStrength({
+        method: espresso,
+        target: { tdsPercent: 9, extractionYieldPercent: 20 },
+        coffeeGrams: 18,
+        cupSizeMl: 240,
+      });
+
+      expect(plan.ratio).toBe(2.2);
+      expect(plan.yieldMl).toBe(40);
+      expect(plan.waterMl).toBe(58);
+    });
+  });
+});
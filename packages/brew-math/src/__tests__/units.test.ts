@@ -1,4 +1,3 @@
-import { describe, it, expect } from 'vitest';
 import {
   gToOz,
   ozToG,
@@ -16,26 +15,20 @@ import {
   getWeightUnit,
   getVolumeUnit,
   getTemperatureUnit,
+  formatDuration,
+  UnitSettings,
 } from '../units';
-import type { UserSettings } from '../api';
+import { boilingPointAt } from '../brewCalculator';
 
 describe('units', () => {
-  const metricSettings: UserSettings = {
+  const metricSettings: UnitSettings = {
     units: 'METRIC',
     tempUnit: 'C',
-    recommend: true,
-    defaultMethodId: null,
-    cupSizeMl: 240,
-    soundEnabled: true,
   };
 
-  const imperialSettings: UserSettings = {
+  const imperialSettings: UnitSettings = {
     units: 'IMPERIAL',
     tempUnit: 'F',
-    recommend: true,
-    defaultMethodId: null,
-    cupSizeMl: 240,
-    soundEnabled: true,
   };
 
   describe('gToOz', () => {
@@ -187,4 +180,23 @@ describe('units', () => {
       expect(getTemperatureUnit(imperialSettings)).toBe('°F');
     });
   });
+
+  describe('formatDuration', () => {
+    it('should format brew times as minutes and seconds', () => {
+      expect(formatDuration(0)).toBe('0:00');
+      expect(formatDuration(185)).toBe('3:05');
+    });
+
+    it('should include hours for long steeps', () => {
+      expect(formatDuration(3600)).toBe('1:00:00');
+      expect(formatDuration(16 * 3600 + 65)).toBe('16:01:05');
+    });
+  });
+
+  describe('boilingPointAt', () => {
+    it('should lower the boiling point with altitude', () => {
+      expect(boilingPointAt(0)).toBe(100);
+      expect(boilingPointAt(2400)).toBe(92);
+    });
+  });
 });
\ No newline at end of file
@@ -0,0 +1,37 @@
+import { mineralRecipe } from '../waterChemistry';
+
+describe('mineralRecipe', () => {
+  it('should dose Epsom salt for hardness and baking soda for alkalinity', () => {
+    const recipe = mineralRecipe({ ghPpm: 100, khPpm: 0 });
+    expect(recipe.epsomSaltGrams).toBeCloseTo(0.246, 3);
+    expect(recipe.bakingSodaGrams).toBe(0);
+
+    const buffer = mineralRecipe({ ghPpm: 0, khPpm: 100 });
+    expect(buffer.epsomSaltGrams).toBe(0);
+    expect(buffer.bakingSodaGrams).toBeCloseTo(0.168, 3);
+  });
+
+  it('should scale linearly with the targets', () => {
+    const single = mineralRecipe({ ghPpm: 40, khPpm: 20 });
+    const double = mineralRecipe({ ghPpm: 80, khPpm: 40 });
+    expect(double.epsomSaltGrams).toBeCloseTo(single.epsomSaltGrams * 2, 2);
+    expect(double.bakingSodaGrams).toBeCloseTo(single.bakingSodaGrams * 2, 2);
+  });
+
+  it('should estimate the TDS without the Epsom salt water of crystallisation', () => {
+    const recipe = mineralRecipe({ ghPpm: 68, khPpm: 40 });
+    // 82 ppm of MgSO4 and 67 ppm of NaHCO3
+    expect(recipe.tdsPpm).toBe(149);
+    expect(recipe.tdsPpm).toBeLessThan(
+      (recipe.epsomSaltGrams + recipe.bakingSodaGrams) * 1000
+    );
+  });
+
+  it('should treat negative targets as plain distilled water', () => {
+    expect(mineralRecipe({ ghPpm: -10, khPpm: -5 })).toEqual({
+      epsomSaltGrams: 0,
+      bakingSodaGrams: 0,
+      tdsPpm: 0,
+    });
+  });
+});
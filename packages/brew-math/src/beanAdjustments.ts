@@ -0,0 +1,133 @@
+import { GRIND_LEVELS } from './grindLevels';
+
+export type RoastLevel = 'light' | 'medium' | 'medium_dark' | 'dark';
+
+// What the user knows about the beans; the caller works out the age from
+// the roast date so planning stays independent of the clock
+export interface BeanProfile {
+  roastLevel?: RoastLevel;
+  roastAgeDays?: number;
+}
+
+// One change made to the method's defaults, with the reason, so the UI can
+// explain it. Batch scaling uses the same list.
+export type BrewAdjustment =
+  | { kind: 'temperature'; deltaC: number; reason: string }
+  | { kind: 'grind'; from: string; to: string; reason: string }
+  | { kind: 'bloom'; extraMl: number; extraSec: number; reason: string }
+  | { kind: 'ratio'; from: number; to: number; reason: string }
+  | { kind: 'bypass'; fromMl: number; toMl: number; reason: string };
+
+const ROAST_LABELS: Record<RoastLevel, string> = {
+  light: 'Light roast',
+  medium: 'Medium roast',
+  medium_dark: 'Medium-dark roast',
+  dark: 'Dark roast',
+};
+
+// Lighter roasts are denser and harder to extract, darker ones give up
+// bitterness easily
+const ROAST_TEMP_DELTA: Record<RoastLevel, number> = {
+  light: 2,
+  medium: 0,
+  medium_dark: -2,
+  dark: -4,
+};
+
+// Steps along GRIND_LEVELS; negative is finer
+const ROAST_GRIND_STEPS: Record<RoastLevel, number> = {
+  light: -1,
+  medium: 0,
+  medium_dark: 0,
+  dark: 1,
+};
+
+// Beans younger than this are still degassing; a bigger, longer bloom lets
+// the CO2 out before the main pours
+const FRESH_BEAN_DAYS = 5;
+const FRESH_BLOOM_SCALE = 1.5;
+const FRESH_BLOOM_EXTRA_SEC = 15;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export const roastAgeDays = (roastDate: Date, now: Date = new Date()): number =>
+  Math.max(0, Math.floor((now.getTime() - roastDate.getTime()) / DAY_MS));
+
+// Moves a descriptive grind along GRIND_LEVELS; free text is left alone
+export const shiftGrind = (grind: string, steps: number): string => {
+  const index = GRIND_LEVELS.findIndex(
+    (level) => level.toLowerCase() === grind.trim().toLowerCase()
+  );
+  if (index === -1 || steps === 0) {
+    return grind;
+  }
+  const shifted = Math.min(Math.max(index + steps, 0), GRIND_LEVELS.length - 1);
+  return GRIND_LEVELS[shifted];
+};
+
+export function adjustForRoast(
+  bean: BeanProfile | undefined,
+  { kind, tempC, grind }: { kind?: string; tempC: number; grind: string }
+): { tempC: number; grind: string; adjustments: BrewAdjustment[] } {
+  if (!bean?.roastLevel) {
+    return { tempC, grind, adjustments: [] };
+  }
+
+  const reason = ROAST_LABELS[bean.roastLevel];
+  const adjustments: BrewAdjustment[] = [];
+
+  // Cold brew steeps at room temperature whatever the roast
+  const deltaC = kind === 'COLD_BREW' ? 0 : ROAST_TEMP_DELTA[bean.roastLevel];
+  if (deltaC !== 0) {
+    adjustments.push({ kind: 'temperature', deltaC, reason });
+  }
+
+  const adjustedGrind = shiftGrind(grind, ROAST_GRIND_STEPS[bean.roastLevel]);
+  if (adjustedGrind !== grind) {
+    adjustments.push({ kind: 'grind', from: grind, to: adjustedGrind, reason });
+  }
+
+  return { tempC: tempC + deltaC, grind: adjustedGrind, adjustments };
+}
+
+export function adjustBloomForAge(
+  bean: BeanProfile | undefined,
+  bloomMl: number
+): { bloomMl: number; extraSec: number; adjustments: BrewAdjustment[] } {
+  const age = bean?.roastAgeDays;
+  if (age === undefined || age >= FRESH_BEAN_DAYS) {
+    return { bloomMl, extraSec: 0, adjustments: [] };
+  }
+
+  const freshBloomMl = bloomMl * FRESH_BLOOM_SCALE;
+  return {
+    bloomMl: freshBloomMl,
+    extraSec: FRESH_BLOOM_EXTRA_SEC,
+    adjustments: [
+      {
+        kind: 'bloom',
+        extraMl: Math.round(freshBloomMl) - Math.round(bloomMl),
+        extraSec: FRESH_BLOOM_EXTRA_SEC,
+        reason:
+          age === 0
+            ? 'Roasted today'
+            : `Roasted ${age} day${age === 1 ? '' : 's'} ago`,
+      },
+    ],
+  };
+}
+
+// Bloom changes are already in the pours, a batch's ratio change is in
+// the dose and a capped bypass is in the water, so those are explained even
+// when recommendations are off
+export const shownAdjustments = (
+  adjustments: BrewAdjustment[],
+  showRecommendations: boolean
+): BrewAdjustment[] =>
+  adjustments.filter(
+    (adjustment) =>
+      showRecommendations ||
+      adjustment.kind === 'bloom' ||
+      adjustment.kind === 'ratio' ||
+      adjustment.kind === 'bypass'
+  );
@@ -0,0 +1,579 @@
+import {
+  RECIPE_VARIANTS,
+  RecipeVariantKey,
+  RecipeVariantOptions,
+} from './recipeVariants';
+import {
+  BeanProfile,
+  BrewAdjustment,
+  adjustBloomForAge,
+  adjustForRoast,
+  shiftGrind,
+} from './beanAdjustments';
+
+export type MethodKey =
+  | 'v60'
+  | 'chemex'
+  | 'aeropress'
+  | 'french_press'
+  | 'moka'
+  | 'cold_brew'
+  | 'espresso';
+
+export type MethodKind = 'STANDARD' | 'COLD_BREW' | 'ESPRESSO';
+
+// Cold brew steeps as a concentrate at `concentrateRatio` (coffee to
+// concentrate yield) and is diluted to the plan's ratio before serving
+export interface ColdBrewProfile {
+  steepHours: number;
+  concentrateRatio: number;
+}
+
+// Espresso is dialed in by shot time; preinfusion and pressure are notes
+// for machines that can control them
+export interface EspressoProfile {
+  shotTimeMinSec: number;
+  shotTimeMaxSec: number;
+  preinfusionSec?: number;
+  pressureBar?: number;
+}
+
+export interface BrewMethod {
+  key: string; // a MethodKey for the built-in catalog, anything for custom methods
+  defaultRatio: number;
+  bloom: boolean;
+  pours: number;
+  kind?: MethodKind;
+  coldBrew?: ColdBrewProfile;
+  espresso?: EspressoProfile;
+  schedule?: PourTemplate;
+  // Recommendation overrides, required for custom methods
+  tempC?: number;
+  grind?: string;
+  filter?: string;
+  capacityMl?: number; // largest yield one brew can make
+}
+
+// Bloom volume is `multiplier` × coffee grams, clamped to [minMl, maxMl]
+export interface BloomRule {
+  multiplier: number;
+  minMl: number;
+  maxMl: number;
+}
+
+export interface PourTemplateStep {
+  label: string;
+  atSec: number;
+  share: number; // fraction of the water left after the bloom
+}
+
+// Declarative pour schedule stored in BrewMethod.presets.schedule
+export interface PourTemplate {
+  bloom?: BloomRule;
+  steps: PourTemplateStep[];
+}
+
+export interface PourStep {
+  atSec: number;
+  volumeMl: number;
+  label: string;
+  // Pour window, filled in by planBrew: pour from atSec to endSec at
+  // flowMlPerSec so the scale reads targetCumulativeMl when the pour ends
+  durationSec?: number;
+  endSec?: number;
+  targetCumulativeMl?: number;
+  flowMlPerSec?: number;
+}
+
+export interface ColdBrewPlan {
+  steepHours: number;
+  filterAtSec: number;
+  concentrateMl: number;
+  dilutionMl: number; // water added to the concentrate after filtering
+}
+
+export interface EspressoPlan extends EspressoProfile {
+  beverageGrams: number; // target weight in the cup
+}
+
+export interface BrewPlan {
+  coffeeGrams: number;
+  waterTotalMl: number;
+  yieldTargetMl: number;
+  bloomMl?: number;
+  iceGrams?: number; // flash brew: ice that goes in the server before brewing
+  brewWaterMl?: number; // with bypass: the part of waterTotalMl poured through the bed
+  bypassMl?: number; // added to the brew afterwards, never touches the coffee
+  coldBrew?: ColdBrewPlan;
+  espresso?: EspressoPlan;
+  pours: PourStep[];
+  tempC: number;
+  boilingPointC?: number; // set when tempC was capped to the local boiling point
+  grind: string;
+  filter: string;
+  adjustments: BrewAdjustment[]; // changes made for the bean, in order
+}
+
+const ABS_COEF: Record<MethodKey, number> = {
+  v60: 2.0,
+  chemex: 2.0,
+  aeropress: 1.5,
+  french_press: 2.2,
+  moka: 0.8,
+  cold_brew: 2.0,
+  espresso: 1.0,
+};
+
+const TEMP_RANGES: Record<MethodKey, number> = {
+  v60: 94,
+  chemex: 94,
+  aeropress: 85,
+  french_press: 95,
+  moka: 98,
+  cold_brew: 20,
+  espresso: 93,
+};
+
+const GRIND_SUGGESTIONS: Record<MethodKey, string> = {
+  v60: 'Medium-fine',
+  chemex: 'Medium-coarse',
+  aeropress: 'Medium',
+  french_press: 'Coarse',
+  moka: 'Fine-medium',
+  cold_brew: 'Extra coarse',
+  espresso: 'Fine',
+};
+
+const FILTER_SUGGESTIONS: Record<MethodKey, string> = {
+  v60: 'V60 paper',
+  chemex: 'Chemex paper',
+  aeropress: 'Paper or metal',
+  french_press: 'Metal mesh',
+  moka: 'Basket',
+  cold_brew: 'Paper or cloth',
+  espresso: 'Double basket',
+};
+
+// Target kettle flow in ml/s; immersion brewers and the moka can simply
+// be filled
+const FLOW_RATES: Record<MethodKey, number> = {
+  v60: 5,
+  chemex: 6,
+  aeropress: 8,
+  french_press: 10,
+  moka: 10,
+  cold_brew: 10,
+  espresso: 2,
+};
+
+// Largest yield one brew makes: a V60-02, an 8-cup Chemex, a 1 l press
+const CAPACITY_ML: Record<MethodKey, number> = {
+  v60: 700,
+  chemex: 1200,
+  aeropress: 250,
+  french_press: 1000,
+  moka: 300,
+  cold_brew: 2000,
+  espresso: 60,
+};
+
+// Fallbacks for custom methods that have no entry in the tables above
+const CUSTOM_DEFAULTS = {
+  absorption: 2.0,
+  tempC: 94,
+  grind: 'Medium',
+  filter: 'Paper',
+  flowMlPerSec: 6,
+};
+
+const COLD_BREW_DEFAULTS: ColdBrewProfile = {
+  steepHours: 16,
+  concentrateRatio: 5,
+};
+
+const ESPRESSO_DEFAULTS: EspressoProfile = {
+  shotTimeMinSec: 25,
+  shotTimeMaxSec: 32,
+};
+
+// Espresso cups are counted in double shots rather than the user's cup size
+const ESPRESSO_SHOT_GRAMS = 36;
+
+// Share of the yield that goes into the server as ice for flash brews
+const ICE_SHARE = 0.4;
+
+// Ice and bypass together; most of the drink still has to come through
+// the bed
+const MAX_UNBREWED_SHARE = 0.6;
+
+// Batch brews this big get a tighter ratio, a coarser grind and a bloom
+// that grows with the bed instead of stopping at the method's cap
+const LARGE_BREW_ML = 1000;
+const BATCH_RATIO_STEP = 1;
+const BATCH_MIN_RATIO = 12;
+const BATCH_BLOOM_EXTRA_SEC = 15;
+
+const isMethodKey = (key: string): key is MethodKey => key in ABS_COEF;
+
+export const absorptionFor = (methodKey: string): number =>
+  isMethodKey(methodKey) ? ABS_COEF[methodKey] : CUSTOM_DEFAULTS.absorption;
+
+export const flowRateFor = (methodKey: string): number =>
+  isMethodKey(methodKey) ? FLOW_RATES[methodKey] : CUSTOM_DEFAULTS.flowMlPerSec;
+
+// Custom methods without a capacity are never split
+export const capacityFor = (method: BrewMethod): number | undefined =>
+  method.capacityMl ??
+  (isMethodKey(method.key) ? CAPACITY_ML[method.key] : undefined);
+
+// A cup of espresso is a double shot by weight
+export const yieldForCups = (
+  method: BrewMethod,
+  cups: number,
+  cupSizeMl: number
+): number =>
+  cups * (method.kind === 'ESPRESSO' ? ESPRESSO_SHOT_GRAMS : cupSizeMl);
+
+// Water boils about 1 °C lower for every 300 m of altitude
+export const boilingPointAt = (altitudeM: number): number =>
+  +(100 - altitudeM / 300).toFixed(1);
+
+// Off the boil is as hot as it gets up high
+export const cappedTempC = (tempC: number, altitudeM: number): number =>
+  Math.min(tempC, Math.floor(boilingPointAt(altitudeM)));
+
+const DEFAULT_BLOOM: BloomRule = {
+  multiplier: 2,
+  minMl: 30,
+  maxMl: 60,
+};
+
+// Gives each pour a window at the target flow rate, cut short so it never
+// runs into the next pour. Steps that already carry a duration keep it.
+export function withPourWindows(
+  pours: PourStep[],
+  flowMlPerSec: number
+): PourStep[] {
+  let cumulative = 0;
+
+  return pours.map((pour, index) => {
+    const next = pours[index + 1];
+    const room = next ? next.atSec - pour.atSec : Infinity;
+    const durationSec =
+      pour.durationSec ??
+      Math.min(Math.max(1, Math.round(pour.volumeMl / flowMlPerSec)), room);
+    cumulative += pour.volumeMl;
+
+    return {
+      ...pour,
+      durationSec,
+      endSec: pour.atSec + durationSec,
+      targetCumulativeMl: cumulative,
+      flowMlPerSec:
+        durationSec > 0 ? +(pour.volumeMl / durationSec).toFixed(1) : 0,
+    };
+  });
+}
+
+// Espresso steps run into each other and the shot should reach its weight
+// by the end of the time window
+export function espressoWindows(
+  pours: PourStep[],
+  profile: EspressoProfile
+): PourStep[] {
+  return withPourWindows(
+    pours.map((pour, index) => {
+      const next = pours[index + 1];
+      return {
+        ...pour,
+        durationSec: (next ? next.atSec : profile.shotTimeMaxSec) - pour.atSec,
+      };
+    }),
+    flowRateFor('espresso')
+  );
+}
+
+// Even split across `pours` pours a minute apart, starting after the bloom
+export function evenPourTemplate(pours: number, bloom: boolean): PourTemplate {
+  if (pours < 1) {
+    return {
+      steps: [{ label: 'Fill', atSec: bloom ? 45 : 0, share: 1 }],
+    };
+  }
+
+  const labels = ['First', 'Second', 'Third', 'Fourth', 'Fifth'];
+  const start = bloom ? 45 : 0;
+  return {
+    steps: Array.from({ length: pours }, (_, i) => ({
+      label: i < labels.length ? `${labels[i]} pour` : `Pour ${i + 1}`,
+      atSec: start + i * 60,
+      share: +(1 / pours).toFixed(4),
+    })),
+  };
+}
+
+export function planBrew({
+  method,
+  cups,
+  cupSizeMl,
+  altitudeM,
+  ratio,
+  targetYieldMl,
+  targetBeverageGrams,
+  coffeeGrams,
+  variant,
+  iced,
+  bypassPercent,
+  bypassMl,
+  bean,
+  batch,
+}: {
+  method: BrewMethod;
+  cups?: number; // one cup unless a yield or dose is given
+  cupSizeMl: number;
+  altitudeM?: number;
+  ratio?: number;
+  targetYieldMl?: number;
+  targetBeverageGrams?: number;
+  coffeeGrams?: number; // dose mode: the yield follows from the coffee on hand
+  variant?: { key: RecipeVariantKey; options?: RecipeVariantOptions };
+  iced?: boolean;
+  bypassPercent?: number;
+  bypassMl?: number;
+  bean?: BeanProfile;
+  batch?: boolean; // one brew of a batch; large ones are scaled
+}): BrewPlan {
+  const baseRatio = ratio ?? method.defaultRatio;
+  // For espresso the yield is the beverage weight in grams. Given a dose,
+  // the ratio sets the yield and the water follows with absorption as usual.
+  const yieldTargetMl = Math.round(
+    coffeeGrams !== undefined
+      ? coffeeGrams * baseRatio
+      : (targetBeverageGrams ??
+          targetYieldMl ??
+          yieldForCups(method, cups ?? 1, cupSizeMl))
+  );
+  const largeBatch =
+    batch === true &&
+    (method.kind ?? 'STANDARD') === 'STANDARD' &&
+    coffeeGrams === undefined &&
+    yieldTargetMl >= LARGE_BREW_ML;
+  const R = largeBatch
+    ? Math.max(
+        baseRatio - BATCH_RATIO_STEP,
+        Math.min(baseRatio, BATCH_MIN_RATIO)
+      )
+    : baseRatio;
+  const coffee = coffeeGrams ?? +(yieldTargetMl / R).toFixed(1);
+  const builtIn = isMethodKey(method.key) ? method.key : null;
+  const absCoef = absorptionFor(method.key);
+  const flowRate = flowRateFor(method.key);
+  const absorption = +(coffee * absCoef).toFixed(0);
+  const roast = adjustForRoast(bean, {
+    kind: method.kind,
+    tempC:
+      method.tempC ?? (builtIn ? TEMP_RANGES[builtIn] : CUSTOM_DEFAULTS.tempC),
+    grind:
+      method.grind ??
+      (builtIn ? GRIND_SUGGESTIONS[builtIn] : CUSTOM_DEFAULTS.grind),
+  });
+  const idealTempC = roast.tempC;
+  const boilingPoint = boilingPointAt(altitudeM ?? 0);
+  const adjustments = [...roast.adjustments];
+  const grind = largeBatch ? shiftGrind(roast.grind, 1) : roast.grind;
+
+  if (R !== baseRatio) {
+    adjustments.push({
+      kind: 'ratio',
+      from: baseRatio,
+      to: R,
+      reason: 'Large batch',
+    });
+  }
+  if (grind !== roast.grind) {
+    adjustments.push({
+      kind: 'grind',
+      from: roast.grind,
+      to: grind,
+      reason: 'Large batch',
+    });
+  }
+
+  const recommendations = {
+    tempC: cappedTempC(idealTempC, altitudeM ?? 0),
+    boilingPointC: idealTempC > boilingPoint ? boilingPoint : undefined,
+    grind,
+    filter:
+      method.filter ??
+      (builtIn ? FILTER_SUGGESTIONS[builtIn] : CUSTOM_DEFAULTS.filter),
+  };
+
+  // Cold brew only steeps the concentrate; the rest of the yield is
+  // dilution water added after filtering
+  if (method.kind === 'COLD_BREW') {
+    const profile = method.coldBrew ?? COLD_BREW_DEFAULTS;
+    const concentrateMl = Math.min(
+      Math.round(coffee * profile.concentrateRatio),
+      yieldTargetMl
+    );
+    const brewWater = concentrateMl + absorption;
+
+    return {
+      coffeeGrams: coffee,
+      waterTotalMl: brewWater,
+      yieldTargetMl,
+      coldBrew: {
+        steepHours: profile.steepHours,
+        filterAtSec: Math.round(profile.steepHours * 3600),
+        concentrateMl,
+        dilutionMl: yieldTargetMl - concentrateMl,
+      },
+      pours: withPourWindows(
+        [{ atSec: 0, volumeMl: brewWater, label: 'Add water & start steep' }],
+        flowRate
+      ),
+      ...recommendations,
+      adjustments,
+    };
+  }
+
+  // The machine meters the water, so the plan is the dose, the beverage
+  // weight to stop at and the time window that weight should land in
+  if (method.kind === 'ESPRESSO') {
+    const profile = method.espresso ?? ESPRESSO_DEFAULTS;
+    const pours: PourStep[] = [];
+
+    if (profile.preinfusionSec) {
+      pours.push({ atSec: 0, volumeMl: 0, label: 'Preinfusion' });
+    }
+    pours.push({
+      atSec: profile.preinfusionSec ?? 0,
+      volumeMl: yieldTargetMl,
+      label: 'Pull shot',
+    });
+
+    return {
+      coffeeGrams: coffee,
+      waterTotalMl: yieldTargetMl + absorption,
+      yieldTargetMl,
+      espresso: { ...profile, beverageGrams: yieldTargetMl },
+      pours: espressoWindows(pours, profile),
+      ...recommendations,
+      adjustments,
+    };
+  }
+
+  // Ice replaces part of the hot water; the hot water brews at a stronger
+  // effective ratio and the melt brings the cup back to the target
+  const iceGrams = iced ? Math.round(yieldTargetMl * ICE_SHARE) : undefined;
+
+  // Bypass is added after brewing, so it is taken out of the brew water and
+  // absorbs nothing. With ice it only gets what the ice leaves of the cap.
+  const requestedBypass = Math.round(
+    bypassMl ?? (yieldTargetMl * (bypassPercent ?? 0)) / 100
+  );
+  const bypass = Math.min(
+    requestedBypass,
+    Math.round(yieldTargetMl * MAX_UNBREWED_SHARE) - (iceGrams ?? 0)
+  );
+  if (bypass < requestedBypass) {
+    adjustments.push({
+      kind: 'bypass',
+      fromMl: requestedBypass,
+      toMl: bypass,
+      reason: iceGrams ? 'Iced' : 'Most of the cup brews through the bed',
+    });
+  }
+  const waterTotal = yieldTargetMl + absorption - (iceGrams ?? 0) - bypass;
+  const waterSplit =
+    bypass > 0 ? { brewWaterMl: waterTotal, bypassMl: bypass } : {};
+
+  // Named recipes replace the method's own schedule entirely
+  if (variant) {
+    const { bloomMl, pours } = RECIPE_VARIANTS[variant.key].plan({
+      coffeeGrams: coffee,
+      waterTotalMl: waterTotal,
+      options: variant.options ?? {},
+    });
+    return {
+      coffeeGrams: coffee,
+      waterTotalMl: waterTotal + bypass,
+      yieldTargetMl,
+      bloomMl,
+      iceGrams,
+      ...waterSplit,
+      pours: withPourWindows(pours, flowRate),
+      ...recommendations,
+      adjustments,
+    };
+  }
+
+  // Method records saved before schedules existed split the water evenly
+  const template =
+    method.schedule ?? evenPourTemplate(method.pours, method.bloom);
+  const schedule: PourStep[] = [];
+
+  let bloomMl: number | undefined;
+  let bloomExtraSec = 0;
+
+  if (method.bloom) {
+    const rule = template.bloom ?? DEFAULT_BLOOM;
+    const ruleBloomMl = Math.min(
+      Math.max(rule.multiplier * coffee, rule.minMl),
+      rule.maxMl
+    );
+    const batchBloomMl = largeBatch
+      ? Math.max(rule.multiplier * coffee, rule.minMl)
+      : ruleBloomMl;
+
+    if (batchBloomMl > ruleBloomMl) {
+      bloomExtraSec += BATCH_BLOOM_EXTRA_SEC;
+      adjustments.push({
+        kind: 'bloom',
+        extraMl: Math.round(batchBloomMl) - Math.round(ruleBloomMl),
+        extraSec: BATCH_BLOOM_EXTRA_SEC,
+        reason: 'Large batch',
+      });
+    }
+
+    // Very fresh beans get a bigger bloom and the pours wait a little longer
+    const fresh = adjustBloomForAge(bean, batchBloomMl);
+    bloomMl = fresh.bloomMl;
+    bloomExtraSec += fresh.extraSec;
+    adjustments.push(...fresh.adjustments);
+    schedule.push({
+      atSec: 0,
+      volumeMl: Math.round(bloomMl),
+      label: 'Bloom',
+    });
+  }
+
+  const remaining = waterTotal - Math.round(bloomMl ?? 0);
+  let poured = 0;
+
+  template.steps.forEach((step, index) => {
+    // The last step takes whatever is left so rounding never loses water
+    const volumeMl =
+      index === template.steps.length - 1
+        ? remaining - poured
+        : Math.round(remaining * step.share);
+    poured += volumeMl;
+    schedule.push({
+      atSec: step.atSec + bloomExtraSec,
+      volumeMl,
+      label: step.label,
+    });
+  });
+
+  return {
+    coffeeGrams: coffee,
+    waterTotalMl: waterTotal + bypass,
+    yieldTargetMl,
+    bloomMl,
+    iceGrams,
+    ...waterSplit,
+    pours: withPourWindows(schedule, flowRate),
+    ...recommendations,
+    adjustments,
+  };
+}
@@ -0,0 +1,44 @@
+// Descriptive grind levels, finest first; GRIND_SUGGESTIONS and the method
+// presets use these names
+export const GRIND_LEVELS = [
+  'Extra fine',
+  'Fine',
+  'Fine-medium',
+  'Medium-fine',
+  'Medium',
+  'Medium-coarse',
+  'Coarse',
+  'Extra coarse',
+] as const;
+
+export type GrindLevel = (typeof GRIND_LEVELS)[number];
+
+export type GrinderScale = 'CLICKS' | 'NUMBERS' | 'MICRONS';
+
+export interface GrindRange {
+  min: number;
+  max: number;
+}
+
+// Dial markings go without a unit
+export const SCALE_UNITS: Record<GrinderScale, string> = {
+  CLICKS: 'clicks',
+  NUMBERS: '',
+  MICRONS: 'µm',
+};
+
+export const grindLevelOf = (descriptor: string): GrindLevel | undefined =>
+  GRIND_LEVELS.find(
+    (level) => level.toLowerCase() === descriptor.trim().toLowerCase()
+  );
+
+// "Comandante: 22–25 clicks"
+export const formatGrinderSetting = (
+  grinder: { name: string; scale: GrinderScale },
+  min: number,
+  max: number
+): string => {
+  const range = min === max ? `${min}` : `${min}–${max}`;
+  const unit = SCALE_UNITS[grinder.scale];
+  return `${grinder.name}: ${range}${unit ? ` ${unit}` : ''}`;
+};
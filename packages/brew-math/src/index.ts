@@ -0,0 +1,10 @@
+// Brew math shared by the API and the web app, so the preview and the
+// server's plans always agree
+export * from './brewCalculator';
+export * from './planMethod';
+export * from './beanAdjustments';
+export * from './recipeVariants';
+export * from './strength';
+export * from './grindLevels';
+export * from './units';
+export * from './waterChemistry';
@@ -0,0 +1,52 @@
+import {
+  BrewMethod,
+  ColdBrewProfile,
+  EspressoProfile,
+  MethodKind,
+  PourTemplate,
+} from './brewCalculator';
+
+// A brew method as the API stores and serves it. The recommendations sit in
+// `presets`; the schedule and the cold brew and espresso profiles are passed
+// in already checked.
+export interface MethodSource {
+  key: string;
+  defaultRatio: number;
+  bloom: boolean;
+  pours: number;
+  kind?: MethodKind;
+  presets?: unknown;
+  schedule?: PourTemplate | null;
+  coldBrew?: ColdBrewProfile | null;
+  espresso?: EspressoProfile | null;
+  capacityMl?: number | null; // served next to the presets, which may be hidden
+}
+
+const numberOf = (value: unknown): number | undefined =>
+  typeof value === 'number' ? value : undefined;
+
+const stringOf = (value: unknown): string | undefined =>
+  typeof value === 'string' ? value : undefined;
+
+// Convert a method record into the shape planBrew expects
+export const toBrewMethod = (method: MethodSource): BrewMethod => {
+  const presets =
+    method.presets && typeof method.presets === 'object'
+      ? (method.presets as Record<string, unknown>)
+      : {};
+
+  return {
+    key: method.key,
+    defaultRatio: method.defaultRatio,
+    bloom: method.bloom,
+    pours: method.pours,
+    kind: method.kind,
+    coldBrew: method.coldBrew ?? undefined,
+    espresso: method.espresso ?? undefined,
+    schedule: method.schedule ?? undefined,
+    tempC: numberOf(presets.tempC),
+    grind: stringOf(presets.grind),
+    filter: stringOf(presets.filter),
+    capacityMl: numberOf(presets.capacityMl) ?? method.capacityMl ?? undefined,
+  };
+};
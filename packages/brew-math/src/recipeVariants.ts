@@ -0,0 +1,111 @@
+import { PourStep } from './brewCalculator';
+
+export type RecipeVariantKey = 'tetsu_4_6' | 'hoffmann_v60';
+export type Sweetness = 'sweet' | 'balanced' | 'bright';
+export type Strength = 'light' | 'medium' | 'strong';
+
+export interface RecipeVariantOptions {
+  sweetness?: Sweetness;
+  strength?: Strength;
+}
+
+export interface VariantPlan {
+  bloomMl?: number;
+  pours: PourStep[];
+}
+
+export interface RecipeVariant {
+  key: RecipeVariantKey;
+  name: string;
+  methods: string[]; // method keys the algorithm is written for
+  plan: (input: {
+    coffeeGrams: number;
+    waterTotalMl: number;
+    options: RecipeVariantOptions;
+  }) => VariantPlan;
+}
+
+// Share of the first 40% that goes into the first pour; a smaller first
+// pour gives a sweeter cup, a larger one a brighter cup
+const SWEETNESS_SPLIT: Record<Sweetness, number> = {
+  sweet: 0.4,
+  balanced: 0.5,
+  bright: 0.6,
+};
+
+// More pours over the last 60% extract more, giving a stronger cup
+const STRENGTH_POURS: Record<Strength, number> = {
+  light: 1,
+  medium: 2,
+  strong: 3,
+};
+
+const FOUR_SIX_INTERVAL_SEC = 45;
+
+const tetsu46: RecipeVariant = {
+  key: 'tetsu_4_6',
+  name: 'Tetsu Kasuya 4:6',
+  methods: ['v60', 'chemex'],
+  plan: ({ waterTotalMl, options }) => {
+    const sweetnessWater = Math.round(waterTotalMl * 0.4);
+    const strengthWater = waterTotalMl - sweetnessWater;
+    const firstPour = Math.round(
+      sweetnessWater * SWEETNESS_SPLIT[options.sweetness ?? 'balanced']
+    );
+    const strengthPours = STRENGTH_POURS[options.strength ?? 'medium'];
+
+    const volumes = [firstPour, sweetnessWater - firstPour];
+    for (let i = 0; i < strengthPours; i++) {
+      // The last pour takes the rounding leftovers
+      volumes.push(
+        i === strengthPours - 1
+          ? strengthWater - Math.round(strengthWater / strengthPours) * i
+          : Math.round(strengthWater / strengthPours)
+      );
+    }
+
+    return {
+      pours: volumes.map((volumeMl, index) => ({
+        atSec: index * FOUR_SIX_INTERVAL_SEC,
+        volumeMl,
+        label:
+          index < 2
+            ? `Sweetness pour ${index + 1}`
+            : `Strength pour ${index - 1}`,
+      })),
+    };
+  },
+};
+
+const hoffmannV60: RecipeVariant = {
+  key: 'hoffmann_v60',
+  name: 'Hoffmann V60',
+  methods: ['v60'],
+  plan: ({ coffeeGrams, waterTotalMl }) => {
+    const bloomMl = Math.round(2 * coffeeGrams);
+    const sixtyPercent = Math.round(waterTotalMl * 0.6);
+
+    return {
+      bloomMl,
+      pours: [
+        { atSec: 0, volumeMl: bloomMl, label: 'Bloom' },
+        { atSec: 45, volumeMl: sixtyPercent - bloomMl, label: 'Pour to 60%' },
+        {
+          atSec: 75,
+          volumeMl: waterTotalMl - sixtyPercent,
+          label: 'Pour to 100%',
+        },
+      ],
+    };
+  },
+};
+
+export const RECIPE_VARIANTS: Record<RecipeVariantKey, RecipeVariant> = {
+  tetsu_4_6: tetsu46,
+  hoffmann_v60: hoffmannV60,
+};
+
+export const variantsForMethod = (methodKey: string) =>
+  Object.values(RECIPE_VARIANTS)
+    .filter(variant => variant.methods.includes(methodKey))
+    .map(({ key, name }) => ({ key, name }));
@@ -0,0 +1,62 @@
+import { BrewMethod, absorptionFor, yieldForCups } from './brewCalculator';
+
+// Middle of the SCA's 18–22% ideal when the user has no refractometer
+// history to go on
+export const DEFAULT_EXTRACTION_YIELD = 20;
+
+export interface StrengthTarget {
+  tdsPercent: number;
+  extractionYieldPercent?: number;
+}
+
+export interface StrengthPlan {
+  ratio: number; // coffee to final yield, like every other ratio in the app
+  coffeeGrams: number;
+  waterMl: number;
+  yieldMl: number;
+  tdsPercent: number;
+  extractionYieldPercent: number;
+}
+
+// TDS × beverage = extraction yield × dose, so the beverage is EY / TDS
+// times the dose. Rounded to the ratio slider's finest step.
+export const ratioForStrength = ({
+  tdsPercent,
+  extractionYieldPercent = DEFAULT_EXTRACTION_YIELD,
+}: StrengthTarget): number => +(extractionYieldPercent / tdsPercent).toFixed(1);
+
+// The ratio, dose and water that land a brew on the target strength. The
+// grounds hold back their absorption on top of the beverage.
+export function solveForStrength({
+  method,
+  target,
+  cups,
+  cupSizeMl,
+  targetYieldMl,
+  coffeeGrams,
+}: {
+  method: BrewMethod;
+  target: StrengthTarget;
+  cups?: number;
+  cupSizeMl: number;
+  targetYieldMl?: number;
+  coffeeGrams?: number; // dose mode: the yield follows from the coffee on hand
+}): StrengthPlan {
+  const ratio = ratioForStrength(target);
+  const yieldMl = Math.round(
+    coffeeGrams !== undefined
+      ? coffeeGrams * ratio
+      : (targetYieldMl ?? yieldForCups(method, cups ?? 1, cupSizeMl))
+  );
+  const coffee = coffeeGrams ?? +(yieldMl / ratio).toFixed(1);
+
+  return {
+    ratio,
+    coffeeGrams: coffee,
+    waterMl: Math.round(yieldMl + coffee * absorptionFor(method.key)),
+    yieldMl,
+    tdsPercent: target.tdsPercent,
+    extractionYieldPercent:
+      target.extractionYieldPercent ?? DEFAULT_EXTRACTION_YIELD,
+  };
+}
@@ -0,0 +1,29 @@
+import { PourTemplate } from '../../brewCalculator';
+
+// Mirrors the schedules seeded in prisma/seed.ts
+export const V60_TEMPLATE: PourTemplate = {
+  steps: [
+    { label: 'First pour', atSec: 45, share: 0.55 },
+    { label: 'Second pour', atSec: 105, share: 0.45 },
+  ],
+};
+
+export const CHEMEX_TEMPLATE: PourTemplate = {
+  steps: [
+    { label: 'First pour', atSec: 45, share: 0.4 },
+    { label: 'Second pour', atSec: 105, share: 0.3 },
+    { label: 'Third pour', atSec: 165, share: 0.3 },
+  ],
+};
+
+export const AEROPRESS_TEMPLATE: PourTemplate = {
+  steps: [{ label: 'Fill & steep', atSec: 45, share: 1 }],
+};
+
+export const FRENCH_PRESS_TEMPLATE: PourTemplate = {
+  steps: [{ label: 'Fill', atSec: 0, share: 1 }],
+};
+
+export const MOKA_TEMPLATE: PourTemplate = {
+  steps: [{ label: 'Assemble & heat', atSec: 0, share: 1 }],
+};
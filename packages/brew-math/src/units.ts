@@ -1,4 +1,9 @@
-import { UserSettings } from './api';
+// The parts of the user's settings that decide how amounts are shown
+export interface UnitSettings {
+  units: 'METRIC' | 'IMPERIAL';
+  tempUnit: 'C' | 'F';
+  waterUnitPreference?: 'ml' | 'g';
+}
 
 // Weight conversions
 export const gToOz = (g: number): number => +(g / 28.3495).toFixed(2);
@@ -13,14 +18,14 @@ export const cToF = (c: number): number => Math.round(c * 9/5 + 32);
 export const fToC = (f: number): number => Math.round((f - 32) * 5/9);
 
 // Format functions that respect user settings
-export const formatWeight = (grams: number, settings: UserSettings): string => {
+export const formatWeight = (grams: number, settings: UnitSettings): string => {
   if (settings.units === 'IMPERIAL') {
     return `${gToOz(grams)} oz`;
   }
   return `${grams} g`;
 };
 
-export const formatVolume = (ml: number, settings: UserSettings): string => {
+export const formatVolume = (ml: number, settings: UnitSettings): string => {
   // Check if user prefers to see water in grams
   if (settings.waterUnitPreference === 'g') {
     return `${ml} g`; // 1ml water ≈ 1g
@@ -32,7 +37,7 @@ export const formatVolume = (ml: number, settings: UserSettings): string => {
   return `${ml} ml`;
 };
 
-export const formatTemperature = (celsius: number, settings: UserSettings): string => {
+export const formatTemperature = (celsius: number, settings: UnitSettings): string => {
   if (settings.tempUnit === 'F') {
     return `${cToF(celsius)}°F`;
   }
@@ -40,7 +45,7 @@ export const formatTemperature = (celsius: number, settings: UserSettings): stri
 };
 
 // Parse functions for user input (converts back to metric for storage)
-export const parseWeight = (value: string, settings: UserSettings): number => {
+export const parseWeight = (value: string, settings: UnitSettings): number => {
   const num = parseFloat(value);
   if (isNaN(num)) return 0;
   
@@ -50,7 +55,7 @@ export const parseWeight = (value: string, settings: UserSettings): number => {
   return num;
 };
 
-export const parseVolume = (value: string, settings: UserSettings): number => {
+export const parseVolume = (value: string, settings: UnitSettings): number => {
   const num = parseFloat(value);
   if (isNaN(num)) return 0;
   
@@ -65,7 +70,7 @@ export const parseVolume = (value: string, settings: UserSettings): number => {
   return num;
 };
 
-export const parseTemperature = (value: string, settings: UserSettings): number => {
+export const parseTemperature = (value: string, settings: UnitSettings): number => {
   const num = parseFloat(value);
   if (isNaN(num)) return 0;
   
@@ -76,14 +81,14 @@ export const parseTemperature = (value: string, settings: UserSettings): number
 };
 
 // Display values for input fields (converts from metric storage to user preference)
-export const displayWeight = (grams: number, settings: UserSettings): number => {
+export const displayWeight = (grams: number, settings: UnitSettings): number => {
   if (settings.units === 'IMPERIAL') {
     return gToOz(grams);
   }
   return grams;
 };
 
-export const displayVolume = (ml: number, settings: UserSettings): number => {
+export const displayVolume = (ml: number, settings: UnitSettings): number => {
   // Water preference doesn't affect display value (1ml = 1g)
   if (settings.units === 'IMPERIAL') {
     return mlToOz(ml);
@@ -91,7 +96,7 @@ export const displayVolume = (ml: number, settings: UserSettings): number => {
   return ml;
 };
 
-export const displayTemperature = (celsius: number, settings: UserSettings): number => {
+export const displayTemperature = (celsius: number, settings: UnitSettings): number => {
   if (settings.tempUnit === 'F') {
     return cToF(celsius);
   }
@@ -99,11 +104,11 @@ export const displayTemperature = (celsius: number, settings: UserSettings): num
 };
 
 // Unit labels for UI
-export const getWeightUnit = (settings: UserSettings): string => {
+export const getWeightUnit = (settings: UnitSettings): string => {
   return settings.units === 'IMPERIAL' ? 'oz' : 'g';
 };
 
-export const getVolumeUnit = (settings: UserSettings): string => {
+export const getVolumeUnit = (settings: UnitSettings): string => {
   // Check water unit preference first
   if (settings.waterUnitPreference === 'g') {
     return 'g';
@@ -111,12 +116,12 @@ export const getVolumeUnit = (settings: UserSettings): string => {
   return settings.units === 'IMPERIAL' ? 'fl oz' : 'ml';
 };
 
-export const getTemperatureUnit = (settings: UserSettings): string => {
+export const getTemperatureUnit = (settings: UnitSettings): string => {
   return settings.tempUnit === 'F' ? '°F' : '°C';
 };
 
 // Helper to get cup size in user's preferred units
-export const formatCupSize = (cupSizeMl: number, settings: UserSettings): string => {
+export const formatCupSize = (cupSizeMl: number, settings: UnitSettings): string => {
   if (settings.units === 'IMPERIAL') {
     return `${mlToOz(cupSizeMl)} fl oz`;
   }
@@ -124,18 +129,31 @@ export const formatCupSize = (cupSizeMl: number, settings: UserSettings): string
 };
 
 // Water-specific formatting functions
-export const formatWater = (ml: number, settings: UserSettings): string => {
+export const formatWater = (ml: number, settings: UnitSettings): string => {
   return formatVolume(ml, settings);
 };
 
-export const getWaterUnit = (settings: UserSettings): string => {
+export const getWaterUnit = (settings: UnitSettings): string => {
   return getVolumeUnit(settings);
 };
 
-export const displayWater = (ml: number, settings: UserSettings): number => {
+export const displayWater = (ml: number, settings: UnitSettings): number => {
   return displayVolume(ml, settings);
 };
 
-export const parseWater = (value: string, settings: UserSettings): number => {
+export const parseWater = (value: string, settings: UnitSettings): number => {
   return parseVolume(value, settings);
 };
+
+// Durations: m:ss for brews, h:mm:ss once a cold brew steep passes an hour
+export const formatDuration = (seconds: number): string => {
+  const hours = Math.floor(seconds / 3600);
+  const minutes = Math.floor((seconds % 3600) / 60);
+  const remainingSeconds = seconds % 60;
+  const ss = remainingSeconds.toString().padStart(2, '0');
+
+  if (hours > 0) {
+    return `${hours}:${minutes.toString().padStart(2, '0')}:${ss}`;
+  }
+  return `${minutes}:${ss}`;
+};
@@ -0,0 +1,39 @@
+// Hardness (GH) and alkalinity (KH) are both quoted in ppm as CaCO3, the
+// scale most brewing water guides and test kits use
+const CACO3_G_PER_MOL = 100.09;
+// Epsom salt is MgSO4·7H2O; the water of crystallisation adds weight to the
+// scoop but dissolves into the water rather than the TDS
+const EPSOM_G_PER_MOL = 246.47;
+const MGSO4_G_PER_MOL = 120.37;
+const BAKING_SODA_G_PER_MOL = 84.01;
+
+export interface WaterTarget {
+  ghPpm: number;
+  khPpm: number;
+}
+
+// Grams of each mineral to dissolve in a litre of distilled water
+export interface MineralRecipe {
+  epsomSaltGrams: number;
+  bakingSodaGrams: number;
+  tdsPpm: number; // what a TDS meter should read afterwards, roughly
+}
+
+// mmol per litre to grams per litre
+const gramsOf = (mmol: number, gPerMol: number) =>
+  +((mmol * gPerMol) / 1000).toFixed(3);
+
+export function mineralRecipe({ ghPpm, khPpm }: WaterTarget): MineralRecipe {
+  // One Mg²⁺ counts as one CaCO3 of hardness, while each HCO3⁻ carries half
+  // the alkalinity of a carbonate
+  const magnesiumMmol = Math.max(ghPpm, 0) / CACO3_G_PER_MOL;
+  const bicarbonateMmol = (Math.max(khPpm, 0) / CACO3_G_PER_MOL) * 2;
+
+  return {
+    epsomSaltGrams: gramsOf(magnesiumMmol, EPSOM_G_PER_MOL),
+    bakingSodaGrams: gramsOf(bicarbonateMmol, BAKING_SODA_G_PER_MOL),
+    tdsPpm: Math.round(
+      magnesiumMmol * MGSO4_G_PER_MOL + bicarbonateMmol * BAKING_SODA_G_PER_MOL
+    ),
+  };
+}